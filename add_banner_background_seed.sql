@@ -0,0 +1,5 @@
+-- Record the Flux seed of the background picked among the generated candidates
+ALTER TABLE banners ADD COLUMN background_seed BIGINT DEFAULT NULL;
+
+-- Add comment for documentation
+COMMENT ON COLUMN banners.background_seed IS 'Flux seed of the chosen background; with background_prompt it reproduces the same image';
@@ -0,0 +1,4 @@
+-- Allow flattened banner exports (PNG, JPG, WebP) in the banners bucket
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY['image/png', 'image/jpeg', 'image/jpg', 'image/webp']
+WHERE id = 'banners';
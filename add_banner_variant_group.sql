@@ -0,0 +1,7 @@
+-- Link format variants (desktop, mobile, square, story, email) generated from one composition
+ALTER TABLE banners ADD COLUMN variant_group_id UUID DEFAULT NULL;
+
+CREATE INDEX IF NOT EXISTS banners_variant_group_id_idx ON banners (variant_group_id);
+
+-- Add comment for documentation
+COMMENT ON COLUMN banners.variant_group_id IS 'Shared id of banners re-laid out from the same composition; image_type holds the format id';
@@ -0,0 +1,5 @@
+-- Brand font files (WOFF2/TTF) uploaded for a partner, registered with the FontFace API in the editor
+ALTER TABLE partners ADD COLUMN brand_fonts JSONB DEFAULT NULL;
+
+-- Add comment for documentation
+COMMENT ON COLUMN partners.brand_fonts IS 'Array of {family, url, weight, style, format} for fonts stored under partner-assets/fonts';
@@ -0,0 +1,5 @@
+-- Structured brand kit (palette roles, fonts, logo variants, clear space, forbidden colors, tone of voice)
+ALTER TABLE partners ADD COLUMN brand_kit JSONB DEFAULT NULL;
+
+-- Add comment for documentation
+COMMENT ON COLUMN partners.brand_kit IS 'Validated BrandKit (see src/lib/brand-kit.ts); brand_manual_url keeps the CSV export for older clients';
@@ -0,0 +1,82 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+
+/**
+ * Minimal request/response shapes of the Vercel Node runtime used by the AI routes
+ */
+export interface ApiRequest extends IncomingMessage {
+  body?: unknown;
+  query: Record<string, string | string[] | undefined>;
+}
+
+export interface ApiResponse extends ServerResponse {
+  status(code: number): ApiResponse;
+  json(body: unknown): void;
+}
+
+export class ApiError extends Error {
+  constructor(public status: number, message: string, public details?: unknown) {
+    super(message);
+  }
+}
+
+/**
+ * CORS headers plus method check. Returns false when the request was already answered.
+ */
+export function acceptMethod(req: ApiRequest, res: ApiResponse, method: 'GET' | 'POST'): boolean {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', `${method}, OPTIONS`);
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Partner-Id');
+
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return false;
+  }
+
+  if (req.method !== method) {
+    res.status(405).json({ error: 'Method not allowed' });
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * JSON body of a POST request as an object
+ */
+export function readJsonBody(req: ApiRequest): Record<string, unknown> {
+  let body = req.body;
+  if (typeof body === 'string') {
+    try {
+      body = JSON.parse(body || '{}');
+    } catch {
+      throw new ApiError(400, 'Request body is not valid JSON');
+    }
+  }
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new ApiError(400, 'Request body must be a JSON object');
+  }
+  return body as Record<string, unknown>;
+}
+
+export function requireString(body: Record<string, unknown>, field: string): string {
+  const value = body[field];
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new ApiError(400, `Missing or invalid field: ${field}`);
+  }
+  return value;
+}
+
+/**
+ * Answer with { error, details }, the shape the browser gateway client reads
+ */
+export function sendError(res: ApiResponse, error: unknown): void {
+  if (error instanceof ApiError) {
+    res.status(error.status).json({ error: error.message, details: error.details });
+    return;
+  }
+  console.error('AI route error:', error);
+  res.status(500).json({
+    error: 'Internal server error',
+    details: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
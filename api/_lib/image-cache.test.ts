@@ -0,0 +1,39 @@
+import { randomUUID } from 'crypto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createImageEtag, readCachedImage, writeCachedImage } from './image-cache';
+
+const createImage = (text: string) => {
+  const body = Buffer.from(text);
+  return { body, contentType: 'image/png', etag: createImageEtag(body) };
+};
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('image cache', () => {
+  it('returns what it stored for the same URL only', async () => {
+    const url = `https://delivery-eu1.bfl.ai/${randomUUID()}.png`;
+    const image = createImage('png bytes');
+
+    await writeCachedImage(url, image);
+
+    expect(await readCachedImage(url)).toEqual(image);
+    expect(await readCachedImage(`${url}?v=2`)).toBeNull();
+  });
+
+  it('ignores entries older than a day', async () => {
+    vi.useFakeTimers({ now: new Date('2026-10-19T12:00:00Z'), toFake: ['Date'] });
+    const url = `https://delivery-eu1.bfl.ai/${randomUUID()}.png`;
+    await writeCachedImage(url, createImage('old bytes'));
+
+    vi.setSystemTime(new Date('2026-10-20T12:01:00Z'));
+
+    expect(await readCachedImage(url)).toBeNull();
+  });
+
+  it('tags different bytes with different strong ETags', () => {
+    expect(createImageEtag(Buffer.from('a'))).toMatch(/^"[\w-]+"$/);
+    expect(createImageEtag(Buffer.from('a'))).not.toBe(createImageEtag(Buffer.from('b')));
+  });
+});
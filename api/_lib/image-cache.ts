@@ -0,0 +1,89 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { ProxiedImage } from './image-proxy';
+
+/**
+ * On-disk cache of proxied images, keyed by source URL. On Vercel the directory is the instance's
+ * /tmp, so it saves refetches while the instance is warm; the CDN caches in front of it.
+ */
+
+const CACHE_DIR = path.join(os.tmpdir(), 'image-proxy-cache');
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const CACHE_MAX_BYTES = 200 * 1024 * 1024;
+
+export interface CachedImage extends ProxiedImage {
+  etag: string;
+}
+
+interface CacheEntryMeta {
+  contentType: string;
+  etag: string;
+  storedAt: number;
+}
+
+function getEntryPath(url: string): string {
+  return path.join(CACHE_DIR, createHash('sha256').update(url).digest('hex'));
+}
+
+/**
+ * Strong ETag of the image bytes
+ */
+export function createImageEtag(body: Buffer): string {
+  return `"${createHash('sha256').update(body).digest('base64url')}"`;
+}
+
+export async function readCachedImage(url: string): Promise<CachedImage | null> {
+  const entryPath = getEntryPath(url);
+  try {
+    const meta: CacheEntryMeta = JSON.parse(await fs.readFile(`${entryPath}.json`, 'utf8'));
+    if (Date.now() - meta.storedAt > CACHE_TTL_MS) {
+      return null;
+    }
+    const body = await fs.readFile(`${entryPath}.bin`);
+    return { body, contentType: meta.contentType, etag: meta.etag };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Store an image; failures are logged, the cache is only an optimisation
+ */
+export async function writeCachedImage(url: string, image: CachedImage): Promise<void> {
+  const entryPath = getEntryPath(url);
+  const meta: CacheEntryMeta = { contentType: image.contentType, etag: image.etag, storedAt: Date.now() };
+  try {
+    await fs.mkdir(CACHE_DIR, { recursive: true });
+    // Bytes first: an entry counts once its metadata exists
+    await fs.writeFile(`${entryPath}.bin`, image.body);
+    await fs.writeFile(`${entryPath}.json`, JSON.stringify(meta));
+    await pruneCache();
+  } catch (error) {
+    console.warn('Could not cache proxied image:', error);
+  }
+}
+
+/**
+ * Drop expired entries, then the oldest ones until the cache fits its size limit
+ */
+async function pruneCache(): Promise<void> {
+  const files = await fs.readdir(CACHE_DIR);
+  const entries = await Promise.all(
+    files
+      .filter(file => file.endsWith('.bin'))
+      .map(async file => {
+        const stats = await fs.stat(path.join(CACHE_DIR, file));
+        return { entryPath: path.join(CACHE_DIR, file.slice(0, -'.bin'.length)), size: stats.size, storedAt: stats.mtimeMs };
+      })
+  );
+
+  entries.sort((a, b) => a.storedAt - b.storedAt);
+  let totalSize = entries.reduce((total, entry) => total + entry.size, 0);
+  for (const entry of entries) {
+    if (totalSize <= CACHE_MAX_BYTES && Date.now() - entry.storedAt <= CACHE_TTL_MS) continue;
+    await Promise.all([fs.rm(`${entry.entryPath}.json`, { force: true }), fs.rm(`${entry.entryPath}.bin`, { force: true })]);
+    totalSize -= entry.size;
+  }
+}
@@ -0,0 +1,258 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { ApiError } from './http';
+import { isProductionDeployment, readKey } from './providers';
+
+/**
+ * Rules of the image proxy (api/image-proxy.ts): which URLs it may fetch, how large and of what
+ * type an answer may be, and the URL signatures that keep it from being used as an open proxy.
+ */
+
+// Hosts, and their subdomains, images may be fetched from
+const ALLOWED_DOMAINS = [
+  'delivery-eu1.bfl.ai',
+  'delivery-us1.bfl.ai',
+  'api.bfl.ai',
+  'openai.com',
+  'supabase.co'
+];
+
+const IMAGE_PROXY_PATH = '/api/image-proxy';
+const MAX_IMAGE_BYTES = 15 * 1024 * 1024;
+const MAX_REDIRECTS = 3;
+const FETCH_TIMEOUT_MS = 20 * 1000;
+// How long a signed proxy URL is accepted
+const SIGNATURE_TTL_SECONDS = 60 * 60;
+// How long after expiring a signature can still be renewed, so a generation job resumed later keeps its images
+const SIGNATURE_RENEWAL_SECONDS = 7 * 24 * 60 * 60;
+
+// Raster formats told apart by their first bytes; SVG is refused since it can carry scripts
+const IMAGE_FORMATS: { contentType: string; matches: (bytes: Buffer) => boolean }[] = [
+  { contentType: 'image/png', matches: bytes => bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+  { contentType: 'image/jpeg', matches: bytes => bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff },
+  { contentType: 'image/gif', matches: bytes => bytes.subarray(0, 4).toString('latin1') === 'GIF8' },
+  { contentType: 'image/webp', matches: bytes => bytes.subarray(0, 4).toString('latin1') === 'RIFF' && bytes.subarray(8, 12).toString('latin1') === 'WEBP' },
+  { contentType: 'image/avif', matches: bytes => bytes.subarray(4, 12).toString('latin1') === 'ftypavif' },
+];
+
+export interface ProxiedImage {
+  body: Buffer;
+  contentType: string;
+}
+
+/**
+ * Only https URLs on the default port of an allowed host, without credentials
+ */
+export function isAllowedImageUrl(url: URL): boolean {
+  if (url.protocol !== 'https:' || url.port !== '' || url.username || url.password) {
+    return false;
+  }
+  return ALLOWED_DOMAINS.some(domain => url.hostname === domain || url.hostname.endsWith(`.${domain}`));
+}
+
+/**
+ * The url query parameter of a proxy request, checked against the allowlist
+ */
+export function parseImageUrl(value: unknown): URL {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new ApiError(400, 'Missing URL parameter');
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new ApiError(400, 'Invalid URL parameter');
+  }
+
+  if (!isAllowedImageUrl(url)) {
+    throw new ApiError(403, 'Domain not allowed', { hostname: url.hostname });
+  }
+  return url;
+}
+
+function getSigningSecret(): string | undefined {
+  return readKey('IMAGE_PROXY_SECRET');
+}
+
+function createSignature(secret: string, url: string, expires: number): string {
+  return createHmac('sha256', secret).update(`${url}\n${expires}`).digest('base64url');
+}
+
+/**
+ * Images of the app's own Supabase project are stored by the app itself and need no signature
+ */
+function isOwnStorageUrl(url: URL): boolean {
+  const supabaseUrl = readKey('SUPABASE_URL');
+  if (!supabaseUrl) return false;
+  try {
+    return new URL(supabaseUrl).hostname === url.hostname;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Proxy URL of an image for the browser. With IMAGE_PROXY_SECRET set it carries an expiry and an
+ * HMAC of the source URL, so only URLs handed out by the server can be proxied. The URL is
+ * normalized first, the way verifyImageSignature sees it.
+ */
+export function signImageUrl(url: string): string {
+  const normalizedUrl = new URL(url).toString();
+  const params = new URLSearchParams({ url: normalizedUrl });
+  const secret = getSigningSecret();
+  if (secret) {
+    const expires = Math.floor(Date.now() / 1000) + SIGNATURE_TTL_SECONDS;
+    params.set('exp', String(expires));
+    params.set('sig', createSignature(secret, normalizedUrl, expires));
+  }
+  return `${IMAGE_PROXY_PATH}?${params}`;
+}
+
+type SignatureQuery = Record<string, string | string[] | undefined>;
+
+/**
+ * The signing secret, or undefined when the proxy runs open to the allowlist, which production
+ * deployments refuse
+ */
+function requireSigningSecret(): string | undefined {
+  const secret = getSigningSecret();
+  if (!secret && isProductionDeployment()) {
+    console.error('🚨 IMAGE_PROXY_SECRET is not set: refusing to proxy external images as an open proxy');
+    throw new ApiError(503, 'Image proxy is not configured: IMAGE_PROXY_SECRET is missing');
+  }
+  return secret;
+}
+
+/**
+ * Throws unless exp and sig are a signature of the URL by this server, expired no more than
+ * `graceSeconds` ago
+ */
+function checkSignature(secret: string, url: URL, { exp, sig }: SignatureQuery, graceSeconds: number): void {
+  if (typeof exp !== 'string' || typeof sig !== 'string') {
+    throw new ApiError(403, 'Missing image signature');
+  }
+
+  const expires = Number(exp);
+  if (!Number.isInteger(expires) || expires + graceSeconds < Date.now() / 1000) {
+    throw new ApiError(403, 'Image signature expired');
+  }
+
+  const expected = Buffer.from(createSignature(secret, url.toString(), expires));
+  const actual = Buffer.from(sig);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new ApiError(403, 'Invalid image signature');
+  }
+}
+
+/**
+ * Throws unless the request carries a valid signature of the URL
+ */
+export function verifyImageSignature(url: URL, query: SignatureQuery): void {
+  if (isOwnStorageUrl(url)) return;
+
+  const secret = requireSigningSecret();
+  if (secret) checkSignature(secret, url, query, 0);
+}
+
+/**
+ * A fresh proxy URL for one this server signed, even if it expired (up to a week ago): only
+ * URLs handed out by the server can be renewed, so the proxy stays closed
+ */
+export function renewImageSignature(url: URL, query: SignatureQuery): string {
+  if (!isOwnStorageUrl(url)) {
+    const secret = requireSigningSecret();
+    if (secret) checkSignature(secret, url, query, SIGNATURE_RENEWAL_SECONDS);
+  }
+  return signImageUrl(url.toString());
+}
+
+/**
+ * A Flux result with a proxy URL added next to its image, for the browser to load it through the proxy
+ */
+export function withImageProxyUrl<T>(data: T): T {
+  const result = (data as { result?: { sample?: unknown } | null } | null)?.result;
+  if (!result || typeof result.sample !== 'string') {
+    return data;
+  }
+  return { ...data, result: { ...result, proxy_url: signImageUrl(result.sample) } };
+}
+
+async function readLimitedBody(response: Response): Promise<Buffer> {
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > MAX_IMAGE_BYTES) {
+      await reader.cancel();
+      throw new ApiError(413, `Image is larger than ${MAX_IMAGE_BYTES / (1024 * 1024)} MB`);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Fetch an image, following redirects only to allowed hosts, up to the size limit.
+ * Resolves with the bytes and the content type of their actual format.
+ */
+export async function fetchImage(url: URL): Promise<ProxiedImage> {
+  let current = url;
+  let response: Response;
+
+  for (let redirects = 0; ; redirects++) {
+    try {
+      response = await fetch(current, {
+        redirect: 'manual',
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (compatible; ImageProxy/1.0)',
+          'Accept': 'image/png,image/jpeg,image/*',
+          'Accept-Encoding': 'identity' // Prevent compression issues
+        }
+      });
+    } catch (error) {
+      throw new ApiError(502, 'Failed to fetch image', error instanceof Error ? error.message : 'Unknown error');
+    }
+
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) break;
+
+    if (redirects >= MAX_REDIRECTS) {
+      throw new ApiError(502, `Image URL redirected more than ${MAX_REDIRECTS} times`);
+    }
+    const next = new URL(location, current);
+    if (!isAllowedImageUrl(next)) {
+      throw new ApiError(403, 'Image URL redirected to a domain that is not allowed', { hostname: next.hostname });
+    }
+    current = next;
+  }
+
+  if (!response.ok) {
+    throw new ApiError(502, `Failed to fetch image: ${response.status} ${response.statusText}`, 'Image may have expired or be inaccessible');
+  }
+
+  const declaredType = response.headers.get('content-type') ?? '';
+  if (!declaredType.startsWith('image/') || declaredType.startsWith('image/svg')) {
+    throw new ApiError(415, 'Invalid image response', { contentType: declaredType || null });
+  }
+
+  const contentLength = Number(response.headers.get('content-length'));
+  if (contentLength > MAX_IMAGE_BYTES) {
+    throw new ApiError(413, `Image is larger than ${MAX_IMAGE_BYTES / (1024 * 1024)} MB`);
+  }
+
+  const body = await readLimitedBody(response);
+  const format = IMAGE_FORMATS.find(candidate => candidate.matches(body));
+  if (!format) {
+    throw new ApiError(415, 'Invalid image response', { contentType: declaredType, details: 'Content is not a supported image format' });
+  }
+
+  return { body, contentType: format.contentType };
+}
@@ -0,0 +1,152 @@
+import OpenAI, { toFile } from 'openai';
+import { ApiError } from './http';
+
+/**
+ * Server-side OpenAI and Flux credentials. The VITE_ names are still read so existing
+ * deployments keep working; they are no longer referenced by the browser bundle.
+ */
+
+const FLUX_API_URL = 'https://api.us1.bfl.ai/v1';
+
+/**
+ * Server setting by name, falling back to its VITE_ variant; `your_...` placeholders count as unset
+ */
+export function readKey(name: string): string | undefined {
+  const value = process.env[name] || process.env[`VITE_${name}`];
+  return value && !value.startsWith('your_') ? value : undefined;
+}
+
+/**
+ * Whether this is a production deployment, where missing security settings are logged as errors
+ */
+export function isProductionDeployment(): boolean {
+  return process.env.VERCEL_ENV === 'production' || (!process.env.VERCEL_ENV && process.env.NODE_ENV === 'production');
+}
+
+export function isOpenAIConfigured(): boolean {
+  return !!readKey('OPENAI_API_KEY');
+}
+
+export function isFluxConfigured(): boolean {
+  return !!readKey('FLUX_API_KEY');
+}
+
+let openai: OpenAI | null = null;
+
+export function getOpenAI(): OpenAI {
+  const apiKey = readKey('OPENAI_API_KEY');
+  if (!apiKey) {
+    throw new ApiError(503, 'OpenAI API key is not configured on the server');
+  }
+  openai ??= new OpenAI({ apiKey });
+  return openai;
+}
+
+export interface FluxTaskRequest {
+  prompt: string;
+  width: number;
+  height: number;
+  prompt_upsampling?: boolean;
+  seed?: number | null;
+  safety_tolerance?: number;
+  output_format?: 'jpeg' | 'png';
+  image_prompt?: string | null;
+}
+
+export interface FluxTask {
+  id: string;
+  polling_url: string;
+}
+
+/**
+ * Ensure dimensions meet Flux API requirements (multiples of 32)
+ */
+export function validateFluxDimensions(width: number, height: number): { width: number; height: number } {
+  return { width: Math.round(width / 32) * 32, height: Math.round(height / 32) * 32 };
+}
+
+/**
+ * Create a Flux 1.1 Pro task. The result is polled by the browser through /api/flux/get_result.
+ */
+export async function createFluxTask(payload: FluxTaskRequest): Promise<FluxTask> {
+  const apiKey = readKey('FLUX_API_KEY');
+  if (!apiKey) {
+    throw new ApiError(503, 'Flux API key is not configured on the server');
+  }
+
+  const response = await fetch(`${FLUX_API_URL}/flux-pro-1.1`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-key': apiKey,
+    },
+    body: JSON.stringify(payload),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    console.error('Flux API error:', response.status, response.statusText, data);
+    throw new ApiError(response.status, `Flux API error: ${response.status} ${response.statusText}`, data);
+  }
+
+  return data as FluxTask;
+}
+
+// Engines the image routes can generate with
+export type ImageProvider = 'flux' | 'openai';
+
+export function readImageProvider(value: unknown): ImageProvider {
+  if (value === undefined || value === null || value === 'flux') return 'flux';
+  if (value === 'openai') return 'openai';
+  throw new ApiError(400, `Unknown image provider: ${String(value)}`);
+}
+
+/**
+ * Split an image given as a data URL or as bare base64 (assumed PNG)
+ */
+export function parseImageData(image: string): { mimeType: string; base64: string } {
+  const match = image.match(/^data:(image\/[a-z+.-]+);base64,(.*)$/);
+  return match ? { mimeType: match[1], base64: match[2] } : { mimeType: 'image/png', base64: image };
+}
+
+/**
+ * Generate an image with gpt-image-1, editing the reference image when one is given.
+ * Resolves with a PNG data URL; OpenAI answers synchronously, so there is no task to poll.
+ */
+export async function generateOpenAIImage({ prompt, size, referenceImage }: {
+  prompt: string;
+  size: '1024x1024' | '1536x1024';
+  referenceImage?: string;
+}): Promise<string> {
+  const openai = getOpenAI();
+  let response;
+  if (referenceImage) {
+    const { mimeType, base64 } = parseImageData(referenceImage);
+    const image = await toFile(Buffer.from(base64, 'base64'), `reference.${mimeType.split('/')[1]}`, { type: mimeType });
+    response = await openai.images.edit({ model: 'gpt-image-1', image, prompt, size });
+  } else {
+    response = await openai.images.generate({ model: 'gpt-image-1', prompt, size, n: 1 });
+  }
+
+  const base64 = response.data?.[0]?.b64_json;
+  if (!base64) {
+    throw new ApiError(502, 'No image returned by OpenAI');
+  }
+  return `data:image/png;base64,${base64}`;
+}
+
+/**
+ * Parse a JSON answer of the model, tolerating markdown code fences around it
+ */
+export function parseModelJson(content: string | null | undefined): unknown {
+  if (!content) {
+    throw new ApiError(502, 'No response content from OpenAI');
+  }
+  const jsonMatch = content.match(/\{[\s\S]*\}/);
+  try {
+    return JSON.parse(jsonMatch ? jsonMatch[0] : content);
+  } catch (parseError) {
+    console.error('Failed to parse OpenAI response as JSON:', content);
+    throw new ApiError(502, 'Invalid JSON response from OpenAI');
+  }
+}
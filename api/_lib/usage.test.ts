@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ApiRequest } from './http';
+import { estimateCost, getUsageSummary, meterUsage, reserveUsage, type UsageCall } from './usage';
+
+// The ledger client: reserve_usage RPC, entry updates and the summary query
+const ledger = vi.hoisted(() => ({
+  reserve: vi.fn(),
+  update: vi.fn(),
+  rows: [] as Record<string, unknown>[],
+}));
+
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({
+    rpc: (name: string, args: Record<string, unknown>) => ({ single: () => ledger.reserve(name, args) }),
+    from: () => ({
+      update: (values: Record<string, unknown>) => ({ eq: (_column: string, id: string) => ledger.update(id, values) }),
+      select: () => {
+        const query = { gte: () => query, order: () => query, range: async () => ({ data: ledger.rows, error: null }) };
+        return query;
+      },
+    }),
+  }),
+}));
+
+const context = { userId: 'ip:10.0.0.1', partnerId: null };
+const fluxCall: UsageCall = { service: 'flux', task: 'generate-background', model: 'flux-pro-1.1', width: 1440, height: 352 };
+const chatCall: UsageCall = { service: 'openai', task: 'banner-chat', model: 'gpt-4o-mini' };
+const request = { headers: {}, socket: { remoteAddress: '10.0.0.1' } } as unknown as ApiRequest;
+
+beforeEach(() => {
+  vi.stubEnv('SUPABASE_URL', 'https://own-project.supabase.co');
+  vi.stubEnv('SUPABASE_SERVICE_ROLE_KEY', 'service-role-key');
+});
+
+afterEach(() => {
+  ledger.reserve.mockReset();
+  ledger.update.mockReset();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('estimateCost', () => {
+  it('prices images, megapixels and tokens', () => {
+    expect(estimateCost(fluxCall, {})).toBe(0.04);
+    expect(estimateCost({ ...fluxCall, model: 'gpt-image-1', width: 1024, height: 1024 }, {})).toBe(0.041943);
+    expect(estimateCost(chatCall, { inputTokens: 1000, outputTokens: 500 })).toBe(0.00045);
+    expect(estimateCost({ ...chatCall, model: 'unknown-model' }, { inputTokens: 1000 })).toBe(0);
+  });
+});
+
+describe('reserveUsage', () => {
+  it('reserves the call with the configured limit and the cost known up front', async () => {
+    vi.stubEnv('USAGE_DAILY_FLUX_LIMIT', '5');
+    ledger.reserve.mockResolvedValue({ data: { reservation_id: 'entry-1', used: 3 }, error: null });
+
+    expect(await reserveUsage(context, fluxCall)).toEqual({ id: 'entry-1', call: fluxCall });
+    expect(ledger.reserve).toHaveBeenCalledWith('reserve_usage', expect.objectContaining({
+      p_user_id: 'ip:10.0.0.1',
+      p_service: 'flux',
+      p_estimated_cost: 0.04,
+      p_daily_limit: 5,
+    }));
+  });
+
+  it('passes no limit when the quota is turned off, and the default for invalid values', async () => {
+    ledger.reserve.mockResolvedValue({ data: { reservation_id: 'entry-1', used: 1 }, error: null });
+
+    vi.stubEnv('USAGE_DAILY_OPENAI_LIMIT', '0');
+    await reserveUsage(context, chatCall);
+    vi.stubEnv('USAGE_DAILY_OPENAI_LIMIT', '-3');
+    await reserveUsage(context, chatCall);
+
+    expect(ledger.reserve.mock.calls.map(([, args]) => args.p_daily_limit)).toEqual([null, 300]);
+  });
+
+  it('answers 429 with the quota details when the ledger rejects the call', async () => {
+    ledger.reserve.mockResolvedValue({ data: { reservation_id: null, used: 100 }, error: null });
+
+    await expect(reserveUsage(context, fluxCall)).rejects.toMatchObject({
+      status: 429,
+      message: 'Daily Flux quota reached: 100 of 100 calls used today',
+      details: { service: 'flux', used: 100, limit: 100 },
+    });
+  });
+
+  it('refuses the call when the reservation can not be written', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    ledger.reserve.mockResolvedValue({ data: null, error: { message: 'connection refused' } });
+
+    await expect(reserveUsage(context, fluxCall)).rejects.toMatchObject({ status: 503 });
+  });
+});
+
+describe('meterUsage', () => {
+  it('settles the reservation with the token cost of the result', async () => {
+    ledger.reserve.mockResolvedValue({ data: { reservation_id: 'entry-1', used: 1 }, error: null });
+    ledger.update.mockResolvedValue({ error: null });
+
+    const result = await meterUsage(request, chatCall, async () => 'reply', () => ({ inputTokens: 2000, outputTokens: 1000 }));
+
+    expect(result).toBe('reply');
+    expect(ledger.update).toHaveBeenCalledWith('entry-1', expect.objectContaining({ status: 'success', estimated_cost: 0.0009, input_tokens: 2000 }));
+  });
+
+  it('treats a failed ledger write as an error', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    ledger.reserve.mockResolvedValue({ data: { reservation_id: 'entry-1', used: 1 }, error: null });
+    ledger.update.mockResolvedValue({ error: { message: 'timeout' } });
+
+    await expect(meterUsage(request, chatCall, async () => 'reply')).rejects.toMatchObject({ status: 503 });
+  });
+
+  it('records failed calls at no cost and rethrows the provider error', async () => {
+    ledger.reserve.mockResolvedValue({ data: { reservation_id: 'entry-1', used: 1 }, error: null });
+    ledger.update.mockResolvedValue({ error: null });
+
+    await expect(meterUsage(request, fluxCall, async () => {
+      throw new Error('Flux is down');
+    })).rejects.toThrow('Flux is down');
+    expect(ledger.update).toHaveBeenCalledWith('entry-1', expect.objectContaining({ status: 'error', estimated_cost: 0, error: 'Flux is down' }));
+  });
+});
+
+describe('getUsageSummary', () => {
+  it('adds up successful and pending calls by service, day and partner', async () => {
+    const today = new Date().toISOString();
+    ledger.rows = [
+      { service: 'flux', partner_id: 'partner-1', status: 'success', estimated_cost: '0.04', latency_ms: 3000, created_at: today },
+      { service: 'flux', partner_id: 'partner-2', status: 'pending', estimated_cost: '0.04', latency_ms: null, created_at: today },
+      { service: 'openai', partner_id: 'partner-2', status: 'success', estimated_cost: '0.0009', latency_ms: 1000, created_at: today },
+      { service: 'openai', partner_id: null, status: 'error', estimated_cost: '0', latency_ms: 500, created_at: today },
+      { service: 'flux', partner_id: null, status: 'rejected', estimated_cost: '0', latency_ms: null, created_at: today },
+    ];
+
+    const summary = await getUsageSummary(7);
+
+    expect(summary).toMatchObject({ calls: 3, failedCalls: 1, rejectedCalls: 1, averageLatencyMs: 2000 });
+    expect(summary.cost).toBeCloseTo(0.0809);
+    expect(summary.byService.flux).toEqual({ calls: 2, cost: 0.08 });
+    expect(summary.byDay.at(-1)?.calls).toBe(3);
+    expect(summary.byPartner.map(partner => partner.partnerId)).toEqual(['partner-2', 'partner-1']);
+  });
+});
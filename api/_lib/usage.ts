@@ -0,0 +1,373 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { ApiError, type ApiRequest } from './http';
+import { isProductionDeployment, readKey } from './providers';
+
+/**
+ * Usage ledger of the provider calls made by the API routes (usage_ledger table) and the
+ * per-user daily quotas checked against it. There is no login: a user is the client IP address
+ * as the server sees it, never a value the browser chooses.
+ */
+
+export type UsageService = 'openai' | 'flux';
+
+export interface UsageContext {
+  userId: string;
+  // Partner the call was made for, from X-Partner-Id
+  partnerId: string | null;
+}
+
+export interface UsageCall {
+  service: UsageService;
+  task: string;
+  model: string;
+  width?: number;
+  height?: number;
+}
+
+export interface UsageTokens {
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+interface UsageOutcome extends UsageTokens {
+  status: 'success' | 'error';
+  latencyMs?: number;
+  error?: string;
+}
+
+/**
+ * A pending ledger entry made before a call; id is null when there is no ledger
+ */
+export interface UsageReservation {
+  id: string | null;
+  call: UsageCall;
+}
+
+export interface UsageQuota {
+  used: number;
+  // null when the quota is turned off
+  limit: number | null;
+}
+
+export interface UsageTotals {
+  calls: number;
+  cost: number;
+}
+
+export interface UsageSummary extends UsageTotals {
+  failedCalls: number;
+  rejectedCalls: number;
+  averageLatencyMs: number | null;
+  byService: Record<UsageService, UsageTotals>;
+  // One entry per UTC day of the period, oldest first
+  byDay: (UsageTotals & { date: string })[];
+  // Most expensive partners first; calls without a partner are left out
+  byPartner: (UsageTotals & { partnerId: string })[];
+}
+
+const SERVICE_NAMES: Record<UsageService, string> = { openai: 'OpenAI', flux: 'Flux' };
+
+// Calls per user and UTC day, overridden by USAGE_DAILY_OPENAI_LIMIT / USAGE_DAILY_FLUX_LIMIT (0 turns a quota off)
+const DEFAULT_DAILY_LIMITS: Record<UsageService, number> = { openai: 300, flux: 100 };
+
+// Estimated USD prices: per image, per megapixel of output or per token
+const MODEL_PRICES: Record<string, { image?: number; megapixel?: number; inputToken?: number; outputToken?: number }> = {
+  'flux-pro-1.1': { image: 0.04 },
+  'gpt-image-1': { megapixel: 0.04 }, // medium quality
+  'gpt-4o-mini': { inputToken: 0.15 / 1e6, outputToken: 0.6 / 1e6 },
+};
+
+const LEDGER_PAGE_SIZE = 1000;
+
+// Entries counted against the quota: made calls and calls in flight
+const QUOTA_STATUSES = ['success', 'pending'];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+let ledger: SupabaseClient | null | undefined;
+
+function getLedger(): SupabaseClient | null {
+  if (ledger === undefined) {
+    const url = readKey('SUPABASE_URL');
+    // Only the service role may read and write the ledger (see create_usage_ledger.sql); no VITE_ or anon fallback
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+    ledger = url && key && !key.startsWith('your_') ? createClient(url, key, { auth: { persistSession: false } }) : null;
+    if (!ledger) {
+      const message = 'SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY is not configured on the server: usage is not recorded and quotas are off';
+      if (isProductionDeployment()) {
+        console.error(`🚨 ${message}`);
+      } else {
+        console.warn(message);
+      }
+    }
+  }
+  return ledger;
+}
+
+export function isUsageLedgerConfigured(): boolean {
+  return getLedger() !== null;
+}
+
+function readHeader(req: ApiRequest, name: string): string | undefined {
+  const value = req.headers[name];
+  return (Array.isArray(value) ? value[0] : value)?.trim() || undefined;
+}
+
+/**
+ * Who a call is billed to. Forwarding headers are only trusted on Vercel, whose edge sets them
+ * itself; elsewhere the socket address is used. X-Partner-Id only attributes cost, it is not a quota key.
+ */
+export function getUsageContext(req: ApiRequest): UsageContext {
+  const forwardedFor = process.env.VERCEL
+    ? readHeader(req, 'x-vercel-forwarded-for') ?? readHeader(req, 'x-forwarded-for')
+    : undefined;
+  const address = forwardedFor?.split(',')[0].trim() || req.socket?.remoteAddress;
+  const userId = address ? `ip:${address}` : 'anonymous';
+  const partnerId = readHeader(req, 'x-partner-id');
+  return { userId, partnerId: partnerId && UUID_PATTERN.test(partnerId) ? partnerId : null };
+}
+
+function getDailyLimit(service: UsageService): number | null {
+  const configured = Number(process.env[`USAGE_DAILY_${service.toUpperCase()}_LIMIT`] ?? DEFAULT_DAILY_LIMITS[service]);
+  const limit = Number.isFinite(configured) && configured >= 0 ? Math.floor(configured) : DEFAULT_DAILY_LIMITS[service];
+  return limit > 0 ? limit : null;
+}
+
+function getDayStart(): Date {
+  const dayStart = new Date();
+  dayStart.setUTCHours(0, 0, 0, 0);
+  return dayStart;
+}
+
+/**
+ * When the daily quotas start over (next midnight UTC)
+ */
+export function getQuotaResetTime(): string {
+  return new Date(getDayStart().getTime() + 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Successful and in-flight calls of a user to a service today, against their daily limit
+ */
+export async function getDailyUsage(context: UsageContext, service: UsageService): Promise<UsageQuota> {
+  const limit = getDailyLimit(service);
+  const client = getLedger();
+  if (!client) return { used: 0, limit };
+
+  const { count, error } = await client
+    .from('usage_ledger')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', context.userId)
+    .eq('service', service)
+    .in('status', QUOTA_STATUSES)
+    .gte('created_at', getDayStart().toISOString());
+
+  if (error) {
+    // Fail closed: an unreadable ledger must not turn into unlimited calls
+    console.error('🚨 Could not read usage ledger, rejecting the call:', error.message);
+    throw new ApiError(503, 'Usage ledger is unavailable, try again later', error.message);
+  }
+  return { used: count ?? 0, limit };
+}
+
+/**
+ * Estimated USD cost of a call from list prices, rounded to the ledger's precision
+ */
+export function estimateCost(call: UsageCall, tokens: UsageTokens): number {
+  const price = MODEL_PRICES[call.model];
+  if (!price) return 0;
+
+  const megapixels = call.width && call.height ? (call.width * call.height) / 1e6 : 0;
+  const cost = (price.image ?? 0)
+    + (price.megapixel ?? 0) * megapixels
+    + (price.inputToken ?? 0) * (tokens.inputTokens ?? 0)
+    + (price.outputToken ?? 0) * (tokens.outputTokens ?? 0);
+  return Math.round(cost * 1e6) / 1e6;
+}
+
+/**
+ * Reserve a call in the ledger before it is made. The reserve_usage function (create_usage_ledger.sql)
+ * counts and inserts under a per user and service lock, so concurrent calls can't all pass the quota;
+ * over the quota it writes a rejected entry and a 429 ApiError is thrown. A ledger that can't be
+ * written refuses the call, like one that can't be read.
+ */
+export async function reserveUsage(context: UsageContext, call: UsageCall): Promise<UsageReservation> {
+  const client = getLedger();
+  if (!client) return { id: null, call };
+
+  const limit = getDailyLimit(call.service);
+  const { data, error } = await client
+    .rpc('reserve_usage', {
+      p_user_id: context.userId,
+      p_partner_id: context.partnerId,
+      p_service: call.service,
+      p_task: call.task,
+      p_model: call.model,
+      p_width: call.width ?? null,
+      p_height: call.height ?? null,
+      // Until the call is settled, the entry holds the cost known up front (image size, not tokens)
+      p_estimated_cost: estimateCost(call, {}),
+      p_daily_limit: limit,
+      p_day_start: getDayStart().toISOString(),
+    })
+    .single();
+
+  if (error || !data) {
+    console.error('🚨 Could not reserve usage in the ledger, rejecting the call:', error?.message);
+    throw new ApiError(503, 'Usage ledger is unavailable, try again later', error?.message);
+  }
+
+  const { reservation_id: id, used } = data as { reservation_id: string | null; used: number };
+  if (!id) {
+    throw new ApiError(429, `Daily ${SERVICE_NAMES[call.service]} quota reached: ${used} of ${limit} calls used today`, {
+      service: call.service,
+      used,
+      limit,
+      resetsAt: getQuotaResetTime(),
+    });
+  }
+  return { id, call };
+}
+
+/**
+ * Complete a reserved ledger entry with the outcome of its call. A failed write is an error: the
+ * entry stays pending, still counted against the quota with the cost estimated up front.
+ */
+export async function settleUsage(reservation: UsageReservation, outcome: UsageOutcome): Promise<void> {
+  const client = getLedger();
+  if (!client || !reservation.id) return;
+
+  const { error } = await client
+    .from('usage_ledger')
+    .update({
+      input_tokens: outcome.inputTokens ?? null,
+      output_tokens: outcome.outputTokens ?? null,
+      latency_ms: outcome.latencyMs ?? null,
+      estimated_cost: outcome.status === 'success' ? estimateCost(reservation.call, outcome) : 0,
+      status: outcome.status,
+      error: outcome.error ?? null,
+    })
+    .eq('id', reservation.id);
+
+  if (error) {
+    console.error('🚨 Could not record usage:', error.message);
+    throw new ApiError(503, 'Usage ledger is unavailable, the call was not recorded', error.message);
+  }
+}
+
+/**
+ * Run a provider call within the user's quota and settle its ledger entry,
+ * with the token counts read from the result when the model bills by token
+ */
+export async function meterUsage<T>(
+  req: ApiRequest,
+  call: UsageCall,
+  run: () => Promise<T>,
+  getTokens?: (result: T) => UsageTokens
+): Promise<T> {
+  const reservation = await reserveUsage(getUsageContext(req), call);
+
+  const startedAt = Date.now();
+  let result: T;
+  try {
+    result = await run();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    // The provider's error is the one to report; a ledger failure on top of it is only logged by settleUsage
+    await settleUsage(reservation, { status: 'error', latencyMs: Date.now() - startedAt, error: message }).catch(() => {});
+    throw error;
+  }
+  await settleUsage(reservation, { status: 'success', latencyMs: Date.now() - startedAt, ...getTokens?.(result) });
+  return result;
+}
+
+/**
+ * Calls and estimated cost of the last days (today included), for all users. Aggregated here
+ * because only the service role can read the ledger.
+ */
+export async function getUsageSummary(days: number): Promise<UsageSummary> {
+  const since = getDayStart();
+  since.setUTCDate(since.getUTCDate() - (days - 1));
+
+  const summary: UsageSummary = {
+    calls: 0,
+    cost: 0,
+    failedCalls: 0,
+    rejectedCalls: 0,
+    averageLatencyMs: null,
+    byService: { openai: { calls: 0, cost: 0 }, flux: { calls: 0, cost: 0 } },
+    byDay: Array.from({ length: days }, (_, index) => ({
+      date: new Date(since.getTime() + index * 24 * 60 * 60 * 1000).toISOString().slice(0, 10),
+      calls: 0,
+      cost: 0,
+    })),
+    byPartner: [],
+  };
+
+  const client = getLedger();
+  if (!client) return summary;
+
+  const rows: { service: string; partner_id: string | null; status: string; estimated_cost: number; latency_ms: number | null; created_at: string }[] = [];
+  for (let from = 0; ; from += LEDGER_PAGE_SIZE) {
+    const { data, error } = await client
+      .from('usage_ledger')
+      .select('service, partner_id, status, estimated_cost, latency_ms, created_at')
+      .gte('created_at', since.toISOString())
+      .order('created_at', { ascending: true })
+      .range(from, from + LEDGER_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error fetching usage ledger:', error);
+      throw new ApiError(503, 'Usage ledger is unavailable, try again later', error.message);
+    }
+    rows.push(...(data ?? []));
+    if (!data || data.length < LEDGER_PAGE_SIZE) break;
+  }
+
+  const partners = new Map<string, UsageTotals & { partnerId: string }>();
+  let latencyTotal = 0;
+  let latencyCount = 0;
+
+  for (const row of rows) {
+    if (row.status === 'rejected') {
+      summary.rejectedCalls++;
+      continue;
+    }
+    // Pending entries are calls in flight, or whose outcome could not be recorded
+    if (!QUOTA_STATUSES.includes(row.status)) {
+      summary.failedCalls++;
+      continue;
+    }
+
+    const cost = Number(row.estimated_cost) || 0;
+    const totals: UsageTotals[] = [summary];
+    const service = summary.byService[row.service as UsageService];
+    if (service) totals.push(service);
+    const day = summary.byDay.find(entry => entry.date === row.created_at.slice(0, 10));
+    if (day) totals.push(day);
+    if (row.partner_id) {
+      if (!partners.has(row.partner_id)) partners.set(row.partner_id, { partnerId: row.partner_id, calls: 0, cost: 0 });
+      totals.push(partners.get(row.partner_id)!);
+    }
+    for (const total of totals) {
+      total.calls++;
+      total.cost += cost;
+    }
+
+    if (row.latency_ms !== null) {
+      latencyTotal += row.latency_ms;
+      latencyCount++;
+    }
+  }
+
+  summary.averageLatencyMs = latencyCount > 0 ? Math.round(latencyTotal / latencyCount) : null;
+  summary.byPartner = Array.from(partners.values()).sort((a, b) => b.cost - a.cost);
+  return summary;
+}
+
+/**
+ * Token counts of an OpenAI chat completion
+ */
+export function chatCompletionTokens(response: { usage?: { prompt_tokens: number; completion_tokens: number } | null }): UsageTokens {
+  return { inputTokens: response.usage?.prompt_tokens, outputTokens: response.usage?.completion_tokens };
+}
@@ -0,0 +1,89 @@
+import { acceptMethod, ApiError, readJsonBody, requireString, sendError, type ApiRequest, type ApiResponse } from '../_lib/http';
+import { getOpenAI, parseModelJson } from '../_lib/providers';
+import { chatCompletionTokens, meterUsage } from '../_lib/usage';
+
+const PRODUCT_ANALYSIS_PROMPT = `Analyze this product image and extract STYLE INFORMATION for banner background generation.
+
+EXTRACT STYLE DATA (Return as JSON):
+{
+  "productDescription": "Brief product name and category (max 50 words)",
+  "styleInfo": {
+    "dominantColors": ["#hex1", "#hex2", "#hex3"],
+    "accentColors": ["#hex1", "#hex2"],
+    "colorTemperature": "warm|cool|neutral",
+    "materialFinish": "matte|glossy|metallic|fabric|plastic|glass|wood",
+    "visualStyle": "modern|classic|luxury|minimalist|industrial|organic",
+    "backgroundCompatibility": {
+      "recommendedColors": ["#hex1", "#hex2", "#hex3"],
+      "avoidColors": ["#hex1", "#hex2"],
+      "patternSuggestions": ["geometric", "gradient", "solid", "textured"]
+    }
+  }
+}
+
+FOCUS ON:
+- Extract exact HEX colors from the product (#RRGGBB format)
+- Identify complementary colors for background
+- Suggest pattern styles that enhance the product
+- Determine warm/cool temperature
+- Avoid colors that clash with the product
+
+EXAMPLE OUTPUT:
+{
+  "productDescription": "Premium rose gold smartphone with metallic finish",
+  "styleInfo": {
+    "dominantColors": ["#E8B4A0", "#D4A574", "#C19A6B"],
+    "accentColors": ["#F4E4D6", "#8B7355"],
+    "colorTemperature": "warm",
+    "materialFinish": "metallic",
+    "visualStyle": "luxury",
+    "backgroundCompatibility": {
+      "recommendedColors": ["#F5F1EB", "#E6DDD4", "#D2C2B0"],
+      "avoidColors": ["#0066CC", "#FF1493", "#00FF00"],
+      "patternSuggestions": ["gradient", "subtle geometric", "soft texture"]
+    }
+  }
+}
+
+Return ONLY valid JSON.`;
+
+/**
+ * Extract style information from a product image for background generation.
+ * Body: { image: data URL }
+ */
+export default async function handler(req: ApiRequest, res: ApiResponse) {
+  if (!acceptMethod(req, res, 'POST')) return;
+
+  try {
+    const image = requireString(readJsonBody(req), 'image');
+    if (!image.startsWith('data:image/')) {
+      throw new ApiError(400, 'Image must be an image data URL');
+    }
+
+    console.log('🎨 Starting product style analysis with OpenAI Vision...');
+
+    const response = await meterUsage(req, { service: 'openai', task: 'analyze-product', model: 'gpt-4o-mini' }, () => getOpenAI().chat.completions.create({
+      model: "gpt-4o-mini", // Using gpt-4o-mini for vision capabilities
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: PRODUCT_ANALYSIS_PROMPT },
+            { type: "image_url", image_url: { url: image, detail: "high" } }
+          ]
+        }
+      ],
+      max_tokens: 500,
+      temperature: 0.3, // Very low temperature for consistent JSON output
+    }), chatCompletionTokens);
+
+    const analysis = parseModelJson(response.choices[0]?.message?.content) as Record<string, unknown>;
+    if (!analysis.styleInfo || !analysis.productDescription) {
+      throw new ApiError(502, 'Invalid response structure from OpenAI');
+    }
+
+    res.status(200).json(analysis);
+  } catch (error) {
+    sendError(res, error);
+  }
+}
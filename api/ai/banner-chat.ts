@@ -0,0 +1,178 @@
+import { z } from 'zod';
+import type { ChatCompletionMessageParam, ChatCompletionTool } from 'openai/resources/chat/completions';
+import { acceptMethod, ApiError, readJsonBody, sendError, type ApiRequest, type ApiResponse } from '../_lib/http';
+import { getOpenAI } from '../_lib/providers';
+import { chatCompletionTokens, meterUsage } from '../_lib/usage';
+
+const MAX_HISTORY_TURNS = 10;
+// Argument limits, mirrored in the validation of src/lib/banner-chat.ts
+const MIN_RESIZE_SCALE = 0.25;
+const MAX_RESIZE_SCALE = 4;
+const MIN_FONT_SIZE = 6;
+const MAX_FONT_SIZE = 300;
+const MAX_BORDER_RADIUS = 200;
+const HEX_COLOR_PATTERN = '^#[0-9a-fA-F]{6}$';
+
+const chatRequestSchema = z.object({
+  message: z.string().trim().min(1).max(2000),
+  history: z.array(z.object({
+    role: z.enum(['user', 'assistant']),
+    content: z.string(),
+  })).default([]),
+  canvasSize: z.object({ width: z.number(), height: z.number() }),
+  // Summary of the editor assets, as the model should see them
+  assets: z.array(z.record(z.unknown())).max(50),
+  canRegenerateBackground: z.boolean().default(false),
+});
+
+type ChatRequest = z.infer<typeof chatRequestSchema>;
+
+const ASSET_TOOLS: ChatCompletionTool[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'update_asset_style',
+      description: 'Change the style of one asset. Only pass the properties that change.',
+      parameters: {
+        type: 'object',
+        properties: {
+          asset_id: { type: 'string' },
+          font_size: { type: 'number', minimum: MIN_FONT_SIZE, maximum: MAX_FONT_SIZE, description: 'Font size in px (text and CTA)' },
+          color: { type: 'string', pattern: HEX_COLOR_PATTERN, description: 'Text color as #RRGGBB (text and CTA)' },
+          background_color: { type: 'string', pattern: HEX_COLOR_PATTERN, description: 'CTA button fill as #RRGGBB' },
+          font_weight: { type: 'string', enum: ['normal', 'bold'] },
+          text_align: { type: 'string', enum: ['left', 'center', 'right'] },
+          border_radius: { type: 'number', minimum: 0, maximum: MAX_BORDER_RADIUS, description: 'CTA corner radius in px' },
+          hidden: { type: 'boolean' },
+        },
+        required: ['asset_id'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'set_asset_text',
+      description: 'Replace the copy of a text or CTA asset',
+      parameters: {
+        type: 'object',
+        properties: {
+          asset_id: { type: 'string' },
+          text: { type: 'string', minLength: 1 },
+        },
+        required: ['asset_id', 'text'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'move_asset',
+      description: 'Move an asset by an offset in canvas px. Negative dx moves left, negative dy moves up.',
+      parameters: {
+        type: 'object',
+        properties: {
+          asset_id: { type: 'string' },
+          dx: { type: 'number' },
+          dy: { type: 'number' },
+        },
+        required: ['asset_id', 'dx', 'dy'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'resize_asset',
+      description: 'Scale an asset around its center (text and CTA font sizes scale too, a group scales with its contents). 1.2 is "bigger", 0.8 is "smaller".',
+      parameters: {
+        type: 'object',
+        properties: {
+          asset_id: { type: 'string' },
+          scale: { type: 'number', minimum: MIN_RESIZE_SCALE, maximum: MAX_RESIZE_SCALE },
+        },
+        required: ['asset_id', 'scale'],
+      },
+    },
+  },
+];
+
+const BACKGROUND_TOOL: ChatCompletionTool = {
+  type: 'function',
+  function: {
+    name: 'regenerate_background',
+    description: 'Generate a new background image. Use for any change to the background itself (colors, mood, lighting, scenery).',
+    parameters: {
+      type: 'object',
+      properties: {
+        adjustment: {
+          type: 'string',
+          description: 'The visual change in English, as an image prompt instruction, e.g. "warmer palette with golden and orange tones"',
+        },
+      },
+      required: ['adjustment'],
+    },
+  },
+};
+
+function generateSystemPrompt({ canvasSize, assets, canRegenerateBackground }: ChatRequest): string {
+  return `You are the design assistant of a banner editor. Turn the user's request into tool calls that edit the banner.
+
+The canvas is ${canvasSize.width}x${canvasSize.height} px, origin top-left. Assets (x/y is the top-left corner):
+${JSON.stringify(assets, null, 2)}
+
+Rules:
+- Only reference the asset ids above. "CTA" or "button" means the cta asset, "title" the mainText role, "subtitle" or "description" the descriptionText role.
+- Prefer small, proportionate changes unless the user gives exact values: moves of 20-60 px, scales of 1.15-1.3 for "bigger" and 0.75-0.85 for "smaller".
+- Keep assets inside the canvas.
+- Keep copy in the language it is written in unless asked to translate.
+${canRegenerateBackground
+    ? '- Changes to the background image itself must go through regenerate_background; never fake them by recoloring assets.'
+    : '- The background cannot be regenerated for this banner; say so if the user asks for it.'}
+- If the request is unclear or impossible, call no tools and ask a short question.
+Always also answer with one short sentence in Spanish describing what you changed.`;
+}
+
+/**
+ * Turn an editor chat message into tool calls on the banner assets.
+ * Answers with { reply, toolCalls: [{ name, arguments }] }; the editor validates and applies them.
+ */
+export default async function handler(req: ApiRequest, res: ApiResponse) {
+  if (!acceptMethod(req, res, 'POST')) return;
+
+  try {
+    const parsed = chatRequestSchema.safeParse(readJsonBody(req));
+    if (!parsed.success) {
+      throw new ApiError(400, 'Invalid chat request', parsed.error.issues);
+    }
+    const request = parsed.data;
+
+    const messages: ChatCompletionMessageParam[] = [
+      { role: 'system', content: generateSystemPrompt(request) },
+      ...request.history.slice(-MAX_HISTORY_TURNS),
+      { role: 'user', content: request.message },
+    ];
+
+    const response = await meterUsage(req, { service: 'openai', task: 'banner-chat', model: 'gpt-4o-mini' }, () => getOpenAI().chat.completions.create({
+      model: 'gpt-4o-mini',
+      messages,
+      tools: request.canRegenerateBackground ? [...ASSET_TOOLS, BACKGROUND_TOOL] : ASSET_TOOLS,
+      tool_choice: 'auto',
+      temperature: 0.2,
+    }), chatCompletionTokens);
+
+    const choice = response.choices[0]?.message;
+    if (!choice) {
+      throw new ApiError(502, 'No response from OpenAI');
+    }
+
+    res.status(200).json({
+      reply: choice.content?.trim() ?? '',
+      toolCalls: (choice.tool_calls ?? [])
+        .filter(call => call.type === 'function')
+        .map(call => ({ name: call.function.name, arguments: call.function.arguments })),
+    });
+  } catch (error) {
+    sendError(res, error);
+  }
+}
@@ -0,0 +1,52 @@
+import { acceptMethod, ApiError, readJsonBody, requireString, sendError, type ApiRequest, type ApiResponse } from '../_lib/http';
+import { createFluxTask, generateOpenAIImage, readImageProvider, validateFluxDimensions } from '../_lib/providers';
+import { meterUsage } from '../_lib/usage';
+
+// Banner background (Layer A) size
+const BACKGROUND_WIDTH = 1440;
+const BACKGROUND_HEIGHT = 352;
+
+/**
+ * Start a background generation task.
+ * Body: { prompt, seed, provider? }. Flux answers with the task { id, polling_url } to poll;
+ * OpenAI (no seeds, widest size 3:2) answers with the finished { id, image_url }.
+ */
+export default async function handler(req: ApiRequest, res: ApiResponse) {
+  if (!acceptMethod(req, res, 'POST')) return;
+
+  try {
+    const body = readJsonBody(req);
+    const prompt = requireString(body, 'prompt');
+    const provider = readImageProvider(body.provider);
+    const seed = body.seed ?? null;
+    if (seed !== null && !Number.isInteger(seed)) {
+      throw new ApiError(400, 'Missing or invalid field: seed');
+    }
+
+    if (provider === 'openai') {
+      const imageUrl = await meterUsage(
+        req,
+        { service: 'openai', task: 'generate-background', model: 'gpt-image-1', width: 1536, height: 1024 },
+        () => generateOpenAIImage({ prompt, size: '1536x1024' })
+      );
+      res.status(200).json({ id: `openai-${Date.now()}`, image_url: imageUrl });
+      return;
+    }
+
+    const dimensions = validateFluxDimensions(BACKGROUND_WIDTH, BACKGROUND_HEIGHT);
+    const task = await meterUsage(req, { service: 'flux', task: 'generate-background', model: 'flux-pro-1.1', ...dimensions }, () => createFluxTask({
+      prompt,
+      ...dimensions,
+      prompt_upsampling: false,
+      seed: seed as number | null,
+      safety_tolerance: 5,
+      output_format: 'png',
+      image_prompt: null, // No product image for background generation
+    }));
+
+    console.log('🎨 [STEP A] Flux background task created:', task.id);
+    res.status(200).json(task);
+  } catch (error) {
+    sendError(res, error);
+  }
+}
@@ -0,0 +1,108 @@
+import { z } from 'zod';
+import { acceptMethod, ApiError, readJsonBody, sendError, type ApiRequest, type ApiResponse } from '../_lib/http';
+import { getOpenAI, parseModelJson } from '../_lib/providers';
+import { chatCompletionTokens, meterUsage } from '../_lib/usage';
+
+const MAX_OPTIONS = 20;
+
+const TONE_INSTRUCTIONS = {
+  cercano: 'warm and friendly, talking to the reader like a close friend',
+  urgente: 'urgent, creating a sense of limited time or limited stock',
+  premium: 'elegant and aspirational, understated and exclusive',
+  divertido: 'playful and witty, light humor',
+  informativo: 'clear and factual, focused on the concrete benefit',
+} as const;
+
+const limit = z.number().int().min(1).max(200);
+
+const copyRequestSchema = z.object({
+  partnerName: z.string().trim().min(1),
+  benefitsDescription: z.string().nullish(),
+  description: z.string().nullish(),
+  discountPercentage: z.number().min(0).max(100).nullish(),
+  regions: z.array(z.string()).nullish(),
+  language: z.enum(['es', 'pt']),
+  tone: z.enum(['cercano', 'urgente', 'premium', 'divertido', 'informativo']),
+  count: z.number().int().min(1).max(MAX_OPTIONS),
+  // Character limits of the form fields the copies are written for
+  limits: z.object({ mainText: limit, descriptionText: limit, ctaText: limit }),
+});
+
+type CopyRequest = z.infer<typeof copyRequestSchema>;
+
+const copyResponseSchema = z.object({
+  options: z.array(z.object({
+    mainText: z.string().trim().min(1),
+    descriptionText: z.string().trim().min(1),
+    ctaText: z.string().trim().min(1),
+  })),
+});
+
+function getLanguageInstruction(language: CopyRequest['language'], regions?: string[] | null): string {
+  if (language === 'pt') return 'Brazilian Portuguese';
+  return regions?.includes('argentina-uruguay') && !regions.includes('latam')
+    ? 'Rioplatense Spanish (Argentina and Uruguay, use "vos": "comprá", "descubrí")'
+    : 'neutral Latin American Spanish (use "tú")';
+}
+
+function generateCopyPrompt(request: CopyRequest): string {
+  const offer = [
+    request.benefitsDescription && `Benefits: ${request.benefitsDescription}`,
+    request.description && `About the partner: ${request.description}`,
+    request.discountPercentage ? `Discount: ${request.discountPercentage}%` : null,
+  ].filter(Boolean).join('\n');
+
+  return `Write ${request.count} different copy options for a promotional web banner of ${request.partnerName}.
+
+${offer || 'No further details about the offer.'}
+
+Language: ${getLanguageInstruction(request.language, request.regions)}
+Tone: ${TONE_INSTRUCTIONS[request.tone]}
+
+Each option has:
+- mainText: headline, at most ${request.limits.mainText} characters
+- descriptionText: supporting line, at most ${request.limits.descriptionText} characters
+- ctaText: button label, at most ${request.limits.ctaText} characters, an imperative verb
+
+Hard rules:
+- Count characters including spaces; never exceed the limits.
+- ${request.discountPercentage ? `Mention the ${request.discountPercentage}% discount in the headline or the description of most options.` : 'Do not invent discounts or prices.'}
+- Only promise benefits stated above.
+- No emojis, no hashtags, no quotes around the texts.
+- Vary the angle between options.
+
+Answer with JSON only: {"options": [{"mainText": "...", "descriptionText": "...", "ctaText": "..."}]}`;
+}
+
+/**
+ * Write banner copy options (headline, description, CTA) for a partner.
+ * Answers with { options }; options can still exceed the limits and are filtered by the caller.
+ */
+export default async function handler(req: ApiRequest, res: ApiResponse) {
+  if (!acceptMethod(req, res, 'POST')) return;
+
+  try {
+    const parsedRequest = copyRequestSchema.safeParse(readJsonBody(req));
+    if (!parsedRequest.success) {
+      throw new ApiError(400, 'Invalid copy generation request', parsedRequest.error.issues);
+    }
+
+    const response = await meterUsage(req, { service: 'openai', task: 'generate-copy', model: 'gpt-4o-mini' }, () => getOpenAI().chat.completions.create({
+      model: 'gpt-4o-mini',
+      messages: [{ role: 'user', content: generateCopyPrompt(parsedRequest.data) }],
+      response_format: { type: 'json_object' },
+      max_tokens: 1500,
+      temperature: 0.9, // Varied options
+    }), chatCompletionTokens);
+
+    const parsedOptions = copyResponseSchema.safeParse(parseModelJson(response.choices[0]?.message?.content));
+    if (!parsedOptions.success) {
+      console.error('Failed to parse copy options:', parsedOptions.error);
+      throw new ApiError(502, 'Failed to parse copy options from OpenAI');
+    }
+
+    res.status(200).json(parsedOptions.data);
+  } catch (error) {
+    sendError(res, error);
+  }
+}
@@ -0,0 +1,48 @@
+import { acceptMethod, readJsonBody, requireString, sendError, type ApiRequest, type ApiResponse } from '../_lib/http';
+import { createFluxTask, generateOpenAIImage, parseImageData, readImageProvider, validateFluxDimensions } from '../_lib/providers';
+import { meterUsage } from '../_lib/usage';
+
+// Product cutouts are square (1:1)
+const PRODUCT_SIZE = 512;
+
+/**
+ * Start a product cutout task with the product photo as reference.
+ * Body: { prompt, image: data URL or bare base64, provider? }. Flux answers with the task
+ * { id, polling_url } to poll; OpenAI answers with the finished { id, image_url }.
+ */
+export default async function handler(req: ApiRequest, res: ApiResponse) {
+  if (!acceptMethod(req, res, 'POST')) return;
+
+  try {
+    const body = readJsonBody(req);
+    const prompt = requireString(body, 'prompt');
+    const image = requireString(body, 'image');
+    const provider = readImageProvider(body.provider);
+
+    if (provider === 'openai') {
+      const imageUrl = await meterUsage(
+        req,
+        { service: 'openai', task: 'generate-product', model: 'gpt-image-1', width: 1024, height: 1024 },
+        () => generateOpenAIImage({ prompt, size: '1024x1024', referenceImage: image })
+      );
+      res.status(200).json({ id: `openai-${Date.now()}`, image_url: imageUrl });
+      return;
+    }
+
+    const dimensions = validateFluxDimensions(PRODUCT_SIZE, PRODUCT_SIZE);
+    const task = await meterUsage(req, { service: 'flux', task: 'generate-product', model: 'flux-pro-1.1', ...dimensions }, () => createFluxTask({
+      prompt,
+      ...dimensions,
+      prompt_upsampling: false,
+      seed: null,
+      safety_tolerance: 1,
+      output_format: 'png',
+      image_prompt: parseImageData(image).base64, // Use product image as reference
+    }));
+
+    console.log('🔳 [STEP B] Flux product cutout task created:', task.id);
+    res.status(200).json(task);
+  } catch (error) {
+    sendError(res, error);
+  }
+}
@@ -0,0 +1,14 @@
+import { acceptMethod, type ApiRequest, type ApiResponse } from '../_lib/http';
+import { isFluxConfigured, isOpenAIConfigured } from '../_lib/providers';
+
+/**
+ * Which AI providers have a key on the server, so the UI can disable what won't work
+ */
+export default function handler(req: ApiRequest, res: ApiResponse) {
+  if (!acceptMethod(req, res, 'GET')) return;
+
+  res.status(200).json({
+    openai: isOpenAIConfigured(),
+    flux: isFluxConfigured(),
+  });
+}
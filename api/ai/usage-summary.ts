@@ -0,0 +1,26 @@
+import { acceptMethod, ApiError, sendError, type ApiRequest, type ApiResponse } from '../_lib/http';
+import { getUsageSummary, isUsageLedgerConfigured } from '../_lib/usage';
+
+const MAX_SUMMARY_DAYS = 31;
+
+/**
+ * Calls and estimated cost of all users over the last days, for the usage dashboard.
+ * Query: { days? } (1-31, default 7). Answers { recorded, summary }.
+ */
+export default async function handler(req: ApiRequest, res: ApiResponse) {
+  if (!acceptMethod(req, res, 'GET')) return;
+
+  try {
+    const days = req.query.days === undefined ? 7 : Number(req.query.days);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_SUMMARY_DAYS) {
+      throw new ApiError(400, `Missing or invalid field: days (1-${MAX_SUMMARY_DAYS})`);
+    }
+
+    res.status(200).json({
+      recorded: isUsageLedgerConfigured(),
+      summary: await getUsageSummary(days),
+    });
+  } catch (error) {
+    sendError(res, error);
+  }
+}
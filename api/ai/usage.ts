@@ -0,0 +1,23 @@
+import { acceptMethod, sendError, type ApiRequest, type ApiResponse } from '../_lib/http';
+import { getDailyUsage, getQuotaResetTime, getUsageContext, isUsageLedgerConfigured } from '../_lib/usage';
+
+/**
+ * Today's calls of the requesting user against their daily quotas.
+ * Answers { recorded, resetsAt, quotas: { openai: { used, limit }, flux: { used, limit } } }.
+ */
+export default async function handler(req: ApiRequest, res: ApiResponse) {
+  if (!acceptMethod(req, res, 'GET')) return;
+
+  try {
+    const context = getUsageContext(req);
+    const [openai, flux] = await Promise.all([getDailyUsage(context, 'openai'), getDailyUsage(context, 'flux')]);
+
+    res.status(200).json({
+      recorded: isUsageLedgerConfigured(),
+      resetsAt: getQuotaResetTime(),
+      quotas: { openai, flux },
+    });
+  } catch (error) {
+    sendError(res, error);
+  }
+}
@@ -1,8 +1,12 @@
+import { ApiError, sendError } from './_lib/http';
+import { withImageProxyUrl } from './_lib/image-proxy';
+import { getUsageContext, reserveUsage, settleUsage, type UsageCall, type UsageReservation } from './_lib/usage';
+
 export default async function handler(req: any, res: any) {
   // Enable CORS
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, x-key');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, x-key, X-Partner-Id');
 
   // Handle preflight OPTIONS request
   if (req.method === 'OPTIONS') {
@@ -44,6 +48,21 @@ export default async function handler(req: any, res: any) {
   console.log(`Main route proxying request to: ${targetUrl}`);
   console.log(`Method: ${req.method}`);
 
+  // Task creations count against the user's Flux quota and go to the usage ledger; polling is free
+  const usageCall: UsageCall | null = req.method === 'POST' && targetUrl.endsWith('/flux-pro-1.1')
+    ? { service: 'flux', task: 'flux-proxy', model: 'flux-pro-1.1', width: Number(req.body?.width) || undefined, height: Number(req.body?.height) || undefined }
+    : null;
+
+  let reservation: UsageReservation | null = null;
+  if (usageCall) {
+    try {
+      reservation = await reserveUsage(getUsageContext(req), usageCall);
+    } catch (error) {
+      return sendError(res, error);
+    }
+  }
+  const startedAt = Date.now();
+
   try {
     // Prepare headers for the Flux API
     const headers: Record<string, string> = {
@@ -67,6 +86,14 @@ export default async function handler(req: any, res: any) {
     
     // Get the response data
     const data = await response.json();
+
+    if (reservation) {
+      await settleUsage(reservation, {
+        status: response.ok ? 'success' : 'error',
+        latencyMs: Date.now() - startedAt,
+        error: response.ok ? undefined : `${response.status} ${response.statusText}`,
+      });
+    }
     
     if (!response.ok) {
       console.error('Flux API error:', response.status, response.statusText, data);
@@ -78,11 +105,21 @@ export default async function handler(req: any, res: any) {
       });
     }
 
-    // Forward the successful response
-    res.status(response.status).json(data);
+    // Forward the successful response; a finished image gets its proxy URL
+    res.status(response.status).json(withImageProxyUrl(data));
     
   } catch (error) {
+    if (error instanceof ApiError) {
+      return sendError(res, error);
+    }
     console.error('Proxy error:', error);
+    if (reservation) {
+      await settleUsage(reservation, {
+        status: 'error',
+        latencyMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error),
+      }).catch(() => {});
+    }
     res.status(500).json({
       error: 'Internal server error',
       details: error instanceof Error ? error.message : 'Unknown error'
@@ -0,0 +1,22 @@
+import { acceptMethod, readJsonBody, sendError, type ApiRequest, type ApiResponse } from './_lib/http';
+import { parseImageUrl, renewImageSignature } from './_lib/image-proxy';
+
+/**
+ * Renew an image proxy URL this server signed, for generation jobs resumed after it expired.
+ * Body: { url, exp, sig } from the old proxy URL. Answers { proxyUrl } or { error, details }.
+ */
+export default function handler(req: ApiRequest, res: ApiResponse) {
+  if (!acceptMethod(req, res, 'POST')) return;
+
+  try {
+    const body = readJsonBody(req);
+    const url = parseImageUrl(body.url);
+    const proxyUrl = renewImageSignature(url, {
+      exp: typeof body.exp === 'string' ? body.exp : undefined,
+      sig: typeof body.sig === 'string' ? body.sig : undefined,
+    });
+    res.status(200).json({ proxyUrl });
+  } catch (error) {
+    sendError(res, error);
+  }
+}
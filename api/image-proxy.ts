@@ -1,131 +1,52 @@
-module.exports = async function handler(req: any, res: any) {
-  // Enable CORS
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+import { acceptMethod, sendError, type ApiRequest, type ApiResponse } from './_lib/http';
+import { createImageEtag, readCachedImage, writeCachedImage, type CachedImage } from './_lib/image-cache';
+import { fetchImage, parseImageUrl, verifyImageSignature } from './_lib/image-proxy';
 
-  // Handle preflight OPTIONS request
-  if (req.method === 'OPTIONS') {
-    res.status(200).end();
-    return;
-  }
+// An image URL always serves the same bytes: browsers keep it a day, the CDN a week
+const CACHE_CONTROL = 'public, max-age=86400, s-maxage=604800, immutable';
 
-  if (req.method !== 'GET') {
-    return res.status(405).json({ error: 'Method not allowed' });
-  }
+function matchesEtag(ifNoneMatch: string | undefined, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  return ifNoneMatch.split(',').some(tag => {
+    const value = tag.trim();
+    return value === '*' || value === etag || value === `W/${etag}`;
+  });
+}
+
+/**
+ * Serve an image of an allowed host from our origin, so canvases can read it without CORS errors.
+ * Query: { url, exp?, sig? }; exp and sig are required when IMAGE_PROXY_SECRET is set (see _lib/image-proxy.ts).
+ * Answers the image with an ETag (304 on If-None-Match) or { error, details }.
+ */
+export default async function handler(req: ApiRequest, res: ApiResponse) {
+  if (!acceptMethod(req, res, 'GET')) return;
 
   try {
-    const { url } = req.query;
-    
-    if (!url) {
-      return res.status(400).json({ error: 'Missing URL parameter' });
-    }
+    const url = parseImageUrl(req.query.url);
+    verifyImageSignature(url, req.query);
 
-    // Validate that the URL is from allowed domains
-    const allowedDomains = [
-      'delivery-eu1.bfl.ai',
-      'delivery-us1.bfl.ai',
-      'api.bfl.ai',
-      'openai.com',
-      'supabase.co'
-    ];
-    
-    const urlObj = new URL(url as string);
-    const isAllowed = allowedDomains.some(domain => 
-      urlObj.hostname === domain || urlObj.hostname.endsWith(`.${domain}`)
-    );
-    
-    if (!isAllowed) {
-      return res.status(403).json({ error: 'Domain not allowed' });
+    let image: CachedImage | null = await readCachedImage(url.toString());
+    const cacheStatus = image ? 'HIT' : 'MISS';
+    if (!image) {
+      const fetched = await fetchImage(url);
+      image = { ...fetched, etag: createImageEtag(fetched.body) };
+      await writeCachedImage(url.toString(), image);
     }
 
-    console.log('🖼️ Proxying image request to:', url);
-    
-    // Fetch the image with proper headers
-    const imageResponse = await fetch(url as string, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (compatible; ImageProxy/1.0)',
-        'Accept': 'image/png,image/jpeg,image/*,*/*',
-        'Accept-Encoding': 'identity' // Prevent compression issues
-      }
-    });
-    
-    console.log('🖼️ Image response details:', {
-      status: imageResponse.status,
-      statusText: imageResponse.statusText,
-      contentType: imageResponse.headers.get('content-type'),
-      contentLength: imageResponse.headers.get('content-length'),
-      headers: Object.fromEntries(imageResponse.headers.entries())
-    });
-    
-    if (!imageResponse.ok) {
-      console.error('❌ Failed to fetch image:', imageResponse.status, imageResponse.statusText);
-      return res.status(imageResponse.status).json({ 
-        error: `Failed to fetch image: ${imageResponse.status} ${imageResponse.statusText}`,
-        url: url,
-        details: 'Image may have expired or be inaccessible'
-      });
-    }
+    res.setHeader('X-Cache', cacheStatus);
+    res.setHeader('ETag', image.etag);
+    res.setHeader('Cache-Control', CACHE_CONTROL);
+    res.setHeader('X-Content-Type-Options', 'nosniff');
 
-    // Get the image data
-    const imageBuffer = await imageResponse.arrayBuffer();
-    const originalContentType = imageResponse.headers.get('content-type');
-    
-    console.log('🖼️ Image data retrieved:', {
-      bufferSize: imageBuffer.byteLength,
-      originalContentType: originalContentType,
-      isImageType: originalContentType?.startsWith('image/')
-    });
-    
-    // Validate that we got actual image data
-    if (!originalContentType?.startsWith('image/')) {
-      console.error('❌ Response is not an image:', {
-        contentType: originalContentType,
-        size: imageBuffer.byteLength,
-        url: url
-      });
-      
-      // Try to extract error message from HTML response
-      let errorMessage = 'Unknown error';
-      try {
-        const textResponse = new TextDecoder().decode(imageBuffer.slice(0, 1000));
-        if (textResponse.includes('error') || textResponse.includes('expired')) {
-          errorMessage = 'Image URL has expired or is invalid';
-        }
-        console.log('🔍 Response preview:', textResponse.substring(0, 200));
-      } catch (e) {
-        // Ignore decode errors
-      }
-      
-      return res.status(400).json({
-        error: 'Invalid image response',
-        details: errorMessage,
-        contentType: originalContentType,
-        url: url
-      });
+    if (matchesEtag(req.headers['if-none-match'], image.etag)) {
+      res.status(304).end();
+      return;
     }
-    
-    // Force correct content type for images
-    const contentType = originalContentType.startsWith('image/') ? originalContentType : 'image/png';
-    
-    // Set appropriate headers
-    res.setHeader('Content-Type', contentType);
-    res.setHeader('Content-Length', imageBuffer.byteLength);
-    res.setHeader('Cache-Control', 'public, max-age=3600'); // Cache for 1 hour
-    
-    console.log('✅ Serving image:', {
-      finalContentType: contentType,
-      size: imageBuffer.byteLength
-    });
-    
-    // Send the image
-    res.status(200).send(Buffer.from(imageBuffer));
-    
+
+    res.setHeader('Content-Type', image.contentType);
+    res.setHeader('Content-Length', image.body.byteLength);
+    res.status(200).end(image.body);
   } catch (error) {
-    console.error('Image proxy error:', error);
-    res.status(500).json({
-      error: 'Internal server error',
-      details: error instanceof Error ? error.message : 'Unknown error'
-    });
+    sendError(res, error);
   }
-}; 
\ No newline at end of file
+}
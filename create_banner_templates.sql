@@ -0,0 +1,24 @@
+-- Reusable banner layouts: slot geometry and styles saved from a composition
+CREATE TABLE IF NOT EXISTS banner_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  -- NULL for templates shared by every partner
+  partner_id UUID REFERENCES partners(id) ON DELETE CASCADE,
+  canvas_width INTEGER NOT NULL,
+  canvas_height INTEGER NOT NULL,
+  slots JSONB NOT NULL DEFAULT '[]'::jsonb,
+  thumbnail_url TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS banner_templates_partner_id_idx ON banner_templates (partner_id);
+
+ALTER TABLE banner_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on banner_templates" ON banner_templates
+FOR ALL USING (true) WITH CHECK (true);
+
+-- Add comment for documentation
+COMMENT ON TABLE banner_templates IS 'Named layouts applied to banners by slot role (see src/lib/banner-templates.ts)';
+COMMENT ON COLUMN banner_templates.slots IS 'TemplateSlot[]: role, position, size, rotation and text/CTA styles in canvas_width x canvas_height coordinates';
@@ -0,0 +1,26 @@
+-- Banner copies chosen from the AI copywriter, reused per partner
+CREATE TABLE IF NOT EXISTS copy_library (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  partner_id UUID NOT NULL REFERENCES partners(id) ON DELETE CASCADE,
+  language TEXT NOT NULL DEFAULT 'es' CHECK (language IN ('es', 'pt')),
+  tone TEXT,
+  main_text TEXT NOT NULL,
+  description_text TEXT NOT NULL,
+  cta_text TEXT NOT NULL,
+  usage_count INTEGER NOT NULL DEFAULT 0,
+  last_used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (partner_id, main_text, description_text, cta_text)
+);
+
+CREATE INDEX IF NOT EXISTS copy_library_partner_id_idx ON copy_library (partner_id);
+
+ALTER TABLE copy_library ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on copy_library" ON copy_library
+FOR ALL USING (true) WITH CHECK (true);
+
+-- Add comment for documentation
+COMMENT ON TABLE copy_library IS 'Main text, description and CTA combinations picked for banners (see src/lib/copy-library.ts)';
+COMMENT ON COLUMN copy_library.tone IS 'Tone preset the copy was generated with (cercano, urgente, premium, divertido, informativo)';
+COMMENT ON COLUMN copy_library.usage_count IS 'Times the copy was applied to a banner form';
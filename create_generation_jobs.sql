@@ -0,0 +1,33 @@
+-- Banner generation runs persisted step by step so they can resume after a failure or a closed tab
+CREATE TABLE IF NOT EXISTS generation_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  partner_id UUID NOT NULL REFERENCES partners(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'failed', 'completed')),
+  current_step TEXT NOT NULL DEFAULT 'analyze',
+  steps JSONB NOT NULL DEFAULT '{}'::jsonb,
+  request JSONB NOT NULL,
+  source_image_url TEXT,
+  artifacts JSONB NOT NULL DEFAULT '{}'::jsonb,
+  progress INTEGER NOT NULL DEFAULT 0,
+  status_text TEXT,
+  error TEXT,
+  banner_id UUID REFERENCES banners(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS generation_jobs_status_idx ON generation_jobs (status);
+CREATE INDEX IF NOT EXISTS generation_jobs_partner_id_idx ON generation_jobs (partner_id);
+
+ALTER TABLE generation_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on generation_jobs" ON generation_jobs
+FOR ALL USING (true) WITH CHECK (true);
+
+-- Add comment for documentation
+COMMENT ON TABLE generation_jobs IS 'Resumable enhanced banner generation runs (see src/lib/generation-jobs.ts)';
+COMMENT ON COLUMN generation_jobs.steps IS 'Per-step state keyed by step id (analyze, background, product, cutout, pick, save): status, timestamps and error';
+COMMENT ON COLUMN generation_jobs.request IS 'Banner copy, style analysis and brand kit snapshot the job was started with';
+COMMENT ON COLUMN generation_jobs.source_image_url IS 'Copy of the uploaded product photo in storage (generation-jobs/{id}/), used when resuming';
+COMMENT ON COLUMN generation_jobs.artifacts IS 'Intermediate results: product analysis, stored background candidates (URL and seed), the chosen background, enhanced product and cutout URLs';
+COMMENT ON COLUMN generation_jobs.updated_at IS 'Heartbeat while running; running jobs that stop updating are treated as interrupted';
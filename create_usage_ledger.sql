@@ -0,0 +1,88 @@
+-- One row per OpenAI or Flux call made by the API routes, for quotas and cost accounting
+CREATE TABLE IF NOT EXISTS usage_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  partner_id UUID REFERENCES partners(id) ON DELETE SET NULL,
+  service TEXT NOT NULL CHECK (service IN ('openai', 'flux')),
+  task TEXT NOT NULL,
+  model TEXT NOT NULL,
+  width INTEGER,
+  height INTEGER,
+  input_tokens INTEGER,
+  output_tokens INTEGER,
+  latency_ms INTEGER,
+  estimated_cost NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  status TEXT NOT NULL CHECK (status IN ('pending', 'success', 'error', 'rejected')),
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS usage_ledger_user_day_idx ON usage_ledger (user_id, service, created_at);
+CREATE INDEX IF NOT EXISTS usage_ledger_partner_id_idx ON usage_ledger (partner_id);
+CREATE INDEX IF NOT EXISTS usage_ledger_created_at_idx ON usage_ledger (created_at);
+
+-- Ledgers created before calls were reserved up front
+ALTER TABLE usage_ledger DROP CONSTRAINT IF EXISTS usage_ledger_status_check;
+ALTER TABLE usage_ledger ADD CONSTRAINT usage_ledger_status_check CHECK (status IN ('pending', 'success', 'error', 'rejected'));
+
+ALTER TABLE usage_ledger ENABLE ROW LEVEL SECURITY;
+
+-- Only the API routes (service role) read and write the ledger; browsers get summaries from /api/ai/usage-summary
+DROP POLICY IF EXISTS "Allow all operations on usage_ledger" ON usage_ledger;
+CREATE POLICY "Service role manages usage_ledger" ON usage_ledger
+FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- Reserve a call against the daily quota: counts today's pending and successful calls of the user and
+-- service and inserts a pending entry (or a rejected one over the limit) while holding a lock on that pair,
+-- so concurrent requests are counted one after another. p_daily_limit NULL means no quota.
+CREATE OR REPLACE FUNCTION reserve_usage(
+  p_user_id TEXT,
+  p_partner_id UUID,
+  p_service TEXT,
+  p_task TEXT,
+  p_model TEXT,
+  p_width INTEGER,
+  p_height INTEGER,
+  p_estimated_cost NUMERIC,
+  p_daily_limit INTEGER,
+  p_day_start TIMESTAMPTZ
+)
+RETURNS TABLE (reservation_id UUID, used INTEGER)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_used INTEGER;
+  v_id UUID;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('usage_ledger:' || p_user_id || ':' || p_service));
+
+  SELECT count(*) INTO v_used
+  FROM usage_ledger AS entry
+  WHERE entry.user_id = p_user_id
+    AND entry.service = p_service
+    AND entry.status IN ('pending', 'success')
+    AND entry.created_at >= p_day_start;
+
+  IF p_daily_limit IS NOT NULL AND v_used >= p_daily_limit THEN
+    INSERT INTO usage_ledger (user_id, partner_id, service, task, model, width, height, status)
+    VALUES (p_user_id, p_partner_id, p_service, p_task, p_model, p_width, p_height, 'rejected');
+    RETURN QUERY SELECT NULL::UUID, v_used;
+    RETURN;
+  END IF;
+
+  INSERT INTO usage_ledger (user_id, partner_id, service, task, model, width, height, estimated_cost, status)
+  VALUES (p_user_id, p_partner_id, p_service, p_task, p_model, p_width, p_height, p_estimated_cost, 'pending')
+  RETURNING id INTO v_id;
+  RETURN QUERY SELECT v_id, v_used + 1;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reserve_usage(TEXT, UUID, TEXT, TEXT, TEXT, INTEGER, INTEGER, NUMERIC, INTEGER, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION reserve_usage(TEXT, UUID, TEXT, TEXT, TEXT, INTEGER, INTEGER, NUMERIC, INTEGER, TIMESTAMPTZ) TO service_role;
+
+-- Add comment for documentation
+COMMENT ON TABLE usage_ledger IS 'Provider calls written by api/_lib/usage.ts; daily quotas are counted from it';
+COMMENT ON COLUMN usage_ledger.user_id IS 'Client IP address as seen by the server (ip:<address>); daily quotas are counted per user_id';
+COMMENT ON COLUMN usage_ledger.task IS 'Route that made the call (analyze-product, generate-background, flux-proxy, ...)';
+COMMENT ON COLUMN usage_ledger.estimated_cost IS 'Estimated USD cost from list prices (for pending calls, the part known before the call); 0 for failed and rejected calls';
+COMMENT ON COLUMN usage_ledger.status IS 'pending (reserved, the call is in flight or its outcome was not recorded), success, error (the provider failed) or rejected (over the daily quota)';
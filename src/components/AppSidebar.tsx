@@ -1,5 +1,5 @@
 import React from 'react';
-import { Home, Users, List, Plus, Wand2 } from 'lucide-react';
+import { Home, Users, List, Plus, Wand2, FileSpreadsheet } from 'lucide-react';
 import {
   Sidebar,
   SidebarContent,
@@ -33,6 +33,11 @@ const menuItems = [
     icon: List,
     key: 'banner-list',
   },
+  {
+    title: 'Generación Masiva',
+    icon: FileSpreadsheet,
+    key: 'batch-banners',
+  },
 ];
 
 export function AppSidebar({ activeSection, setActiveSection }: AppSidebarProps) {
@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react';
+import { CheckCircle2, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { toast } from '@/hooks/use-toast';
+import { useGenerationProgress } from '@/hooks/useGenerationProgress';
+import { BANNER_FORMATS, type AnchorRule } from '@/lib/banner-formats';
+import { getBrandGuidelines } from '@/lib/brand-kit';
+import type { BackgroundPickSession, StoredBackgroundCandidate } from '@/lib/generation-jobs';
+import { isAbortError } from '@/lib/abort';
+import type { GenerationStepRanges } from '@/lib/generation-progress';
+
+interface BackgroundCandidatePickerProps {
+  session: BackgroundPickSession | null;
+  onPick: (index: number) => void;
+  onCancel: () => void;
+}
+
+const DESKTOP = BANNER_FORMATS.desktop;
+const DEFAULT_TEXT_COLOR = '#0C0908';
+
+// Percent box of a desktop layout rule, for the HTML preview
+function getPreviewBox(rule: AnchorRule): React.CSSProperties {
+  const left = rule.x === 'center' ? (1 - rule.width) / 2 + rule.offsetX
+    : rule.x === 'right' ? 1 - rule.width - rule.offsetX
+    : rule.offsetX;
+  const top = rule.y === 'middle' ? (1 - rule.height) / 2 + rule.offsetY
+    : rule.y === 'bottom' ? 1 - rule.height - rule.offsetY
+    : rule.offsetY;
+
+  return {
+    position: 'absolute',
+    left: `${left * 100}%`,
+    top: `${top * 100}%`,
+    width: `${rule.width * 100}%`,
+    height: `${rule.height * 100}%`,
+  };
+}
+
+// One candidate with the product cutout and copy laid out like the editor's default desktop layout
+const CandidatePreview = ({ candidate, session }: { candidate: StoredBackgroundCandidate; session: BackgroundPickSession }) => {
+  const { layout } = DESKTOP;
+  const guidelines = getBrandGuidelines(session.request.brandKit);
+
+  return (
+    <div className="relative w-full overflow-hidden bg-gray-100" style={{ aspectRatio: `${DESKTOP.width} / ${DESKTOP.height}`, containerType: 'inline-size' }}>
+      <img src={candidate.imageUrl} alt={`Fondo ${candidate.seed}`} className="absolute inset-0 w-full h-full object-cover" />
+      {session.productImageUrl && (
+        <img src={session.productImageUrl} alt="Producto" className="object-contain" style={getPreviewBox(layout.product)} />
+      )}
+      <p className="font-bold leading-tight truncate" style={{ ...getPreviewBox(layout.mainText), color: DEFAULT_TEXT_COLOR, fontSize: '2.6cqw' }}>
+        {session.request.mainText}
+      </p>
+      <p className="leading-tight truncate" style={{ ...getPreviewBox(layout.descriptionText), color: DEFAULT_TEXT_COLOR, fontSize: '1.9cqw' }}>
+        {session.request.descriptionText}
+      </p>
+      <span
+        className="flex items-center justify-center font-bold rounded-full truncate"
+        style={{ ...getPreviewBox(layout.ctaButton), color: guidelines.mainColor, backgroundColor: guidelines.secondaryColor, fontSize: '1.2cqw' }}
+      >
+        {session.request.ctaText}
+      </span>
+    </div>
+  );
+};
+
+// Regenerations report pick step events, which take the whole bar
+const REGENERATION_PROGRESS: GenerationStepRanges = { pick: [0, 100] };
+
+// Side-by-side background candidates of a generation: choose one, or regenerate the rejected ones.
+// Closing the dialog cancels the generation.
+const BackgroundCandidatePicker = ({ session, onPick, onCancel }: BackgroundCandidatePickerProps) => {
+  const [candidates, setCandidates] = useState<StoredBackgroundCandidate[]>([]);
+  const [selected, setSelected] = useState(0);
+  const [rejected, setRejected] = useState<number[]>([]);
+  const [regenerating, setRegenerating] = useState(false);
+  const { progress: regeneration, onEvent: onRegenerationEvent, reset: resetRegeneration } = useGenerationProgress(REGENERATION_PROGRESS);
+
+  useEffect(() => {
+    setCandidates(session?.candidates ?? []);
+    setSelected(0);
+    setRejected([]);
+  }, [session]);
+
+  const toggleRejected = (index: number) => {
+    setRejected(prev => prev.includes(index) ? prev.filter(entry => entry !== index) : [...prev, index]);
+  };
+
+  const handleRegenerate = async () => {
+    if (!session || rejected.length === 0) return;
+
+    resetRegeneration();
+    setRegenerating(true);
+    try {
+      const updated = await session.regenerate(rejected, onRegenerationEvent);
+      setCandidates(updated);
+      setRejected([]);
+    } catch (error) {
+      // The pick was made or the generation cancelled meanwhile
+      if (isAbortError(error)) return;
+      console.error('Error regenerating backgrounds:', error);
+      toast({
+        title: "Error al regenerar fondos",
+        description: error instanceof Error ? error.message : "No se pudieron generar nuevos fondos",
+        variant: "destructive"
+      });
+    } finally {
+      setRegenerating(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!session} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Elige el fondo</DialogTitle>
+          <DialogDescription>
+            Cada opción usa el mismo prompt con una semilla distinta. Marca las que no te convencen para regenerar solo esas.
+          </DialogDescription>
+        </DialogHeader>
+
+        {session && (
+          <div className="grid grid-cols-2 gap-4 max-h-[60vh] overflow-y-auto">
+            {candidates.map((candidate, index) => (
+              <div
+                key={candidate.seed}
+                className={`rounded-lg overflow-hidden border-2 cursor-pointer transition-colors ${
+                  selected === index ? 'border-violet-600' : 'border-transparent hover:border-gray-300'
+                }`}
+                onClick={() => setSelected(index)}
+              >
+                <CandidatePreview candidate={candidate} session={session} />
+                <div className="flex items-center justify-between p-2 bg-white">
+                  <span className="flex items-center text-xs text-gray-600">
+                    {selected === index && <CheckCircle2 className="w-4 h-4 mr-1 text-violet-600" />}
+                    Semilla {candidate.seed}
+                  </span>
+                  <label className="flex items-center space-x-2 cursor-pointer" onClick={(e) => e.stopPropagation()}>
+                    <Checkbox
+                      checked={rejected.includes(index)}
+                      onCheckedChange={() => toggleRejected(index)}
+                      disabled={regenerating}
+                    />
+                    <span className="text-xs text-gray-700">Regenerar</span>
+                  </label>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {regenerating && (
+          <div className="space-y-1">
+            <Progress value={regeneration.progress} className="h-1.5" />
+            <p className="text-xs text-gray-500">{regeneration.status || 'Generando nuevos fondos...'}</p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={onCancel} className="sm:mr-auto">
+            Cancelar generación
+          </Button>
+          <Button variant="outline" onClick={handleRegenerate} disabled={rejected.length === 0 || regenerating}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${regenerating ? 'animate-spin' : ''}`} />
+            Regenerar marcados ({rejected.length})
+          </Button>
+          <Button onClick={() => onPick(selected)} disabled={regenerating || candidates.length === 0}>
+            Usar este fondo
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BackgroundCandidatePicker;
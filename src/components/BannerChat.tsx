@@ -1,57 +1,222 @@
-
 import React, { useState } from 'react';
-import { Send, Bot, User, Sparkles } from 'lucide-react';
+import { Send, Bot, User, Sparkles, Check, Undo2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { toast } from '@/hooks/use-toast';
+import { useGenerationProgress } from '@/hooks/useGenerationProgress';
+import {
+  applyChatOperations, diffCompositionAssets, interpretChatRequest,
+  type AssetChange, type ChatProposal, type ChatTurn, type DroppedToolCall, type DroppedToolCallReason
+} from '@/lib/banner-chat';
+import type { GenerationEventHandler } from '@/lib/generation-progress';
+import { LAYER_STEP_PROGRESS } from '@/lib/layer-regeneration';
+import type { BannerAsset, BannerComposition, TextRun } from '@/types/banner-editor';
+
+type ProposalStatus = 'previewing' | 'pending' | 'accepted' | 'reverted' | 'failed';
 
 interface ChatMessage {
   id: string;
   type: 'user' | 'bot';
   message: string;
   timestamp: Date;
+  // Set on bot messages that proposed changes
+  changes?: AssetChange[];
+  backgroundAdjustment?: string;
+  // Tool calls of the reply that weren't applied
+  dropped?: DroppedToolCall[];
+  status?: ProposalStatus;
 }
 
 interface BannerChatProps {
-  onIterationRequest: (message: string) => void;
-  isGenerating?: boolean;
+  composition: BannerComposition;
+  // Prompt of the current background; the assistant can only regenerate the background when it's known
+  backgroundPrompt?: string;
+  // Apply a proposal to the editor as a preview, reporting background generation progress
+  onPreview: (proposal: ChatProposal, onEvent: GenerationEventHandler) => Promise<void>;
+  onAccept: () => Promise<void>;
+  onRevert: () => void;
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  logo: 'Logo',
+  product: 'Producto',
+  mainText: 'Título',
+  descriptionText: 'Descripción',
+  ctaButton: 'CTA',
+};
+
+const FIELD_LABELS: Partial<Record<keyof BannerAsset, string>> = {
+  text: 'texto',
+  runs: 'estilos del texto',
+  position: 'posición',
+  size: 'tamaño',
+  fontSize: 'tamaño de fuente',
+  color: 'color',
+  backgroundColor: 'color de fondo',
+  fontWeight: 'peso',
+  textAlign: 'alineación',
+  borderRadius: 'radio de borde',
+  hidden: 'visibilidad',
+};
+
+const TOOL_LABELS: Record<string, string> = {
+  update_asset_style: 'Cambio de estilo',
+  set_asset_text: 'Cambio de texto',
+  move_asset: 'Movimiento',
+  resize_asset: 'Cambio de tamaño',
+  regenerate_background: 'Nuevo fondo',
+};
+
+const DROP_REASON_LABELS: Record<DroppedToolCallReason, string> = {
+  'invalid-arguments': 'valores no válidos',
+  'unknown-asset': 'elemento desconocido',
+  'unknown-tool': 'acción no disponible',
+  'no-changes': 'no indicaba ningún cambio',
+  'background-unavailable': 'el fondo de este banner no se puede regenerar',
+};
+
+function getAssetLabel(composition: BannerComposition, assetId: string): string {
+  const asset = composition.assets.find(entry => entry.id === assetId);
+  if (!asset) return assetId;
+  return ROLE_LABELS[asset.role ?? ''] ?? (asset.type === 'cta' ? 'CTA' : asset.text ?? asset.type);
+}
+
+function formatValue(field: keyof BannerAsset, value: unknown): string {
+  if (value === undefined || value === null) return '—';
+  if (field === 'hidden') return value ? 'oculto' : 'visible';
+  if (field === 'position') {
+    const { x, y } = value as BannerAsset['position'];
+    return `${Math.round(x)}, ${Math.round(y)}`;
+  }
+  if (field === 'size') {
+    const { width, height } = value as BannerAsset['size'];
+    return `${Math.round(width)}×${Math.round(height)}`;
+  }
+  if (field === 'text') return `"${value}"`;
+  if (field === 'runs') {
+    // Each styled span with the font size it's drawn at, when it has its own
+    return (value as TextRun[])
+      .map(run => run.fontSize ? `"${run.text}" ${run.fontSize}px` : `"${run.text}"`)
+      .join(', ');
+  }
+  return String(value);
 }
 
-const BannerChat = ({ onIterationRequest, isGenerating = false }: BannerChatProps) => {
+const BannerChat = ({ composition, backgroundPrompt, onPreview, onAccept, onRevert }: BannerChatProps) => {
   const [messages, setMessages] = useState<ChatMessage[]>([
     {
       id: '1',
       type: 'bot',
-      message: 'Hi! I can help you refine your banner design. What changes would you like to make?',
+      message: '¡Hola! Puedo ajustar textos, colores, tamaños y posiciones, o regenerar el fondo. ¿Qué quieres cambiar?',
       timestamp: new Date()
     }
   ]);
   const [currentMessage, setCurrentMessage] = useState('');
+  const [isThinking, setIsThinking] = useState(false);
+  const [generatingBackground, setGeneratingBackground] = useState(false);
+  const { progress: previewProgress, onEvent: onPreviewEvent, reset: resetPreviewProgress } = useGenerationProgress(LAYER_STEP_PROGRESS.background);
+  const [isResolving, setIsResolving] = useState(false);
 
-  const sendMessage = () => {
-    if (!currentMessage.trim() || isGenerating) return;
+  const pendingMessage = messages.find(message => message.status === 'previewing' || message.status === 'pending');
+  const isBusy = isThinking || !!pendingMessage;
 
-    const userMessage: ChatMessage = {
-      id: Date.now().toString(),
-      type: 'user',
-      message: currentMessage,
-      timestamp: new Date()
-    };
+  const setMessageStatus = (id: string, status: ProposalStatus) => {
+    setMessages(prev => prev.map(message => message.id === id ? { ...message, status } : message));
+  };
+
+  const addBotMessage = (message: Omit<ChatMessage, 'id' | 'type' | 'timestamp'>): string => {
+    const id = `${Date.now()}_bot`;
+    setMessages(prev => [...prev, { id, type: 'bot', timestamp: new Date(), ...message }]);
+    return id;
+  };
 
-    setMessages(prev => [...prev, userMessage]);
-    onIterationRequest(currentMessage);
+  const sendMessage = async () => {
+    if (!currentMessage.trim() || isBusy) return;
+
+    const text = currentMessage.trim();
+    const history: ChatTurn[] = messages.slice(1).map(message => ({
+      role: message.type === 'user' ? 'user' : 'assistant',
+      content: message.message,
+    }));
+
+    setMessages(prev => [...prev, { id: Date.now().toString(), type: 'user', message: text, timestamp: new Date() }]);
     setCurrentMessage('');
+    setIsThinking(true);
 
-    // Add a bot "thinking" message
-    setTimeout(() => {
-      const botMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        type: 'bot',
-        message: 'I\'m working on your changes...',
-        timestamp: new Date()
-      };
-      setMessages(prev => [...prev, botMessage]);
-    }, 500);
+    let proposal: ChatProposal;
+    try {
+      proposal = await interpretChatRequest(text, { composition, backgroundPrompt, history });
+    } catch (error) {
+      console.error('Error interpreting chat request:', error);
+      addBotMessage({ message: 'No he podido procesar tu petición. Inténtalo de nuevo.' });
+      toast({
+        title: "Error del asistente",
+        description: error instanceof Error ? error.message : "No se pudo contactar con el asistente",
+        variant: "destructive"
+      });
+      return;
+    } finally {
+      setIsThinking(false);
+    }
+
+    if (proposal.operations.length === 0) {
+      addBotMessage({
+        message: proposal.reply || 'No he encontrado cambios que aplicar. ¿Puedes concretar un poco más?',
+        dropped: proposal.dropped,
+      });
+      return;
+    }
+
+    const changes = diffCompositionAssets(composition.assets, applyChatOperations(composition, proposal.operations).assets);
+    const background = proposal.operations.find(operation => operation.type === 'background');
+    const messageId = addBotMessage({
+      message: proposal.reply || 'Te propongo estos cambios:',
+      changes,
+      backgroundAdjustment: background?.type === 'background' ? background.adjustment : undefined,
+      dropped: proposal.dropped,
+      status: 'previewing',
+    });
+
+    resetPreviewProgress();
+    setGeneratingBackground(!!background);
+    try {
+      await onPreview(proposal, onPreviewEvent);
+      setMessageStatus(messageId, 'pending');
+    } catch (error) {
+      console.error('Error previewing chat proposal:', error);
+      setMessageStatus(messageId, 'failed');
+      toast({
+        title: "Error al aplicar cambios",
+        description: error instanceof Error ? error.message : "No se pudieron aplicar los cambios",
+        variant: "destructive"
+      });
+    } finally {
+      setGeneratingBackground(false);
+    }
+  };
+
+  const handleAccept = async (messageId: string) => {
+    setIsResolving(true);
+    try {
+      await onAccept();
+      setMessageStatus(messageId, 'accepted');
+    } catch (error) {
+      console.error('Error accepting chat proposal:', error);
+      toast({
+        title: "Error al guardar",
+        description: error instanceof Error ? error.message : "No se pudieron guardar los cambios",
+        variant: "destructive"
+      });
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  const handleRevert = (messageId: string) => {
+    onRevert();
+    setMessageStatus(messageId, 'reverted');
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -70,12 +235,12 @@ const BannerChat = ({ onIterationRequest, isGenerating = false }: BannerChatProp
             <Bot className="w-5 h-5 text-white" />
           </div>
           <div>
-            <h3 className="font-semibold text-gray-900">AI Assistant</h3>
-            <p className="text-xs text-gray-500">Refine your banner design</p>
+            <h3 className="font-semibold text-gray-900">Asistente IA</h3>
+            <p className="text-xs text-gray-500">Ajusta el banner conversando</p>
           </div>
         </div>
       </div>
-      
+
       {/* Messages */}
       <ScrollArea className="flex-1 p-6">
         <div className="space-y-4">
@@ -96,6 +261,60 @@ const BannerChat = ({ onIterationRequest, isGenerating = false }: BannerChatProp
                   {message.type === 'user' && <User className="w-4 h-4 mt-0.5 flex-shrink-0" />}
                   <span className="text-sm leading-relaxed">{message.message}</span>
                 </div>
+
+                {message.dropped && message.dropped.length > 0 && (
+                  <ul className="mt-2 space-y-1 text-xs text-amber-700">
+                    {message.dropped.map((call, index) => (
+                      <li key={`${call.name}_${index}`}>
+                        No aplicado · {TOOL_LABELS[call.name] ?? call.name}
+                        {call.assetId && call.reason !== 'unknown-asset' ? ` (${getAssetLabel(composition, call.assetId)})` : ''}
+                        : {DROP_REASON_LABELS[call.reason]}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {message.status && (
+                  <div className="mt-2 space-y-2">
+                    <ul className="space-y-1 text-xs text-gray-700">
+                      {message.changes?.map(change => (
+                        <li key={`${change.assetId}_${change.field}`}>
+                          <span className="font-medium">{getAssetLabel(composition, change.assetId)}</span>
+                          {' · '}{FIELD_LABELS[change.field] ?? change.field}:{' '}
+                          <span className="text-gray-500 line-through">{formatValue(change.field, change.before)}</span>
+                          {' → '}{formatValue(change.field, change.after)}
+                        </li>
+                      ))}
+                      {message.backgroundAdjustment && (
+                        <li>
+                          <span className="font-medium">Fondo</span> · nuevo fondo: {message.backgroundAdjustment}
+                        </li>
+                      )}
+                    </ul>
+
+                    {message.status === 'previewing' && generatingBackground && (
+                      <div className="space-y-1">
+                        <Progress value={previewProgress.progress} className="h-1.5" />
+                        <p className="text-xs text-gray-500">{previewProgress.status || 'Generando fondo...'}</p>
+                      </div>
+                    )}
+                    {message.status === 'pending' && (
+                      <div className="flex gap-2">
+                        <Button size="sm" onClick={() => handleAccept(message.id)} disabled={isResolving}>
+                          <Check className="w-3 h-3 mr-1" />
+                          Aceptar
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => handleRevert(message.id)} disabled={isResolving}>
+                          <Undo2 className="w-3 h-3 mr-1" />
+                          Revertir
+                        </Button>
+                      </div>
+                    )}
+                    {message.status === 'accepted' && <p className="text-xs text-green-700">Cambios aceptados</p>}
+                    {message.status === 'reverted' && <p className="text-xs text-gray-500">Cambios revertidos</p>}
+                    {message.status === 'failed' && <p className="text-xs text-red-600">No se pudieron aplicar los cambios</p>}
+                  </div>
+                )}
               </div>
             </div>
           ))}
@@ -109,16 +328,16 @@ const BannerChat = ({ onIterationRequest, isGenerating = false }: BannerChatProp
             value={currentMessage}
             onChange={(e) => setCurrentMessage(e.target.value)}
             onKeyPress={handleKeyPress}
-            placeholder="Describe the changes you want to make..."
-            disabled={isGenerating}
+            placeholder="Ej.: agranda el CTA y mueve el logo a la izquierda"
+            disabled={isBusy}
             className="flex-1 h-12 rounded-xl border-gray-200 focus:border-blue-400 transition-colors"
           />
           <Button
             onClick={sendMessage}
-            disabled={!currentMessage.trim() || isGenerating}
+            disabled={!currentMessage.trim() || isBusy}
             className="h-12 w-12 rounded-xl bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 p-0"
           >
-            {isGenerating ? (
+            {isThinking ? (
               <Sparkles className="w-5 h-5 animate-pulse" />
             ) : (
               <Send className="w-5 h-5" />
@@ -126,7 +345,7 @@ const BannerChat = ({ onIterationRequest, isGenerating = false }: BannerChatProp
           </Button>
         </div>
         <p className="text-xs text-gray-500 mt-2 text-center">
-          Ask for color changes, text modifications, or style adjustments
+          {pendingMessage ? 'Acepta o revierte los cambios propuestos para continuar' : 'Pide cambios de color, texto, tamaño, posición o del fondo'}
         </p>
       </div>
     </div>
@@ -1,8 +1,11 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { 
   ZoomIn, ZoomOut, Save, Type, Image, Trash2, Copy, Move, 
   MousePointer2, Bold, Italic, Underline, AlignLeft, AlignCenter, 
-  AlignRight, Minus, Plus, Layers, Eye, EyeOff, Edit2, RotateCw, Lock, X, Upload
+  AlignRight, Minus, Plus, Layers, Eye, EyeOff, Edit2, RotateCw, Lock, X, Upload, Download, LayoutGrid,
+  Undo2, Redo2, Group, Ungroup, AlignStartVertical, AlignCenterVertical, AlignEndVertical,
+  AlignStartHorizontal, AlignCenterHorizontal, AlignEndHorizontal,
+  AlignHorizontalDistributeCenter, AlignVerticalDistributeCenter, Command as CommandIcon, LayoutTemplate, Wand2, Bot
 } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -11,13 +14,50 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { toast } from '@/hooks/use-toast';
+import LayerPanel from '@/components/LayerPanel';
+import EditorCommandPalette, { type EditorCommand } from '@/components/EditorCommandPalette';
+import TextFitControls from '@/components/TextFitControls';
+import BrandCompliancePanel from '@/components/BrandCompliancePanel';
+import TemplateLibraryDialog from '@/components/TemplateLibraryDialog';
+import RegenerateLayerDialog from '@/components/RegenerateLayerDialog';
+import BannerChat from '@/components/BannerChat';
+import { generateBackgroundLayer, getLayerPrompt, saveBackgroundLayer, type RegenerableLayer, type RegeneratedLayer } from '@/lib/layer-regeneration';
+import { applyChatOperations, type ChatProposal } from '@/lib/banner-chat';
+import type { GenerationEventHandler } from '@/lib/generation-progress';
 import { getBannerForEditor } from '@/lib/enhanced-banner-service';
 import { usePartners } from '@/hooks/usePartners';
 import { cleanupBackgroundRemovalUrls, isObjectUrlValid } from '@/lib/background-removal';
 import { supabase } from '@/integrations/supabase/client';
+import { renderComposition } from '@/lib/composition-renderer';
+import { DEFAULT_EXPORT_OPTIONS, EXPORT_SCALES, exportCompositionToBlob, uploadBannerExport, downloadExportBlob, getExportFileName } from '@/lib/banner-export';
+import { BANNER_FORMATS, BANNER_FORMAT_IDS, MIN_BACKGROUND_COVERAGE, getBackgroundCoverage, getFormatForSize, type BannerFormatId } from '@/lib/banner-formats';
+import { createBannerVariants } from '@/lib/banner-variants';
+import { applyTemplate, type BannerTemplate } from '@/lib/banner-templates';
+import { alignAssets, distributeAssets, getAssetsBounds, getAssetsInRect, groupAssets, resizeGroup, ungroupAsset, type AlignmentType, type AlignRelativeTo, type DistributeAxis } from '@/lib/asset-arrangement';
+import { copyAssetsToClipboard, preparePastedAssets, readAssetsFromClipboard, PASTE_OFFSET } from '@/lib/asset-clipboard';
+import { findOverflowingTextAssets } from '@/lib/text-layout';
+import { ensureCompositionFonts, getCompositionFontDeclarations } from '@/lib/font-manager';
+import { checkBrandCompliance } from '@/lib/brand-compliance';
+import { createBackgroundSampler } from '@/lib/color-contrast';
+import { getLogoCandidates, getLogoInkColor, selectLogoVariants } from '@/lib/logo-variants';
+import { loadCanvasImage } from '@/lib/composition-loader';
+import { getImageProxyUrl } from '@/lib/cors-helper';
+import { DEFAULT_BRAND_GUIDELINES, getBrandGuidelines, loadPartnerBrandKit, type BrandGuidelines, type BrandKit, type LogoVariant } from '@/lib/brand-kit';
+import { applyStyleToRange, getAssetRuns, isRangeStyled, runsToText, scaleRunFontSizes, updateRunsText, type TextRunStyle } from '@/lib/text-runs';
+import { getLayerOrder, isAssetInteractive, moveLayer, normalizeLayers } from '@/lib/asset-layers';
+import { createHistory, recordHistory, undoHistory, redoHistory, persistHistory, restoreHistory, type EditorHistory, type HistoryCommand } from '@/lib/editor-history';
 import type { BannerComposition, BannerAsset, EditorState, ExportOptions } from '@/types/banner-editor';
 
+const LOGO_VARIANT_LABELS: Record<LogoVariant, string> = {
+  light: 'Para fondos oscuros',
+  dark: 'Para fondos claros',
+  mono: 'Monocromo',
+};
+
 // Alignment guide interface
 interface AlignmentGuide {
   type: 'vertical' | 'horizontal';
@@ -39,14 +79,6 @@ interface BannerEditorProps {
   onExit?: () => void;
 }
 
-// Partner brand guidelines interface
-interface BrandGuidelines {
-  mainColor: string;
-  secondaryColor: string;
-  fontPrimary: string;
-  fontSecondary: string;
-}
-
 // Dynamic layout configuration based on mirror state  
 const getLayout = (isMirrored: boolean) => {
   if (isMirrored) {
@@ -90,10 +122,14 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
   const [backgroundImage, setBackgroundImage] = useState<HTMLImageElement | null>(null);
   const [productImage, setProductImage] = useState<HTMLImageElement | null>(null);
   const [logoImage, setLogoImage] = useState<HTMLImageElement | null>(null);
+  // Brand kit logo variants by URL
+  const [logoVariantImages, setLogoVariantImages] = useState<Record<string, HTMLImageElement>>({});
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [miniToolbarPosition, setMiniToolbarPosition] = useState<{ x: number; y: number } | null>(null);
   const [editingText, setEditingText] = useState<string | null>(null);
   const [textEditValue, setTextEditValue] = useState('');
+  // Characters last selected in the inline text editor; style buttons apply to this range
+  const [textSelection, setTextSelection] = useState<{ assetId: string; start: number; end: number } | null>(null);
   const [lastClickTime, setLastClickTime] = useState(0);
   const [isResizing, setIsResizing] = useState(false);
   const [resizeHandle, setResizeHandle] = useState<string | null>(null);
@@ -112,17 +148,49 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
   const [actualCtaText, setActualCtaText] = useState(ctaText);
   
   // Brand guidelines state
-  const [brandGuidelines, setBrandGuidelines] = useState<BrandGuidelines>({
-    mainColor: '#8A47F5',
-    secondaryColor: '#E9DEFF',
-    fontPrimary: 'DM Sans',
-    fontSecondary: 'Arial',
-  });
+  const [brandGuidelines, setBrandGuidelines] = useState<BrandGuidelines>(DEFAULT_BRAND_GUIDELINES);
+  const [brandKit, setBrandKit] = useState<BrandKit | null>(null);
+  // Palette roles beyond primary/secondary (accent, CTA...), offered as extra swatches
+  const extraBrandColors = brandKit?.palette.filter(color => color.role !== 'primary' && color.role !== 'secondary') ?? [];
   const [isLoadingGuidelines, setIsLoadingGuidelines] = useState(false);
   
   // Logo upload state
   const [isUploadingLogo, setIsUploadingLogo] = useState(false);
   
+  // Export state
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [isExporting, setIsExporting] = useState(false);
+  // Block exports while the composition breaks an error-level brand rule
+  const [enforceBrandCompliance, setEnforceBrandCompliance] = useState(false);
+  
+  // Format variants state
+  const [isVariantsDialogOpen, setIsVariantsDialogOpen] = useState(false);
+  const [selectedVariantFormats, setSelectedVariantFormats] = useState<BannerFormatId[]>([]);
+  const [isCreatingVariants, setIsCreatingVariants] = useState(false);
+  
+  // Template library state
+  const [isTemplatesDialogOpen, setIsTemplatesDialogOpen] = useState(false);
+  
+  // Layer regeneration state
+  const [regeneratingLayer, setRegeneratingLayer] = useState<RegenerableLayer | null>(null);
+  
+  // Assistant chat state. The preview keeps what accepting or reverting the last proposal needs.
+  const [isChatOpen, setIsChatOpen] = useState(false);
+  const chatPreviewRef = useRef<{ assets: BannerAsset[] | null; backgroundUrl: string; background?: RegeneratedLayer } | null>(null);
+  
+  // Undo/redo state
+  const [history, setHistory] = useState<EditorHistory>(createHistory);
+  // Incremented on every drag/resize start so each gesture becomes a single history step
+  const gestureIdRef = useRef(0);
+  
+  // Marquee selection (canvas coordinates) and the reference used by align/distribute
+  const [marquee, setMarquee] = useState<{ startX: number; startY: number; currentX: number; currentY: number; baseIds: string[] } | null>(null);
+  const [alignRelativeTo, setAlignRelativeTo] = useState<AlignRelativeTo>('selection');
+  
+  // Command palette (Ctrl/Cmd+K)
+  const [isCommandPaletteOpen, setIsCommandPaletteOpen] = useState(false);
+  
   // Alignment guides state
   const [alignmentGuides, setAlignmentGuides] = useState<AlignmentGuide[]>([]);
   
@@ -243,59 +311,6 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
     return { width: logoWidth, height: logoHeight };
   };
 
-  // Helper function to automatically break text after 14 characters for better readability
-  const autoBreakText = (text: string, maxCharsPerLine: number = 14): string[] => {
-    if (!text) return [];
-    
-    // First, respect existing line breaks
-    const manualLines = text.split('\n');
-    const resultLines: string[] = [];
-    
-    manualLines.forEach(line => {
-      if (line.length <= maxCharsPerLine) {
-        // Line is short enough, keep as is
-        resultLines.push(line);
-      } else {
-        // Line is too long, break it intelligently
-        const words = line.split(' ');
-        let currentLine = '';
-        
-        words.forEach(word => {
-          // Check if adding this word would exceed the limit
-          const testLine = currentLine ? `${currentLine} ${word}` : word;
-          
-          if (testLine.length <= maxCharsPerLine) {
-            currentLine = testLine;
-          } else {
-            // Adding this word exceeds limit
-            if (currentLine) {
-              // Save current line and start new one with this word
-              resultLines.push(currentLine);
-              currentLine = word;
-            } else {
-              // Even single word is too long, break it forcefully
-              if (word.length > maxCharsPerLine) {
-                for (let i = 0; i < word.length; i += maxCharsPerLine) {
-                  resultLines.push(word.slice(i, i + maxCharsPerLine));
-                }
-                currentLine = '';
-              } else {
-                currentLine = word;
-              }
-            }
-          }
-        });
-        
-        // Don't forget the last line
-        if (currentLine) {
-          resultLines.push(currentLine);
-        }
-      }
-    });
-    
-    return resultLines;
-  };
-
   // Calculate alignment guides during drag
   const calculateAlignmentGuides = (draggedAsset: BannerAsset, newX: number, newY: number): { guides: AlignmentGuide[], snappedX: number, snappedY: number } => {
     const guides: AlignmentGuide[] = [];
@@ -314,7 +329,10 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
     };
 
     // Check alignment with other assets
-    const otherAssets = composition.assets?.filter(asset => asset.id !== draggedAsset.id) ?? [];
+    // Assets moving together with the dragged one can't be snap targets
+    const otherAssets = composition.assets?.filter(asset =>
+      asset.id !== draggedAsset.id && !asset.hidden && !editorState.selectedAssetIds.includes(asset.id)
+    ) ?? [];
     
     for (const asset of otherAssets) {
       const assetBounds = {
@@ -405,6 +423,7 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
   // Editor state
   const [editorState, setEditorState] = useState<EditorState>({
     selectedAssetId: null,
+    selectedAssetIds: [],
     isDragging: false,
     isResizing: false,
     dragOffset: { x: 0, y: 0 },
@@ -423,6 +442,75 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
     lastModified: new Date()
   });
 
+  // Latest composition, used to snapshot assets before a recorded change
+  const compositionRef = useRef(composition);
+  compositionRef.current = composition;
+
+  // Uploaded partner families are listed ahead of the built-in fonts
+  const brandFontFamilies = Array.from(new Set((composition.fonts ?? []).map(font => font.family)));
+  const availableFontOptions = [...brandFontFamilies, ...fontOptions.filter(font => !brandFontFamilies.includes(font))];
+
+  // Fonts used by the composition; export is blocked until they're loaded
+  const [fontsReady, setFontsReady] = useState(false);
+  const [fontError, setFontError] = useState<string | null>(null);
+  const fontsKey = useMemo(
+    () => JSON.stringify([composition.fonts ?? [], getCompositionFontDeclarations(composition.assets ?? [])]),
+    [composition.fonts, composition.assets]
+  );
+
+  useEffect(() => {
+    let isCancelled = false;
+    setFontsReady(false);
+
+    ensureCompositionFonts(compositionRef.current)
+      .then(() => {
+        if (isCancelled) return;
+        setFontError(null);
+        setFontsReady(true);
+      })
+      .catch(error => {
+        console.error('❌ Error loading composition fonts:', error);
+        if (!isCancelled) setFontError(error instanceof Error ? error.message : 'Font loading failed');
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [fontsKey]);
+
+  // Text assets whose copy doesn't fit their box, measured on an offscreen canvas
+  // (skipped while fonts load, since fallback metrics would give false warnings)
+  const measureCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const overflowingTextIds = useMemo(() => {
+    if (!fontsReady) return [];
+    if (!measureCanvasRef.current) {
+      measureCanvasRef.current = document.createElement('canvas');
+    }
+    const ctx = measureCanvasRef.current.getContext('2d');
+    return ctx ? findOverflowingTextAssets(ctx, composition.assets ?? []) : [];
+  }, [composition.assets, fontsReady]);
+
+  // Background pixels only change with the image or canvas size, not while assets move
+  const backgroundSampler = useMemo(() => {
+    if (!backgroundImage) return null;
+    return createBackgroundSampler(
+      { ...compositionRef.current, canvasSize: composition.canvasSize },
+      { background: backgroundImage }
+    );
+  }, [backgroundImage, composition.canvasSize]);
+
+  const logoCandidates = useMemo(() => {
+    return getLogoCandidates(brandKit).map(candidate => {
+      const image = logoVariantImages[candidate.url];
+      return { ...candidate, inkColor: image ? getLogoInkColor(image) : null };
+    });
+  }, [brandKit, logoVariantImages]);
+
+  const complianceReport = useMemo(
+    () => checkBrandCompliance(composition, brandKit, { sampleBackground: backgroundSampler }),
+    [composition, brandKit, backgroundSampler]
+  );
+
   // Track whether we've attempted to load saved composition
   const [hasAttemptedLoad, setHasAttemptedLoad] = useState(false);
 
@@ -430,39 +518,18 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
   const loadPartnerBrandGuidelines = useCallback(async () => {
     try {
       const partner = partners.find(p => p.id === partnerId);
-      if (!partner || !partner.brand_manual_url) {
-        console.log('No brand manual URL found for partner:', partnerId);
+      if (!partner || (!partner.brand_kit && !partner.brand_manual_url)) {
+        console.log('No brand kit found for partner:', partnerId);
         return;
       }
 
       setIsLoadingGuidelines(true);
-      console.log('Loading brand guidelines from:', partner.brand_manual_url);
-      
-      const response = await fetch(partner.brand_manual_url);
-      const csvText = await response.text();
-      
-      // Parse CSV
-      const lines = csvText.split('\n');
-      const brandData: Record<string, string> = {};
-      
-      lines.forEach(line => {
-        if (line.trim() && !line.startsWith('Field,')) {
-          const [field, value] = line.split(',');
-          if (field && value) {
-            brandData[field.trim()] = value.trim();
-          }
-        }
-      });
-      
-      // Update brand guidelines state with parsed data
-      const updatedGuidelines = {
-        mainColor: brandData['Main Color'] || '#8A47F5',
-        secondaryColor: brandData['Secondary Color'] || '#E9DEFF',
-        fontPrimary: brandData['Font Primary'] || 'DM Sans',
-        fontSecondary: brandData['Font Secondary'] || 'Arial',
-      };
-      
+      const kit = await loadPartnerBrandKit(partner);
+      if (!kit) return;
+
+      const updatedGuidelines = getBrandGuidelines(kit);
       console.log('Loaded brand guidelines:', updatedGuidelines);
+      setBrandKit(kit);
       setBrandGuidelines(updatedGuidelines);
       
     } catch (error) {
@@ -522,29 +589,34 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
                 ? {
                     ...asset,
                     imageUrl: objectUrl,
-                    size: { width: logoWidth, height: logoHeight }
+                    size: { width: logoWidth, height: logoHeight },
+                    // A custom upload replaces the brand kit variants
+                    logoVariant: undefined,
+                    logoVariantLocked: true
                   }
                 : asset
             ),
             lastModified: new Date()
-          }));
+          }), { label: 'Cambiar logo' });
           console.log(`Logo updated: ${logoWidth}x${logoHeight}`);
       } else {
           // Create new logo asset with proper dimensions
         const newLogoAsset: BannerAsset = {
           id: `logo_${Date.now()}`,
           type: 'logo',
+          role: 'logo',
           position: { x: getLayout(isMirroredLayout).logo.x, y: getLayout(isMirroredLayout).logo.y },
             size: { width: logoWidth, height: logoHeight },
           rotation: 0,
-          imageUrl: objectUrl
+          imageUrl: objectUrl,
+          logoVariantLocked: true
         };
         
         updateComposition(prev => ({
           ...prev,
           assets: [...prev.assets, newLogoAsset],
           lastModified: new Date()
-        }));
+        }), { label: 'Añadir logo' });
           console.log(`Logo created: ${logoWidth}x${logoHeight}`);
       }
       };
@@ -621,6 +693,17 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
     }
   }, [partners, partnerId, loadPartnerBrandGuidelines]);
 
+  // Carry the partner's uploaded fonts on the composition so previews and exports can load them
+  useEffect(() => {
+    const partner = partners.find(p => p.id === partnerId);
+    if (!partner) return;
+
+    const partnerFonts = partner.brand_fonts ?? [];
+    setComposition(prev => (
+      JSON.stringify(prev.fonts ?? []) === JSON.stringify(partnerFonts) ? prev : { ...prev, fonts: partnerFonts }
+    ));
+  }, [partners, partnerId, composition.fonts]);
+
   // Handle window focus/blur events to manage image lifecycle
   useEffect(() => {
     const handleFocus = () => {
@@ -696,6 +779,7 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
       initialAssets.push({
         id: `logo_${Date.now()}`,
         type: 'logo',
+        role: 'logo',
         position: { x: getLayout(isMirroredLayout).logo.x, y: getLayout(isMirroredLayout).logo.y },
         size: { width: 100, height: 75 }, // Use 4:3 aspect ratio, smaller size
         rotation: 0,
@@ -709,6 +793,7 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
       initialAssets.push({
         id: `product_${Date.now()}`,
         type: 'product',
+        role: 'product',
         position: { x: getLayout(isMirroredLayout).product.x, y: getLayout(isMirroredLayout).product.y },
         size: { width: getLayout(isMirroredLayout).product.width, height: getLayout(isMirroredLayout).product.height },
         rotation: 0,
@@ -721,11 +806,14 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
       initialAssets.push({
         id: `text_${Date.now()}`,
         type: 'text',
+        role: 'mainText',
         position: { x: getLayout(isMirroredLayout).mainText.x, y: getLayout(isMirroredLayout).mainText.y },
         size: { width: getLayout(isMirroredLayout).mainText.width, height: getLayout(isMirroredLayout).mainText.height },
         rotation: 0,
         text: actualBannerText,
         fontSize: 42, // Larger title font
+        autoFit: true, // Longer copy shrinks to fit instead of overflowing
+        minFontSize: 24,
         fontFamily: 'Cerebi Sans',
         color: getAdaptiveTextColor(),
         fontWeight: 'bold',
@@ -738,11 +826,14 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
       initialAssets.push({
         id: `description_${Date.now()}`,
         type: 'text',
+        role: 'descriptionText',
         position: { x: getLayout(isMirroredLayout).descriptionText.x, y: getLayout(isMirroredLayout).descriptionText.y },
         size: { width: getLayout(isMirroredLayout).descriptionText.width, height: getLayout(isMirroredLayout).descriptionText.height },
         rotation: 0,
         text: actualDescriptionText,
         fontSize: 36, // Smaller than title, good proportion
+        autoFit: true,
+        minFontSize: 18,
         fontFamily: 'Cerebi Sans',
         color: getAdaptiveTextColor(),
         fontWeight: 'normal',
@@ -755,11 +846,14 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
       initialAssets.push({
         id: `cta_${Date.now()}`,
         type: 'cta',
+        role: 'ctaButton',
         position: { x: getLayout(isMirroredLayout).ctaButton.x, y: getLayout(isMirroredLayout).ctaButton.y },
         size: { width: getLayout(isMirroredLayout).ctaButton.width, height: getLayout(isMirroredLayout).ctaButton.height },
         rotation: 0,
         text: actualCtaText,
         fontSize: 20, // Appropriate size for CTA button
+        autoFit: true,
+        minFontSize: 12,
         fontFamily: 'Roboto', // Use Roboto for CTA buttons
         color: brandGuidelines.mainColor,
         fontWeight: 'bold',
@@ -845,6 +939,7 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
         
         console.log('✅ Loaded composition from database');
         setComposition(savedComposition);
+        setHistory(restoreHistory(bannerId, savedComposition.assets ?? []) ?? createHistory());
         setEditorState(prev => ({ ...prev, zoom: savedComposition.zoom || 1 }));
         
         // Force a re-render after composition is loaded
@@ -868,6 +963,7 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
         const savedComposition = JSON.parse(saved);
         console.log('📦 Loaded composition from localStorage');
         setComposition(savedComposition);
+        setHistory(restoreHistory(bannerId, savedComposition.assets ?? []) ?? createHistory());
         setEditorState(prev => ({ ...prev, zoom: savedComposition.zoom || 1 }));
         return true;
       } catch (error) {
@@ -960,6 +1056,7 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
       // Save to localStorage for quick recovery
       const key = `banner_composition_${bannerId}`;
       localStorage.setItem(key, JSON.stringify(compositionData));
+      persistHistory(bannerId, history, compositionData.assets);
       
       // Save to database for persistence
       console.log('💾 Saving composition to database...');
@@ -1041,7 +1138,7 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
         variant: "destructive",
       });
     }
-  }, [composition, bannerId, actualBannerText, actualDescriptionText, actualCtaText, onSave]);
+  }, [composition, history, bannerId, actualBannerText, actualDescriptionText, actualCtaText, onSave]);
 
   // Auto-save composition every 10 seconds when there are unsaved changes
   useEffect(() => {
@@ -1069,7 +1166,12 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
     };
   }, [hasUnsavedChanges, composition.assets?.length, saveComposition]);
 
-  const updateComposition = useCallback((updater: (prev: BannerComposition) => BannerComposition) => {
+  // Apply a user edit. Passing a command records it in the undo history.
+  const updateComposition = useCallback((updater: (prev: BannerComposition) => BannerComposition, command?: HistoryCommand) => {
+    if (command) {
+      const assetsBefore = compositionRef.current.assets;
+      setHistory(prev => recordHistory(prev, command, assetsBefore));
+    }
     setComposition(prev => {
       const updated = updater(prev);
       console.log('🔄 Composition updated:', {
@@ -1085,6 +1187,37 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
     setHasUnsavedChanges(true);
   }, []);
 
+  // Swap the current assets with the previous/next history snapshot
+  const applyHistoryStep = useCallback((direction: 'undo' | 'redo') => {
+    const step = direction === 'undo'
+      ? undoHistory(history, compositionRef.current.assets)
+      : redoHistory(history, compositionRef.current.assets);
+    if (!step) return;
+
+    console.log(`↩️ ${direction === 'undo' ? 'Undo' : 'Redo'}: ${step.label}`);
+    setHistory(step.history);
+    setComposition(prev => ({ ...prev, assets: step.assets, lastModified: new Date() }));
+    setHasUnsavedChanges(true);
+
+    // Drop selected assets that no longer exist
+    setEditorState(prev => {
+      const selectedAssetIds = prev.selectedAssetIds.filter(id => step.assets.some(asset => asset.id === id));
+      return {
+        ...prev,
+        selectedAssetIds,
+        selectedAssetId: prev.selectedAssetId && selectedAssetIds.includes(prev.selectedAssetId)
+          ? prev.selectedAssetId
+          : selectedAssetIds[selectedAssetIds.length - 1] ?? null
+      };
+    });
+    if (!step.assets.some(asset => asset.id === editorState.selectedAssetId)) {
+      setMiniToolbarPosition(null);
+    }
+  }, [history, editorState.selectedAssetId]);
+
+  const undo = useCallback(() => applyHistoryStep('undo'), [applyHistoryStep]);
+  const redo = useCallback(() => applyHistoryStep('redo'), [applyHistoryStep]);
+
   // Toggle mirror layout function
   const toggleMirrorLayout = useCallback(() => {
     const newMirrorState = !isMirroredLayout;
@@ -1093,7 +1226,7 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
     // Update existing assets with new positions and alignments
     const newLayout = getLayout(newMirrorState);
     
-    setComposition(prev => ({
+    updateComposition(prev => ({
       ...prev,
       assets: prev.assets.map(asset => {
         if (asset.type === 'logo') {
@@ -1120,11 +1253,90 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
         return asset;
       }),
       lastModified: new Date()
-    }));
-    
-    // Mark as having unsaved changes
+    }), { label: 'Layout espejo' });
+  }, [isMirroredLayout, updateComposition]);
+
+  // Move logo, product, texts and CTA into the template's slots
+  const applyBannerTemplate = useCallback((template: BannerTemplate) => {
+    updateComposition(prev => applyTemplate(prev, template), { label: 'Aplicar plantilla' });
+    setIsTemplatesDialogOpen(false);
+    toast({
+      title: "Plantilla aplicada",
+      description: `Se aplicó "${template.name}" al banner`,
+    });
+  }, [updateComposition]);
+
+  // Open the regenerate dialog, loading the banner's stored prompts if the editor was opened without them
+  const openRegenerateLayer = useCallback(async (layer: RegenerableLayer) => {
+    if (!bannerData && bannerId) {
+      try {
+        setBannerData(await getBannerForEditor(bannerId));
+      } catch (error) {
+        console.error('Failed to load banner prompts:', error);
+      }
+    }
+    setRegeneratingLayer(layer);
+  }, [bannerData, bannerId]);
+
+  // Swap the regenerated layer in; the image effects keep the product asset's position and size
+  const handleLayerRegenerated = useCallback((layer: RegenerableLayer, result: RegeneratedLayer) => {
+    if (layer === 'background') {
+      setActualBackgroundImageUrl(result.imageUrl);
+      setBannerData(prev => prev && { ...prev, background_image_url: result.imageUrl, background_prompt: result.prompt, background_seed: result.seed });
+    } else {
+      setActualProductImageUrl(result.imageUrl);
+      setBannerData(prev => prev && { ...prev, product_image_url: result.imageUrl, product_prompt: result.prompt });
+    }
     setHasUnsavedChanges(true);
-  }, [isMirroredLayout]);
+  }, []);
+
+  // Apply an assistant proposal to the canvas. A new background is generated first so a failure changes nothing.
+  const previewChatProposal = useCallback(async (proposal: ChatProposal, onEvent: GenerationEventHandler) => {
+    const backgroundOperation = proposal.operations.find(operation => operation.type === 'background');
+    let background: RegeneratedLayer | undefined;
+    if (backgroundOperation?.type === 'background') {
+      if (!bannerId) throw new Error('Save the banner before regenerating its background');
+      background = await generateBackgroundLayer(bannerId, backgroundOperation.prompt, onEvent);
+    }
+
+    const changesAssets = proposal.operations.some(operation => operation.type !== 'background');
+    chatPreviewRef.current = {
+      assets: changesAssets ? compositionRef.current.assets : null,
+      backgroundUrl: actualBackgroundImageUrl,
+      background,
+    };
+    if (changesAssets) {
+      updateComposition(prev => applyChatOperations(prev, proposal.operations), { label: 'Asistente' });
+    }
+    if (background) {
+      setActualBackgroundImageUrl(background.imageUrl);
+      setHasUnsavedChanges(true);
+    }
+  }, [bannerId, actualBackgroundImageUrl, updateComposition]);
+
+  // Keep the previewed proposal; a new background is stored on the banner
+  const acceptChatProposal = useCallback(async () => {
+    const background = chatPreviewRef.current?.background;
+    if (background && bannerId) {
+      await saveBackgroundLayer(bannerId, background);
+      setBannerData(prev => prev && { ...prev, background_image_url: background.imageUrl, background_prompt: background.prompt, background_seed: background.seed });
+    }
+    chatPreviewRef.current = null;
+  }, [bannerId]);
+
+  const revertChatProposal = useCallback(() => {
+    const preview = chatPreviewRef.current;
+    if (!preview) return;
+
+    if (preview.assets) {
+      const assets = preview.assets;
+      updateComposition(prev => ({ ...prev, assets, lastModified: new Date() }), { label: 'Revertir asistente' });
+    }
+    if (preview.background) {
+      setActualBackgroundImageUrl(preview.backgroundUrl);
+    }
+    chatPreviewRef.current = null;
+  }, [updateComposition]);
 
   // Handle exit with automatic save
   const handleExit = useCallback(async () => {
@@ -1161,55 +1373,102 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
 
   const finishTextEditing = () => {
     if (editingText) {
-      updateAsset(editingText, { text: textEditValue });
+      // Styled runs follow the edit so highlighted spans keep their style
+      const asset = composition.assets.find(a => a.id === editingText);
+      updateAsset(editingText, {
+        text: textEditValue,
+        runs: asset?.runs ? updateRunsText(asset.runs, textEditValue) : undefined
+      });
       setEditingText(null);
       setTextEditValue('');
     }
   };
 
-  // Helper function to draw elegant gradient backdrop effect for product images
-  const drawProductBackdrop = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
-    const centerX = width / 2;
-    const centerY = height / 2;
-    const maxRadius = Math.max(width, height) * 1.2; // Larger radius for better fade
-    
-    ctx.save();
-    
-    // Create perfect gradient fade with extended radius for smooth edge transitions
-    const gradientBackdrop = ctx.createRadialGradient(centerX, centerY, 0, centerX, centerY, maxRadius);
-    
-    // Extended gradient with more color stops for ultra-smooth fade to edges
-    gradientBackdrop.addColorStop(0, 'rgba(255, 255, 255, 0.25)');      // Soft center
-    gradientBackdrop.addColorStop(0.08, 'rgba(255, 255, 255, 0.22)');   // Inner glow
-    gradientBackdrop.addColorStop(0.18, 'rgba(255, 255, 255, 0.16)');   // Strong fade
-    gradientBackdrop.addColorStop(0.32, 'rgba(255, 255, 255, 0.11)');   // Medium fade  
-    gradientBackdrop.addColorStop(0.48, 'rgba(255, 255, 255, 0.07)');   // Gentle transition
-    gradientBackdrop.addColorStop(0.65, 'rgba(255, 255, 255, 0.04)');   // Subtle fade
-    gradientBackdrop.addColorStop(0.78, 'rgba(255, 255, 255, 0.02)');   // Almost gone
-    gradientBackdrop.addColorStop(0.88, 'rgba(255, 255, 255, 0.01)');   // Nearly transparent
-    gradientBackdrop.addColorStop(0.95, 'rgba(255, 255, 255, 0.005)');  // Super subtle
-    gradientBackdrop.addColorStop(1, 'rgba(255, 255, 255, 0)');         // Completely transparent
-    
-    // Draw extended circular gradient that fades beyond the product bounds
-    ctx.fillStyle = gradientBackdrop;
-    ctx.beginPath();
-    ctx.arc(centerX, centerY, maxRadius, 0, 2 * Math.PI);
-    ctx.fill();
-    
-    // Add very subtle depth shadow
-    const depthShadow = ctx.createRadialGradient(centerX, centerY + 8, 0, centerX, centerY + 8, maxRadius * 0.4);
-    depthShadow.addColorStop(0, 'rgba(0, 0, 0, 0)');
-    depthShadow.addColorStop(0.4, 'rgba(0, 0, 0, 0.03)');
-    depthShadow.addColorStop(0.7, 'rgba(0, 0, 0, 0.02)');
-    depthShadow.addColorStop(1, 'rgba(0, 0, 0, 0)');
-    
-    ctx.fillStyle = depthShadow;
-    ctx.beginPath();
-    ctx.ellipse(centerX, centerY + 8, width * 0.4, height * 0.25, 0, 0, 2 * Math.PI);
-    ctx.fill();
-    
-    ctx.restore();
-  };
+  // Draw the composition in canvas coordinates onto any 2D context.
+  // Editor overlays (selection box, alignment guides, hidden text under edit) are only drawn on screen.
+  const drawComposition = useCallback((ctx: CanvasRenderingContext2D, includeEditorOverlays: boolean) => {
+    renderComposition(
+      composition,
+      { background: backgroundImage, product: productImage, logo: logoImage, logos: logoVariantImages },
+      ctx,
+      { hiddenAssetIds: includeEditorOverlays && editingText ? [editingText] : [] }
+    );
+
+    if (!includeEditorOverlays) return;
+
+    // Selection highlight
+    const selectedAssets = composition.assets?.filter(asset => editorState.selectedAssetIds.includes(asset.id)) ?? [];
+    selectedAssets.forEach(selected => {
+      ctx.save();
+      ctx.translate(selected.position.x, selected.position.y);
+      ctx.strokeStyle = '#2563eb';
+      ctx.lineWidth = 2;
+      ctx.setLineDash([5, 5]);
+      ctx.strokeRect(-2, -2, selected.size.width + 4, selected.size.height + 4);
+      ctx.restore();
+    });
+
+    // Copy that doesn't fit its box
+    composition.assets
+      ?.filter(asset => overflowingTextIds.includes(asset.id) && !asset.hidden)
+      .forEach(asset => {
+        ctx.save();
+        ctx.strokeStyle = '#dc2626';
+        ctx.lineWidth = 2;
+        ctx.setLineDash([3, 3]);
+        ctx.strokeRect(asset.position.x, asset.position.y, asset.size.width, asset.size.height);
+        ctx.restore();
+      });
+
+    // Bounds of a multi-selection
+    const selectionBounds = selectedAssets.length > 1 ? getAssetsBounds(selectedAssets) : null;
+    if (selectionBounds) {
+      ctx.save();
+      ctx.strokeStyle = '#93c5fd';
+      ctx.lineWidth = 1;
+      ctx.strokeRect(selectionBounds.x - 6, selectionBounds.y - 6, selectionBounds.width + 12, selectionBounds.height + 12);
+      ctx.restore();
+    }
+
+    // Marquee rectangle
+    if (marquee) {
+      ctx.save();
+      ctx.fillStyle = 'rgba(37, 99, 235, 0.08)';
+      ctx.strokeStyle = '#2563eb';
+      ctx.lineWidth = 1;
+      const marqueeX = Math.min(marquee.startX, marquee.currentX);
+      const marqueeY = Math.min(marquee.startY, marquee.currentY);
+      const marqueeWidth = Math.abs(marquee.currentX - marquee.startX);
+      const marqueeHeight = Math.abs(marquee.currentY - marquee.startY);
+      ctx.fillRect(marqueeX, marqueeY, marqueeWidth, marqueeHeight);
+      ctx.strokeRect(marqueeX, marqueeY, marqueeWidth, marqueeHeight);
+      ctx.restore();
+    }
+
+    // Draw alignment guides
+    if (alignmentGuides.length > 0) {
+      ctx.save();
+      ctx.strokeStyle = '#ff6b6b';
+      ctx.lineWidth = 1;
+      ctx.setLineDash([5, 5]);
+      
+      alignmentGuides.forEach(guide => {
+        if (guide.type === 'vertical') {
+          ctx.beginPath();
+          ctx.moveTo(guide.position, guide.start);
+          ctx.lineTo(guide.position, guide.end);
+          ctx.stroke();
+        } else if (guide.type === 'horizontal') {
+          ctx.beginPath();
+          ctx.moveTo(guide.start, guide.position);
+          ctx.lineTo(guide.end, guide.position);
+          ctx.stroke();
+        }
+      });
+      
+      ctx.restore();
+    }
+  }, [composition, backgroundImage, logoImage, logoVariantImages, productImage, editorState.selectedAssetIds, editingText, alignmentGuides, marquee, overflowingTextIds]);
 
   // Render canvas
   const renderCanvas = useCallback(() => {
@@ -1244,327 +1503,122 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
     canvas.width = composition.canvasSize.width;
     canvas.height = composition.canvasSize.height;
 
-    // Clear and fill with white background first
-    ctx.fillStyle = '#ffffff';
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    drawComposition(ctx, true);
+  }, [composition, backgroundImage, logoImage, productImage, drawComposition]);
 
-    // Draw background image (layer 1)
-    try {
-      ctx.drawImage(backgroundImage, 0, 0, canvas.width, canvas.height);
-      console.log('Background image drawn successfully');
-    } catch (error) {
-      console.error('Error drawing background image:', error);
-      // Fallback: draw gray background
-      ctx.fillStyle = '#f5f5f5';
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
+  // Export the flattened banner, optionally publishing it as the banner's image_url
+  const exportBanner = useCallback(async (publish: boolean) => {
+    if (!backgroundImage) {
+      toast({
+        title: "Imagen no disponible",
+        description: "Espera a que cargue el fondo del banner antes de exportar",
+        variant: "destructive"
+      });
+      return;
     }
 
-    // Product image is now drawn as an asset in the asset loop below
+    if (!fontsReady) {
+      toast({
+        title: "Fuentes no disponibles",
+        description: fontError ?? "Espera a que carguen las fuentes de la marca antes de exportar",
+        variant: "destructive"
+      });
+      return;
+    }
 
-    // Draw all assets
-    composition.assets?.forEach(asset => {
-      if (editingText === asset.id) return;
+    if (enforceBrandCompliance && complianceReport.errorCount > 0) {
+      toast({
+        title: "El banner no cumple la marca",
+        description: `Corrige ${complianceReport.errorCount} error(es) del panel de marca o desactiva la verificación`,
+        variant: "destructive"
+      });
+      return;
+    }
 
-      ctx.save();
-      ctx.translate(asset.position.x + asset.size.width / 2, asset.position.y + asset.size.height / 2);
-      ctx.rotate((asset.rotation * Math.PI) / 180);
-      ctx.translate(-asset.size.width / 2, -asset.size.height / 2);
-
-      if (asset.type === 'text' && asset.text) {
-        ctx.font = `${asset.fontWeight} ${asset.fontSize}px ${asset.fontFamily}`;
-        ctx.fillStyle = asset.color || '#000000';
-        ctx.textAlign = asset.textAlign as CanvasTextAlign || 'left';
-        ctx.textBaseline = 'middle';
-        
-        // Respect manual line breaks only, no automatic breaking
-        const lines = asset.text.split('\n');
-        const lineHeight = asset.fontSize! * 1.2;
-        
-        lines.forEach((line, index) => {
-          const y = (asset.size.height / 2) + (index - (lines.length - 1) / 2) * lineHeight;
-          let x = 0;
-          
-          switch (asset.textAlign) {
-            case 'center': x = asset.size.width / 2; break;
-            case 'right': x = asset.size.width; break;
-            default: x = 0;
-          }
-          
-          ctx.fillText(line, x, y);
-        });
-      } else if (asset.type === 'cta' && asset.text) {
-        // Draw CTA button with subtle background effects
-        const borderRadius = asset.borderRadius || 12;
-        
-        // Save context for effects
-        ctx.save();
-        
-        // Add subtle drop shadow to CTA
-        ctx.shadowColor = 'rgba(0, 0, 0, 0.1)';
-        ctx.shadowOffsetX = 2;
-        ctx.shadowOffsetY = 3;
-        ctx.shadowBlur = 8;
-        
-        // Helper function to draw rounded rectangle
-        const drawRoundedRect = (x: number, y: number, width: number, height: number, radius: number) => {
-          ctx.beginPath();
-          ctx.moveTo(x + radius, y);
-          ctx.lineTo(x + width - radius, y);
-          ctx.quadraticCurveTo(x + width, y, x + width, y + radius);
-          ctx.lineTo(x + width, y + height - radius);
-          ctx.quadraticCurveTo(x + width, y + height, x + width - radius, y + height);
-          ctx.lineTo(x + radius, y + height);
-          ctx.quadraticCurveTo(x, y + height, x, y + height - radius);
-          ctx.lineTo(x, y + radius);
-          ctx.quadraticCurveTo(x, y, x + radius, y);
-          ctx.closePath();
-        };
+    if (overflowingTextIds.length > 0) {
+      toast({
+        title: "Texto desbordado",
+        description: "Algunos textos no caben en su caja y se verán cortados o superpuestos",
+      });
+    }
 
-        // Draw button background with shadow
-        if (asset.backgroundColor) {
-          ctx.fillStyle = asset.backgroundColor;
-          drawRoundedRect(0, 0, asset.size.width, asset.size.height, borderRadius);
-          ctx.fill();
-        }
-        
-        // Reset shadow for text
-        ctx.shadowColor = 'transparent';
-        ctx.shadowOffsetX = 0;
-        ctx.shadowOffsetY = 0;
-        ctx.shadowBlur = 0;
-
-        // Draw button border if specified
-        if (asset.borderColor) {
-          ctx.strokeStyle = asset.borderColor;
-          ctx.lineWidth = asset.borderWidth || 2;
-          drawRoundedRect(0, 0, asset.size.width, asset.size.height, borderRadius);
-          ctx.stroke();
+    try {
+      setIsExporting(true);
+      const blob = await exportCompositionToBlob(
+        composition,
+        { background: backgroundImage, product: productImage, logo: logoImage, logos: logoVariantImages },
+        exportOptions
+      );
+
+      if (publish) {
+        // Persist the composition first so the stored layers match the published image
+        if (hasUnsavedChanges) {
+          await saveComposition();
         }
-
-        // Draw button text
-        ctx.font = `${asset.fontWeight} ${asset.fontSize}px ${asset.fontFamily}`;
-        ctx.fillStyle = asset.color || '#000000';
-        ctx.textAlign = asset.textAlign as CanvasTextAlign || 'center';
-        ctx.textBaseline = 'middle';
-        
-        // Respect manual line breaks only for CTA text
-        const lines = asset.text.split('\n');
-        const lineHeight = asset.fontSize! * 1.2;
-        
-        lines.forEach((line, index) => {
-          const y = (asset.size.height / 2) + (index - (lines.length - 1) / 2) * lineHeight;
-          let x = 0;
-          
-          switch (asset.textAlign) {
-            case 'center': x = asset.size.width / 2; break;
-            case 'right': x = asset.size.width; break;
-            default: x = 0;
-          }
-          
-          ctx.fillText(line, x, y);
+        await uploadBannerExport(bannerId, blob, exportOptions);
+        toast({
+          title: "✅ Banner exportado",
+          description: "La imagen final se guardó y se usará en el historial",
         });
-        
-        // Restore context
-        ctx.restore();
-      } else if (asset.type === 'logo' && logoImage) {
-        // Draw logo image with subtle background effect
-        try {
-          const borderRadius = 12; // Rounded corner radius
-          const x = 0;
-          const y = 0;
-          const width = asset.size.width;
-          const height = asset.size.height;
-          
-          // Save context for effects
-          ctx.save();
-          
-          // Add stronger drop shadow for better visibility
-          ctx.shadowColor = 'rgba(0, 0, 0, 0.18)';
-          ctx.shadowOffsetX = 4;
-          ctx.shadowOffsetY = 4;
-          ctx.shadowBlur = 12;
-          
-          // Create more visible background with slight gradient effect
-          const gradient = ctx.createLinearGradient(x, y, x + width, y + height);
-          gradient.addColorStop(0, 'rgba(255, 255, 255, 0.95)');
-          gradient.addColorStop(1, 'rgba(248, 250, 252, 0.92)');
-          ctx.fillStyle = gradient;
-          ctx.beginPath();
-          ctx.moveTo(x + borderRadius, y);
-          ctx.lineTo(x + width - borderRadius, y);
-          ctx.quadraticCurveTo(x + width, y, x + width, y + borderRadius);
-          ctx.lineTo(x + width, y + height - borderRadius);
-          ctx.quadraticCurveTo(x + width, y + height, x + width - borderRadius, y + height);
-          ctx.lineTo(x + borderRadius, y + height);
-          ctx.quadraticCurveTo(x, y + height, x, y + height - borderRadius);
-          ctx.lineTo(x, y + borderRadius);
-          ctx.quadraticCurveTo(x, y, x + borderRadius, y);
-          ctx.closePath();
-          ctx.fill();
-          
-          // Reset shadow for logo image
-          ctx.shadowColor = 'transparent';
-          ctx.shadowOffsetX = 0;
-          ctx.shadowOffsetY = 0;
-          ctx.shadowBlur = 0;
-          
-          // Create clipping path for logo
-          ctx.beginPath();
-          ctx.moveTo(x + borderRadius, y);
-          ctx.lineTo(x + width - borderRadius, y);
-          ctx.quadraticCurveTo(x + width, y, x + width, y + borderRadius);
-          ctx.lineTo(x + width, y + height - borderRadius);
-          ctx.quadraticCurveTo(x + width, y + height, x + width - borderRadius, y + height);
-          ctx.lineTo(x + borderRadius, y + height);
-          ctx.quadraticCurveTo(x, y + height, x, y + height - borderRadius);
-          ctx.lineTo(x, y + borderRadius);
-          ctx.quadraticCurveTo(x, y, x + borderRadius, y);
-          ctx.closePath();
-          ctx.clip();
-          
-          // Draw the logo image within the clipped area
-          ctx.drawImage(logoImage, x, y, width, height);
-          
-          // Restore context
-          ctx.restore();
-        } catch (error) {
-          console.error('Error drawing logo image:', error);
-          // Fallback to placeholder with rounded corners
-          const borderRadius = 12;
-          const x = 0;
-          const y = 0;
-          const width = asset.size.width;
-          const height = asset.size.height;
-          
-          // Draw rounded placeholder
-          ctx.beginPath();
-          ctx.moveTo(x + borderRadius, y);
-          ctx.lineTo(x + width - borderRadius, y);
-          ctx.quadraticCurveTo(x + width, y, x + width, y + borderRadius);
-          ctx.lineTo(x + width, y + height - borderRadius);
-          ctx.quadraticCurveTo(x + width, y + height, x + width - borderRadius, y + height);
-          ctx.lineTo(x + borderRadius, y + height);
-          ctx.quadraticCurveTo(x, y + height, x, y + height - borderRadius);
-          ctx.lineTo(x, y + borderRadius);
-          ctx.quadraticCurveTo(x, y, x + borderRadius, y);
-          ctx.closePath();
-          ctx.fillStyle = 'rgba(0,0,0,0.1)';
-          ctx.fill();
-          ctx.strokeStyle = '#ccc';
-          ctx.stroke();
-          
-          ctx.fillStyle = '#666';
-          ctx.font = '14px Inter';
-          ctx.textAlign = 'center';
-          ctx.fillText('LOGO', width / 2, height / 2);
-        }
-      } else if (asset.type === 'logo') {
-        // Draw logo placeholder with rounded corners
-        const borderRadius = 12;
-        const x = 0;
-        const y = 0;
-        const width = asset.size.width;
-        const height = asset.size.height;
-        
-        // Draw rounded placeholder
-        ctx.beginPath();
-        ctx.moveTo(x + borderRadius, y);
-        ctx.lineTo(x + width - borderRadius, y);
-        ctx.quadraticCurveTo(x + width, y, x + width, y + borderRadius);
-        ctx.lineTo(x + width, y + height - borderRadius);
-        ctx.quadraticCurveTo(x + width, y + height, x + width - borderRadius, y + height);
-        ctx.lineTo(x + borderRadius, y + height);
-        ctx.quadraticCurveTo(x, y + height, x, y + height - borderRadius);
-        ctx.lineTo(x, y + borderRadius);
-        ctx.quadraticCurveTo(x, y, x + borderRadius, y);
-        ctx.closePath();
-        ctx.fillStyle = 'rgba(0,0,0,0.1)';
-        ctx.fill();
-        ctx.strokeStyle = '#ccc';
-        ctx.stroke();
-        
-        ctx.fillStyle = '#666';
-        ctx.font = '14px Inter';
-        ctx.textAlign = 'center';
-        ctx.fillText('LOGO', width / 2, height / 2);
-      } else if (asset.type === 'product' && productImage) {
-        // Draw subtle backdrop effect behind product
-        drawProductBackdrop(ctx, asset.size.width, asset.size.height);
-        
-        // Draw product image
-        try {
-          ctx.drawImage(productImage, 0, 0, asset.size.width, asset.size.height);
-          console.log('✅ Product image drawn as asset:', { width: asset.size.width, height: asset.size.height });
-        } catch (error) {
-          console.error('❌ Error drawing product image asset:', error);
-          // Fallback to placeholder
-          ctx.fillStyle = 'rgba(0,150,0,0.1)';
-          ctx.fillRect(0, 0, asset.size.width, asset.size.height);
-          ctx.strokeStyle = '#4CAF50';
-          ctx.strokeRect(0, 0, asset.size.width, asset.size.height);
-          ctx.fillStyle = '#2E7D2E';
-          ctx.font = '14px Inter';
-          ctx.textAlign = 'center';
-          ctx.fillText('PRODUCTO', asset.size.width / 2, asset.size.height / 2);
-        }
-      } else if (asset.type === 'product') {
-        // Draw product placeholder
-        console.log('⚠️ Product asset found but no productImage state - showing placeholder');
-        console.log('Product asset details:', {
-          id: asset.id,
-          imageUrl: asset.imageUrl,
-          hasProductImageState: !!productImage,
-          actualProductImageUrl: actualProductImageUrl
+      } else {
+        downloadExportBlob(blob, getExportFileName(bannerId, exportOptions));
+        toast({
+          title: "Descarga iniciada",
+          description: `Banner exportado en ${exportOptions.format.toUpperCase()} a ${exportOptions.scale}x`,
         });
-        
-        ctx.fillStyle = 'rgba(0,150,0,0.1)';
-        ctx.fillRect(0, 0, asset.size.width, asset.size.height);
-        ctx.strokeStyle = '#4CAF50';
-        ctx.strokeRect(0, 0, asset.size.width, asset.size.height);
-        ctx.fillStyle = '#2E7D2E';
-        ctx.font = '14px Inter';
-        ctx.textAlign = 'center';
-        ctx.fillText('PRODUCTO', asset.size.width / 2, asset.size.height / 2);
       }
 
-      ctx.restore();
+      setIsExportDialogOpen(false);
+    } catch (error) {
+      console.error('Export error:', error);
+      toast({
+        title: "Error al exportar",
+        description: error instanceof Error ? error.message : "No se pudo exportar el banner",
+        variant: "destructive"
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  }, [backgroundImage, productImage, logoImage, logoVariantImages, composition, exportOptions, hasUnsavedChanges, saveComposition, bannerId, overflowingTextIds, fontsReady, fontError, enforceBrandCompliance, complianceReport.errorCount]);
 
-      // Selection highlight
-      if (editorState.selectedAssetId === asset.id) {
-        ctx.save();
-        ctx.translate(asset.position.x, asset.position.y);
-        ctx.strokeStyle = '#2563eb';
-        ctx.lineWidth = 2;
-        ctx.setLineDash([5, 5]);
-        ctx.strokeRect(-2, -2, asset.size.width + 4, asset.size.height + 4);
-        ctx.restore();
+  // Spawn linked format variants (mobile, square, story...) from the current composition
+  const createVariants = useCallback(async () => {
+    if (selectedVariantFormats.length === 0) return;
+
+    try {
+      setIsCreatingVariants(true);
+      if (hasUnsavedChanges) {
+        await saveComposition();
       }
-    });
 
-    // Draw alignment guides
-    if (alignmentGuides.length > 0) {
-      ctx.save();
-      ctx.strokeStyle = '#ff6b6b';
-      ctx.lineWidth = 1;
-      ctx.setLineDash([5, 5]);
-      
-      alignmentGuides.forEach(guide => {
-        if (guide.type === 'vertical') {
-          ctx.beginPath();
-          ctx.moveTo(guide.position, guide.start);
-          ctx.lineTo(guide.position, guide.end);
-          ctx.stroke();
-        } else if (guide.type === 'horizontal') {
-          ctx.beginPath();
-          ctx.moveTo(guide.start, guide.position);
-          ctx.lineTo(guide.end, guide.position);
-          ctx.stroke();
-        }
+      const variants = await createBannerVariants(
+        bannerId,
+        composition,
+        selectedVariantFormats,
+        backgroundImage ? { background: backgroundImage, product: productImage, logo: logoImage, logos: logoVariantImages } : undefined
+      );
+
+      const cropped = variants.filter(v => v.backgroundCoverage < MIN_BACKGROUND_COVERAGE);
+      toast({
+        title: "✅ Variantes creadas",
+        description: `Se crearon ${variants.length} variantes: ${variants.map(v => BANNER_FORMATS[v.format].label).join(', ')}`
+          + (cropped.length > 0
+            ? `. El fondo queda muy recortado en ${cropped.map(v => BANNER_FORMATS[v.format].label).join(', ')}: regenéralo desde el editor de esa variante.`
+            : ''),
       });
-      
-      ctx.restore();
+      setIsVariantsDialogOpen(false);
+      setSelectedVariantFormats([]);
+    } catch (error) {
+      console.error('Variant creation error:', error);
+      toast({
+        title: "Error al crear variantes",
+        description: error instanceof Error ? error.message : "No se pudieron crear las variantes",
+        variant: "destructive"
+      });
+    } finally {
+      setIsCreatingVariants(false);
     }
-  }, [composition, backgroundImage, logoImage, productImage, editorState.selectedAssetId, editingText, alignmentGuides]);
+  }, [selectedVariantFormats, hasUnsavedChanges, saveComposition, bannerId, composition, backgroundImage, productImage, logoImage, logoVariantImages]);
 
   // Force re-render when background or product images change
   useEffect(() => {
@@ -1582,6 +1636,11 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
     renderCanvas();
   }, [renderCanvas, composition.assets, hasAttemptedLoad]);
 
+  // Redraw once fonts finish loading so text swaps from the fallback font
+  useEffect(() => {
+    if (fontsReady) renderCanvas();
+  }, [renderCanvas, fontsReady]);
+
   // Load images with smart CORS handling
   useEffect(() => {
     if (actualBackgroundImageUrl) {
@@ -1706,7 +1765,7 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
         };
         
         // Use proxy for external services
-        const proxyUrl = `/api/image-proxy?url=${encodeURIComponent(actualBackgroundImageUrl)}`;
+        const proxyUrl = getImageProxyUrl(actualBackgroundImageUrl);
         img.src = proxyUrl;
       } else {
         // For other URLs (local development, etc.), use simple loading
@@ -1776,6 +1835,7 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
         const productAsset: BannerAsset = {
           id: `product_${Date.now()}`,
           type: 'product',
+          role: 'product',
           position: { x: productX, y: productY },
           size: { width: productWidth, height: productHeight },
           rotation: 0,
@@ -1917,7 +1977,7 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
         };
         
         // Use proxy for external services
-        const proxyUrl = `/api/image-proxy?url=${encodeURIComponent(actualProductImageUrl)}`;
+        const proxyUrl = getImageProxyUrl(actualProductImageUrl);
         img.src = proxyUrl;
       } else {
         // For other URLs (local development, etc.), use simple loading
@@ -2028,6 +2088,41 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
     }
   }, [logoImage]); // Removed composition.assets from dependency array to prevent infinite loop
 
+  // Load the partner's brand kit logo variants
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all(getLogoCandidates(brandKit).map(candidate =>
+      loadCanvasImage(candidate.url)
+        .then(image => [candidate.url, image] as const)
+        .catch(error => {
+          console.warn(`⚠️ Logo variant "${candidate.variant}" failed to load:`, error);
+          return null;
+        })
+    )).then(entries => {
+      if (cancelled) return;
+      setLogoVariantImages(Object.fromEntries(entries.filter((entry): entry is readonly [string, HTMLImageElement] => entry !== null)));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [brandKit]);
+
+  // Show each logo in the variant that contrasts best with the background beneath it.
+  // Re-evaluated once a move or resize ends and whenever the background changes. The choice is
+  // derived, not a user edit: it skips the undo history, dirty tracking and lastModified, and is
+  // saved with the next real edit (or chosen again when the banner is reopened).
+  useEffect(() => {
+    if (!backgroundSampler || editorState.isDragging || isResizing) return;
+    if (!selectLogoVariants(composition.assets ?? [], logoCandidates, backgroundSampler)) return;
+
+    setComposition(prev => {
+      const assets = selectLogoVariants(prev.assets, logoCandidates, backgroundSampler);
+      return assets ? { ...prev, assets } : prev;
+    });
+  }, [composition.assets, logoCandidates, backgroundSampler, editorState.isDragging, isResizing]);
+
   // Handle resize
   // DIRECT resize function that works immediately
   const handleCornerResize = (e: React.MouseEvent, handle: string) => {
@@ -2050,6 +2145,7 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
     console.log(`✅ Starting resize: ${handle} handle on ${selectedAsset.type} asset (${selectedAsset.size.width}x${selectedAsset.size.height})`);
 
     // Set resize state to prevent dragging
+    gestureIdRef.current += 1;
     setIsResizing(true);
     setResizeHandle(handle);
     setInitialResizeData({
@@ -2091,7 +2187,9 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
     const x = (e.clientX - rect.left) * scaleX;
     const y = (e.clientY - rect.top) * scaleY;
 
-    const clickedAsset = [...composition.assets].reverse().find(asset => 
+    // Top layer first; hidden and locked layers can't be picked
+    const clickedAsset = getLayerOrder(composition.assets).reverse().find(asset => 
+      isAssetInteractive(asset) &&
       x >= asset.position.x && x <= asset.position.x + asset.size.width &&
       y >= asset.position.y && y <= asset.position.y + asset.size.height
     );
@@ -2106,15 +2204,36 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
         return;
       }
 
+      // Shift-click toggles the asset in the selection without dragging
+      if (e.shiftKey) {
+        const isSelected = editorState.selectedAssetIds.includes(clickedAsset.id);
+        const selectedAssetIds = isSelected
+          ? editorState.selectedAssetIds.filter(id => id !== clickedAsset.id)
+          : [...editorState.selectedAssetIds, clickedAsset.id];
+        setEditorState(prev => ({
+          ...prev,
+          selectedAssetIds,
+          selectedAssetId: isSelected ? selectedAssetIds[selectedAssetIds.length - 1] ?? null : clickedAsset.id,
+          isDragging: false
+        }));
+        setMiniToolbarPosition(null);
+        return;
+      }
+
+      // Clicking inside a multi-selection keeps it so the whole selection can be dragged
+      const keepSelection = editorState.selectedAssetIds.includes(clickedAsset.id);
+
       // Just select the asset, don't start dragging immediately
       setEditorState(prev => ({
         ...prev,
         selectedAssetId: clickedAsset.id,
+        selectedAssetIds: keepSelection ? prev.selectedAssetIds : [clickedAsset.id],
         isDragging: false, // Don't start dragging on click
         dragOffset: { x: x - clickedAsset.position.x, y: y - clickedAsset.position.y }
       }));
       
       // Save initial mouse position for drag threshold
+      gestureIdRef.current += 1;
       setDragStartPosition({ x: e.clientX, y: e.clientY });
       setIsDragReady(true);
       
@@ -2127,8 +2246,15 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
       
       console.log(`Asset selected: ${clickedAsset.type}, starting drag mode`);
     } else {
-      // Clicking on empty space clears selection
-      setEditorState(prev => ({ ...prev, selectedAssetId: null, isDragging: false }));
+      // Clicking on empty space clears selection (unless Shift adds to it) and starts a marquee
+      const baseIds = e.shiftKey ? editorState.selectedAssetIds : [];
+      setEditorState(prev => ({
+        ...prev,
+        selectedAssetId: baseIds[baseIds.length - 1] ?? null,
+        selectedAssetIds: baseIds,
+        isDragging: false
+      }));
+      setMarquee({ startX: x, startY: y, currentX: x, currentY: y, baseIds });
       setMiniToolbarPosition(null);
       setDragStartPosition(null);
       setIsDragReady(false);
@@ -2145,6 +2271,16 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
       const scaleX = canvas.width / rect.width;
       const scaleY = canvas.height / rect.height;
 
+      // Handle marquee selection
+      if (marquee) {
+        setMarquee(prev => prev && {
+          ...prev,
+          currentX: (e.clientX - rect.left) * scaleX,
+          currentY: (e.clientY - rect.top) * scaleY
+        });
+        return;
+      }
+
       // Handle resizing - prioritize resize over drag
       if (isResizing && editorState.selectedAssetId && initialResizeData && resizeHandle) {
         const deltaX = e.clientX - initialResizeData.startX;
@@ -2231,14 +2367,14 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
           assets: prev.assets.map(asset => 
             asset.id === editorState.selectedAssetId
               ? {
-                  ...asset,
+                  ...(asset.type === 'group' ? resizeGroup(asset, newWidth, newHeight) : asset),
                   size: { width: newWidth, height: newHeight },
                   position: { x: newX, y: newY }
                 }
               : asset
           ),
           lastModified: new Date()
-        }));
+        }), { label: 'Redimensionar', coalesceKey: `gesture_${gestureIdRef.current}` });
         
         return; // Don't handle dragging when resizing
       }
@@ -2282,6 +2418,10 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
           const constrainedX = Math.max(0, Math.min(composition.canvasSize.width - draggedAsset.size.width, snappedX));
           const constrainedY = Math.max(0, Math.min(composition.canvasSize.height - draggedAsset.size.height, snappedY));
 
+          // The rest of a multi-selection follows the dragged asset
+          const deltaX = constrainedX - draggedAsset.position.x;
+          const deltaY = constrainedY - draggedAsset.position.y;
+
           updateComposition(prev => ({
             ...prev,
             assets: prev.assets.map(asset => 
@@ -2293,10 +2433,12 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
                       y: constrainedY
                     }
                   }
-                : asset
+                : editorState.selectedAssetIds.includes(asset.id) && !asset.locked
+                  ? { ...asset, position: { x: asset.position.x + deltaX, y: asset.position.y + deltaY } }
+                  : asset
             ),
             lastModified: new Date()
-          }));
+          }), { label: 'Mover', coalesceKey: `gesture_${gestureIdRef.current}` });
 
           // Update mini toolbar position
           setMiniToolbarPosition({
@@ -2313,6 +2455,24 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
       if (isResizing) {
         console.log(`✅ Resize completed`);
       }
+
+      if (marquee) {
+        const marqueeRect = {
+          x: Math.min(marquee.startX, marquee.currentX),
+          y: Math.min(marquee.startY, marquee.currentY),
+          width: Math.abs(marquee.currentX - marquee.startX),
+          height: Math.abs(marquee.currentY - marquee.startY)
+        };
+        const hitIds = getAssetsInRect(composition.assets.filter(isAssetInteractive), marqueeRect);
+        const selectedAssetIds = [...marquee.baseIds, ...hitIds.filter(id => !marquee.baseIds.includes(id))];
+        setEditorState(prev => ({
+          ...prev,
+          selectedAssetIds,
+          selectedAssetId: selectedAssetIds[selectedAssetIds.length - 1] ?? null
+        }));
+        setMarquee(null);
+        console.log(`⬚ Marquee selected ${hitIds.length} assets`);
+      }
       
       // Clear all interaction states
       setEditorState(prev => ({ ...prev, isDragging: false, isResizing: false }));
@@ -2326,7 +2486,7 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
       setAlignmentGuides([]);
     };
 
-    if (editorState.isDragging || isResizing || isDragReady) {
+    if (editorState.isDragging || isResizing || isDragReady || marquee) {
       document.addEventListener('mousemove', handleGlobalMouseMove);
       document.addEventListener('mouseup', handleGlobalMouseUp);
     }
@@ -2335,9 +2495,10 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
       document.removeEventListener('mousemove', handleGlobalMouseMove);
       document.removeEventListener('mouseup', handleGlobalMouseUp);
     };
-  }, [editorState.isDragging, editorState.selectedAssetId, editorState.dragOffset, isResizing, resizeHandle, initialResizeData, isDragReady, dragStartPosition, updateComposition, composition.assets]);
+  }, [editorState.isDragging, editorState.selectedAssetId, editorState.selectedAssetIds, editorState.dragOffset, isResizing, resizeHandle, initialResizeData, isDragReady, dragStartPosition, marquee, updateComposition, composition.assets]);
 
   // Asset management
+  // Repeated edits of the same properties (e.g. dragging a color picker) merge into one undo step
   const updateAsset = (assetId: string, updates: Partial<BannerAsset>) => {
     updateComposition(prev => ({
       ...prev,
@@ -2345,36 +2506,414 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
         asset.id === assetId ? { ...asset, ...updates } : asset
       ),
       lastModified: new Date()
+    }), { label: 'Editar elemento', coalesceKey: `edit_${assetId}_${Object.keys(updates).sort().join(',')}` });
+  };
+
+  const deleteAssets = (assetIds: string[]) => {
+    if (assetIds.length === 0) return;
+
+    updateComposition(prev => ({
+      ...prev,
+      assets: prev.assets.filter(asset => !assetIds.includes(asset.id)),
+      lastModified: new Date()
+    }), { label: 'Eliminar' });
+    setEditorState(prev => {
+      const selectedAssetIds = prev.selectedAssetIds.filter(id => !assetIds.includes(id));
+      return { ...prev, selectedAssetIds, selectedAssetId: selectedAssetIds[selectedAssetIds.length - 1] ?? null };
+    });
+    setMiniToolbarPosition(null);
+  };
+
+  const deleteAsset = (assetId: string) => deleteAssets([assetId]);
+
+  // Copies are stacked on top of every layer and become the new selection
+  const insertAssetCopies = (sources: BannerAsset[], label: string, offset: number = PASTE_OFFSET) => {
+    if (sources.length === 0) return;
+
+    const topZIndex = Math.max(-1, ...composition.assets.map((asset, index) => asset.zIndex ?? index));
+    const copies = preparePastedAssets(getLayerOrder(sources), composition.canvasSize, topZIndex, offset);
+
+    updateComposition(prev => ({
+      ...prev,
+      assets: [...prev.assets, ...copies],
+      lastModified: new Date()
+    }), { label });
+    setEditorState(prev => ({
+      ...prev,
+      selectedAssetIds: copies.map(copy => copy.id),
+      selectedAssetId: copies[copies.length - 1].id
     }));
+    setMiniToolbarPosition(null);
+  };
+
+  const duplicateAssets = (assetIds: string[]) => {
+    insertAssetCopies(composition.assets.filter(asset => assetIds.includes(asset.id)), 'Duplicar');
+  };
+
+  const duplicateAsset = (assetId: string) => duplicateAssets([assetId]);
+
+  // Rich text: style buttons apply to the range selected in the inline editor, or to the whole text
+  const activeTextRange = textSelection && textSelection.assetId === editorState.selectedAssetId ? textSelection : null;
+
+  const styleTextRange = (assetId: string, range: { start: number; end: number }, updateStyle: (style: TextRunStyle) => TextRunStyle) => {
+    updateComposition(prev => ({
+      ...prev,
+      assets: prev.assets.map(asset => {
+        if (asset.id !== assetId) return asset;
+        const runs = applyStyleToRange(getAssetRuns(asset), range.start, range.end, updateStyle);
+        return { ...asset, runs, text: runsToText(runs) };
+      }),
+      lastModified: new Date()
+    }), { label: 'Estilo de texto', coalesceKey: `style_${assetId}_${range.start}_${range.end}` });
+  };
+
+  const isTextStyleActive = (asset: BannerAsset, key: 'bold' | 'italic' | 'underline') => {
+    const range = activeTextRange ?? { start: 0, end: asset.text?.length ?? 0 };
+    return isRangeStyled(getAssetRuns(asset), range.start, range.end, style =>
+      key === 'bold' ? style.bold ?? asset.fontWeight === 'bold' : !!style[key]
+    );
+  };
+
+  const toggleTextStyle = (asset: BannerAsset, key: 'bold' | 'italic' | 'underline') => {
+    // Whole-text bold stays on the asset's own fontWeight
+    if (key === 'bold' && !activeTextRange) {
+      updateAsset(asset.id, { fontWeight: asset.fontWeight === 'bold' ? 'normal' : 'bold' });
+      return;
+    }
+
+    const range = activeTextRange ?? { start: 0, end: asset.text?.length ?? 0 };
+    const enable = !isTextStyleActive(asset, key);
+    styleTextRange(asset.id, range, style => ({ ...style, [key]: enable }));
   };
 
-  const deleteAsset = (assetId: string) => {
+  const setTextColor = (asset: BannerAsset, color: string) => {
+    if (activeTextRange) {
+      styleTextRange(asset.id, activeTextRange, style => ({ ...style, color }));
+    } else {
+      updateAsset(asset.id, { color });
+    }
+  };
+
+  const changeTextSize = (asset: BannerAsset, delta: number) => {
+    const baseSize = asset.fontSize || 16;
+    if (activeTextRange) {
+      styleTextRange(asset.id, activeTextRange, style => ({
+        ...style,
+        fontSize: Math.max(12, Math.min(72, (style.fontSize ?? baseSize) + delta))
+      }));
+      return;
+    }
+
+    const fontSize = Math.max(12, Math.min(72, baseSize + delta));
+    updateAsset(asset.id, { fontSize, runs: scaleRunFontSizes(asset.runs, fontSize / baseSize) });
+  };
+
+  const copySelection = () => {
+    const selected = composition.assets.filter(asset => editorState.selectedAssetIds.includes(asset.id));
+    if (selected.length === 0) return;
+
+    copyAssetsToClipboard(selected, bannerId);
+    toast({
+      title: "Copiado",
+      description: selected.length === 1 ? "1 elemento copiado" : `${selected.length} elementos copiados`,
+    });
+  };
+
+  const pasteFromClipboard = () => {
+    const clipboard = readAssetsFromClipboard();
+    if (!clipboard) {
+      toast({
+        title: "Nada que pegar",
+        description: "Copia uno o más elementos con Ctrl+C primero",
+      });
+      return;
+    }
+
+    // Pasting into another banner keeps the original positions
+    insertAssetCopies(clipboard.assets, 'Pegar', clipboard.sourceBannerId === bannerId ? PASTE_OFFSET : 0);
+  };
+
+  const nudgeSelection = (deltaX: number, deltaY: number) => {
+    const ids = getMovableSelectionIds();
+    if (ids.length === 0) return;
+
     updateComposition(prev => ({
       ...prev,
-      assets: prev.assets.filter(asset => asset.id !== assetId),
+      assets: prev.assets.map(asset => ids.includes(asset.id)
+        ? {
+            ...asset,
+            position: {
+              x: Math.max(0, Math.min(prev.canvasSize.width - asset.size.width, asset.position.x + deltaX)),
+              y: Math.max(0, Math.min(prev.canvasSize.height - asset.size.height, asset.position.y + deltaY))
+            }
+          }
+        : asset
+      ),
       lastModified: new Date()
+    }), { label: 'Mover', coalesceKey: `nudge_${ids.join(',')}` });
+    setMiniToolbarPosition(null);
+  };
+
+  const selectAllAssets = () => {
+    const selectedAssetIds = getLayerOrder(composition.assets).filter(isAssetInteractive).map(asset => asset.id);
+    setEditorState(prev => ({
+      ...prev,
+      selectedAssetIds,
+      selectedAssetId: selectedAssetIds[selectedAssetIds.length - 1] ?? null
     }));
-    setEditorState(prev => ({ ...prev, selectedAssetId: null }));
     setMiniToolbarPosition(null);
   };
 
-  const duplicateAsset = (assetId: string) => {
+  const clearSelection = () => {
+    setEditorState(prev => ({ ...prev, selectedAssetId: null, selectedAssetIds: [] }));
+    setMiniToolbarPosition(null);
+  };
+
+  // Pin a logo to one brand kit variant, or hand it back to automatic selection
+  const setLogoVariant = (assetId: string, value: string) => {
+    const candidate = logoCandidates.find(entry => entry.variant === value);
+    if (value !== 'auto' && !candidate) return;
+
+    updateComposition(prev => ({
+      ...prev,
+      assets: prev.assets.map(asset => {
+        if (asset.id !== assetId) return asset;
+        return candidate
+          ? { ...asset, imageUrl: candidate.url, logoVariant: candidate.variant, logoVariantLocked: true }
+          : { ...asset, logoVariantLocked: false };
+      }),
+      lastModified: new Date()
+    }), { label: 'Cambiar variante del logo' });
+  };
+
+  // Layer panel
+  const selectLayer = (assetId: string, additive: boolean) => {
+    setEditorState(prev => {
+      const isSelected = prev.selectedAssetIds.includes(assetId);
+      if (!additive) {
+        return { ...prev, selectedAssetId: assetId, selectedAssetIds: [assetId] };
+      }
+      const selectedAssetIds = isSelected
+        ? prev.selectedAssetIds.filter(id => id !== assetId)
+        : [...prev.selectedAssetIds, assetId];
+      return {
+        ...prev,
+        selectedAssetIds,
+        selectedAssetId: isSelected ? selectedAssetIds[selectedAssetIds.length - 1] ?? null : assetId
+      };
+    });
+    setMiniToolbarPosition(null);
+  };
+
+  const reorderLayer = (assetId: string, toIndex: number) => {
+    updateComposition(prev => ({
+      ...prev,
+      assets: moveLayer(prev.assets, assetId, toIndex),
+      lastModified: new Date()
+    }), { label: 'Reordenar capas' });
+  };
+
+  const toggleLayerHidden = (assetId: string) => {
     const asset = composition.assets.find(a => a.id === assetId);
     if (!asset) return;
 
-    const newAsset = {
-      ...asset,
-      id: `${asset.type}_${Date.now()}`,
-      position: { x: asset.position.x + 20, y: asset.position.y + 20 }
-    };
+    updateComposition(prev => ({
+      ...prev,
+      assets: normalizeLayers(prev.assets.map(a => a.id === assetId ? { ...a, hidden: !a.hidden } : a)),
+      lastModified: new Date()
+    }), { label: asset.hidden ? 'Mostrar capa' : 'Ocultar capa' });
+
+    // A layer that disappears from the canvas can't stay selected
+    if (!asset.hidden) {
+      setEditorState(prev => {
+        const selectedAssetIds = prev.selectedAssetIds.filter(id => id !== assetId);
+        return {
+          ...prev,
+          selectedAssetIds,
+          selectedAssetId: prev.selectedAssetId === assetId ? selectedAssetIds[selectedAssetIds.length - 1] ?? null : prev.selectedAssetId
+        };
+      });
+      setMiniToolbarPosition(null);
+    }
+  };
+
+  const toggleLayerLocked = (assetId: string) => {
+    const asset = composition.assets.find(a => a.id === assetId);
+    if (!asset) return;
 
     updateComposition(prev => ({
       ...prev,
-      assets: [...prev.assets, newAsset],
+      assets: normalizeLayers(prev.assets.map(a => a.id === assetId ? { ...a, locked: !a.locked } : a)),
       lastModified: new Date()
+    }), { label: asset.locked ? 'Desbloquear capa' : 'Bloquear capa' });
+  };
+
+  // Selection arrangement (locked layers stay where they are)
+  const getMovableSelectionIds = () => editorState.selectedAssetIds.filter(id =>
+    !composition.assets.find(asset => asset.id === id)?.locked
+  );
+
+  const alignSelection = (alignment: AlignmentType) => {
+    updateComposition(prev => ({
+      ...prev,
+      assets: alignAssets(prev.assets, getMovableSelectionIds(), alignment, alignRelativeTo, prev.canvasSize),
+      lastModified: new Date()
+    }), { label: 'Alinear' });
+  };
+
+  const distributeSelection = (axis: DistributeAxis) => {
+    updateComposition(prev => ({
+      ...prev,
+      assets: distributeAssets(prev.assets, getMovableSelectionIds(), axis, alignRelativeTo, prev.canvasSize),
+      lastModified: new Date()
+    }), { label: 'Distribuir' });
+  };
+
+  const groupSelection = () => {
+    const result = groupAssets(composition.assets, editorState.selectedAssetIds);
+    if (!result) return;
+
+    updateComposition(prev => ({ ...prev, assets: result.assets, lastModified: new Date() }), { label: 'Agrupar' });
+    setEditorState(prev => ({ ...prev, selectedAssetId: result.groupId, selectedAssetIds: [result.groupId] }));
+    setMiniToolbarPosition(null);
+  };
+
+  const ungroupSelection = () => {
+    if (!editorState.selectedAssetId) return;
+    const result = ungroupAsset(composition.assets, editorState.selectedAssetId);
+    if (!result) return;
+
+    updateComposition(prev => ({ ...prev, assets: result.assets, lastModified: new Date() }), { label: 'Desagrupar' });
+    setEditorState(prev => ({
+      ...prev,
+      selectedAssetId: result.childIds[result.childIds.length - 1] ?? null,
+      selectedAssetIds: result.childIds
     }));
+    setMiniToolbarPosition(null);
   };
 
+  const hasSelection = editorState.selectedAssetIds.length > 0;
+  const selectionCount = editorState.selectedAssetIds.length;
+
+  // Every editor action, listed in the command palette
+  const editorCommands: EditorCommand[] = [
+    { id: 'undo', group: 'Edición', label: 'Deshacer', shortcut: 'Ctrl+Z', disabled: history.past.length === 0, run: undo },
+    { id: 'redo', group: 'Edición', label: 'Rehacer', shortcut: 'Ctrl+Shift+Z', disabled: history.future.length === 0, run: redo },
+    { id: 'copy', group: 'Edición', label: 'Copiar', shortcut: 'Ctrl+C', disabled: !hasSelection, run: copySelection },
+    { id: 'paste', group: 'Edición', label: 'Pegar', shortcut: 'Ctrl+V', run: pasteFromClipboard },
+    { id: 'duplicate', group: 'Edición', label: 'Duplicar', shortcut: 'Ctrl+D', disabled: !hasSelection, run: () => duplicateAssets(editorState.selectedAssetIds) },
+    { id: 'delete', group: 'Edición', label: 'Eliminar', shortcut: 'Supr', disabled: !hasSelection, run: () => deleteAssets(getMovableSelectionIds()) },
+    { id: 'select-all', group: 'Edición', label: 'Seleccionar todo', shortcut: 'Ctrl+A', run: selectAllAssets },
+    { id: 'deselect', group: 'Edición', label: 'Quitar selección', shortcut: 'Esc', disabled: !hasSelection, run: clearSelection },
+    { id: 'nudge-left', group: 'Mover', label: 'Mover a la izquierda', shortcut: '← (Shift: 10px)', disabled: !hasSelection, run: () => nudgeSelection(-1, 0) },
+    { id: 'nudge-right', group: 'Mover', label: 'Mover a la derecha', shortcut: '→ (Shift: 10px)', disabled: !hasSelection, run: () => nudgeSelection(1, 0) },
+    { id: 'nudge-up', group: 'Mover', label: 'Mover arriba', shortcut: '↑ (Shift: 10px)', disabled: !hasSelection, run: () => nudgeSelection(0, -1) },
+    { id: 'nudge-down', group: 'Mover', label: 'Mover abajo', shortcut: '↓ (Shift: 10px)', disabled: !hasSelection, run: () => nudgeSelection(0, 1) },
+    { id: 'align-left', group: 'Organizar', label: 'Alinear a la izquierda', disabled: !hasSelection, run: () => alignSelection('left') },
+    { id: 'align-center', group: 'Organizar', label: 'Centrar horizontalmente', disabled: !hasSelection, run: () => alignSelection('center') },
+    { id: 'align-right', group: 'Organizar', label: 'Alinear a la derecha', disabled: !hasSelection, run: () => alignSelection('right') },
+    { id: 'align-top', group: 'Organizar', label: 'Alinear arriba', disabled: !hasSelection, run: () => alignSelection('top') },
+    { id: 'align-middle', group: 'Organizar', label: 'Centrar verticalmente', disabled: !hasSelection, run: () => alignSelection('middle') },
+    { id: 'align-bottom', group: 'Organizar', label: 'Alinear abajo', disabled: !hasSelection, run: () => alignSelection('bottom') },
+    { id: 'distribute-horizontal', group: 'Organizar', label: 'Distribuir horizontalmente', disabled: alignRelativeTo === 'selection' && selectionCount < 3, run: () => distributeSelection('horizontal') },
+    { id: 'distribute-vertical', group: 'Organizar', label: 'Distribuir verticalmente', disabled: alignRelativeTo === 'selection' && selectionCount < 3, run: () => distributeSelection('vertical') },
+    { id: 'group', group: 'Organizar', label: 'Agrupar', disabled: selectionCount < 2, run: groupSelection },
+    { id: 'ungroup', group: 'Organizar', label: 'Desagrupar', disabled: composition.assets.find(asset => asset.id === editorState.selectedAssetId)?.type !== 'group', run: ungroupSelection },
+    { id: 'mirror', group: 'Organizar', label: isMirroredLayout ? 'Layout normal' : 'Layout espejo', run: toggleMirrorLayout },
+    { id: 'templates', group: 'Organizar', label: 'Plantillas', run: () => setIsTemplatesDialogOpen(true) },
+    { id: 'zoom-in', group: 'Vista', label: 'Acercar', run: () => setEditorState(prev => ({ ...prev, zoom: Math.min(2, prev.zoom + 0.25) })) },
+    { id: 'zoom-out', group: 'Vista', label: 'Alejar', run: () => setEditorState(prev => ({ ...prev, zoom: Math.max(0.25, prev.zoom - 0.25) })) },
+    { id: 'zoom-fit', group: 'Vista', label: 'Ajustar zoom', run: () => setEditorState(prev => ({ ...prev, zoom: 1 })) },
+    { id: 'save', group: 'Banner', label: 'Guardar cambios', run: saveComposition },
+    { id: 'export', group: 'Banner', label: 'Exportar', disabled: !backgroundImage, run: () => setIsExportDialogOpen(true) },
+    { id: 'variants', group: 'Banner', label: 'Crear variantes', run: () => setIsVariantsDialogOpen(true) },
+    { id: 'regenerate-background', group: 'Banner', label: 'Regenerar fondo', disabled: !bannerId, run: () => openRegenerateLayer('background') },
+    { id: 'regenerate-product', group: 'Banner', label: 'Regenerar producto', disabled: !bannerId || !actualProductImageUrl, run: () => openRegenerateLayer('product') },
+    { id: 'assistant', group: 'Banner', label: isChatOpen ? 'Cerrar asistente' : 'Abrir asistente', run: () => setIsChatOpen(prev => !prev) },
+    ...(onExit ? [{ id: 'exit', group: 'Banner', label: 'Salir', run: () => handleExit() }] : []),
+  ];
+
+  // Keyboard shortcuts. The listener reads the handler through a ref so it always sees current state.
+  const handleShortcutRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  handleShortcutRef.current = (e: KeyboardEvent) => {
+    const isModifier = e.ctrlKey || e.metaKey;
+    const key = e.key.toLowerCase();
+
+    if (isModifier && key === 'k') {
+      e.preventDefault();
+      setIsCommandPaletteOpen(open => !open);
+      return;
+    }
+
+    // Text fields (including the inline text editor) and dialogs keep their own keys
+    const target = e.target as HTMLElement | null;
+    if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable || target.closest('[role="dialog"]'))) return;
+    if (editingText) return;
+
+    if (isModifier) {
+      if (key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) {
+          redo();
+        } else {
+          undo();
+        }
+      } else if (key === 'y') {
+        e.preventDefault();
+        redo();
+      } else if (key === 'd' && hasSelection) {
+        e.preventDefault();
+        duplicateAssets(editorState.selectedAssetIds);
+      } else if (key === 'c' && hasSelection) {
+        e.preventDefault();
+        copySelection();
+      } else if (key === 'v' && readAssetsFromClipboard()) {
+        e.preventDefault();
+        pasteFromClipboard();
+      } else if (key === 'a') {
+        e.preventDefault();
+        selectAllAssets();
+      }
+      return;
+    }
+
+    if (!hasSelection) return;
+
+    const step = e.shiftKey ? 10 : 1;
+    switch (e.key) {
+      case 'ArrowLeft':
+        e.preventDefault();
+        nudgeSelection(-step, 0);
+        break;
+      case 'ArrowRight':
+        e.preventDefault();
+        nudgeSelection(step, 0);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        nudgeSelection(0, -step);
+        break;
+      case 'ArrowDown':
+        e.preventDefault();
+        nudgeSelection(0, step);
+        break;
+      case 'Delete':
+      case 'Backspace':
+        e.preventDefault();
+        deleteAssets(getMovableSelectionIds());
+        break;
+      case 'Escape':
+        clearSelection();
+        break;
+    }
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => handleShortcutRef.current(e);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
     const selectedAsset = composition.assets.find(asset => asset.id === editorState.selectedAssetId);
   const editingAsset = editingText ? composition.assets.find(asset => asset.id === editingText) : null;
 
@@ -2420,17 +2959,75 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
         
         <Separator orientation="vertical" className="h-6" />
         
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={undo}
+          disabled={history.past.length === 0}
+          title={history.past.length > 0 ? `Deshacer: ${history.past[history.past.length - 1].label} (Ctrl+Z)` : 'Deshacer (Ctrl+Z)'}
+        >
+          <Undo2 className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={redo}
+          disabled={history.future.length === 0}
+          title={history.future.length > 0 ? `Rehacer: ${history.future[history.future.length - 1].label} (Ctrl+Shift+Z)` : 'Rehacer (Ctrl+Shift+Z)'}
+        >
+          <Redo2 className="w-4 h-4" />
+        </Button>
+        
+        <Button variant="outline" size="sm" onClick={() => setIsCommandPaletteOpen(true)} title="Comandos (Ctrl+K)">
+          <CommandIcon className="w-4 h-4" />
+        </Button>
+        
+        <Separator orientation="vertical" className="h-6" />
+        
         <Button onClick={saveComposition} className="rounded-full" variant={hasUnsavedChanges ? "default" : "outline"}>
           <Save className="w-4 h-4 mr-2" />
           {hasUnsavedChanges ? "Guardar Cambios" : "Guardado"}
         </Button>
         
+        <Button onClick={() => setIsExportDialogOpen(true)} variant="outline" className="rounded-full" disabled={!backgroundImage}>
+          <Download className="w-4 h-4 mr-2" />
+          Exportar
+        </Button>
+        
+        <Button onClick={() => setIsVariantsDialogOpen(true)} variant="outline" className="rounded-full" title="Crear variantes en otros formatos">
+          <LayoutGrid className="w-4 h-4 mr-2" />
+          Variantes
+        </Button>
+        
         <Button onClick={toggleMirrorLayout} variant="outline" className="rounded-full" title="Reorganizar elementos en espejo">
           <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
           </svg>
           {isMirroredLayout ? "Layout Normal" : "Layout Espejo"}
         </Button>
+        
+        <Button onClick={() => setIsChatOpen(prev => !prev)} variant={isChatOpen ? "default" : "outline"} className="rounded-full" title="Pedir cambios al asistente">
+          <Bot className="w-4 h-4 mr-2" />
+          Asistente
+        </Button>
+        
+        <Button onClick={() => setIsTemplatesDialogOpen(true)} variant="outline" className="rounded-full" title="Guardar o aplicar plantillas de diseño">
+          <LayoutTemplate className="w-4 h-4 mr-2" />
+          Plantillas
+        </Button>
+        
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" className="rounded-full" disabled={!bannerId} title="Generar de nuevo el fondo o el producto">
+              <Wand2 className="w-4 h-4 mr-2" />
+              Regenerar
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={() => openRegenerateLayer('background')}>Fondo</DropdownMenuItem>
+            <DropdownMenuItem onClick={() => openRegenerateLayer('product')} disabled={!actualProductImageUrl}>Producto</DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
         {onExit && (
           <Button onClick={() => handleExit()} variant="outline" className="rounded-full">
             <X className="w-4 h-4 mr-2" />
@@ -2439,6 +3036,80 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
         )}
       </div>
 
+      {/* Arrange Toolbar - alignment, distribution and grouping for the selection */}
+      {editorState.selectedAssetIds.length > 0 && !editingText && (
+        <div className="bg-white border-b border-gray-200 p-2 flex items-center justify-center space-x-2">
+          <span className="text-xs text-gray-500">
+            {editorState.selectedAssetIds.length === 1 ? '1 elemento' : `${editorState.selectedAssetIds.length} elementos`}
+          </span>
+          
+          <Separator orientation="vertical" className="h-6" />
+          
+          <Select
+            value={editorState.selectedAssetIds.length < 2 ? 'canvas' : alignRelativeTo}
+            onValueChange={(value) => setAlignRelativeTo(value as AlignRelativeTo)}
+            disabled={editorState.selectedAssetIds.length < 2}
+          >
+            <SelectTrigger className="w-32 h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="selection">Selección</SelectItem>
+              <SelectItem value="canvas">Lienzo</SelectItem>
+            </SelectContent>
+          </Select>
+          
+          <Button variant="ghost" size="sm" onClick={() => alignSelection('left')} title="Alinear a la izquierda">
+            <AlignStartVertical className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => alignSelection('center')} title="Centrar horizontalmente">
+            <AlignCenterVertical className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => alignSelection('right')} title="Alinear a la derecha">
+            <AlignEndVertical className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => alignSelection('top')} title="Alinear arriba">
+            <AlignStartHorizontal className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => alignSelection('middle')} title="Centrar verticalmente">
+            <AlignCenterHorizontal className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => alignSelection('bottom')} title="Alinear abajo">
+            <AlignEndHorizontal className="w-4 h-4" />
+          </Button>
+          
+          <Separator orientation="vertical" className="h-6" />
+          
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => distributeSelection('horizontal')}
+            disabled={alignRelativeTo === 'selection' && editorState.selectedAssetIds.length < 3}
+            title="Distribuir horizontalmente"
+          >
+            <AlignHorizontalDistributeCenter className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => distributeSelection('vertical')}
+            disabled={alignRelativeTo === 'selection' && editorState.selectedAssetIds.length < 3}
+            title="Distribuir verticalmente"
+          >
+            <AlignVerticalDistributeCenter className="w-4 h-4" />
+          </Button>
+          
+          <Separator orientation="vertical" className="h-6" />
+          
+          <Button variant="ghost" size="sm" onClick={groupSelection} disabled={editorState.selectedAssetIds.length < 2} title="Agrupar">
+            <Group className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={ungroupSelection} disabled={selectedAsset?.type !== 'group'} title="Desagrupar">
+            <Ungroup className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+
       {/* Text Editing Toolbar */}
       {selectedAsset && selectedAsset.type === 'text' && (
         <div className="bg-white border-b border-gray-200 p-3 flex items-center justify-center space-x-4">
@@ -2472,7 +3143,7 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
               </SelectItem>
               <Separator />
               {/* Other Fonts */}
-              {fontOptions.filter(font => 
+              {availableFontOptions.filter(font => 
                 font !== brandGuidelines.fontPrimary && 
                 font !== brandGuidelines.fontSecondary
               ).map(font => (
@@ -2481,23 +3152,37 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
             </SelectContent>
           </Select>
           
-          <Button variant="outline" size="sm" onClick={() => updateAsset(selectedAsset.id, { fontSize: Math.max(12, (selectedAsset.fontSize || 16) - 2) })}>
+          <Button variant="outline" size="sm" onClick={() => changeTextSize(selectedAsset, -2)}>
             <Minus className="w-4 h-4" />
           </Button>
           <span className="text-sm w-12 text-center">{selectedAsset.fontSize}</span>
-          <Button variant="outline" size="sm" onClick={() => updateAsset(selectedAsset.id, { fontSize: Math.min(72, (selectedAsset.fontSize || 16) + 2) })}>
+          <Button variant="outline" size="sm" onClick={() => changeTextSize(selectedAsset, 2)}>
             <Plus className="w-4 h-4" />
           </Button>
           
           <Separator orientation="vertical" className="h-6" />
           
           <Button 
-            variant={selectedAsset.fontWeight === 'bold' ? 'default' : 'outline'} 
+            variant={isTextStyleActive(selectedAsset, 'bold') ? 'default' : 'outline'} 
             size="sm"
-            onClick={() => updateAsset(selectedAsset.id, { fontWeight: selectedAsset.fontWeight === 'bold' ? 'normal' : 'bold' })}
+            onClick={() => toggleTextStyle(selectedAsset, 'bold')}
           >
             <Bold className="w-4 h-4" />
           </Button>
+          <Button 
+            variant={isTextStyleActive(selectedAsset, 'italic') ? 'default' : 'outline'} 
+            size="sm"
+            onClick={() => toggleTextStyle(selectedAsset, 'italic')}
+          >
+            <Italic className="w-4 h-4" />
+          </Button>
+          <Button 
+            variant={isTextStyleActive(selectedAsset, 'underline') ? 'default' : 'outline'} 
+            size="sm"
+            onClick={() => toggleTextStyle(selectedAsset, 'underline')}
+          >
+            <Underline className="w-4 h-4" />
+          </Button>
           
           <Button 
             variant={selectedAsset.textAlign === 'left' ? 'default' : 'outline'} 
@@ -2529,7 +3214,7 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
             <Button 
               variant="outline" 
               size="sm" 
-              onClick={() => updateAsset(selectedAsset.id, { color: brandGuidelines.secondaryColor })}
+              onClick={() => setTextColor(selectedAsset, brandGuidelines.secondaryColor)}
               className="w-8 h-8 p-0 border-2"
               style={{ backgroundColor: brandGuidelines.secondaryColor }}
               title="Color Secundario (Texto Principal)"
@@ -2539,17 +3224,30 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
             <Button 
               variant="outline" 
               size="sm" 
-              onClick={() => updateAsset(selectedAsset.id, { color: brandGuidelines.mainColor })}
+              onClick={() => setTextColor(selectedAsset, brandGuidelines.mainColor)}
               className="w-8 h-8 p-0 border-2"
               style={{ backgroundColor: brandGuidelines.mainColor }}
               title="Color Principal"
             >
               <span className="sr-only">Principal</span>
             </Button>
+            {extraBrandColors.map(color => (
+              <Button
+                key={color.role}
+                variant="outline"
+                size="sm"
+                onClick={() => setTextColor(selectedAsset, color.hex)}
+                className="w-8 h-8 p-0 border-2"
+                style={{ backgroundColor: color.hex }}
+                title={color.name ?? color.role}
+              >
+                <span className="sr-only">{color.name ?? color.role}</span>
+              </Button>
+            ))}
           <Input
             type="color"
             value={selectedAsset.color || '#000000'}
-            onChange={(e) => updateAsset(selectedAsset.id, { color: e.target.value })}
+            onChange={(e) => setTextColor(selectedAsset, e.target.value)}
             className="w-12 h-8 p-1 rounded"
               title="Color personalizado"
           />
@@ -2557,9 +3255,22 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
           
           <Separator orientation="vertical" className="h-6" />
           
-          <span className="text-xs text-gray-500 bg-blue-50 px-2 py-1 rounded">
-            💡 Salto automático cada 14 caracteres
-          </span>
+          <TextFitControls asset={selectedAsset} onChange={(updates) => updateAsset(selectedAsset.id, updates)} />
+          
+          {activeTextRange && (
+            <span className="text-xs text-blue-700 bg-blue-50 px-2 py-1 rounded flex items-center space-x-1">
+              <span>Estilo para «{selectedAsset.text?.slice(activeTextRange.start, activeTextRange.end)}»</span>
+              <button onClick={() => setTextSelection(null)} title="Aplicar a todo el texto">
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          )}
+          
+          {overflowingTextIds.includes(selectedAsset.id) && (
+            <span className="text-xs text-red-600 bg-red-50 px-2 py-1 rounded">
+              ⚠️ El texto no cabe en su caja
+            </span>
+          )}
         </div>
       )}
 
@@ -2607,7 +3318,7 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
               )}
               <Separator />
               {/* Other Fonts */}
-              {fontOptions.filter(font => 
+              {availableFontOptions.filter(font => 
                 font !== 'Roboto' &&
                 font !== brandGuidelines.fontPrimary && 
                 font !== brandGuidelines.fontSecondary
@@ -2683,6 +3394,19 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
             >
               <span className="sr-only">Principal</span>
             </Button>
+            {extraBrandColors.map(color => (
+              <Button
+                key={color.role}
+                variant="outline"
+                size="sm"
+                onClick={() => updateAsset(selectedAsset.id, { backgroundColor: color.hex })}
+                className="w-8 h-8 p-0 border-2"
+                style={{ backgroundColor: color.hex }}
+                title={color.name ?? color.role}
+              >
+                <span className="sr-only">{color.name ?? color.role}</span>
+              </Button>
+            ))}
             <Input
               type="color"
               value={selectedAsset.backgroundColor || brandGuidelines.secondaryColor}
@@ -2691,6 +3415,16 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
               title="Color personalizado"
             />
           </div>
+          
+          <Separator orientation="vertical" className="h-6" />
+          
+          <TextFitControls asset={selectedAsset} onChange={(updates) => updateAsset(selectedAsset.id, updates)} />
+          
+          {overflowingTextIds.includes(selectedAsset.id) && (
+            <span className="text-xs text-red-600 bg-red-50 px-2 py-1 rounded">
+              ⚠️ El texto no cabe en el botón
+            </span>
+          )}
         </div>
       )}
 
@@ -2741,6 +3475,32 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
             className="hidden"
           />
           
+          {logoCandidates.length > 0 && (
+            <>
+              <Separator orientation="vertical" className="h-6" />
+              <Label className="text-sm text-gray-600">Variante</Label>
+              <Select
+                value={selectedAsset.logoVariantLocked ? selectedAsset.logoVariant ?? 'custom' : 'auto'}
+                onValueChange={(value) => setLogoVariant(selectedAsset.id, value)}
+              >
+                <SelectTrigger className="w-44 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Automática</SelectItem>
+                  {logoCandidates.map(candidate => (
+                    <SelectItem key={candidate.variant} value={candidate.variant}>
+                      {LOGO_VARIANT_LABELS[candidate.variant]}
+                    </SelectItem>
+                  ))}
+                  {selectedAsset.logoVariantLocked && !selectedAsset.logoVariant && (
+                    <SelectItem value="custom">Logo subido</SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+            </>
+          )}
+          
           <Separator orientation="vertical" className="h-6" />
           
           <span className="text-sm text-gray-600">
@@ -2749,6 +3509,7 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
         </div>
       )}
 
+      <div className="flex-1 flex overflow-hidden">
       {/* Canvas Container */}
       <div className="flex-1 bg-gray-100 flex items-center justify-center overflow-hidden p-4">
         <div 
@@ -2806,6 +3567,12 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
                       setTextEditValue('');
                     }
                   }}
+                  onSelect={(e) => {
+                    const { selectionStart, selectionEnd } = e.currentTarget;
+                    setTextSelection(selectionStart !== selectionEnd
+                      ? { assetId: editingAsset.id, start: selectionStart, end: selectionEnd }
+                      : null);
+                  }}
                   onBlur={finishTextEditing}
                   className="w-full h-full px-2 py-1 border-0 outline-none resize-none bg-white text-gray-900 placeholder-gray-500"
                   style={{
@@ -2820,7 +3587,7 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
             )}
 
             {/* Resize handles - positioned with proper scaling */}
-            {selectedAsset && !editingText && (() => {
+            {selectedAsset && !selectedAsset.locked && !editingText && (() => {
               const canvas = canvasRef.current;
               if (!canvas) {
                 console.log('❌ Canvas not found for resize handles');
@@ -2904,6 +3671,38 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
         </div>
       </div>
 
+      {/* Assistant chat */}
+      {isChatOpen && (
+        <div className="w-80 bg-gray-50 border-l border-gray-200 p-2 flex flex-col">
+          <BannerChat
+            composition={composition}
+            backgroundPrompt={getLayerPrompt('background', bannerData ?? {}) || undefined}
+            onPreview={previewChatProposal}
+            onAccept={acceptChatProposal}
+            onRevert={revertChatProposal}
+          />
+        </div>
+      )}
+
+      {/* Layer and brand compliance panels */}
+      <div className="w-64 bg-white border-l border-gray-200 flex flex-col">
+        <LayerPanel
+          assets={composition.assets}
+          selectedAssetIds={editorState.selectedAssetIds}
+          onSelect={selectLayer}
+          onReorder={reorderLayer}
+          onToggleHidden={toggleLayerHidden}
+          onToggleLocked={toggleLayerLocked}
+        />
+        <BrandCompliancePanel
+          report={complianceReport}
+          assets={composition.assets}
+          hasBrandKit={!!brandKit}
+          onSelect={(layerId) => selectLayer(layerId, false)}
+        />
+      </div>
+      </div>
+
       {/* Mini Toolbar - Positioned beside asset */}
       {miniToolbarPosition && selectedAsset && !editingText && (
         <div 
@@ -2927,6 +3726,176 @@ const BannerEditor: React.FC<BannerEditorProps> = ({
         </div>
       )}
 
+      {/* Command Palette */}
+      <EditorCommandPalette
+        open={isCommandPaletteOpen}
+        onOpenChange={setIsCommandPaletteOpen}
+        commands={editorCommands}
+      />
+
+      {/* Export Dialog */}
+      <Dialog open={isExportDialogOpen} onOpenChange={setIsExportDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Exportar banner</DialogTitle>
+            <DialogDescription>
+              {composition.canvasSize.width * exportOptions.scale}x{composition.canvasSize.height * exportOptions.scale}px
+            </DialogDescription>
+          </DialogHeader>
+          
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Formato</Label>
+              <Select
+                value={exportOptions.format}
+                onValueChange={(value) => setExportOptions(prev => ({ ...prev, format: value as ExportOptions['format'] }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="png">PNG</SelectItem>
+                  <SelectItem value="jpg">JPG</SelectItem>
+                  <SelectItem value="webp">WebP</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Escala</Label>
+              <div className="flex items-center space-x-2">
+                {EXPORT_SCALES.map(scale => (
+                  <Button
+                    key={scale}
+                    variant={exportOptions.scale === scale ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setExportOptions(prev => ({ ...prev, scale }))}
+                  >
+                    {scale}x
+                  </Button>
+                ))}
+              </div>
+            </div>
+            
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">
+                Calidad: {Math.round(exportOptions.quality * 100)}%
+              </Label>
+              <Slider
+                value={[exportOptions.quality * 100]}
+                min={10}
+                max={100}
+                step={1}
+                disabled={exportOptions.format === 'png'}
+                onValueChange={([value]) => setExportOptions(prev => ({ ...prev, quality: value / 100 }))}
+              />
+              {exportOptions.format === 'png' && (
+                <p className="text-xs text-gray-500">PNG se exporta sin pérdida</p>
+              )}
+            </div>
+            
+            <div className="space-y-1">
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <Checkbox
+                  checked={enforceBrandCompliance}
+                  onCheckedChange={(checked) => setEnforceBrandCompliance(checked === true)}
+                />
+                <span className="text-sm text-gray-700">Bloquear exportación si hay errores de marca</span>
+              </label>
+              {complianceReport.errorCount > 0 && (
+                <p className={`text-xs ${enforceBrandCompliance ? 'text-red-600' : 'text-amber-600'}`}>
+                  ⚠️ {complianceReport.errorCount} error(es) de marca, revisa el panel de marca
+                </p>
+              )}
+            </div>
+
+            {!fontsReady && (
+              <p className={`text-xs ${fontError ? 'text-red-600' : 'text-gray-500'}`}>
+                {fontError ? `⚠️ ${fontError}` : 'Cargando fuentes de la marca...'}
+              </p>
+            )}
+          </div>
+          
+          <DialogFooter>
+            <Button variant="outline" onClick={() => exportBanner(false)} disabled={isExporting || !fontsReady}>
+              <Download className="w-4 h-4 mr-2" />
+              Descargar
+            </Button>
+            <Button onClick={() => exportBanner(true)} disabled={isExporting || !fontsReady}>
+              <Save className="w-4 h-4 mr-2" />
+              {isExporting ? "Exportando..." : "Guardar como imagen final"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <TemplateLibraryDialog
+        open={isTemplatesDialogOpen}
+        onOpenChange={setIsTemplatesDialogOpen}
+        partnerId={partnerId}
+        partnerName={partnerName}
+        composition={composition}
+        images={{ background: backgroundImage, product: productImage, logo: logoImage, logos: logoVariantImages }}
+        onApply={applyBannerTemplate}
+      />
+
+      <RegenerateLayerDialog
+        layer={regeneratingLayer}
+        bannerId={bannerId}
+        initialPrompt={regeneratingLayer ? getLayerPrompt(regeneratingLayer, bannerData ?? {}) : ''}
+        productImageUrl={actualProductImageUrl}
+        onOpenChange={(open) => !open && setRegeneratingLayer(null)}
+        onRegenerated={handleLayerRegenerated}
+      />
+
+      {/* Format Variants Dialog */}
+      <Dialog open={isVariantsDialogOpen} onOpenChange={setIsVariantsDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Crear variantes</DialogTitle>
+            <DialogDescription>
+              Los elementos se reubican automáticamente en cada formato. Cada variante se guarda como un banner editable.
+            </DialogDescription>
+          </DialogHeader>
+          
+          <div className="space-y-3">
+            {BANNER_FORMAT_IDS
+              .filter(formatId => formatId !== getFormatForSize(composition.canvasSize).id)
+              .map(formatId => {
+                const format = BANNER_FORMATS[formatId];
+                const coverage = getBackgroundCoverage(composition.canvasSize, format);
+                return (
+                  <label key={formatId} className="flex items-start space-x-3 cursor-pointer">
+                    <Checkbox
+                      className="mt-0.5"
+                      checked={selectedVariantFormats.includes(formatId)}
+                      onCheckedChange={(checked) => setSelectedVariantFormats(prev =>
+                        checked ? [...prev, formatId] : prev.filter(id => id !== formatId)
+                      )}
+                    />
+                    <div>
+                      <span className="text-sm font-medium text-gray-700">{format.label}</span>
+                      <span className="ml-3 text-xs text-gray-500">{format.width}x{format.height}</span>
+                      {coverage < MIN_BACKGROUND_COVERAGE && (
+                        <p className="text-xs text-amber-700">
+                          Solo se verá un {Math.round(coverage * 100)}% del fondo actual; conviene regenerarlo en la variante.
+                        </p>
+                      )}
+                    </div>
+                  </label>
+                );
+              })}
+          </div>
+          
+          <DialogFooter>
+            <Button onClick={createVariants} disabled={isCreatingVariants || selectedVariantFormats.length === 0}>
+              <LayoutGrid className="w-4 h-4 mr-2" />
+              {isCreatingVariants ? "Creando..." : "Crear variantes"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Usage Instructions - Show when asset is selected */}
       {selectedAsset && !editingText && (
         <div className="fixed bottom-4 left-1/2 transform -translate-x-1/2 z-50 bg-black bg-opacity-80 text-white text-sm px-4 py-2 rounded-lg shadow-lg">
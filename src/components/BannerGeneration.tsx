@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Wand2, Upload, AlertTriangle, Image as ImageIcon, CheckCircle2, X, Plus, Trash2 } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -12,13 +12,27 @@ import { Badge } from '@/components/ui/badge';
 import { toast } from '@/hooks/use-toast';
 import { usePartners } from '@/hooks/usePartners';
 import { createEnhancedBanner, isEnhancedBannerCreationAvailable, BannerCreationRequest, getPerformanceInfo, isWebGPUSupported } from '@/lib/enhanced-banner-service';
-import { uploadProductPhoto, getPartnerProductPhotos, removeProductPhoto, ProductPhoto } from '@/lib/product-photos-service';
+import { uploadProductPhoto, getPartnerProductPhotos, removeProductPhoto, fetchProductImageFile, ProductPhoto } from '@/lib/product-photos-service';
+import { loadPartnerBrandKit } from '@/lib/brand-kit';
 import BannerEditor from '@/components/BannerEditor';
+import GenerationJobsPanel from '@/components/GenerationJobsPanel';
+import CopyInputSelection from '@/components/CopyInputSelection';
+import BackgroundCandidatePicker from '@/components/BackgroundCandidatePicker';
+import { useBackgroundPicker } from '@/hooks/useBackgroundPicker';
+import { useGenerationProgress } from '@/hooks/useGenerationProgress';
+import ImageProviderSelector from '@/components/ImageProviderSelector';
+import { MAX_BACKGROUND_CANDIDATES } from '@/lib/flux-background';
+import { getDefaultImageProviderId, type ImageProviderId } from '@/lib/image-generation';
+import { isUsageQuotaError } from '@/lib/usage-ledger';
+import { isAbortError } from '@/lib/abort';
 
 interface BannerGenerationProps {
   preSelectedPartnerId?: string;
 }
 
+const DEFAULT_BACKGROUND_CANDIDATE_COUNT = 3;
+const BACKGROUND_CANDIDATE_OPTIONS = Array.from({ length: MAX_BACKGROUND_CANDIDATES }, (_, index) => index + 1);
+
 const BannerGeneration = ({ preSelectedPartnerId }: BannerGenerationProps) => {
   // Form state
   const [selectedPartnerId, setSelectedPartnerId] = useState(preSelectedPartnerId || '');
@@ -39,9 +53,13 @@ const BannerGeneration = ({ preSelectedPartnerId }: BannerGenerationProps) => {
 
   // Generation state
   const [isGenerating, setIsGenerating] = useState(false);
-  const [progress, setProgress] = useState(0);
-  const [progressStatus, setProgressStatus] = useState<string>('');
+  const { progress: generationProgress, onEvent: onGenerationEvent, reset: resetGenerationProgress } = useGenerationProgress();
   const [generationError, setGenerationError] = useState<string | null>(null);
+  const [backgroundCandidateCount, setBackgroundCandidateCount] = useState(DEFAULT_BACKGROUND_CANDIDATE_COUNT);
+  const [imageProvider, setImageProvider] = useState<ImageProviderId>(getDefaultImageProviderId);
+  // Aborts the running generation from the cancel button
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const { pickBackground, pickerProps } = useBackgroundPicker();
   
   // Editor state
   const [showEditor, setShowEditor] = useState(false);
@@ -51,7 +69,7 @@ const BannerGeneration = ({ preSelectedPartnerId }: BannerGenerationProps) => {
   const selectedPartner = partners.find(p => p.id === selectedPartnerId);
 
   // Check if enhanced banner creation is available
-  const enhancedBannerAvailable = isEnhancedBannerCreationAvailable();
+  const enhancedBannerAvailable = isEnhancedBannerCreationAvailable(imageProvider);
 
   // Update selectedPartnerId when preSelectedPartnerId changes
   useEffect(() => {
@@ -260,15 +278,6 @@ const BannerGeneration = ({ preSelectedPartnerId }: BannerGenerationProps) => {
       return false;
     }
 
-    if (ctaText.length > 14) {
-      toast({
-        title: "CTA muy largo",
-        description: "El CTA debe tener máximo 14 caracteres",
-        variant: "destructive"
-      });
-      return false;
-    }
-
     return true;
   };
 
@@ -286,9 +295,10 @@ const BannerGeneration = ({ preSelectedPartnerId }: BannerGenerationProps) => {
     }
 
     setIsGenerating(true);
-    setProgress(0);
-    setProgressStatus('');
+    resetGenerationProgress();
     setGenerationError(null);
+    const abortController = new AbortController();
+    generationAbortRef.current = abortController;
 
     try {
       // Determine the product image source
@@ -299,51 +309,13 @@ const BannerGeneration = ({ preSelectedPartnerId }: BannerGenerationProps) => {
         finalProductImageFile = productImageFile;
         console.log('Using uploaded file:', finalProductImageFile.name, finalProductImageFile.type);
       } else if (selectedExistingPhotoUrl) {
-        setProgress(12);
-        setProgressStatus('Preparando imagen del producto...');
+        onGenerationEvent({ type: 'preparing', task: 'photo' });
         
         try {
-          // Convert existing photo URL to File object with better error handling
+          // Convert existing photo URL to File object
           console.log('Fetching existing photo:', selectedExistingPhotoUrl);
-          
-          const response = await fetch(selectedExistingPhotoUrl, {
-            method: 'GET',
-            headers: {
-              'Accept': 'image/*',
-            },
-          });
-          
-          if (!response.ok) {
-            throw new Error(`Failed to fetch image: ${response.status} ${response.statusText}`);
-          }
-          
-          const blob = await response.blob();
-          console.log('Fetched blob:', blob.type, blob.size);
-          
-          // Validate blob
-          if (!blob.type.startsWith('image/')) {
-            throw new Error(`Invalid image type: ${blob.type}`);
-          }
-          
-          if (blob.size === 0) {
-            throw new Error('Empty image file');
-          }
-          
-          if (blob.size > 10 * 1024 * 1024) { // 10MB limit
-            throw new Error('Image file too large (max 10MB)');
-          }
-          
-          // Create file with proper type
-          const fileName = selectedExistingPhotoUrl.split('/').pop()?.split('?')[0] || 'product-photo.jpg';
-          const fileType = blob.type || 'image/jpeg';
-          
-          finalProductImageFile = new File([blob], fileName, { 
-            type: fileType,
-            lastModified: Date.now()
-          });
-          
+          finalProductImageFile = await fetchProductImageFile(selectedExistingPhotoUrl);
           console.log('Created file object:', finalProductImageFile.name, finalProductImageFile.type, finalProductImageFile.size);
-          
         } catch (fetchError) {
           console.error('Error processing existing photo:', fetchError);
           throw new Error(`No se pudo procesar la foto seleccionada: ${fetchError}`);
@@ -359,15 +331,18 @@ const BannerGeneration = ({ preSelectedPartnerId }: BannerGenerationProps) => {
         mainText,
         descriptionText,
         ctaText,
-
-        styleAnalysis: selectedPartner?.reference_style_analysis
+        backgroundCandidateCount,
+        imageProvider,
+
+        styleAnalysis: selectedPartner?.reference_style_analysis,
+        brandKit: selectedPartner ? await loadPartnerBrandKit(selectedPartner).catch(error => {
+          console.warn('⚠️ Generating without brand kit:', error);
+          return null;
+        }) : null
       };
 
       console.log('Starting enhanced banner creation...');
-      const result = await createEnhancedBanner(request, (progress, status) => {
-          setProgress(progress);
-          setProgressStatus(status);
-        });
+      const result = await createEnhancedBanner(request, onGenerationEvent, { pickBackground, signal: abortController.signal });
 
       console.log('Banner created successfully:', result);
       
@@ -379,13 +354,23 @@ const BannerGeneration = ({ preSelectedPartnerId }: BannerGenerationProps) => {
       resetForm();
 
     } catch (error) {
-      console.error('Error generating banner:', error);
-      setGenerationError(error instanceof Error ? error.message : 'Error desconocido');
+      if (isAbortError(error)) {
+        // createEnhancedBanner already told the user; the job stays resumable
+        console.log('Banner generation cancelled');
+      } else {
+        console.error('Error generating banner:', error);
+        setGenerationError(error instanceof Error ? error.message : 'Error desconocido');
+      }
     } finally {
+      generationAbortRef.current = null;
       setIsGenerating(false);
     }
   };
 
+  const cancelGeneration = () => {
+    generationAbortRef.current?.abort();
+  };
+
   // Reset form
   const resetForm = () => {
     setSelectedPartnerId(preSelectedPartnerId || '');
@@ -397,8 +382,7 @@ const BannerGeneration = ({ preSelectedPartnerId }: BannerGenerationProps) => {
     setProductImagePreview(null);
     setSelectedExistingPhotoUrl(null);
     setShowAddNewPhoto(false);
-    setProgress(0);
-    setProgressStatus('');
+    resetGenerationProgress();
     setGenerationError(null);
   };
 
@@ -426,6 +410,8 @@ const BannerGeneration = ({ preSelectedPartnerId }: BannerGenerationProps) => {
 
   return (
     <div className="space-y-6">
+      <GenerationJobsPanel />
+
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
@@ -706,6 +692,17 @@ const BannerGeneration = ({ preSelectedPartnerId }: BannerGenerationProps) => {
             )}
           </div>
 
+          {/* AI copywriting */}
+          <CopyInputSelection
+            partner={selectedPartner}
+            disabled={isGenerating}
+            onSelect={(copy) => {
+              setMainText(copy.mainText);
+              setDescriptionText(copy.descriptionText);
+              setCtaText(copy.ctaText);
+            }}
+          />
+
           {/* Main Text */}
           <div className="space-y-2">
             <Label htmlFor="main-text">Título principal</Label>
@@ -715,23 +712,18 @@ const BannerGeneration = ({ preSelectedPartnerId }: BannerGenerationProps) => {
               onChange={(e) => setMainText(e.target.value)}
               placeholder="Ingresa el título principal del banner"
               rows={2}
-              maxLength={28}
               className={`resize-none ${
-                mainText.length >= 28 ? 'border-red-500 focus:border-red-500' :
-                mainText.length >= 24 ? 'border-orange-400 focus:border-orange-400' :
-                'border-gray-300 focus:border-blue-500'
+                mainText.length >= 24 ? 'border-orange-400 focus:border-orange-400' : 'border-gray-300 focus:border-blue-500'
               }`}
             />
             <div className={`text-xs text-right flex items-center justify-between ${
-              mainText.length >= 28 ? 'text-red-600' :
-              mainText.length >= 24 ? 'text-orange-600' :
-              'text-gray-500'
+              mainText.length >= 24 ? 'text-orange-600' : 'text-gray-500'
             }`}>
               {mainText.length >= 28 && (
-                <span className="text-red-600 text-xs">⚠️ Límite alcanzado</span>
+                <span className="text-orange-600 text-xs">Texto largo: se ajustará al cuadro</span>
               )}
               {mainText.length >= 24 && mainText.length < 28 && (
-                <span className="text-orange-600 text-xs">⚠️ Cerca del límite</span>
+                <span className="text-orange-600 text-xs">Cerca del largo recomendado</span>
               )}
               <span>{mainText.length}/28</span>
             </div>
@@ -746,23 +738,18 @@ const BannerGeneration = ({ preSelectedPartnerId }: BannerGenerationProps) => {
               onChange={(e) => setDescriptionText(e.target.value)}
               placeholder="Ingresa una descripción más detallada"
               rows={2}
-              maxLength={28}
               className={`resize-none ${
-                descriptionText.length >= 28 ? 'border-red-500 focus:border-red-500' :
-                descriptionText.length >= 24 ? 'border-orange-400 focus:border-orange-400' :
-                'border-gray-300 focus:border-blue-500'
+                descriptionText.length >= 24 ? 'border-orange-400 focus:border-orange-400' : 'border-gray-300 focus:border-blue-500'
               }`}
             />
             <div className={`text-xs text-right flex items-center justify-between ${
-              descriptionText.length >= 28 ? 'text-red-600' :
-              descriptionText.length >= 24 ? 'text-orange-600' :
-              'text-gray-500'
+              descriptionText.length >= 24 ? 'text-orange-600' : 'text-gray-500'
             }`}>
               {descriptionText.length >= 28 && (
-                <span className="text-red-600 text-xs">⚠️ Límite alcanzado</span>
+                <span className="text-orange-600 text-xs">Texto largo: se ajustará al cuadro</span>
               )}
               {descriptionText.length >= 24 && descriptionText.length < 28 && (
-                <span className="text-orange-600 text-xs">⚠️ Cerca del límite</span>
+                <span className="text-orange-600 text-xs">Cerca del largo recomendado</span>
               )}
               <span>{descriptionText.length}/28</span>
             </div>
@@ -776,37 +763,69 @@ const BannerGeneration = ({ preSelectedPartnerId }: BannerGenerationProps) => {
               value={ctaText}
               onChange={(e) => setCtaText(e.target.value)}
               placeholder="Ej: Comprar ahora"
-              maxLength={14}
               className={`${
-                ctaText.length >= 14 ? 'border-red-500 focus:border-red-500' :
-                ctaText.length >= 12 ? 'border-orange-400 focus:border-orange-400' :
-                'border-gray-300 focus:border-blue-500'
+                ctaText.length >= 12 ? 'border-orange-400 focus:border-orange-400' : 'border-gray-300 focus:border-blue-500'
               }`}
             />
             <div className={`text-xs text-right flex items-center justify-between ${
-              ctaText.length >= 14 ? 'text-red-600' :
-              ctaText.length >= 12 ? 'text-orange-600' :
-              'text-gray-500'
+              ctaText.length >= 12 ? 'text-orange-600' : 'text-gray-500'
             }`}>
               {ctaText.length >= 14 && (
-                <span className="text-red-600 text-xs">⚠️ Límite alcanzado</span>
+                <span className="text-orange-600 text-xs">Texto largo: se ajustará al cuadro</span>
               )}
               {ctaText.length >= 12 && ctaText.length < 14 && (
-                <span className="text-orange-600 text-xs">⚠️ Cerca del límite</span>
+                <span className="text-orange-600 text-xs">Cerca del largo recomendado</span>
               )}
               <span>{ctaText.length}/14</span>
             </div>
           </div>
 
+          {/* Background options */}
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Opciones de fondo</Label>
+            <Select
+              value={String(backgroundCandidateCount)}
+              onValueChange={(value) => setBackgroundCandidateCount(Number(value))}
+              disabled={isGenerating}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BACKGROUND_CANDIDATE_OPTIONS.map(option => (
+                  <SelectItem key={option} value={String(option)}>
+                    {option === 1 ? '1 fondo' : `${option} fondos`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500">
+              Con más de una opción podrás elegir el fondo sobre el producto y los textos antes de guardar.
+            </p>
+          </div>
 
+          {/* Image engine */}
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Motor de IA</Label>
+            <ImageProviderSelector value={imageProvider} onChange={setImageProvider} disabled={isGenerating} />
+            <p className="text-xs text-gray-500">
+              Genera el fondo y el producto mejorado; el análisis del producto siempre usa OpenAI.
+            </p>
+          </div>
 
           {/* Generation Progress */}
           {isGenerating && (
             <div className="space-y-4">
-              <Progress value={progress} className="w-full" />
+              <Progress value={generationProgress.progress} className="w-full" />
               <p className="text-sm text-gray-600 text-center">
-                {progressStatus || 'Generando banner...'}
+                {generationProgress.status || 'Generando banner...'}
               </p>
+              <div className="flex justify-center">
+                <Button type="button" variant="outline" size="sm" onClick={cancelGeneration}>
+                  <X className="h-4 w-4 mr-2" />
+                  Cancelar generación
+                </Button>
+              </div>
             </div>
           )}
 
@@ -814,7 +833,7 @@ const BannerGeneration = ({ preSelectedPartnerId }: BannerGenerationProps) => {
           {generationError && (
             <Alert variant="destructive">
               <AlertTriangle className="h-4 w-4" />
-              <AlertTitle>Error en la generación</AlertTitle>
+              <AlertTitle>{isUsageQuotaError(generationError) ? 'Límite diario alcanzado' : 'Error en la generación'}</AlertTitle>
               <AlertDescription>{generationError}</AlertDescription>
             </Alert>
           )}
@@ -840,6 +859,8 @@ const BannerGeneration = ({ preSelectedPartnerId }: BannerGenerationProps) => {
           </Button>
             </CardContent>
           </Card>
+
+      <BackgroundCandidatePicker {...pickerProps} />
     </div>
   );
 };
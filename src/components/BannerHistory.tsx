@@ -6,6 +6,10 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { toast } from '@/hooks/use-toast';
+import CompositionPreview from '@/components/CompositionPreview';
+import { parseCompositionData } from '@/lib/composition-loader';
+import { getFormatById } from '@/lib/banner-formats';
+import type { BannerComposition } from '@/types/banner-editor';
 
 interface BannerHistoryItem {
   id: string;
@@ -25,6 +29,7 @@ interface BannerHistoryItem {
   discount_percentage?: number;
   image_url?: string;
   isEnhanced?: boolean;
+  compositionData?: BannerComposition | null;
 }
 
 interface BannerHistoryProps {
@@ -76,9 +81,10 @@ const BannerHistory = ({ partnerId, partnerName, onCreateBanner, onEditBanner }:
         partnerId: banner.partner_id,
         createdAt: new Date(banner.created_at),
         status: 'completed' as const,
-        dimensions: '1440x338', // Desktop banners
-        // Primary image URL - supports 3-layer banners with fallback to legacy
-        imageUrl: banner.background_image_url || banner.desktop_url || banner.image_url,
+        dimensions: `${getFormatById(banner.image_type).width}x${getFormatById(banner.image_type).height}`,
+        // Primary image URL - image_url holds the flattened export once published,
+        // otherwise the 3-layer background or legacy desktop image
+        imageUrl: banner.image_url || banner.desktop_url || banner.background_image_url,
         mobileUrl: banner.mobile_url,
         // Enhanced banner data for editor
         main_text: banner.main_text,
@@ -87,7 +93,9 @@ const BannerHistory = ({ partnerId, partnerName, onCreateBanner, onEditBanner }:
         product_description: banner.product_description,
         discount_percentage: banner.discount_percentage,
         image_url: banner.image_url, // Keep original field
-        isEnhanced: banner.isEnhanced || false
+        isEnhanced: banner.isEnhanced || false,
+        // Saved editor composition, drawn as the thumbnail when available
+        compositionData: parseCompositionData(banner.composition_data)
       }));
 
       console.log('Processed banner items:', bannerItems);
@@ -319,7 +327,14 @@ const BannerHistory = ({ partnerId, partnerName, onCreateBanner, onEditBanner }:
           filteredBanners.map((banner) => (
             <Card key={banner.id} className="bg-white border border-brand-100 shadow-sm hover:shadow-md transition-shadow">
               <div className="aspect-video bg-brand-50 relative">
-                {banner.imageUrl ? (
+                {banner.compositionData ? (
+                  <CompositionPreview
+                    composition={banner.compositionData}
+                    fallbackImageUrl={banner.imageUrl}
+                    alt={banner.title}
+                    className="w-full h-full object-cover"
+                  />
+                ) : banner.imageUrl ? (
                   <img 
                     src={banner.imageUrl} 
                     alt={banner.title}
@@ -434,11 +449,21 @@ const BannerHistory = ({ partnerId, partnerName, onCreateBanner, onEditBanner }:
               
               <div className="px-6 pb-6">
                     <div className="bg-gray-50 rounded-xl p-6 border border-gray-200 min-h-[400px] flex items-center justify-center">
-                      <img
-                        src={viewingBanner.imageUrl}
-                        alt={viewingBanner.title}
-                        className="w-full rounded-lg border border-gray-200 shadow-sm max-h-[500px] object-contain"
-                      />
+                      {viewingBanner.compositionData ? (
+                        <CompositionPreview
+                          composition={viewingBanner.compositionData}
+                          width={viewingBanner.compositionData.canvasSize.width}
+                          fallbackImageUrl={viewingBanner.imageUrl}
+                          alt={viewingBanner.title}
+                          className="w-full rounded-lg border border-gray-200 shadow-sm max-h-[500px] object-contain"
+                        />
+                      ) : (
+                        <img
+                          src={viewingBanner.imageUrl}
+                          alt={viewingBanner.title}
+                          className="w-full rounded-lg border border-gray-200 shadow-sm max-h-[500px] object-contain"
+                        />
+                      )}
                     </div>
               </div>
             </>
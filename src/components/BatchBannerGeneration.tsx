@@ -0,0 +1,259 @@
+import React, { useState } from 'react';
+import { AlertTriangle, CheckCircle2, Download, FileSpreadsheet, Loader2, RotateCcw, Upload, Wand2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { toast } from '@/hooks/use-toast';
+import { usePartners } from '@/hooks/usePartners';
+import { isEnhancedBannerCreationAvailable } from '@/lib/enhanced-banner-service';
+import { readSpreadsheet } from '@/lib/spreadsheet';
+import { INITIAL_GENERATION_PROGRESS, reduceGenerationProgress } from '@/lib/generation-progress';
+import { getDefaultImageProviderId, listImageProviders, type ImageProviderId } from '@/lib/image-generation';
+import {
+  DEFAULT_BATCH_CONCURRENCY, createBatchJobs, getBatchTemplateCsv, runBatchRow, runWithConcurrency, type BatchJob
+} from '@/lib/batch-generation';
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+const STATUS_LABELS: Record<BatchJob['status'], string> = {
+  pending: 'En cola',
+  running: 'Generando',
+  done: 'Listo',
+  failed: 'Error',
+};
+
+// Generates one banner per spreadsheet row, a few at a time, with per-row progress and retries
+const BatchBannerGeneration = () => {
+  const { partners } = usePartners();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+  const [imageProvider, setImageProvider] = useState<ImageProviderId>(getDefaultImageProviderId);
+  const [isRunning, setIsRunning] = useState(false);
+  const enhancedBannerAvailable = isEnhancedBannerCreationAvailable(imageProvider);
+
+  const updateJob = (jobId: string, patch: Partial<BatchJob>) => {
+    setJobs(prev => prev.map(job => job.id === jobId ? { ...job, ...patch } : job));
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const { rows } = await readSpreadsheet(file);
+      if (rows.length === 0) {
+        throw new Error('La planilla no tiene filas con datos');
+      }
+
+      const parsed = createBatchJobs(rows, partners);
+      setJobs(parsed);
+      setFileName(file.name);
+
+      const invalid = parsed.filter(job => job.status === 'failed').length;
+      toast({
+        title: "Planilla cargada",
+        description: invalid > 0
+          ? `${parsed.length} filas, ${invalid} con errores que no se generarán`
+          : `${parsed.length} banners listos para generar`,
+        variant: invalid > 0 ? "destructive" : "default"
+      });
+    } catch (error) {
+      console.error('Error reading batch spreadsheet:', error);
+      toast({
+        title: "No se pudo leer la planilla",
+        description: error instanceof Error ? error.message : "Formato no soportado",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const downloadTemplate = () => {
+    const blob = new Blob([getBatchTemplateCsv()], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'plantilla-banners.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const runJobs = async (toRun: BatchJob[]) => {
+    const runnable = toRun.filter(job => job.row);
+    if (runnable.length === 0) return;
+
+    setIsRunning(true);
+    runnable.forEach(job => updateJob(job.id, { status: 'pending', progress: 0, statusText: '', error: undefined }));
+    let created = 0;
+
+    await runWithConcurrency(runnable, concurrency, async job => {
+      const { row } = job;
+      if (!row) return;
+      const partner = partners.find(entry => entry.id === row.partnerId);
+      if (!partner) {
+        updateJob(job.id, { status: 'failed', error: `Partner "${row.partnerName}" no encontrado` });
+        return;
+      }
+
+      updateJob(job.id, { status: 'running', statusText: 'Iniciando...' });
+      let rowProgress = INITIAL_GENERATION_PROGRESS;
+      try {
+        const result = await runBatchRow(row, partner, {
+          generationJobId: job.generationJobId,
+          onJobCreated: generationJobId => updateJob(job.id, { generationJobId }),
+          imageProvider,
+          onEvent: event => {
+            rowProgress = reduceGenerationProgress(rowProgress, event);
+            updateJob(job.id, { progress: rowProgress.progress, statusText: rowProgress.status });
+          },
+        });
+        updateJob(job.id, { status: 'done', progress: 100, statusText: 'Banner creado', bannerId: result.bannerId });
+        created++;
+      } catch (error) {
+        console.error(`Batch row ${row.rowNumber} failed:`, error);
+        updateJob(job.id, { status: 'failed', error: error instanceof Error ? error.message : 'Error desconocido' });
+      }
+    });
+
+    setIsRunning(false);
+    window.dispatchEvent(new CustomEvent('bannerSaved', { detail: {} }));
+
+    // Rows run quietly, so the batch is reported once
+    const failed = runnable.length - created;
+    toast({
+      title: "Generación masiva terminada",
+      description: failed > 0
+        ? `${created} banners creados, ${failed} con errores`
+        : `${created} banners creados`,
+      variant: failed > 0 ? "destructive" : "default"
+    });
+  };
+
+  const pendingJobs = jobs.filter(job => job.status === 'pending' && job.row);
+  const retryableJobs = jobs.filter(job => job.status === 'failed' && job.row);
+  const doneCount = jobs.filter(job => job.status === 'done').length;
+
+  return (
+    <Card className="bg-white border border-brand-100 shadow-sm">
+      <CardHeader>
+        <CardTitle className="text-xl font-semibold text-gray-700 flex items-center gap-2">
+          <FileSpreadsheet className="w-5 h-5 text-brand-500" />
+          Generación masiva
+        </CardTitle>
+        <CardDescription className="text-gray-600">
+          Sube una planilla CSV o XLSX con una campaña por fila: partner, foto del producto (URL, número o nombre de una foto del partner), título, descripción, CTA y descuento.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!enhancedBannerAvailable && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Configuración incompleta</AlertTitle>
+            <AlertDescription>Se requiere configurar la API key de OpenAI y la del motor de IA elegido para generar banners.</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex flex-wrap items-end gap-3">
+          <Button variant="outline" onClick={() => document.getElementById('batchFile')?.click()} disabled={isRunning}>
+            <Upload className="w-4 h-4 mr-2" />
+            {fileName ? 'Cambiar planilla' : 'Subir planilla'}
+          </Button>
+          <input type="file" id="batchFile" className="hidden" accept=".csv,.xlsx" onChange={handleFileUpload} />
+          <Button variant="ghost" onClick={downloadTemplate}>
+            <Download className="w-4 h-4 mr-2" />
+            Descargar plantilla
+          </Button>
+
+          <div className="ml-auto flex items-end gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-600">Motor de IA</Label>
+              <Select value={imageProvider} onValueChange={(value) => setImageProvider(value as ImageProviderId)} disabled={isRunning}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {listImageProviders().map(provider => (
+                    <SelectItem key={provider.id} value={provider.id}>{provider.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-600">En paralelo</Label>
+              <Select value={String(concurrency)} onValueChange={(value) => setConcurrency(Number(value))} disabled={isRunning}>
+                <SelectTrigger className="w-20">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CONCURRENCY_OPTIONS.map(option => (
+                    <SelectItem key={option} value={String(option)}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {retryableJobs.length > 0 && (
+              <Button variant="outline" onClick={() => runJobs(retryableJobs)} disabled={isRunning}>
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Reintentar fallidos ({retryableJobs.length})
+              </Button>
+            )}
+            <Button
+              onClick={() => runJobs(pendingJobs)}
+              disabled={isRunning || pendingJobs.length === 0 || !enhancedBannerAvailable}
+              className="bg-violet-600 hover:bg-violet-700 text-white"
+            >
+              <Wand2 className="w-4 h-4 mr-2" />
+              {isRunning ? 'Generando...' : `Generar ${pendingJobs.length} banners`}
+            </Button>
+          </div>
+        </div>
+
+        {jobs.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm text-gray-600">
+              {fileName} · {doneCount} de {jobs.length} generados
+            </p>
+            <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+              {jobs.map(job => (
+                <div key={job.id} className="p-3 flex items-center gap-4">
+                  <span className="text-xs text-gray-500 w-12 shrink-0">Fila {job.rowNumber}</span>
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <p className="text-sm font-medium text-gray-700 truncate">
+                      {job.row ? `${job.row.partnerName} · ${job.row.mainText}` : Object.values(job.source).filter(Boolean).join(' · ')}
+                    </p>
+                    {job.status === 'running' && (
+                      <>
+                        <Progress value={job.progress} className="h-1.5" />
+                        <p className="text-xs text-gray-500 truncate">{job.statusText}</p>
+                      </>
+                    )}
+                    {job.status === 'failed' && job.error && (
+                      <p className="text-xs text-red-600">{job.error}</p>
+                    )}
+                  </div>
+                  <Badge variant={job.status === 'failed' ? 'destructive' : job.status === 'done' ? 'default' : 'secondary'} className="shrink-0">
+                    {job.status === 'running' && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+                    {job.status === 'done' && <CheckCircle2 className="w-3 h-3 mr-1" />}
+                    {STATUS_LABELS[job.status]}
+                  </Badge>
+                  {job.status === 'failed' && job.row && (
+                    <Button variant="ghost" size="sm" onClick={() => runJobs([job])} disabled={isRunning} title="Reintentar fila">
+                      <RotateCcw className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BatchBannerGeneration;
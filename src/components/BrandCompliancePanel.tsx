@@ -0,0 +1,106 @@
+import React from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle2, ShieldCheck } from 'lucide-react';
+import type { ComplianceReport, ComplianceViolation } from '@/lib/brand-compliance';
+import type { BannerAsset } from '@/types/banner-editor';
+
+interface BrandCompliancePanelProps {
+  report: ComplianceReport;
+  assets: BannerAsset[];
+  hasBrandKit: boolean;
+  onSelect: (layerId: string) => void;
+}
+
+const typeLabels: Record<BannerAsset['type'], string> = {
+  text: 'Texto',
+  cta: 'Botón CTA',
+  logo: 'Logo',
+  product: 'Producto',
+  group: 'Grupo',
+};
+
+const getAssetName = (assets: BannerAsset[], assetId: string): string => {
+  for (const asset of assets) {
+    if (asset.id === assetId) {
+      if ((asset.type === 'text' || asset.type === 'cta') && asset.text) {
+        const firstLine = asset.text.split('\n')[0];
+        return `"${firstLine.length > 20 ? `${firstLine.slice(0, 20)}…` : firstLine}"`;
+      }
+      return typeLabels[asset.type];
+    }
+    if (asset.children) {
+      const name = getAssetName(asset.children, assetId);
+      if (name) return name;
+    }
+  }
+  return '';
+};
+
+const describeViolation = (violation: ComplianceViolation, assets: BannerAsset[]): string => {
+  const name = getAssetName(assets, violation.assetId) || 'Elemento';
+
+  switch (violation.rule) {
+    case 'forbidden-color':
+      return `${name} usa el color prohibido ${violation.color}`;
+    case 'off-palette-color':
+      return `${name} usa ${violation.color}, que no está en la paleta de la marca`;
+    case 'low-contrast':
+      return `${name}: contraste ${violation.contrast}:1, mínimo ${violation.requiredContrast}:1`;
+    case 'logo-too-small':
+      return `El logo mide menos de ${violation.minLogoHeight}px de alto`;
+    case 'logo-clear-space':
+      return `${getAssetName(assets, violation.otherLayerId ?? '') || 'Un elemento'} invade el espacio libre del logo`;
+    case 'outside-safe-area':
+      return `${name} está fuera del margen de seguridad`;
+  }
+};
+
+// Brand rule violations for the current composition; clicking one selects its layer
+const BrandCompliancePanel = ({ report, assets, hasBrandKit, onSelect }: BrandCompliancePanelProps) => {
+  return (
+    <div className="border-t border-gray-200 flex flex-col max-h-[45%]">
+      <div className="p-3 border-b border-gray-200 flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <ShieldCheck className="w-4 h-4 text-gray-600" />
+          <span className="text-sm font-medium text-gray-700">Marca</span>
+        </div>
+        {report.violations.length > 0 && (
+          <span className="text-xs text-gray-500">
+            {report.errorCount} errores · {report.warningCount} avisos
+          </span>
+        )}
+      </div>
+
+      <div className="overflow-y-auto p-2 space-y-1">
+        {report.violations.length === 0 && (
+          <p className="flex items-center justify-center gap-1 text-xs text-green-700 py-3">
+            <CheckCircle2 className="w-3 h-3" />
+            Cumple las reglas de la marca
+          </p>
+        )}
+        {!hasBrandKit && (
+          <p className="text-xs text-gray-500 px-1">
+            Sin kit de marca: solo se revisan contraste y posiciones
+          </p>
+        )}
+
+        {report.violations.map(violation => (
+          <button
+            key={violation.id}
+            type="button"
+            onClick={() => onSelect(violation.layerId)}
+            className={`w-full flex items-start gap-2 p-2 rounded text-left text-xs hover:bg-gray-50 ${
+              violation.severity === 'error' ? 'text-red-700' : 'text-amber-700'
+            }`}
+          >
+            {violation.severity === 'error'
+              ? <AlertCircle className="w-3 h-3 mt-0.5 shrink-0" />
+              : <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />}
+            <span>{describeViolation(violation, assets)}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BrandCompliancePanel;
@@ -0,0 +1,165 @@
+import React, { useEffect, useRef } from 'react';
+import { Type, Upload, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { BrandFontUpload } from '@/hooks/usePartners';
+import { toast } from '@/hooks/use-toast';
+import {
+  MAX_BRAND_FONT_SIZE, getBrandFontFormat, getFontFamilyFromFileName, guessFontFace, registerBrandFonts
+} from '@/lib/font-manager';
+import type { BrandFont } from '@/types/banner-editor';
+
+interface BrandFontManagerProps {
+  existingFonts: BrandFont[];
+  pendingFonts: BrandFontUpload[];
+  onExistingFontsChange: (fonts: BrandFont[]) => void;
+  onPendingFontsChange: (fonts: BrandFontUpload[]) => void;
+}
+
+const WEIGHT_OPTIONS = [
+  { value: '300', label: 'Light (300)' },
+  { value: '400', label: 'Regular (400)' },
+  { value: '500', label: 'Medium (500)' },
+  { value: '600', label: 'Semibold (600)' },
+  { value: '700', label: 'Bold (700)' },
+  { value: '800', label: 'Extrabold (800)' },
+];
+
+const BrandFontManager = ({ existingFonts, pendingFonts, onExistingFontsChange, onPendingFontsChange }: BrandFontManagerProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Register uploaded fonts so their previews render in the real typeface
+  useEffect(() => {
+    registerBrandFonts(existingFonts);
+  }, [existingFonts]);
+
+  const handleFiles = (files: FileList | null) => {
+    if (!files) return;
+
+    const uploads: BrandFontUpload[] = [];
+    Array.from(files).forEach(file => {
+      const format = getBrandFontFormat(file.name);
+      if (!format) {
+        toast({
+          title: "Formato no soportado",
+          description: `${file.name} no es un archivo WOFF2 o TTF`,
+          variant: "destructive",
+        });
+        return;
+      }
+      if (file.size > MAX_BRAND_FONT_SIZE) {
+        toast({
+          title: "Archivo muy grande",
+          description: `${file.name} supera los 5MB`,
+          variant: "destructive",
+        });
+        return;
+      }
+      uploads.push({ file, format, family: getFontFamilyFromFileName(file.name), ...guessFontFace(file.name) });
+    });
+
+    if (uploads.length > 0) {
+      onPendingFontsChange([...pendingFonts, ...uploads]);
+    }
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const updatePendingFont = (index: number, updates: Partial<BrandFontUpload>) => {
+    onPendingFontsChange(pendingFonts.map((font, i) => i === index ? { ...font, ...updates } : font));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-gray-500">
+          Sube los archivos WOFF2 o TTF de la marca para que el editor y las exportaciones usen la tipografía exacta.
+        </p>
+        <Button type="button" variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="w-4 h-4 mr-2" />
+          Subir fuentes
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".woff2,.ttf"
+          multiple
+          className="hidden"
+          onChange={(e) => handleFiles(e.target.files)}
+        />
+      </div>
+
+      {existingFonts.map((font, index) => (
+        <div key={`${font.url}-${index}`} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg border border-gray-200">
+          <div className="flex items-center space-x-3">
+            <Type className="w-4 h-4 text-violet-600" />
+            <div>
+              <p className="text-sm text-gray-700" style={{ fontFamily: font.family, fontWeight: font.weight, fontStyle: font.style }}>
+                {font.family}
+              </p>
+              <p className="text-xs text-gray-500">
+                {font.weight} · {font.style === 'italic' ? 'Itálica' : 'Normal'} · {font.format.toUpperCase()}
+              </p>
+            </div>
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onExistingFontsChange(existingFonts.filter((_, i) => i !== index))}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+
+      {pendingFonts.map((font, index) => (
+        <div key={`${font.file.name}-${index}`} className="flex items-center gap-2 p-2 bg-violet-50 rounded-lg border border-violet-200">
+          <Type className="w-4 h-4 text-violet-600 shrink-0" />
+          <Input
+            value={font.family}
+            onChange={(e) => updatePendingFont(index, { family: e.target.value })}
+            placeholder="Nombre de la familia"
+            className="h-8 text-sm"
+          />
+          <Select value={font.weight} onValueChange={(value) => updatePendingFont(index, { weight: value })}>
+            <SelectTrigger className="h-8 w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WEIGHT_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={font.style}
+            onValueChange={(value) => updatePendingFont(index, { style: value as BrandFont['style'] })}
+          >
+            <SelectTrigger className="h-8 w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="normal">Normal</SelectItem>
+              <SelectItem value="italic">Itálica</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onPendingFontsChange(pendingFonts.filter((_, i) => i !== index))}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+
+      {pendingFonts.length > 0 && (
+        <p className="text-xs text-violet-600">Las fuentes nuevas se subirán al guardar el partner.</p>
+      )}
+    </div>
+  );
+};
+
+export default BrandFontManager;
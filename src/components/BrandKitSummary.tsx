@@ -0,0 +1,81 @@
+import React from 'react';
+import { AlertCircle, Ban } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import type { BrandKit } from '@/lib/brand-kit';
+
+interface BrandKitSummaryProps {
+  brandKit: BrandKit;
+  warnings: string[];
+  onToneOfVoiceChange: (toneOfVoice: string) => void;
+}
+
+const COLOR_ROLE_LABELS: Record<string, string> = {
+  primary: 'Principal',
+  secondary: 'Secundario',
+  accent: 'Acento',
+  background: 'Fondo',
+  text: 'Texto',
+  cta: 'CTA',
+};
+
+// Shows the parts of the brand kit that the color, font and logo inputs don't cover
+const BrandKitSummary = ({ brandKit, warnings, onToneOfVoiceChange }: BrandKitSummaryProps) => {
+  return (
+    <div className="space-y-3">
+      <h4 className="text-sm font-semibold text-gray-700 border-b border-gray-200 pb-2">Kit de Marca</h4>
+
+      <div className="flex flex-wrap gap-2">
+        {brandKit.palette.map(color => (
+          <div key={color.role} className="flex items-center gap-2 px-2 py-1 bg-gray-50 rounded border border-gray-200">
+            <span className="w-4 h-4 rounded border border-gray-300" style={{ backgroundColor: color.hex }} />
+            <span className="text-xs text-gray-700">
+              {color.name ?? COLOR_ROLE_LABELS[color.role]} <span className="font-mono text-gray-500">{color.hex}</span>
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {brandKit.forbiddenColors.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-gray-600">Colores prohibidos:</span>
+          {brandKit.forbiddenColors.map(hex => (
+            <span key={hex} className="flex items-center gap-1 px-2 py-1 bg-red-50 rounded border border-red-200 text-xs font-mono text-red-700">
+              <Ban className="w-3 h-3" />
+              <span className="w-3 h-3 rounded" style={{ backgroundColor: hex }} />
+              {hex}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-gray-600">
+        Espacio libre del logo: {Math.round(brandKit.clearSpace.logoRatio * 100)}% de su alto · Margen de seguridad: {brandKit.clearSpace.safeMargin}px · Logo mínimo: {brandKit.clearSpace.minLogoHeight}px
+      </p>
+
+      <div className="space-y-1">
+        <Label htmlFor="toneOfVoice" className="text-sm font-medium text-gray-600">Tono de voz</Label>
+        <Textarea
+          id="toneOfVoice"
+          value={brandKit.toneOfVoice}
+          onChange={(e) => onToneOfVoiceChange(e.target.value)}
+          placeholder="ej. Cercano, optimista, sin tecnicismos"
+          className="min-h-[60px] resize-none text-sm"
+        />
+      </div>
+
+      {warnings.length > 0 && (
+        <div className="p-2 bg-amber-50 rounded border border-amber-200 space-y-1">
+          {warnings.map(warning => (
+            <p key={warning} className="flex items-center gap-1 text-xs text-amber-700">
+              <AlertCircle className="w-3 h-3 shrink-0" />
+              {warning}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BrandKitSummary;
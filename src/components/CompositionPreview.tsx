@@ -0,0 +1,70 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Image as ImageIcon } from 'lucide-react';
+import { renderComposition } from '@/lib/composition-renderer';
+import { loadCompositionImages } from '@/lib/composition-loader';
+import { ensureCompositionFonts } from '@/lib/font-manager';
+import type { BannerComposition } from '@/types/banner-editor';
+
+interface CompositionPreviewProps {
+  composition: BannerComposition;
+  className?: string;
+  // Rendered width in device pixels; height follows the composition aspect ratio
+  width?: number;
+  fallbackImageUrl?: string;
+  alt?: string;
+}
+
+// Draws a saved composition (background, product, logo, text and CTA) instead of the bare background image
+const CompositionPreview = ({ composition, className, width = 480, fallbackImageUrl, alt }: CompositionPreviewProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [hasFailed, setHasFailed] = useState(false);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    const draw = async () => {
+      try {
+        const images = await loadCompositionImages(composition);
+        // A thumbnail is still useful with a fallback font
+        await ensureCompositionFonts(composition).catch(error => {
+          console.warn('⚠️ Preview drawn without some brand fonts:', error);
+        });
+        const canvas = canvasRef.current;
+        if (isCancelled || !canvas) return;
+
+        const scale = width / composition.canvasSize.width;
+        canvas.width = Math.round(composition.canvasSize.width * scale);
+        canvas.height = Math.round(composition.canvasSize.height * scale);
+
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+
+        ctx.scale(scale, scale);
+        renderComposition(composition, images, ctx);
+      } catch (error) {
+        console.error('Failed to render composition preview:', error);
+        if (!isCancelled) setHasFailed(true);
+      }
+    };
+
+    draw();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [composition, width]);
+
+  if (hasFailed) {
+    return fallbackImageUrl ? (
+      <img src={fallbackImageUrl} alt={alt} className={className} />
+    ) : (
+      <div className="w-full h-full flex items-center justify-center">
+        <ImageIcon className="w-12 h-12 text-brand-300" />
+      </div>
+    );
+  }
+
+  return <canvas ref={canvasRef} className={className} aria-label={alt} />;
+};
+
+export default CompositionPreview;
@@ -0,0 +1,57 @@
+import React from 'react';
+import {
+  CommandDialog, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList, CommandShortcut
+} from '@/components/ui/command';
+
+export interface EditorCommand {
+  id: string;
+  label: string;
+  group: string;
+  shortcut?: string;
+  disabled?: boolean;
+  run: () => void;
+}
+
+interface EditorCommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  commands: EditorCommand[];
+}
+
+const EditorCommandPalette = ({ open, onOpenChange, commands }: EditorCommandPaletteProps) => {
+  // Keep groups in the order their first command was listed
+  const groups = commands.reduce<string[]>((acc, command) => (
+    acc.includes(command.group) ? acc : [...acc, command.group]
+  ), []);
+
+  const runCommand = (command: EditorCommand) => {
+    onOpenChange(false);
+    command.run();
+  };
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange}>
+      <CommandInput placeholder="Buscar acción..." />
+      <CommandList>
+        <CommandEmpty>No se encontraron acciones.</CommandEmpty>
+        {groups.map(group => (
+          <CommandGroup key={group} heading={group}>
+            {commands.filter(command => command.group === group).map(command => (
+              <CommandItem
+                key={command.id}
+                value={`${group} ${command.label}`}
+                disabled={command.disabled}
+                onSelect={() => runCommand(command)}
+              >
+                {command.label}
+                {command.shortcut && <CommandShortcut>{command.shortcut}</CommandShortcut>}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        ))}
+      </CommandList>
+    </CommandDialog>
+  );
+};
+
+export default EditorCommandPalette;
@@ -0,0 +1,171 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle2, Circle, Loader2, RefreshCw, RotateCcw, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { toast } from '@/hooks/use-toast';
+import { usePartners } from '@/hooks/usePartners';
+import { useBackgroundPicker } from '@/hooks/useBackgroundPicker';
+import BackgroundCandidatePicker from '@/components/BackgroundCandidatePicker';
+import { resumeEnhancedBanner } from '@/lib/enhanced-banner-service';
+import {
+  GENERATION_STEPS, discardGenerationJob, isGenerationJobActive, isGenerationJobResumable, listUnfinishedGenerationJobs,
+  type GenerationJob, type GenerationStep
+} from '@/lib/generation-jobs';
+import { INITIAL_GENERATION_PROGRESS, reduceGenerationProgress, type GenerationProgress } from '@/lib/generation-progress';
+
+const STEP_LABELS: Record<GenerationStep, string> = {
+  analyze: 'Análisis',
+  background: 'Fondo',
+  product: 'Producto',
+  cutout: 'Recorte',
+  pick: 'Elección de fondo',
+  save: 'Guardado',
+};
+
+// Unfinished banner generations: running ones with their current step, failed or interrupted ones to resume
+const GenerationJobsPanel = () => {
+  const { partners } = usePartners();
+  const { pickBackground, pickerProps } = useBackgroundPicker();
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [resuming, setResuming] = useState<Record<string, GenerationProgress>>({});
+
+  const fetchJobs = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setJobs(await listUnfinishedGenerationJobs());
+    } catch (error) {
+      console.error('Error loading generation jobs:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchJobs();
+    window.addEventListener('bannerSaved', fetchJobs);
+    return () => window.removeEventListener('bannerSaved', fetchJobs);
+  }, [fetchJobs]);
+
+  const handleResume = async (job: GenerationJob) => {
+    setResuming(prev => ({ ...prev, [job.id]: { ...INITIAL_GENERATION_PROGRESS, progress: job.progress, status: 'Reanudando...' } }));
+    try {
+      await resumeEnhancedBanner(job.id, event => {
+        setResuming(prev => prev[job.id] ? { ...prev, [job.id]: reduceGenerationProgress(prev[job.id], event) } : prev);
+      }, { pickBackground });
+    } catch (error) {
+      // resumeEnhancedBanner already reported the error
+      console.error('Error resuming generation job:', error);
+    } finally {
+      setResuming(prev => {
+        const next = { ...prev };
+        delete next[job.id];
+        return next;
+      });
+      fetchJobs();
+    }
+  };
+
+  const handleDiscard = async (job: GenerationJob) => {
+    try {
+      await discardGenerationJob(job.id);
+      setJobs(prev => prev.filter(entry => entry.id !== job.id));
+    } catch (error) {
+      console.error('Error discarding generation job:', error);
+      toast({
+        title: "Error al descartar",
+        description: error instanceof Error ? error.message : "No se pudo descartar la generación",
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (jobs.length === 0) return null;
+
+  return (
+    <Card className="bg-white border border-brand-100 shadow-sm">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle className="text-lg font-semibold text-gray-700">Generaciones pendientes</CardTitle>
+          <CardDescription className="text-gray-600">
+            Las generaciones fallidas o interrumpidas continúan desde el último paso completado.
+          </CardDescription>
+        </div>
+        <Button variant="ghost" size="sm" onClick={fetchJobs} disabled={isLoading} title="Actualizar">
+          <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+          {jobs.map(job => {
+            const resumeState = resuming[job.id];
+            const isRunningHere = !!resumeState || isGenerationJobActive(job.id);
+            const canResume = !resumeState && isGenerationJobResumable(job);
+            const partnerName = partners.find(partner => partner.id === job.partnerId)?.name ?? job.request.partnerName;
+
+            return (
+              <div key={job.id} className="p-3 space-y-2">
+                <div className="flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-700 truncate">{partnerName} · {job.request.mainText}</p>
+                    <p className="text-xs text-gray-500">{new Date(job.createdAt).toLocaleString()}</p>
+                  </div>
+                  {isRunningHere ? (
+                    <Badge variant="secondary"><Loader2 className="w-3 h-3 mr-1 animate-spin" />Generando</Badge>
+                  ) : job.status === 'failed' ? (
+                    <Badge variant="destructive">Error</Badge>
+                  ) : canResume ? (
+                    <Badge variant="outline">Interrumpida</Badge>
+                  ) : (
+                    <Badge variant="secondary">En otra sesión</Badge>
+                  )}
+                  {canResume && (
+                    <>
+                      <Button variant="ghost" size="sm" onClick={() => handleDiscard(job)} title="Descartar">
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => handleResume(job)}>
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                        Reanudar
+                      </Button>
+                    </>
+                  )}
+                </div>
+
+                <div className="flex flex-wrap gap-3">
+                  {GENERATION_STEPS.map(step => {
+                    const state = job.steps[step]?.status;
+                    return (
+                      <span key={step} className={`flex items-center text-xs ${state === 'failed' ? 'text-red-600' : state === 'done' ? 'text-green-700' : 'text-gray-500'}`}>
+                        {state === 'done' ? <CheckCircle2 className="w-3 h-3 mr-1" />
+                          : state === 'failed' ? <AlertTriangle className="w-3 h-3 mr-1" />
+                          : <Circle className="w-3 h-3 mr-1" />}
+                        {STEP_LABELS[step]}
+                      </span>
+                    );
+                  })}
+                </div>
+
+                {resumeState ? (
+                  <>
+                    <Progress value={resumeState.progress} className="h-1.5" />
+                    <p className="text-xs text-gray-500 truncate">{resumeState.status}</p>
+                  </>
+                ) : job.status === 'failed' && job.error ? (
+                  <p className="text-xs text-red-600">{job.error}</p>
+                ) : job.statusText && (
+                  <p className="text-xs text-gray-500 truncate">{job.statusText}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+      <BackgroundCandidatePicker {...pickerProps} />
+    </Card>
+  );
+};
+
+export default GenerationJobsPanel;
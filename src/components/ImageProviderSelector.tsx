@@ -0,0 +1,81 @@
+import { listImageProviders, type ImageProviderId } from '@/lib/image-generation';
+
+interface ImageProviderSelectorProps {
+  value: ImageProviderId;
+  onChange: (value: ImageProviderId) => void;
+  disabled?: boolean;
+}
+
+const PROVIDER_STYLES: Record<ImageProviderId, { selected: string; hover: string; icon: string; dot: string; badge: string; badgeText: string }> = {
+  openai: {
+    selected: 'border-green-500 bg-green-50 shadow-lg ring-2 ring-green-200',
+    hover: 'hover:border-green-300',
+    icon: 'from-green-400 to-green-600',
+    dot: 'bg-green-500',
+    badge: 'bg-green-100 text-green-700',
+    badgeText: 'Popular',
+  },
+  flux: {
+    selected: 'border-purple-500 bg-purple-50 shadow-lg ring-2 ring-purple-200',
+    hover: 'hover:border-purple-300',
+    icon: 'from-purple-400 to-purple-600',
+    dot: 'bg-purple-500',
+    badge: 'bg-purple-100 text-purple-700',
+    badgeText: '⚡ Nuevo',
+  },
+  mock: {
+    selected: 'border-gray-500 bg-gray-50 shadow-lg ring-2 ring-gray-200',
+    hover: 'hover:border-gray-300',
+    icon: 'from-gray-400 to-gray-600',
+    dot: 'bg-gray-500',
+    badge: 'bg-gray-100 text-gray-700',
+    badgeText: 'Pruebas',
+  },
+};
+
+/**
+ * "Motor de IA" cards: which image provider generates the background and product images
+ */
+const ImageProviderSelector = ({ value, onChange, disabled = false }: ImageProviderSelectorProps) => {
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-4">
+      {listImageProviders().map(provider => {
+        const styles = PROVIDER_STYLES[provider.id];
+        const configured = provider.isConfigured();
+        const selectable = configured && !disabled;
+
+        return (
+          <button
+            key={provider.id}
+            type="button"
+            onClick={() => onChange(provider.id)}
+            disabled={!selectable}
+            title={configured ? undefined : `${provider.label} no está configurado`}
+            className={`p-4 rounded-xl border-2 transition-all duration-200 ${
+              value === provider.id ? styles.selected : `border-gray-200 bg-white ${styles.hover}`
+            } ${selectable ? 'cursor-pointer hover:shadow-md' : 'cursor-not-allowed opacity-50'}`}
+          >
+            <div className="flex flex-col items-center gap-3 min-w-[140px]">
+              <div className={`w-12 h-12 bg-gradient-to-br ${styles.icon} rounded-xl flex items-center justify-center shadow-lg`}>
+                <div className="w-6 h-6 bg-white rounded-full flex items-center justify-center">
+                  <div className={`w-3 h-3 ${styles.dot} rounded-full`} />
+                </div>
+              </div>
+              <div className="text-center">
+                <h3 className="font-semibold text-gray-900">{provider.label}</h3>
+                <p className="text-xs text-gray-600 mt-1">{provider.description}</p>
+                <div className="mt-2">
+                  <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${styles.badge}`}>
+                    {configured ? styles.badgeText : 'Sin configurar'}
+                  </span>
+                </div>
+              </div>
+            </div>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ImageProviderSelector;
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { Eye, EyeOff, Lock, Unlock, Type, Image, MousePointer2, Layers, GripVertical, Group } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { getLayerOrder } from '@/lib/asset-layers';
+import type { BannerAsset } from '@/types/banner-editor';
+
+interface LayerPanelProps {
+  assets: BannerAsset[];
+  selectedAssetIds: string[];
+  onSelect: (assetId: string, additive: boolean) => void;
+  // toIndex is the target position in bottom-to-top layer order
+  onReorder: (assetId: string, toIndex: number) => void;
+  onToggleHidden: (assetId: string) => void;
+  onToggleLocked: (assetId: string) => void;
+}
+
+const typeLabels: Record<BannerAsset['type'], string> = {
+  text: 'Texto',
+  cta: 'Botón CTA',
+  logo: 'Logo',
+  product: 'Producto',
+  group: 'Grupo',
+};
+
+const getLayerName = (asset: BannerAsset) => {
+  if ((asset.type === 'text' || asset.type === 'cta') && asset.text) {
+    const firstLine = asset.text.split('\n')[0];
+    return firstLine.length > 24 ? `${firstLine.slice(0, 24)}…` : firstLine;
+  }
+  if (asset.type === 'group') {
+    return `${typeLabels.group} (${asset.children?.length ?? 0})`;
+  }
+  return typeLabels[asset.type];
+};
+
+const LayerIcon = ({ type }: { type: BannerAsset['type'] }) => {
+  switch (type) {
+    case 'text':
+      return <Type className="w-4 h-4 text-gray-500" />;
+    case 'cta':
+      return <MousePointer2 className="w-4 h-4 text-gray-500" />;
+    case 'group':
+      return <Group className="w-4 h-4 text-gray-500" />;
+    default:
+      return <Image className="w-4 h-4 text-gray-500" />;
+  }
+};
+
+const LayerPanel = ({ assets, selectedAssetIds, onSelect, onReorder, onToggleHidden, onToggleLocked }: LayerPanelProps) => {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  // Top layer first, like most design tools
+  const layers = getLayerOrder(assets).reverse();
+
+  const handleDrop = (e: React.DragEvent, listIndex: number) => {
+    e.preventDefault();
+    if (draggedId) {
+      // Convert the top-to-bottom list position back to bottom-to-top layer order
+      onReorder(draggedId, layers.length - 1 - listIndex);
+    }
+    setDraggedId(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <div className="flex-1 min-h-0 flex flex-col">
+      <div className="p-3 border-b border-gray-200 flex items-center space-x-2">
+        <Layers className="w-4 h-4 text-gray-600" />
+        <span className="text-sm font-medium text-gray-700">Capas</span>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {layers.length === 0 && (
+          <p className="text-xs text-gray-500 text-center py-4">No hay elementos</p>
+        )}
+
+        {layers.map((asset, listIndex) => {
+          const isSelected = selectedAssetIds.includes(asset.id);
+
+          return (
+            <div
+              key={asset.id}
+              draggable
+              onDragStart={(e) => {
+                setDraggedId(asset.id);
+                e.dataTransfer.effectAllowed = 'move';
+              }}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDropIndex(listIndex);
+              }}
+              onDragEnd={() => {
+                setDraggedId(null);
+                setDropIndex(null);
+              }}
+              onDrop={(e) => handleDrop(e, listIndex)}
+              onClick={(e) => onSelect(asset.id, e.shiftKey)}
+              className={`flex items-center space-x-2 px-2 py-1.5 rounded-md cursor-pointer text-sm ${
+                isSelected ? 'bg-blue-50 text-blue-700' : 'hover:bg-gray-50 text-gray-700'
+              } ${dropIndex === listIndex && draggedId !== asset.id ? 'ring-1 ring-blue-400' : ''} ${
+                asset.hidden ? 'opacity-50' : ''
+              }`}
+            >
+              <GripVertical className="w-3 h-3 text-gray-400 cursor-grab" />
+              <LayerIcon type={asset.type} />
+              <span className="flex-1 truncate">{getLayerName(asset)}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onToggleHidden(asset.id);
+                }}
+                title={asset.hidden ? 'Mostrar' : 'Ocultar'}
+              >
+                {asset.hidden ? <EyeOff className="w-3 h-3" /> : <Eye className="w-3 h-3" />}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onToggleLocked(asset.id);
+                }}
+                title={asset.locked ? 'Desbloquear' : 'Bloquear'}
+              >
+                {asset.locked ? <Lock className="w-3 h-3" /> : <Unlock className="w-3 h-3" />}
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default LayerPanel;
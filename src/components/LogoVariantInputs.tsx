@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { Upload, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { LOGO_VARIANTS, findBrandKitFile, type BrandKitLogo, type LogoVariant } from '@/lib/brand-kit';
+
+interface LogoVariantInputsProps {
+  logos: BrandKitLogo[];
+  // Files not uploaded yet (from a ZIP or picked here), keyed by the path the logo's url points to
+  files: Record<string, File>;
+  onUpload: (variant: LogoVariant, file: File) => void;
+  onRemove: (variant: LogoVariant) => void;
+}
+
+const VARIANT_LABELS: Record<LogoVariant, { title: string; hint: string }> = {
+  light: { title: 'Logo claro', hint: 'Para fondos oscuros' },
+  dark: { title: 'Logo oscuro', hint: 'Para fondos claros' },
+  mono: { title: 'Monocromo', hint: 'Una sola tinta' },
+};
+
+// One slot per logo variant; the editor picks the one that contrasts best with the background
+const LogoVariantInputs = ({ logos, files, onUpload, onRemove }: LogoVariantInputsProps) => {
+  const [previews, setPreviews] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    const objectUrls: string[] = [];
+    const next: Record<string, string> = {};
+
+    logos.forEach(logo => {
+      const file = /^https?:\/\//.test(logo.url) ? undefined : findBrandKitFile(files, logo.url);
+      if (file) {
+        const objectUrl = URL.createObjectURL(file);
+        objectUrls.push(objectUrl);
+        next[logo.variant] = objectUrl;
+      } else {
+        next[logo.variant] = logo.url;
+      }
+    });
+    setPreviews(next);
+
+    return () => {
+      objectUrls.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [logos, files]);
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-semibold text-gray-700 border-b border-gray-200 pb-2">Variantes del logo</h4>
+      <div className="grid grid-cols-3 gap-3">
+        {LOGO_VARIANTS.map(variant => {
+          const inputId = `logoVariant-${variant}`;
+          const preview = previews[variant];
+          const isDarkTile = variant === 'light';
+
+          return (
+            <div
+              key={variant}
+              className={`relative flex flex-col items-center gap-2 p-3 rounded border ${isDarkTile ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'}`}
+            >
+              {preview ? (
+                <>
+                  <img src={preview} alt={VARIANT_LABELS[variant].title} className="h-10 max-w-full object-contain" />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="absolute top-1 right-1 h-6 w-6 p-0"
+                    onClick={() => onRemove(variant)}
+                  >
+                    <X className={`w-3 h-3 ${isDarkTile ? 'text-gray-200' : 'text-gray-500'}`} />
+                  </Button>
+                </>
+              ) : (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="h-10 text-xs"
+                  onClick={() => document.getElementById(inputId)?.click()}
+                >
+                  <Upload className="w-3 h-3 mr-1" />
+                  Subir
+                </Button>
+              )}
+              <input
+                type="file"
+                id={inputId}
+                className="hidden"
+                accept="image/png,image/svg+xml,image/webp"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) onUpload(variant, file);
+                }}
+              />
+              <div className="text-center">
+                <p className={`text-xs font-medium ${isDarkTile ? 'text-gray-100' : 'text-gray-700'}`}>{VARIANT_LABELS[variant].title}</p>
+                <p className={`text-xs ${isDarkTile ? 'text-gray-300' : 'text-gray-500'}`}>{VARIANT_LABELS[variant].hint}</p>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default LogoVariantInputs;
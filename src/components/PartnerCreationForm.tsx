@@ -7,7 +7,16 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { usePartners, Partner, UpdatePartnerData } from '@/hooks/usePartners';
+import { usePartners, Partner, UpdatePartnerData, BrandFontUpload } from '@/hooks/usePartners';
+import BrandFontManager from '@/components/BrandFontManager';
+import { getBrandFontFormat, getFontFamilyFromFileName, guessFontFace, MAX_BRAND_FONT_SIZE } from '@/lib/font-manager';
+import {
+  applyBrandGuidelines, brandKitToCsv, DEFAULT_BRAND_GUIDELINES, getBrandGuidelines, importBrandKitFile,
+  loadPartnerBrandKit, type BrandKit, type LogoVariant
+} from '@/lib/brand-kit';
+import BrandKitSummary from '@/components/BrandKitSummary';
+import LogoVariantInputs from '@/components/LogoVariantInputs';
+import type { BrandFont } from '@/types/banner-editor';
 import { analyzeReferenceStyle, isStyleAnalysisAvailable, StyleAnalysis } from '@/lib/style-analysis';
 import { toast } from '@/hooks/use-toast';
 
@@ -36,15 +45,17 @@ const PartnerCreationForm = ({ editingPartner, onSuccess }: PartnerCreationFormP
   const [existingReferencePhotos, setExistingReferencePhotos] = useState<string[]>([]);
   const [productPhotos, setProductPhotos] = useState<File[]>([]);
   const [existingProductPhotos, setExistingProductPhotos] = useState<string[]>([]);
+  const [brandFonts, setBrandFonts] = useState<BrandFontUpload[]>([]);
+  const [existingBrandFonts, setExistingBrandFonts] = useState<BrandFont[]>([]);
   const [currentBenefit, setCurrentBenefit] = useState('');
   
   // New state for brand guidelines
-  const [brandGuidelines, setBrandGuidelines] = useState({
-    mainColor: '#8A47F5',
-    secondaryColor: '#E9DEFF',
-    fontPrimary: 'DM Sans',
-    fontSecondary: 'Arial',
-  });
+  const [brandGuidelines, setBrandGuidelines] = useState(DEFAULT_BRAND_GUIDELINES);
+  // Full brand kit (palette roles, logo variants, clear space...); the inputs above edit its primary/secondary entries
+  const [brandKit, setBrandKit] = useState<BrandKit | null>(null);
+  const [brandKitFiles, setBrandKitFiles] = useState<Record<string, File>>({});
+  const [brandKitWarnings, setBrandKitWarnings] = useState<string[]>([]);
+  const [isImportingBrandKit, setIsImportingBrandKit] = useState(false);
   
   const [dragStates, setDragStates] = useState({
     logo: false,
@@ -81,52 +92,97 @@ const PartnerCreationForm = ({ editingPartner, onSuccess }: PartnerCreationFormP
       // Set existing product photos
       setExistingProductPhotos(editingPartner.product_photos_urls || []);
       
+      // Set existing brand fonts
+      setExistingBrandFonts(editingPartner.brand_fonts || []);
+      setBrandFonts([]);
+      
       // Reset reference banners changed flag when loading partner for editing
       setReferenceBannersChanged(false);
       
-      // Load brand guidelines from existing brand manual
-      if (editingPartner.brand_manual_url) {
-        loadBrandGuidelines(editingPartner.brand_manual_url);
-      }
+      // Load brand guidelines from the stored brand kit or legacy brand manual
+      loadBrandGuidelines(editingPartner);
     }
   }, [editingPartner]);
 
-  // Function to load and parse brand guidelines from CSV
-  const loadBrandGuidelines = async (brandManualUrl: string) => {
+  // Load the partner's brand kit (or its legacy CSV brand manual)
+  const loadBrandGuidelines = async (partner: Partner) => {
     try {
-      console.log('Loading brand guidelines from:', brandManualUrl);
-      const response = await fetch(brandManualUrl);
-      const csvText = await response.text();
-      
-      // Parse CSV
-      const lines = csvText.split('\n');
-      const brandData: Record<string, string> = {};
-      
-      lines.forEach(line => {
-        if (line.trim() && !line.startsWith('Field,')) {
-          const [field, value] = line.split(',');
-          if (field && value) {
-            brandData[field.trim()] = value.trim();
-          }
-        }
-      });
-      
-      // Update brand guidelines state with parsed data
-      const updatedGuidelines = {
-        mainColor: brandData['Main Color'] || '#8A47F5',
-        secondaryColor: brandData['Secondary Color'] || '#E9DEFF',
-        fontPrimary: brandData['Font Primary'] || 'DM Sans',
-        fontSecondary: brandData['Font Secondary'] || 'Arial',
-      };
-      
-      console.log('Loaded brand guidelines:', updatedGuidelines);
-      setBrandGuidelines(updatedGuidelines);
+      const kit = await loadPartnerBrandKit(partner);
+      if (!kit) return;
+
+      console.log('Loaded brand kit:', kit);
+      setBrandKit(kit);
+      setBrandGuidelines(getBrandGuidelines(kit));
     } catch (error) {
       console.error('Error loading brand guidelines:', error);
       // Keep default values if loading fails
     }
   };
 
+  // Add a light, dark or mono logo; the file is uploaded with the brand kit on save
+  const handleLogoVariantUpload = (variant: LogoVariant, file: File) => {
+    if (!file.type.startsWith('image/') || file.size > 5 * 1024 * 1024) {
+      toast({
+        title: "Logo inválido",
+        description: "Sube una imagen PNG, SVG o WebP de hasta 5MB",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const path = `logo-variants/${variant}-${file.name}`;
+    setBrandKitFiles(prev => ({ ...prev, [path]: file }));
+    setBrandKit(prev => {
+      const kit = prev ?? applyBrandGuidelines(null, brandGuidelines);
+      return { ...kit, logos: [...kit.logos.filter(logo => logo.variant !== variant), { variant, url: path }] };
+    });
+  };
+
+  // Import a brand kit from JSON, CSV or ZIP
+  const handleBrandKitImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsImportingBrandKit(true);
+    try {
+      const imported = await importBrandKitFile(file);
+      setBrandKit(imported.kit);
+      setBrandKitFiles(imported.files);
+      setBrandKitWarnings(imported.warnings);
+      setBrandGuidelines(getBrandGuidelines(imported.kit));
+
+      // Font files bundled in a ZIP become pending brand font uploads
+      const fontUploads = Object.values(imported.files)
+        .filter(fontFile => getBrandFontFormat(fontFile.name) && fontFile.size <= MAX_BRAND_FONT_SIZE)
+        .map(fontFile => ({
+          file: fontFile,
+          format: getBrandFontFormat(fontFile.name)!,
+          family: getFontFamilyFromFileName(fontFile.name),
+          ...guessFontFace(fontFile.name),
+        }));
+      if (fontUploads.length > 0) {
+        setBrandFonts(prev => [...prev, ...fontUploads]);
+      }
+
+      toast({
+        title: "Manual de marca importado",
+        description: imported.warnings.length > 0
+          ? `Importado con ${imported.warnings.length} advertencia(s)`
+          : `${imported.kit.palette.length} colores, ${imported.kit.fonts.length} fuentes y ${imported.kit.logos.length} logos`,
+      });
+    } catch (error) {
+      console.error('Error importing brand kit:', error);
+      toast({
+        title: "Manual de marca inválido",
+        description: error instanceof Error ? error.message : "No se pudo leer el archivo",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImportingBrandKit(false);
+    }
+  };
+
   const regions = [
     { id: 'argentina-uruguay', label: 'Argentina & Uruguay', description: 'Tono: Local, familiar' },
     { id: 'latam', label: 'LATAM', description: 'Tono: Español LATAM neutral' }
@@ -156,6 +212,12 @@ const PartnerCreationForm = ({ editingPartner, onSuccess }: PartnerCreationFormP
     'Franklin Gothic Medium'
   ];
 
+  // Uploaded brand font families come first
+  const brandFontFamilies = Array.from(new Set(
+    [...existingBrandFonts, ...brandFonts].map(font => font.family.trim()).filter(Boolean)
+  ));
+  const allFontOptions = [...brandFontFamilies, ...fontOptions.filter(font => !brandFontFamilies.includes(font))];
+
   const handleInputChange = (field: string, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
@@ -215,15 +277,9 @@ const PartnerCreationForm = ({ editingPartner, onSuccess }: PartnerCreationFormP
     setExistingProductPhotos(prev => prev.filter(photoUrl => photoUrl !== url));
   };
 
-  // Create brand manual CSV from form data
-  const generateBrandManualData = () => {
-    const csvContent = `Field,Value,Instructions
-Main Color,${brandGuidelines.mainColor},Primary brand color (hex format)
-Secondary Color,${brandGuidelines.secondaryColor},Secondary brand color (hex format)
-Font Primary,${brandGuidelines.fontPrimary},Primary font family
-Font Secondary,${brandGuidelines.fontSecondary},Secondary font family`;
-    
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+  // Create brand manual CSV from the brand kit
+  const generateBrandManualData = (kit: BrandKit) => {
+    const blob = new Blob([brandKitToCsv(kit)], { type: 'text/csv;charset=utf-8;' });
     return blob;
   };
 
@@ -391,8 +447,19 @@ Font Secondary,${brandGuidelines.fontSecondary},Secondary font family`;
       }
     }
 
-    // Generate brand manual file from form data
-    const brandManualFile = generateBrandManualData();
+    // Merge the form inputs into the brand kit and export it as the CSV brand manual
+    let finalBrandKit: BrandKit;
+    try {
+      finalBrandKit = applyBrandGuidelines(brandKit, brandGuidelines);
+    } catch (error) {
+      toast({
+        title: "Manual de marca inválido",
+        description: error instanceof Error ? error.message : "Revisa los colores y fuentes de la marca",
+        variant: "destructive",
+      });
+      return;
+    }
+    const brandManualFile = generateBrandManualData(finalBrandKit);
 
     const partnerData = {
       name: formData.partnerName,
@@ -404,6 +471,11 @@ Font Secondary,${brandGuidelines.fontSecondary},Secondary font family`;
       brand_manual: new File([brandManualFile], 'brand_manual.csv', { type: 'text/csv' }),
       reference_banners: referenceBanners.length > 0 ? referenceBanners : undefined,
       product_photos: productPhotos.length > 0 ? productPhotos : undefined,
+      brand_fonts: brandFonts.length > 0
+        ? brandFonts.map(font => ({ ...font, family: font.family.trim() || getFontFamilyFromFileName(font.file.name) }))
+        : undefined,
+      brand_kit: finalBrandKit,
+      brand_kit_files: brandKitFiles,
       // Include style analysis if available
       reference_style_analysis: currentStyleAnalysis || undefined,
     };
@@ -419,6 +491,7 @@ Font Secondary,${brandGuidelines.fontSecondary},Secondary font family`;
         existingLogo: existingLogo,
         existingReferenceBanners: existingReferenceBanners,
         existingProductPhotos: existingProductPhotos,
+        existingBrandFonts: existingBrandFonts,
       };
       success = await updatePartner(updateData);
     } else {
@@ -435,12 +508,10 @@ Font Secondary,${brandGuidelines.fontSecondary},Secondary font family`;
         benefits: [],
         description: '',
       });
-      setBrandGuidelines({
-        mainColor: '#8A47F5',
-        secondaryColor: '#E9DEFF',
-        fontPrimary: 'DM Sans',
-        fontSecondary: 'Arial',
-      });
+      setBrandGuidelines(DEFAULT_BRAND_GUIDELINES);
+      setBrandKit(null);
+      setBrandKitFiles({});
+      setBrandKitWarnings([]);
       setLogo(null);
       setExistingLogo(null);
       setBrandManual(null);
@@ -450,6 +521,8 @@ Font Secondary,${brandGuidelines.fontSecondary},Secondary font family`;
       setExistingReferencePhotos([]);
       setProductPhotos([]);
       setExistingProductPhotos([]);
+      setBrandFonts([]);
+      setExistingBrandFonts([]);
       setCurrentBenefit('');
       setStyleAnalysis(null);
       setStyleAnalysisProgress('');
@@ -729,9 +802,42 @@ Font Secondary,${brandGuidelines.fontSecondary},Secondary font family`;
                   Re-configura las opciones de marca para este partner
                 </span>
               )}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="ml-auto text-xs"
+                disabled={isImportingBrandKit}
+                onClick={() => document.getElementById('brandKitFile')?.click()}
+              >
+                <Upload className="w-3 h-3 mr-1" />
+                {isImportingBrandKit ? 'Importando...' : 'Importar manual (JSON, CSV o ZIP)'}
+              </Button>
+              <input
+                type="file"
+                id="brandKitFile"
+                className="hidden"
+                accept=".json,.csv,.zip"
+                onChange={handleBrandKitImport}
+              />
             </div>
             
             <div className="bg-white/50 rounded-lg border border-gray-200 p-4 space-y-4">
+              {brandKit && (
+                <BrandKitSummary
+                  brandKit={brandKit}
+                  warnings={brandKitWarnings}
+                  onToneOfVoiceChange={(toneOfVoice) => setBrandKit(prev => prev ? { ...prev, toneOfVoice } : prev)}
+                />
+              )}
+              
+              <LogoVariantInputs
+                logos={brandKit?.logos ?? []}
+                files={brandKitFiles}
+                onUpload={handleLogoVariantUpload}
+                onRemove={(variant) => setBrandKit(prev => prev ? { ...prev, logos: prev.logos.filter(logo => logo.variant !== variant) } : prev)}
+              />
+              
               {/* Colors Section */}
               <div className="space-y-3">
                 <h4 className="text-sm font-semibold text-gray-700 border-b border-gray-200 pb-2">Colores de Marca</h4>
@@ -826,7 +932,7 @@ Font Secondary,${brandGuidelines.fontSecondary},Secondary font family`;
                         <SelectValue placeholder="Selecciona fuente principal" />
                       </SelectTrigger>
                       <SelectContent>
-                        {fontOptions.map((font) => (
+                        {allFontOptions.map((font) => (
                           <SelectItem key={font} value={font} style={{ fontFamily: font }}>
                             {font}
                           </SelectItem>
@@ -845,7 +951,7 @@ Font Secondary,${brandGuidelines.fontSecondary},Secondary font family`;
                         <SelectValue placeholder="Selecciona fuente secundaria" />
                       </SelectTrigger>
                       <SelectContent>
-                        {fontOptions.map((font) => (
+                        {allFontOptions.map((font) => (
                           <SelectItem key={font} value={font} style={{ fontFamily: font }}>
                             {font}
                           </SelectItem>
@@ -855,6 +961,14 @@ Font Secondary,${brandGuidelines.fontSecondary},Secondary font family`;
                   </div>
                 </div>
                 
+                {/* Brand Font Files */}
+                <BrandFontManager
+                  existingFonts={existingBrandFonts}
+                  pendingFonts={brandFonts}
+                  onExistingFontsChange={setExistingBrandFonts}
+                  onPendingFontsChange={setBrandFonts}
+                />
+                
                 {/* Font Preview */}
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-3">
                   <div className="p-3 bg-gray-50 rounded-lg border border-gray-200">
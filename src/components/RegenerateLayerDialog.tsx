@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { toast } from '@/hooks/use-toast';
+import { useGenerationProgress } from '@/hooks/useGenerationProgress';
+import {
+  LAYER_STEP_PROGRESS, regenerateBackgroundLayer, regenerateProductLayer,
+  type RegenerableLayer, type RegeneratedLayer
+} from '@/lib/layer-regeneration';
+
+interface RegenerateLayerDialogProps {
+  layer: RegenerableLayer | null;
+  bannerId?: string;
+  initialPrompt: string;
+  productImageUrl: string | null;
+  onOpenChange: (open: boolean) => void;
+  onRegenerated: (layer: RegenerableLayer, result: RegeneratedLayer) => void;
+}
+
+const LAYER_COPY: Record<RegenerableLayer, { title: string; description: string; success: string }> = {
+  background: {
+    title: 'Regenerar fondo',
+    description: 'Se genera un fondo nuevo con este prompt y otra semilla. Los textos y posiciones no cambian.',
+    success: 'El fondo del banner se ha reemplazado',
+  },
+  product: {
+    title: 'Regenerar producto',
+    description: 'Se genera un producto nuevo a partir del actual y se le quita el fondo. Su posición y tamaño se mantienen.',
+    success: 'El producto del banner se ha reemplazado',
+  },
+};
+
+// Regenerate one layer of the banner from its stored prompt, optionally edited
+const RegenerateLayerDialog = ({ layer, bannerId, initialPrompt, productImageUrl, onOpenChange, onRegenerated }: RegenerateLayerDialogProps) => {
+  const [prompt, setPrompt] = useState(initialPrompt);
+  const [generating, setGenerating] = useState(false);
+  const { progress, onEvent, reset } = useGenerationProgress(layer ? LAYER_STEP_PROGRESS[layer] : undefined);
+
+  useEffect(() => {
+    if (layer) setPrompt(initialPrompt);
+  }, [layer, initialPrompt]);
+
+  const handleGenerate = async () => {
+    if (!layer || !bannerId) return;
+
+    reset();
+    setGenerating(true);
+    try {
+      const result = layer === 'background'
+        ? await regenerateBackgroundLayer(bannerId, prompt, onEvent)
+        : await regenerateProductLayer(bannerId, prompt, productImageUrl ?? '', onEvent);
+
+      onRegenerated(layer, result);
+      onOpenChange(false);
+      toast({
+        title: LAYER_COPY[layer].title,
+        description: LAYER_COPY[layer].success,
+      });
+    } catch (error) {
+      console.error(`Error regenerating ${layer} layer:`, error);
+      toast({
+        title: "Error al regenerar",
+        description: error instanceof Error ? error.message : "No se pudo regenerar la capa",
+        variant: "destructive"
+      });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const copy = layer ? LAYER_COPY[layer] : null;
+  const missingProduct = layer === 'product' && !productImageUrl;
+
+  return (
+    <Dialog open={!!layer} onOpenChange={(open) => !generating && onOpenChange(open)}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{copy?.title}</DialogTitle>
+          <DialogDescription>{copy?.description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="regenerate-layer-prompt">Prompt</Label>
+          <Textarea
+            id="regenerate-layer-prompt"
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            rows={10}
+            className="font-mono text-xs"
+            disabled={generating}
+          />
+          {!bannerId && (
+            <p className="text-xs text-amber-600">Guarda el banner antes de regenerar sus capas.</p>
+          )}
+          {missingProduct && (
+            <p className="text-xs text-amber-600">Este banner no tiene imagen de producto.</p>
+          )}
+        </div>
+
+        {generating && (
+          <div className="space-y-1">
+            <Progress value={progress.progress} className="h-1.5" />
+            <p className="text-xs text-gray-500">{progress.status || 'Iniciando...'}</p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={generating}>
+            Cancelar
+          </Button>
+          <Button onClick={handleGenerate} disabled={generating || !bannerId || !prompt.trim() || missingProduct}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${generating ? 'animate-spin' : ''}`} />
+            {generating ? 'Generando...' : 'Generar'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RegenerateLayerDialog;
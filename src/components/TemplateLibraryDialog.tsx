@@ -0,0 +1,196 @@
+import React, { useEffect, useState } from 'react';
+import { LayoutTemplate, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { toast } from '@/hooks/use-toast';
+import {
+  deleteBannerTemplate, listBannerTemplates, renderTemplateThumbnail, saveBannerTemplate, type BannerTemplate
+} from '@/lib/banner-templates';
+import type { CompositionImages } from '@/lib/composition-renderer';
+import type { AssetRole, BannerComposition } from '@/types/banner-editor';
+
+interface TemplateLibraryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  partnerId: string;
+  partnerName: string;
+  composition: BannerComposition;
+  // Used to render the thumbnail of a new template
+  images: CompositionImages;
+  onApply: (template: BannerTemplate) => void;
+}
+
+const SLOT_COLORS: Record<AssetRole, string> = {
+  logo: '#8B5CF6',
+  product: '#10B981',
+  mainText: '#3B82F6',
+  descriptionText: '#93C5FD',
+  ctaButton: '#F59E0B',
+};
+
+// Slot boxes for templates saved without a thumbnail
+const TemplateWireframe = ({ template }: { template: BannerTemplate }) => (
+  <svg
+    viewBox={`0 0 ${template.canvasSize.width} ${template.canvasSize.height}`}
+    className="w-full bg-gray-100"
+    style={{ aspectRatio: `${template.canvasSize.width} / ${template.canvasSize.height}` }}
+  >
+    {template.slots.map(slot => (
+      <rect
+        key={slot.role}
+        x={slot.position.x}
+        y={slot.position.y}
+        width={slot.size.width}
+        height={slot.size.height}
+        rx={8}
+        fill={SLOT_COLORS[slot.role]}
+        fillOpacity={0.6}
+      />
+    ))}
+  </svg>
+);
+
+const TemplateLibraryDialog = ({ open, onOpenChange, partnerId, partnerName, composition, images, onApply }: TemplateLibraryDialogProps) => {
+  const [templates, setTemplates] = useState<BannerTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [name, setName] = useState('');
+  const [partnerOnly, setPartnerOnly] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    let isCancelled = false;
+
+    setIsLoading(true);
+    listBannerTemplates(partnerId)
+      .then(result => {
+        if (!isCancelled) setTemplates(result);
+      })
+      .catch(error => {
+        console.error('Error loading templates:', error);
+        toast({
+          title: "Error al cargar plantillas",
+          description: error instanceof Error ? error.message : "No se pudieron cargar las plantillas",
+          variant: "destructive"
+        });
+      })
+      .finally(() => {
+        if (!isCancelled) setIsLoading(false);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [open, partnerId]);
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+
+    try {
+      setIsSaving(true);
+      const thumbnail = await renderTemplateThumbnail(composition, images);
+      const template = await saveBannerTemplate(name, composition, {
+        partnerId: partnerOnly ? partnerId : null,
+        thumbnail
+      });
+      setTemplates(prev => [template, ...prev]);
+      setName('');
+      toast({
+        title: "Plantilla guardada",
+        description: `"${template.name}" ya está disponible en la biblioteca`,
+      });
+    } catch (error) {
+      console.error('Error saving template:', error);
+      toast({
+        title: "Error al guardar plantilla",
+        description: error instanceof Error ? error.message : "No se pudo guardar la plantilla",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: BannerTemplate) => {
+    try {
+      await deleteBannerTemplate(template.id);
+      setTemplates(prev => prev.filter(entry => entry.id !== template.id));
+    } catch (error) {
+      console.error('Error deleting template:', error);
+      toast({
+        title: "Error al eliminar plantilla",
+        description: error instanceof Error ? error.message : "No se pudo eliminar la plantilla",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Plantillas</DialogTitle>
+          <DialogDescription>
+            Guarda la disposición y estilos del banner actual, o aplica una plantilla: logo, producto, textos y CTA se colocan en sus huecos.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-end gap-3 pb-4 border-b border-gray-200">
+          <div className="flex-1 space-y-1">
+            <Label htmlFor="templateName" className="text-sm font-medium">Nueva plantilla</Label>
+            <Input
+              id="templateName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="ej. Producto centrado, texto a la izquierda"
+            />
+          </div>
+          <label className="flex items-center space-x-2 pb-2 cursor-pointer">
+            <Checkbox checked={partnerOnly} onCheckedChange={(checked) => setPartnerOnly(checked === true)} />
+            <span className="text-sm text-gray-700">Solo {partnerName}</span>
+          </label>
+          <Button onClick={handleSave} disabled={isSaving || !name.trim()}>
+            {isSaving ? 'Guardando...' : 'Guardar actual'}
+          </Button>
+        </div>
+
+        <div className="max-h-[50vh] overflow-y-auto">
+          {isLoading && <p className="text-sm text-gray-500 text-center py-6">Cargando plantillas...</p>}
+          {!isLoading && templates.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-6">Todavía no hay plantillas guardadas</p>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            {templates.map(template => (
+              <div key={template.id} className="border border-gray-200 rounded-lg overflow-hidden">
+                {template.thumbnailUrl
+                  ? <img src={template.thumbnailUrl} alt={template.name} className="w-full bg-gray-100" />
+                  : <TemplateWireframe template={template} />}
+                <div className="p-2 flex items-center gap-2">
+                  <LayoutTemplate className="w-4 h-4 text-gray-500 shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-700 truncate">{template.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {template.partnerId ? partnerName : 'Todos los partners'} · {template.canvasSize.width}x{template.canvasSize.height}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(template)} title="Eliminar plantilla">
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                  <Button size="sm" onClick={() => onApply(template)}>
+                    Aplicar
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TemplateLibraryDialog;
@@ -0,0 +1,102 @@
+import React from 'react';
+import { WrapText } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { LINE_HEIGHT_RATIO, MIN_AUTO_FIT_FONT_SIZE } from '@/lib/text-layout';
+import type { BannerAsset } from '@/types/banner-editor';
+
+interface TextFitControlsProps {
+  asset: BannerAsset;
+  onChange: (updates: Partial<BannerAsset>) => void;
+}
+
+// Parse a numeric input, keeping the previous value while the field is empty or invalid
+const parseNumber = (value: string, fallback: number | undefined) => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+const TextFitControls = ({ asset, onChange }: TextFitControlsProps) => {
+  const baseSize = asset.fontSize || 16;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" title="Ajuste de texto">
+          <WrapText className="w-4 h-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label className="text-sm font-medium">Ajustar al cuadro</Label>
+            <p className="text-xs text-gray-500">Reduce el tamaño si el texto no cabe</p>
+          </div>
+          <Switch
+            checked={!!asset.autoFit}
+            onCheckedChange={(checked) => onChange({ autoFit: checked })}
+          />
+        </div>
+
+        {asset.autoFit && (
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Tamaño mínimo</Label>
+              <Input
+                type="number"
+                min={6}
+                max={baseSize}
+                value={asset.minFontSize ?? Math.min(baseSize, MIN_AUTO_FIT_FONT_SIZE)}
+                onChange={(e) => onChange({ minFontSize: parseNumber(e.target.value, asset.minFontSize) })}
+                className="h-8"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Tamaño máximo</Label>
+              <Input
+                type="number"
+                min={baseSize}
+                max={200}
+                value={asset.maxFontSize ?? baseSize}
+                onChange={(e) => onChange({ maxFontSize: parseNumber(e.target.value, asset.maxFontSize) })}
+                className="h-8"
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs">Interlineado</Label>
+            <Input
+              type="number"
+              min={0.8}
+              max={3}
+              step={0.05}
+              value={asset.lineHeight ?? LINE_HEIGHT_RATIO}
+              onChange={(e) => onChange({ lineHeight: parseNumber(e.target.value, asset.lineHeight) })}
+              className="h-8"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Espaciado (px)</Label>
+            <Input
+              type="number"
+              min={-5}
+              max={40}
+              step={0.5}
+              value={asset.letterSpacing ?? 0}
+              onChange={(e) => onChange({ letterSpacing: parseNumber(e.target.value, asset.letterSpacing) })}
+              className="h-8"
+            />
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default TextFitControls;
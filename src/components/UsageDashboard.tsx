@@ -0,0 +1,179 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Activity, RefreshCw } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import type { AIService } from '@/lib/ai-gateway';
+import { loadUsageQuotas, loadUsageSummary, type UsageQuotaStatus, type UsageSummary } from '@/lib/usage-ledger';
+
+interface UsageDashboardProps {
+  partners: { id: string; name: string }[];
+}
+
+const SUMMARY_DAYS = 7;
+const TOP_PARTNERS = 3;
+
+const SERVICE_LABELS: Record<AIService, string> = {
+  openai: 'OpenAI',
+  flux: 'Flux',
+};
+
+const formatCost = (cost: number) => `US$ ${cost.toFixed(2)}`;
+
+// Calls and estimated cost of the AI providers from the usage ledger, plus this browser's daily quotas
+const UsageDashboard = ({ partners }: UsageDashboardProps) => {
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [quotas, setQuotas] = useState<UsageQuotaStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const fetchUsage = useCallback(async () => {
+    setIsLoading(true);
+    setLoadError(null);
+    const [summaryResult, quotasResult] = await Promise.allSettled([loadUsageSummary(SUMMARY_DAYS), loadUsageQuotas()]);
+
+    if (summaryResult.status === 'fulfilled') {
+      setSummary(summaryResult.value);
+    } else {
+      console.error('Error loading usage summary:', summaryResult.reason);
+      setLoadError('No se pudo cargar el uso de IA');
+    }
+    if (quotasResult.status === 'fulfilled') {
+      setQuotas(quotasResult.value);
+    } else {
+      console.warn('Could not load usage quotas:', quotasResult.reason);
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchUsage();
+    window.addEventListener('bannerSaved', fetchUsage);
+    return () => window.removeEventListener('bannerSaved', fetchUsage);
+  }, [fetchUsage]);
+
+  const maxDayCalls = Math.max(1, ...(summary?.byDay.map(day => day.calls) ?? []));
+  const partnerName = (partnerId: string) => partners.find(partner => partner.id === partnerId)?.name ?? 'Socio eliminado';
+
+  return (
+    <Card className="bg-white border border-brand-100 shadow-sm">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="text-xl font-semibold text-gray-700">Uso de IA</CardTitle>
+          <CardDescription className="text-gray-600">
+            Llamadas a OpenAI y Flux de los últimos {SUMMARY_DAYS} días, con costo estimado
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={fetchUsage} disabled={isLoading}>
+          <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+          Actualizar
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loadError && <p className="text-sm text-red-600">{loadError}</p>}
+
+        {summary && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="space-y-1">
+              <p className="text-sm font-medium text-gray-500">Llamadas</p>
+              <p className="text-2xl font-semibold text-gray-700">{summary.calls}</p>
+              <p className="text-xs text-gray-500">
+                {(Object.keys(SERVICE_LABELS) as AIService[])
+                  .map(service => `${SERVICE_LABELS[service]}: ${summary.byService[service].calls}`)
+                  .join(' · ')}
+              </p>
+            </div>
+            <div className="space-y-1">
+              <p className="text-sm font-medium text-gray-500">Costo estimado</p>
+              <p className="text-2xl font-semibold text-gray-700">{formatCost(summary.cost)}</p>
+              <p className="text-xs text-gray-500">
+                {(Object.keys(SERVICE_LABELS) as AIService[])
+                  .map(service => `${SERVICE_LABELS[service]}: ${formatCost(summary.byService[service].cost)}`)
+                  .join(' · ')}
+              </p>
+            </div>
+            <div className="space-y-1">
+              <p className="text-sm font-medium text-gray-500">Latencia media</p>
+              <p className="text-2xl font-semibold text-gray-700">
+                {summary.averageLatencyMs !== null ? `${(summary.averageLatencyMs / 1000).toFixed(1)} s` : '—'}
+              </p>
+              <p className="text-xs text-gray-500">{summary.failedCalls} con error</p>
+            </div>
+            <div className="space-y-1">
+              <p className="text-sm font-medium text-gray-500">Bloqueadas por cuota</p>
+              <p className="text-2xl font-semibold text-gray-700">{summary.rejectedCalls}</p>
+            </div>
+          </div>
+        )}
+
+        {summary && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {/* Calls per day */}
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">Llamadas por día</p>
+              <div className="flex items-end gap-2 h-24">
+                {summary.byDay.map(day => (
+                  <div key={day.date} className="flex-1 flex flex-col items-center gap-1" title={`${day.calls} llamadas · ${formatCost(day.cost)}`}>
+                    <div className="w-full bg-brand-100 rounded-t" style={{ height: `${(day.calls / maxDayCalls) * 72}px` }} />
+                    <span className="text-[10px] text-gray-500">{day.date.slice(5)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Partners with the highest cost */}
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">Socios con más consumo</p>
+              {summary.byPartner.length === 0 ? (
+                <p className="text-sm text-gray-500">Sin llamadas asociadas a socios</p>
+              ) : (
+                <ul className="space-y-2">
+                  {summary.byPartner.slice(0, TOP_PARTNERS).map(entry => (
+                    <li key={entry.partnerId} className="flex items-center justify-between text-sm">
+                      <span className="text-gray-700 truncate">{partnerName(entry.partnerId)}</span>
+                      <span className="text-gray-500 shrink-0 ml-2">{entry.calls} · {formatCost(entry.cost)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* This browser's quotas */}
+        {quotas && (
+          <div className="pt-4 border-t border-gray-100 space-y-3">
+            <div className="flex items-center gap-2">
+              <Activity className="w-4 h-4 text-brand-500" />
+              <p className="text-sm font-medium text-gray-700">Tu cuota de hoy</p>
+              <span className="text-xs text-gray-500">
+                se reinicia a las {new Date(quotas.resetsAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              </span>
+            </div>
+            {!quotas.recorded && (
+              <p className="text-xs text-orange-600">
+                El servidor no tiene configurado Supabase: el uso no se registra y las cuotas no se aplican.
+              </p>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {(Object.keys(SERVICE_LABELS) as AIService[]).map(service => {
+                const { used, limit } = quotas.quotas[service];
+                return (
+                  <div key={service} className="space-y-1">
+                    <div className="flex justify-between text-xs text-gray-600">
+                      <span>{SERVICE_LABELS[service]}</span>
+                      <span>{limit === null ? `${used} (sin límite)` : `${used} / ${limit}`}</span>
+                    </div>
+                    <Progress value={limit === null ? 0 : Math.min(100, (used / limit) * 100)} className="h-2" />
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UsageDashboard;
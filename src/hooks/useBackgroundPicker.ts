@@ -0,0 +1,61 @@
+import { useCallback, useState } from 'react';
+import { createAbortError, isAbortError } from '@/lib/abort';
+import type { BackgroundPicker, BackgroundPickSession } from '@/lib/generation-jobs';
+
+interface PendingPick {
+  session: BackgroundPickSession;
+  resolve: (index: number) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Bridge between a generation job waiting for a background and the picker dialog:
+ * pass `pickBackground` to the job and spread `pickerProps` on BackgroundCandidatePicker.
+ * Closing the dialog cancels the generation, as does aborting the job's signal; either way the
+ * job rejects with an AbortError and stays resumable.
+ */
+export const useBackgroundPicker = () => {
+  const [pending, setPending] = useState<PendingPick | null>(null);
+
+  const pickBackground = useCallback<BackgroundPicker>((session, { signal } = {}) => (
+    new Promise<number>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(isAbortError(signal.reason) ? signal.reason : createAbortError());
+        return;
+      }
+
+      const onAbort = () => {
+        reject(isAbortError(signal?.reason) ? signal?.reason : createAbortError());
+        setPending(current => current?.session === session ? null : current);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      setPending({
+        session,
+        resolve: index => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(index);
+        },
+        reject: error => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      });
+    })
+  ), []);
+
+  const onPick = (index: number) => {
+    pending?.resolve(index);
+    setPending(null);
+  };
+
+  const onCancel = () => {
+    pending?.reject(createAbortError());
+    setPending(null);
+  };
+
+  return {
+    pickBackground,
+    pickerProps: { session: pending?.session ?? null, onPick, onCancel },
+  };
+};
@@ -0,0 +1,21 @@
+import { useCallback, useState } from 'react';
+import {
+  INITIAL_GENERATION_PROGRESS, reduceGenerationProgress,
+  type GenerationEvent, type GenerationProgress, type GenerationStepRanges
+} from '@/lib/generation-progress';
+
+/**
+ * Progress bar state of a generation run: pass `onEvent` to the run and render `progress`.
+ * `ranges` maps the run's steps onto the bar (the whole banner pipeline by default).
+ */
+export const useGenerationProgress = (ranges?: GenerationStepRanges) => {
+  const [progress, setProgress] = useState<GenerationProgress>(INITIAL_GENERATION_PROGRESS);
+
+  const onEvent = useCallback((event: GenerationEvent) => {
+    setProgress(current => reduceGenerationProgress(current, event, ranges));
+  }, [ranges]);
+
+  const reset = useCallback(() => setProgress(INITIAL_GENERATION_PROGRESS), []);
+
+  return { progress, onEvent, reset };
+};
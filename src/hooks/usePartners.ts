@@ -1,7 +1,10 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
 import { toast } from '@/hooks/use-toast';
 import { StyleAnalysis } from '@/lib/style-analysis';
+import type { BrandFont } from '@/types/banner-editor';
+import { findBrandKitFile, parseStoredBrandKit, type BrandKit } from '@/lib/brand-kit';
 
 export interface Partner {
   id: string;
@@ -15,6 +18,8 @@ export interface Partner {
   reference_banners_urls?: string[];
   product_photos_urls?: string[];
   reference_style_analysis?: StyleAnalysis;
+  brand_fonts?: BrandFont[];
+  brand_kit?: BrandKit;
   status: 'active' | 'pending' | 'inactive';
   created_at: string;
   updated_at: string;
@@ -31,6 +36,15 @@ export interface CreatePartnerData {
   reference_banners?: File[];
   product_photos?: File[];
   reference_style_analysis?: StyleAnalysis;
+  brand_fonts?: BrandFontUpload[];
+  brand_kit?: BrandKit;
+  // Logo files bundled with an imported brand kit ZIP, keyed by archive path
+  brand_kit_files?: Record<string, File>;
+}
+
+// A font file waiting to be uploaded, with the face it provides
+export interface BrandFontUpload extends Omit<BrandFont, 'url'> {
+  file: File;
 }
 
 export interface UpdatePartnerData extends CreatePartnerData {
@@ -38,6 +52,7 @@ export interface UpdatePartnerData extends CreatePartnerData {
   existingLogo?: string | null;
   existingReferenceBanners?: string[];
   existingProductPhotos?: string[];
+  existingBrandFonts?: BrandFont[];
 }
 
 export const usePartners = () => {
@@ -64,6 +79,8 @@ export const usePartners = () => {
           reference_banners_urls: partner.reference_banners_urls || [],
           product_photos_urls: partner.product_photos_urls || [],
           reference_style_analysis: partner.reference_style_analysis as unknown as StyleAnalysis | undefined,
+          brand_fonts: (partner.brand_fonts as unknown as BrandFont[] | null) || [],
+          brand_kit: parseStoredBrandKit(partner.brand_kit),
         };
       });
       
@@ -131,6 +148,25 @@ export const usePartners = () => {
     }
   };
 
+  const uploadBrandFonts = async (fonts: BrandFontUpload[]): Promise<BrandFont[]> => {
+    const results = await Promise.all(fonts.map(async ({ file, ...face }) => {
+      const url = await uploadFile(file, 'fonts');
+      return url ? { ...face, url } : null;
+    }));
+    return results.filter(font => font !== null) as BrandFont[];
+  };
+
+  // Upload logo variants that still point at files from an imported ZIP
+  const uploadBrandKitFiles = async (kit: BrandKit, files: Record<string, File> = {}): Promise<BrandKit> => {
+    const logos = await Promise.all(kit.logos.map(async logo => {
+      const file = /^https?:\/\//.test(logo.url) ? undefined : findBrandKitFile(files, logo.url);
+      if (!file) return logo;
+      const url = await uploadFile(file, 'logos');
+      return url ? { ...logo, url } : logo;
+    }));
+    return { ...kit, logos };
+  };
+
   const createPartner = async (partnerData: CreatePartnerData): Promise<boolean> => {
     setIsLoading(true);
     console.log('Creating partner with data:', partnerData);
@@ -140,6 +176,8 @@ export const usePartners = () => {
       let brandManualUrl = null;
       let referenceBannersUrls: string[] = [];
       let productPhotosUrls: string[] = [];
+      let brandFonts: BrandFont[] = [];
+      let brandKit: BrandKit | null = null;
 
       // Upload logo if provided
       if (partnerData.logo) {
@@ -173,6 +211,18 @@ export const usePartners = () => {
         console.log('Product photos uploaded:', productPhotosUrls);
       }
 
+      // Upload brand fonts if provided
+      if (partnerData.brand_fonts && partnerData.brand_fonts.length > 0) {
+        brandFonts = await uploadBrandFonts(partnerData.brand_fonts);
+        console.log('Brand fonts uploaded:', brandFonts);
+      }
+
+      // Upload logo files bundled with the brand kit
+      if (partnerData.brand_kit) {
+        brandKit = await uploadBrandKitFiles(partnerData.brand_kit, partnerData.brand_kit_files);
+        console.log('Brand kit prepared:', brandKit);
+      }
+
       // Insert partner into database
       const insertData = {
         name: partnerData.name,
@@ -185,6 +235,8 @@ export const usePartners = () => {
         reference_banners_urls: referenceBannersUrls,
         product_photos_urls: productPhotosUrls,
         reference_style_analysis: partnerData.reference_style_analysis as unknown as any || null,
+        brand_fonts: brandFonts as unknown as Json,
+        brand_kit: brandKit as unknown as Json,
       };
 
       console.log('Inserting partner with data:', insertData);
@@ -241,6 +293,9 @@ export const usePartners = () => {
       let productPhotosUrls = partnerData.existingProductPhotos !== undefined
         ? partnerData.existingProductPhotos
         : existingPartner.product_photos_urls || [];
+      let brandFonts = partnerData.existingBrandFonts !== undefined
+        ? partnerData.existingBrandFonts
+        : existingPartner.brand_fonts || [];
 
       // Upload new logo if provided
       if (partnerData.logo) {
@@ -276,6 +331,18 @@ export const usePartners = () => {
         console.log('New product photos uploaded:', newUrls);
       }
 
+      // Upload new brand fonts if provided and add to existing ones
+      if (partnerData.brand_fonts && partnerData.brand_fonts.length > 0) {
+        const newFonts = await uploadBrandFonts(partnerData.brand_fonts);
+        brandFonts = [...brandFonts, ...newFonts];
+        console.log('New brand fonts uploaded:', newFonts);
+      }
+
+      // Upload logo files bundled with the brand kit
+      const brandKit = partnerData.brand_kit
+        ? await uploadBrandKitFiles(partnerData.brand_kit, partnerData.brand_kit_files)
+        : existingPartner.brand_kit ?? null;
+
       // Update partner in database
       const updateData = {
         name: partnerData.name,
@@ -288,6 +355,8 @@ export const usePartners = () => {
         reference_banners_urls: referenceBannersUrls,
         product_photos_urls: productPhotosUrls,
         reference_style_analysis: partnerData.reference_style_analysis as unknown as any || null,
+        brand_fonts: brandFonts as unknown as Json,
+        brand_kit: brandKit as unknown as Json,
         updated_at: new Date().toISOString(),
       };
 
@@ -26,8 +26,10 @@ export type Database = {
           background_image_url: string | null
           product_image_url: string | null
           background_prompt: string | null
+          background_seed: number | null
           product_prompt: string | null
           composition_data: Json | null
+          variant_group_id: string | null
         }
         Insert: {
           banner_title?: string | null
@@ -45,8 +47,10 @@ export type Database = {
           background_image_url?: string | null
           product_image_url?: string | null
           background_prompt?: string | null
+          background_seed?: number | null
           product_prompt?: string | null
           composition_data?: Json | null
+          variant_group_id?: string | null
         }
         Update: {
           banner_title?: string | null
@@ -64,8 +68,10 @@ export type Database = {
           background_image_url?: string | null
           product_image_url?: string | null
           background_prompt?: string | null
+          background_seed?: number | null
           product_prompt?: string | null
           composition_data?: Json | null
+          variant_group_id?: string | null
         }
         Relationships: [
           {
@@ -77,9 +83,168 @@ export type Database = {
           }
         ]
       }
+      banner_templates: {
+        Row: {
+          canvas_height: number
+          canvas_width: number
+          created_at: string
+          id: string
+          name: string
+          partner_id: string | null
+          slots: Json
+          thumbnail_url: string | null
+          updated_at: string
+        }
+        Insert: {
+          canvas_height: number
+          canvas_width: number
+          created_at?: string
+          id?: string
+          name: string
+          partner_id?: string | null
+          slots?: Json
+          thumbnail_url?: string | null
+          updated_at?: string
+        }
+        Update: {
+          canvas_height?: number
+          canvas_width?: number
+          created_at?: string
+          id?: string
+          name?: string
+          partner_id?: string | null
+          slots?: Json
+          thumbnail_url?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "banner_templates_partner_id_fkey"
+            columns: ["partner_id"]
+            isOneToOne: false
+            referencedRelation: "partners"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      copy_library: {
+        Row: {
+          created_at: string
+          cta_text: string
+          description_text: string
+          id: string
+          language: string
+          last_used_at: string | null
+          main_text: string
+          partner_id: string
+          tone: string | null
+          usage_count: number
+        }
+        Insert: {
+          created_at?: string
+          cta_text: string
+          description_text: string
+          id?: string
+          language?: string
+          last_used_at?: string | null
+          main_text: string
+          partner_id: string
+          tone?: string | null
+          usage_count?: number
+        }
+        Update: {
+          created_at?: string
+          cta_text?: string
+          description_text?: string
+          id?: string
+          language?: string
+          last_used_at?: string | null
+          main_text?: string
+          partner_id?: string
+          tone?: string | null
+          usage_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "copy_library_partner_id_fkey"
+            columns: ["partner_id"]
+            isOneToOne: false
+            referencedRelation: "partners"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      generation_jobs: {
+        Row: {
+          artifacts: Json
+          banner_id: string | null
+          created_at: string
+          current_step: string
+          error: string | null
+          id: string
+          partner_id: string
+          progress: number
+          request: Json
+          source_image_url: string | null
+          status: string
+          status_text: string | null
+          steps: Json
+          updated_at: string
+        }
+        Insert: {
+          artifacts?: Json
+          banner_id?: string | null
+          created_at?: string
+          current_step?: string
+          error?: string | null
+          id?: string
+          partner_id: string
+          progress?: number
+          request: Json
+          source_image_url?: string | null
+          status?: string
+          status_text?: string | null
+          steps?: Json
+          updated_at?: string
+        }
+        Update: {
+          artifacts?: Json
+          banner_id?: string | null
+          created_at?: string
+          current_step?: string
+          error?: string | null
+          id?: string
+          partner_id?: string
+          progress?: number
+          request?: Json
+          source_image_url?: string | null
+          status?: string
+          status_text?: string | null
+          steps?: Json
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "generation_jobs_banner_id_fkey"
+            columns: ["banner_id"]
+            isOneToOne: false
+            referencedRelation: "banners"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "generation_jobs_partner_id_fkey"
+            columns: ["partner_id"]
+            isOneToOne: false
+            referencedRelation: "partners"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
       partners: {
         Row: {
           benefits_description: string | null
+          brand_fonts: Json | null
+          brand_kit: Json | null
           brand_manual_url: string | null
           created_at: string
           description: string | null
@@ -96,6 +261,8 @@ export type Database = {
         }
         Insert: {
           benefits_description?: string | null
+          brand_fonts?: Json | null
+          brand_kit?: Json | null
           brand_manual_url?: string | null
           created_at?: string
           description?: string | null
@@ -112,6 +279,8 @@ export type Database = {
         }
         Update: {
           benefits_description?: string | null
+          brand_fonts?: Json | null
+          brand_kit?: Json | null
           brand_manual_url?: string | null
           created_at?: string
           description?: string | null
@@ -128,12 +297,91 @@ export type Database = {
         }
         Relationships: []
       }
+      usage_ledger: {
+        Row: {
+          created_at: string
+          error: string | null
+          estimated_cost: number
+          height: number | null
+          id: string
+          input_tokens: number | null
+          latency_ms: number | null
+          model: string
+          output_tokens: number | null
+          partner_id: string | null
+          service: string
+          status: string
+          task: string
+          user_id: string
+          width: number | null
+        }
+        Insert: {
+          created_at?: string
+          error?: string | null
+          estimated_cost?: number
+          height?: number | null
+          id?: string
+          input_tokens?: number | null
+          latency_ms?: number | null
+          model: string
+          output_tokens?: number | null
+          partner_id?: string | null
+          service: string
+          status: string
+          task: string
+          user_id: string
+          width?: number | null
+        }
+        Update: {
+          created_at?: string
+          error?: string | null
+          estimated_cost?: number
+          height?: number | null
+          id?: string
+          input_tokens?: number | null
+          latency_ms?: number | null
+          model?: string
+          output_tokens?: number | null
+          partner_id?: string | null
+          service?: string
+          status?: string
+          task?: string
+          user_id?: string
+          width?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "usage_ledger_partner_id_fkey"
+            columns: ["partner_id"]
+            isOneToOne: false
+            referencedRelation: "partners"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      reserve_usage: {
+        Args: {
+          p_daily_limit: number | null
+          p_day_start: string
+          p_estimated_cost: number
+          p_height: number | null
+          p_model: string
+          p_partner_id: string | null
+          p_service: string
+          p_task: string
+          p_user_id: string
+          p_width: number | null
+        }
+        Returns: {
+          reservation_id: string | null
+          used: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
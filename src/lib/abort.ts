@@ -0,0 +1,40 @@
+/**
+ * AbortSignal helpers for cancellable generation: a cancelled run rejects with an AbortError
+ * that callers tell apart from real failures.
+ */
+
+export function createAbortError(): DOMException {
+  return new DOMException('Generation was cancelled', 'AbortError');
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw isAbortError(signal.reason) ? signal.reason : createAbortError();
+  }
+}
+
+/**
+ * Wait for a while; rejects with an AbortError as soon as the signal is aborted
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(isAbortError(signal.reason) ? signal.reason : createAbortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(isAbortError(signal?.reason) ? signal?.reason : createAbortError());
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
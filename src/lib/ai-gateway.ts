@@ -0,0 +1,90 @@
+import { getUsageHeaders } from './usage-ledger';
+
+/**
+ * Browser client of the server-side AI routes (api/ai/*). OpenAI and Flux keys live
+ * on the server only; the browser sends task inputs and gets task results back.
+ */
+
+export type AIGatewayTask =
+  | 'analyze-style'
+  | 'analyze-product'
+  | 'generate-background'
+  | 'generate-product'
+  | 'banner-chat'
+  | 'generate-copy';
+
+export type AIService = 'openai' | 'flux';
+
+export type AIGatewayStatus = Record<AIService, boolean>;
+
+export interface AIGatewayOptions {
+  // Partner the call is billed to in the usage ledger
+  partnerId?: string | null;
+  // Aborting rejects the call with an AbortError
+  signal?: AbortSignal;
+}
+
+const GATEWAY_URL = '/api/ai';
+
+let status: AIGatewayStatus | null = null;
+let statusRequest: Promise<AIGatewayStatus> | null = null;
+
+/**
+ * POST a task to its AI route. Errors answered by the route are thrown with their message;
+ * a used up daily quota (429) as an "AI usage quota reached" error.
+ */
+export async function callAIGateway<T>(task: AIGatewayTask, body: unknown, options: AIGatewayOptions = {}): Promise<T> {
+  const response = await fetch(`${GATEWAY_URL}/${task}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...getUsageHeaders(options.partnerId) },
+    body: JSON.stringify(body),
+    signal: options.signal,
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const message = typeof data.error === 'string' ? data.error : `${response.status} ${response.statusText}`;
+    console.error(`AI route ${task} failed:`, response.status, data);
+    if (response.status === 429) {
+      throw new Error(`AI usage quota reached (${task}): ${message}`);
+    }
+    throw new Error(`AI service error (${task}): ${message}`);
+  }
+
+  return data as T;
+}
+
+/**
+ * Which providers are configured on the server; fetched once per page load
+ */
+export function loadAIGatewayStatus(): Promise<AIGatewayStatus> {
+  statusRequest ??= fetch(`${GATEWAY_URL}/status`)
+    .then(response => {
+      if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+      return response.json() as Promise<AIGatewayStatus>;
+    })
+    .then(result => {
+      status = { openai: !!result.openai, flux: !!result.flux };
+      if (!status.openai || !status.flux) {
+        console.warn('AI services not configured on the server:', status);
+      }
+      return status;
+    })
+    .catch(error => {
+      // Leave the features enabled; a missing key is reported when a task runs
+      console.warn('Could not load AI service status:', error);
+      return { openai: true, flux: true };
+    });
+  return statusRequest;
+}
+
+/**
+ * Last known availability of a provider. Optimistic until the status has loaded.
+ */
+export function isAIServiceConfigured(service: AIService): boolean {
+  if (!status) {
+    loadAIGatewayStatus();
+    return true;
+  }
+  return status[service];
+}
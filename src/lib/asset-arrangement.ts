@@ -0,0 +1,250 @@
+import type { BannerAsset } from '@/types/banner-editor';
+import { getLayerOrder } from './asset-layers';
+import { scaleRunFontSizes } from './text-runs';
+
+/**
+ * Selection geometry for the banner editor: bounds, align/distribute and grouping.
+ * All functions are pure and return a new asset list. Rotation is ignored for bounds,
+ * matching the editor's hit-testing.
+ */
+
+export type AlignmentType = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+export type AlignRelativeTo = 'selection' | 'canvas';
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export function getAssetBounds(asset: BannerAsset): Bounds {
+  return { x: asset.position.x, y: asset.position.y, width: asset.size.width, height: asset.size.height };
+}
+
+/**
+ * Bounding box around several assets (null for an empty list)
+ */
+export function getAssetsBounds(assets: BannerAsset[]): Bounds | null {
+  if (assets.length === 0) return null;
+
+  const left = Math.min(...assets.map(asset => asset.position.x));
+  const top = Math.min(...assets.map(asset => asset.position.y));
+  const right = Math.max(...assets.map(asset => asset.position.x + asset.size.width));
+  const bottom = Math.max(...assets.map(asset => asset.position.y + asset.size.height));
+
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+/**
+ * Ids of the assets touched by a marquee rectangle
+ */
+export function getAssetsInRect(assets: BannerAsset[], rect: Bounds): string[] {
+  return assets
+    .filter(asset =>
+      asset.position.x < rect.x + rect.width &&
+      asset.position.x + asset.size.width > rect.x &&
+      asset.position.y < rect.y + rect.height &&
+      asset.position.y + asset.size.height > rect.y
+    )
+    .map(asset => asset.id);
+}
+
+function getReferenceBounds(
+  selected: BannerAsset[],
+  relativeTo: AlignRelativeTo,
+  canvasSize: { width: number; height: number }
+): Bounds | null {
+  // A single asset can only be aligned to the canvas
+  if (relativeTo === 'canvas' || selected.length < 2) {
+    return { x: 0, y: 0, width: canvasSize.width, height: canvasSize.height };
+  }
+  return getAssetsBounds(selected);
+}
+
+/**
+ * Align the selected assets to an edge or center of the selection bounds or the canvas
+ */
+export function alignAssets(
+  assets: BannerAsset[],
+  selectedIds: string[],
+  alignment: AlignmentType,
+  relativeTo: AlignRelativeTo,
+  canvasSize: { width: number; height: number }
+): BannerAsset[] {
+  const selected = assets.filter(asset => selectedIds.includes(asset.id));
+  const reference = getReferenceBounds(selected, relativeTo, canvasSize);
+  if (!reference) return assets;
+
+  return assets.map(asset => {
+    if (!selectedIds.includes(asset.id)) return asset;
+
+    const { x, y } = asset.position;
+    const { width, height } = asset.size;
+    let position = { x, y };
+
+    switch (alignment) {
+      case 'left':
+        position = { x: reference.x, y };
+        break;
+      case 'center':
+        position = { x: reference.x + (reference.width - width) / 2, y };
+        break;
+      case 'right':
+        position = { x: reference.x + reference.width - width, y };
+        break;
+      case 'top':
+        position = { x, y: reference.y };
+        break;
+      case 'middle':
+        position = { x, y: reference.y + (reference.height - height) / 2 };
+        break;
+      case 'bottom':
+        position = { x, y: reference.y + reference.height - height };
+        break;
+    }
+
+    return { ...asset, position: { x: Math.round(position.x), y: Math.round(position.y) } };
+  });
+}
+
+/**
+ * Space the selected assets evenly along an axis.
+ * Relative to the selection the outermost assets stay put (needs 3+ assets);
+ * relative to the canvas the gaps to the canvas edges are equal too.
+ */
+export function distributeAssets(
+  assets: BannerAsset[],
+  selectedIds: string[],
+  axis: DistributeAxis,
+  relativeTo: AlignRelativeTo,
+  canvasSize: { width: number; height: number }
+): BannerAsset[] {
+  const isHorizontal = axis === 'horizontal';
+  const start = (asset: BannerAsset) => isHorizontal ? asset.position.x : asset.position.y;
+  const length = (asset: BannerAsset) => isHorizontal ? asset.size.width : asset.size.height;
+
+  const selected = assets
+    .filter(asset => selectedIds.includes(asset.id))
+    .sort((a, b) => start(a) - start(b));
+
+  const useCanvas = relativeTo === 'canvas';
+  if (selected.length < (useCanvas ? 1 : 3)) return assets;
+
+  const totalLength = selected.reduce((sum, asset) => sum + length(asset), 0);
+  let cursor: number;
+  let gap: number;
+
+  if (useCanvas) {
+    const span = isHorizontal ? canvasSize.width : canvasSize.height;
+    gap = (span - totalLength) / (selected.length + 1);
+    cursor = gap;
+  } else {
+    const first = selected[0];
+    const last = selected[selected.length - 1];
+    const span = start(last) + length(last) - start(first);
+    gap = (span - totalLength) / (selected.length - 1);
+    cursor = start(first);
+  }
+
+  const newStarts = new Map<string, number>();
+  selected.forEach(asset => {
+    newStarts.set(asset.id, Math.round(cursor));
+    cursor += length(asset) + gap;
+  });
+
+  return assets.map(asset => {
+    const newStart = newStarts.get(asset.id);
+    if (newStart === undefined) return asset;
+    return {
+      ...asset,
+      position: isHorizontal ? { x: newStart, y: asset.position.y } : { x: asset.position.x, y: newStart }
+    };
+  });
+}
+
+/**
+ * Wrap the selected assets in a group asset placed at the topmost member's layer.
+ * Children are stored relative to the group's position and keep their stacking order.
+ */
+export function groupAssets(
+  assets: BannerAsset[],
+  selectedIds: string[]
+): { assets: BannerAsset[]; groupId: string } | null {
+  const ordered = getLayerOrder(assets);
+  const members = ordered.filter(asset => selectedIds.includes(asset.id));
+  const bounds = getAssetsBounds(members);
+  if (members.length < 2 || !bounds) return null;
+
+  const group: BannerAsset = {
+    id: `group_${Date.now()}`,
+    type: 'group',
+    position: { x: bounds.x, y: bounds.y },
+    size: { width: bounds.width, height: bounds.height },
+    rotation: 0,
+    children: members.map((member, zIndex) => ({
+      ...member,
+      zIndex,
+      position: { x: member.position.x - bounds.x, y: member.position.y - bounds.y }
+    }))
+  };
+
+  const topIndex = Math.max(...members.map(member => ordered.indexOf(member)));
+  const result: BannerAsset[] = [];
+  ordered.forEach((asset, index) => {
+    if (index === topIndex) result.push(group);
+    if (!selectedIds.includes(asset.id)) result.push(asset);
+  });
+
+  return { assets: result.map((asset, zIndex) => ({ ...asset, zIndex })), groupId: group.id };
+}
+
+/**
+ * Replace a group with its children, back in canvas coordinates
+ */
+export function ungroupAsset(
+  assets: BannerAsset[],
+  groupId: string
+): { assets: BannerAsset[]; childIds: string[] } | null {
+  const group = assets.find(asset => asset.id === groupId);
+  if (!group || group.type !== 'group' || !group.children) return null;
+
+  const children = getLayerOrder(group.children).map(child => ({
+    ...child,
+    position: { x: child.position.x + group.position.x, y: child.position.y + group.position.y }
+  }));
+
+  return {
+    assets: getLayerOrder(assets)
+      .flatMap(asset => asset.id === groupId ? children : [asset])
+      .map((asset, zIndex) => ({ ...asset, zIndex })),
+    childIds: children.map(child => child.id)
+  };
+}
+
+/**
+ * Resize a group by scaling its children (and their font sizes) to the new box
+ */
+export function resizeGroup(group: BannerAsset, width: number, height: number): BannerAsset {
+  const scaleX = width / group.size.width;
+  const scaleY = height / group.size.height;
+  const fontScale = Math.min(scaleX, scaleY);
+
+  return {
+    ...group,
+    size: { width, height },
+    children: group.children?.map(child => {
+      const scaled = child.type === 'group'
+        ? resizeGroup(child, child.size.width * scaleX, child.size.height * scaleY)
+        : { ...child, size: { width: child.size.width * scaleX, height: child.size.height * scaleY } };
+
+      return {
+        ...scaled,
+        position: { x: child.position.x * scaleX, y: child.position.y * scaleY },
+        fontSize: child.fontSize ? Math.max(8, Math.round(child.fontSize * fontScale)) : child.fontSize,
+        runs: scaleRunFontSizes(child.runs, fontScale)
+      };
+    })
+  };
+}
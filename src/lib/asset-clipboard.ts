@@ -0,0 +1,87 @@
+import type { BannerAsset } from '@/types/banner-editor';
+
+/**
+ * Copy/paste of editor assets.
+ * The clipboard is serialized to localStorage so assets can be pasted into another
+ * banner (or another tab); it's mirrored to the system clipboard as JSON when allowed.
+ * Logo and product assets are drawn with the target banner's own images.
+ */
+
+const CLIPBOARD_KEY = 'banner_editor_clipboard';
+const CLIPBOARD_KIND = 'banner-assets';
+const CLIPBOARD_VERSION = 1;
+export const PASTE_OFFSET = 20;
+
+interface SerializedClipboard {
+  kind: typeof CLIPBOARD_KIND;
+  version: number;
+  sourceBannerId: string;
+  assets: BannerAsset[];
+}
+
+export function copyAssetsToClipboard(assets: BannerAsset[], sourceBannerId: string): void {
+  const payload: SerializedClipboard = {
+    kind: CLIPBOARD_KIND,
+    version: CLIPBOARD_VERSION,
+    sourceBannerId,
+    assets
+  };
+  const serialized = JSON.stringify(payload);
+
+  localStorage.setItem(CLIPBOARD_KEY, serialized);
+  navigator.clipboard?.writeText(serialized).catch(error => {
+    // Not fatal: the localStorage copy is what paste reads
+    console.warn('⚠️ Could not write assets to the system clipboard:', error);
+  });
+}
+
+export function readAssetsFromClipboard(): SerializedClipboard | null {
+  const stored = localStorage.getItem(CLIPBOARD_KEY);
+  if (!stored) return null;
+
+  try {
+    const payload = JSON.parse(stored) as SerializedClipboard;
+    if (payload.kind !== CLIPBOARD_KIND || payload.version !== CLIPBOARD_VERSION || !Array.isArray(payload.assets)) {
+      return null;
+    }
+    return payload;
+  } catch (error) {
+    console.warn('⚠️ Ignoring malformed clipboard contents:', error);
+    return null;
+  }
+}
+
+/**
+ * Give an asset (and any group children) fresh ids so it can live next to the original
+ */
+export function cloneAssetWithNewId(asset: BannerAsset): BannerAsset {
+  return {
+    ...asset,
+    id: `${asset.type}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    children: asset.children?.map(cloneAssetWithNewId)
+  };
+}
+
+/**
+ * Prepare clipboard assets for pasting: new ids, offset, kept inside the canvas and stacked on top
+ */
+export function preparePastedAssets(
+  assets: BannerAsset[],
+  canvasSize: { width: number; height: number },
+  topZIndex: number,
+  offset: number = PASTE_OFFSET
+): BannerAsset[] {
+  return assets.map((asset, index) => {
+    const clone = cloneAssetWithNewId(asset);
+    return {
+      ...clone,
+      // A pasted layer is always editable, even if its source was locked
+      locked: false,
+      zIndex: topZIndex + 1 + index,
+      position: {
+        x: Math.max(0, Math.min(canvasSize.width - asset.size.width, asset.position.x + offset)),
+        y: Math.max(0, Math.min(canvasSize.height - asset.size.height, asset.position.y + offset))
+      }
+    };
+  });
+}
@@ -0,0 +1,45 @@
+import type { BannerAsset } from '@/types/banner-editor';
+
+/**
+ * Layer ordering for composition assets.
+ * zIndex is the source of truth for draw order; assets saved before it existed
+ * fall back to their array position, and ties keep array order.
+ */
+
+/**
+ * Assets from bottom to top layer
+ */
+export function getLayerOrder(assets: BannerAsset[]): BannerAsset[] {
+  return assets
+    .map((asset, index) => ({ asset, index }))
+    .sort((a, b) => ((a.asset.zIndex ?? a.index) - (b.asset.zIndex ?? b.index)) || a.index - b.index)
+    .map(({ asset }) => asset);
+}
+
+/**
+ * Reorder the array to match layer order and renumber zIndex from 0
+ */
+export function normalizeLayers(assets: BannerAsset[]): BannerAsset[] {
+  return getLayerOrder(assets).map((asset, zIndex) => ({ ...asset, zIndex }));
+}
+
+/**
+ * Move an asset to a position in bottom-to-top layer order
+ */
+export function moveLayer(assets: BannerAsset[], assetId: string, toIndex: number): BannerAsset[] {
+  const ordered = getLayerOrder(assets);
+  const fromIndex = ordered.findIndex(asset => asset.id === assetId);
+  if (fromIndex === -1) return assets;
+
+  const [moved] = ordered.splice(fromIndex, 1);
+  ordered.splice(Math.max(0, Math.min(ordered.length, toIndex)), 0, moved);
+
+  return ordered.map((asset, zIndex) => ({ ...asset, zIndex }));
+}
+
+/**
+ * Whether an asset can be picked on the canvas (hidden and locked layers can't)
+ */
+export function isAssetInteractive(asset: BannerAsset): boolean {
+  return !asset.hidden && !asset.locked;
+}
@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { BannerAsset, BannerComposition } from '@/types/banner-editor';
+import { callAIGateway } from './ai-gateway';
+import { applyChatOperations, diffCompositionAssets, interpretChatRequest } from './banner-chat';
+
+vi.mock('./ai-gateway', () => ({
+  callAIGateway: vi.fn(),
+  isAIServiceConfigured: () => true,
+}));
+
+const title: BannerAsset = {
+  id: 'title',
+  type: 'text',
+  role: 'mainText',
+  position: { x: 100, y: 50 },
+  size: { width: 400, height: 80 },
+  rotation: 0,
+  text: 'Hasta 30% OFF',
+  runs: [{ text: 'Hasta ' }, { text: '30%', bold: true, fontSize: 60 }, { text: ' OFF' }],
+  fontSize: 40,
+  color: '#FFFFFF',
+};
+
+const group: BannerAsset = {
+  id: 'group',
+  type: 'group',
+  position: { x: 600, y: 100 },
+  size: { width: 200, height: 100 },
+  rotation: 0,
+  children: [
+    { id: 'cta', type: 'cta', position: { x: 0, y: 50 }, size: { width: 200, height: 50 }, rotation: 0, text: 'Comprar', fontSize: 20 },
+    { id: 'logo', type: 'logo', position: { x: 50, y: 0 }, size: { width: 100, height: 40 }, rotation: 0, imageUrl: 'https://storage.test/logo.png' },
+  ],
+};
+
+const composition: BannerComposition = {
+  id: 'composition',
+  bannerId: 'banner',
+  backgroundImageUrl: 'https://storage.test/background.png',
+  assets: [title, group],
+  canvasSize: { width: 1440, height: 352 },
+  zoom: 1,
+  lastModified: new Date(0),
+};
+
+const toolCall = (name: string, args: unknown) => ({ name, arguments: typeof args === 'string' ? args : JSON.stringify(args) });
+
+describe('interpretChatRequest', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('turns valid tool calls into operations and reports the ones it drops', async () => {
+    vi.mocked(callAIGateway).mockResolvedValue({
+      reply: 'Hecho',
+      toolCalls: [
+        toolCall('update_asset_style', { asset_id: 'title', color: '#FF8800', font_weight: 'bold' }),
+        toolCall('update_asset_style', { asset_id: 'title', color: '#f80' }),
+        toolCall('update_asset_style', { asset_id: 'title', font_size: 500 }),
+        toolCall('update_asset_style', { asset_id: 'title' }),
+        toolCall('move_asset', { asset_id: 'subtitle', dx: 10, dy: 0 }),
+        toolCall('resize_asset', '{"asset_id": "group", "scale": 1.5'),
+        toolCall('rotate_asset', { asset_id: 'title', degrees: 15 }),
+        toolCall('regenerate_background', { adjustment: 'warmer light' }),
+      ],
+    });
+
+    const proposal = await interpretChatRequest('Naranja y en negrita', { composition });
+
+    expect(proposal.operations).toEqual([{ type: 'style', assetId: 'title', changes: { color: '#FF8800', fontWeight: 'bold' } }]);
+    expect(proposal.dropped).toEqual([
+      { name: 'update_asset_style', reason: 'invalid-arguments', assetId: 'title' },
+      { name: 'update_asset_style', reason: 'invalid-arguments', assetId: 'title' },
+      { name: 'update_asset_style', reason: 'no-changes', assetId: 'title' },
+      { name: 'move_asset', reason: 'unknown-asset', assetId: 'subtitle' },
+      { name: 'resize_asset', reason: 'invalid-arguments', assetId: undefined },
+      { name: 'rotate_asset', reason: 'unknown-tool', assetId: undefined },
+      { name: 'regenerate_background', reason: 'background-unavailable', assetId: undefined },
+    ]);
+  });
+
+  it('extends the background prompt when the background can be regenerated', async () => {
+    vi.mocked(callAIGateway).mockResolvedValue({ reply: '', toolCalls: [toolCall('regenerate_background', { adjustment: 'warmer light' })] });
+
+    const proposal = await interpretChatRequest('Más cálido', { composition, backgroundPrompt: 'Summer beach' });
+
+    expect(proposal.operations).toEqual([{
+      type: 'background',
+      adjustment: 'warmer light',
+      prompt: 'Summer beach\n\nREQUESTED ADJUSTMENT (takes priority over the instructions above): warmer light',
+    }]);
+  });
+});
+
+describe('applyChatOperations', () => {
+  it('keeps styled runs through text edits and resizes', () => {
+    const [edited] = applyChatOperations(composition, [
+      { type: 'text', assetId: 'title', text: 'Hasta 35% OFF' },
+      { type: 'resize', assetId: 'title', scale: 0.5 },
+    ]).assets;
+
+    expect(edited.runs).toEqual([{ text: 'Hasta ' }, { text: '35%', bold: true, fontSize: 30 }, { text: ' OFF' }]);
+    expect(edited).toMatchObject({ fontSize: 20, size: { width: 200, height: 40 }, position: { x: 200, y: 70 } });
+  });
+
+  it('scales the children of a resized group around its center', () => {
+    const resized = applyChatOperations(composition, [{ type: 'resize', assetId: 'group', scale: 2 }]).assets[1];
+
+    expect(resized).toMatchObject({ position: { x: 500, y: 50 }, size: { width: 400, height: 200 } });
+    expect(resized.children).toEqual([
+      expect.objectContaining({ id: 'cta', position: { x: 0, y: 100 }, size: { width: 400, height: 100 }, fontSize: 40 }),
+      expect.objectContaining({ id: 'logo', position: { x: 100, y: 0 }, size: { width: 200, height: 80 } }),
+    ]);
+  });
+});
+
+describe('diffCompositionAssets', () => {
+  it('lists changed fields, run styles included', () => {
+    const after = applyChatOperations(composition, [
+      { type: 'style', assetId: 'title', changes: { color: '#FF8800' } },
+      { type: 'resize', assetId: 'title', scale: 1.5 },
+      { type: 'move', assetId: 'group', dx: -20, dy: 0 },
+    ]).assets;
+
+    expect(diffCompositionAssets(composition.assets, after).map(change => `${change.assetId}.${change.field}`)).toEqual([
+      'title.runs', 'title.position', 'title.size', 'title.fontSize', 'title.color', 'group.position',
+    ]);
+  });
+});
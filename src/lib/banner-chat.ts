@@ -0,0 +1,287 @@
+import { z } from 'zod';
+import type { BannerAsset, BannerComposition } from '@/types/banner-editor';
+import { callAIGateway, isAIServiceConfigured } from './ai-gateway';
+import { resizeGroup } from './asset-arrangement';
+import { scaleRunFontSizes, updateRunsText } from './text-runs';
+
+export type AssetStyleChanges = Pick<BannerAsset, 'fontSize' | 'color' | 'backgroundColor' | 'fontWeight' | 'textAlign' | 'borderRadius' | 'hidden'>;
+
+// A concrete edit the assistant proposes; asset operations are applied with applyChatOperations
+export type ChatOperation =
+  | { type: 'style'; assetId: string; changes: AssetStyleChanges }
+  | { type: 'text'; assetId: string; text: string }
+  | { type: 'move'; assetId: string; dx: number; dy: number }
+  | { type: 'resize'; assetId: string; scale: number }
+  | { type: 'background'; adjustment: string; prompt: string };
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Why a tool call of the model was not turned into an operation
+export type DroppedToolCallReason = 'invalid-arguments' | 'unknown-asset' | 'unknown-tool' | 'no-changes' | 'background-unavailable';
+
+export interface DroppedToolCall {
+  name: string;
+  reason: DroppedToolCallReason;
+  assetId?: string;
+}
+
+export interface ChatProposal {
+  reply: string;
+  operations: ChatOperation[];
+  // Tool calls that were ignored, so the chat can say what it didn't apply
+  dropped: DroppedToolCall[];
+}
+
+export interface ChatRequestContext {
+  composition: BannerComposition;
+  // Prompt the current background was generated with; without it the background can't be regenerated
+  backgroundPrompt?: string;
+  history?: ChatTurn[];
+}
+
+// One changed field of one asset, for the accept/revert preview
+export interface AssetChange {
+  assetId: string;
+  field: keyof BannerAsset;
+  before: unknown;
+  after: unknown;
+}
+
+// Argument limits, mirrored in the tool definitions of api/ai/banner-chat.ts
+const MIN_RESIZE_SCALE = 0.25;
+const MAX_RESIZE_SCALE = 4;
+const MIN_FONT_SIZE = 6;
+const MAX_FONT_SIZE = 300;
+const MAX_BORDER_RADIUS = 200;
+
+const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/);
+
+const styleArgsSchema = z.object({
+  asset_id: z.string(),
+  font_size: z.number().min(MIN_FONT_SIZE).max(MAX_FONT_SIZE).optional(),
+  color: hexColor.optional(),
+  background_color: hexColor.optional(),
+  font_weight: z.enum(['normal', 'bold']).optional(),
+  text_align: z.enum(['left', 'center', 'right']).optional(),
+  border_radius: z.number().min(0).max(MAX_BORDER_RADIUS).optional(),
+  hidden: z.boolean().optional(),
+});
+
+const textArgsSchema = z.object({
+  asset_id: z.string(),
+  text: z.string().min(1),
+});
+
+const moveArgsSchema = z.object({
+  asset_id: z.string(),
+  dx: z.number(),
+  dy: z.number(),
+});
+
+const resizeArgsSchema = z.object({
+  asset_id: z.string(),
+  scale: z.number().min(MIN_RESIZE_SCALE).max(MAX_RESIZE_SCALE),
+});
+
+const backgroundArgsSchema = z.object({
+  adjustment: z.string().trim().min(1),
+});
+
+// Tool calls as answered by the banner-chat route, which holds the tool definitions and the prompt
+interface ChatToolCall {
+  name: string;
+  arguments: string;
+}
+
+export function isBannerChatAvailable(): boolean {
+  return isAIServiceConfigured('openai');
+}
+
+/**
+ * Append a requested change to the prompt the background was generated with
+ */
+export function adjustBackgroundPrompt(prompt: string, adjustment: string): string {
+  return `${prompt}\n\nREQUESTED ADJUSTMENT (takes priority over the instructions above): ${adjustment}`;
+}
+
+// What the model sees of each asset
+function describeAsset(asset: BannerAsset) {
+  return {
+    id: asset.id,
+    type: asset.type,
+    role: asset.role,
+    x: Math.round(asset.position.x),
+    y: Math.round(asset.position.y),
+    width: Math.round(asset.size.width),
+    height: Math.round(asset.size.height),
+    hidden: asset.hidden || undefined,
+    text: asset.text,
+    fontSize: asset.fontSize,
+    color: asset.color,
+    fontWeight: asset.fontWeight,
+    backgroundColor: asset.backgroundColor,
+  };
+}
+
+function parseToolCall(name: string, rawArguments: string, context: ChatRequestContext): ChatOperation | DroppedToolCall {
+  const drop = (reason: DroppedToolCallReason, assetId?: string): DroppedToolCall => {
+    console.warn('Ignoring tool call:', name, reason, rawArguments);
+    return { name, reason, assetId };
+  };
+
+  let args: unknown;
+  try {
+    args = JSON.parse(rawArguments);
+  } catch (error) {
+    return drop('invalid-arguments');
+  }
+
+  const assetIds = new Set(context.composition.assets.map(asset => asset.id));
+  // Parse the arguments and check that they target an asset of the composition
+  const parseAssetArgs = <S extends z.ZodTypeAny>(schema: S): z.infer<S> | DroppedToolCall => {
+    const parsed = schema.safeParse(args);
+    if (!parsed.success) return drop('invalid-arguments', (args as { asset_id?: string } | null)?.asset_id);
+    if (!assetIds.has(parsed.data.asset_id)) return drop('unknown-asset', parsed.data.asset_id);
+    return parsed.data;
+  };
+
+  switch (name) {
+    case 'update_asset_style': {
+      const parsed = parseAssetArgs(styleArgsSchema);
+      if ('reason' in parsed) return parsed;
+      const { asset_id, font_size, background_color, font_weight, text_align, border_radius, ...rest } = parsed;
+      const changes: AssetStyleChanges = {
+        ...rest,
+        fontSize: font_size,
+        backgroundColor: background_color,
+        fontWeight: font_weight,
+        textAlign: text_align,
+        borderRadius: border_radius,
+      };
+      const definedChanges = Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined)) as AssetStyleChanges;
+      return Object.keys(definedChanges).length > 0
+        ? { type: 'style', assetId: asset_id, changes: definedChanges }
+        : drop('no-changes', asset_id);
+    }
+    case 'set_asset_text': {
+      const parsed = parseAssetArgs(textArgsSchema);
+      if ('reason' in parsed) return parsed;
+      return { type: 'text', assetId: parsed.asset_id, text: parsed.text };
+    }
+    case 'move_asset': {
+      const parsed = parseAssetArgs(moveArgsSchema);
+      if ('reason' in parsed) return parsed;
+      return { type: 'move', assetId: parsed.asset_id, dx: parsed.dx, dy: parsed.dy };
+    }
+    case 'resize_asset': {
+      const parsed = parseAssetArgs(resizeArgsSchema);
+      if ('reason' in parsed) return parsed;
+      return { type: 'resize', assetId: parsed.asset_id, scale: parsed.scale };
+    }
+    case 'regenerate_background': {
+      if (!context.backgroundPrompt) return drop('background-unavailable');
+      const parsed = backgroundArgsSchema.safeParse(args);
+      if (!parsed.success) return drop('invalid-arguments');
+      return {
+        type: 'background',
+        adjustment: parsed.data.adjustment,
+        prompt: adjustBackgroundPrompt(context.backgroundPrompt, parsed.data.adjustment),
+      };
+    }
+    default:
+      return drop('unknown-tool');
+  }
+}
+
+/**
+ * Ask the model to translate a chat message into operations on the composition
+ */
+export async function interpretChatRequest(message: string, context: ChatRequestContext): Promise<ChatProposal> {
+  if (!isBannerChatAvailable()) {
+    throw new Error('OpenAI API key is not configured for the banner assistant');
+  }
+
+  const response = await callAIGateway<{ reply: string; toolCalls: ChatToolCall[] }>('banner-chat', {
+    message,
+    history: context.history ?? [],
+    canvasSize: context.composition.canvasSize,
+    assets: context.composition.assets.map(describeAsset),
+    canRegenerateBackground: !!context.backgroundPrompt,
+  });
+
+  const operations: ChatOperation[] = [];
+  const dropped: DroppedToolCall[] = [];
+  response.toolCalls.forEach(call => {
+    const parsed = parseToolCall(call.name, call.arguments, context);
+    if ('reason' in parsed) {
+      dropped.push(parsed);
+    } else {
+      operations.push(parsed);
+    }
+  });
+
+  return { reply: response.reply, operations, dropped };
+}
+
+function applyOperation(asset: BannerAsset, operation: Exclude<ChatOperation, { type: 'background' }>): BannerAsset {
+  switch (operation.type) {
+    case 'style':
+      return { ...asset, ...operation.changes };
+    case 'text':
+      return { ...asset, text: operation.text, runs: asset.runs ? updateRunsText(asset.runs, operation.text) : undefined };
+    case 'move':
+      return { ...asset, position: { x: Math.round(asset.position.x + operation.dx), y: Math.round(asset.position.y + operation.dy) } };
+    case 'resize': {
+      const width = Math.round(asset.size.width * operation.scale);
+      const height = Math.round(asset.size.height * operation.scale);
+      const resized: BannerAsset = {
+        // A group's children (and their fonts) scale with its box
+        ...(asset.type === 'group' ? resizeGroup(asset, width, height) : asset),
+        position: {
+          x: Math.round(asset.position.x - (width - asset.size.width) / 2),
+          y: Math.round(asset.position.y - (height - asset.size.height) / 2),
+        },
+        size: { width, height },
+      };
+      if (asset.fontSize) {
+        resized.fontSize = Math.max(8, Math.round(asset.fontSize * operation.scale));
+        resized.runs = scaleRunFontSizes(asset.runs, operation.scale);
+      }
+      return resized;
+    }
+  }
+}
+
+/**
+ * Apply the asset operations of a proposal (background operations are handled by the editor)
+ */
+export function applyChatOperations(composition: BannerComposition, operations: ChatOperation[]): BannerComposition {
+  let assets = composition.assets;
+  for (const operation of operations) {
+    if (operation.type === 'background') continue;
+    assets = assets.map(asset => asset.id === operation.assetId ? applyOperation(asset, operation) : asset);
+  }
+  return { ...composition, assets, lastModified: new Date() };
+}
+
+/**
+ * Fields that differ between two versions of the same assets
+ */
+export function diffCompositionAssets(before: BannerAsset[], after: BannerAsset[]): AssetChange[] {
+  const changes: AssetChange[] = [];
+  const fields: (keyof BannerAsset)[] = ['text', 'runs', 'position', 'size', 'fontSize', 'color', 'backgroundColor', 'fontWeight', 'textAlign', 'borderRadius', 'hidden'];
+
+  for (const next of after) {
+    const previous = before.find(asset => asset.id === next.id);
+    if (!previous) continue;
+    for (const field of fields) {
+      if (JSON.stringify(previous[field]) !== JSON.stringify(next[field])) {
+        changes.push({ assetId: next.id, field, before: previous[field], after: next[field] });
+      }
+    }
+  }
+  return changes;
+}
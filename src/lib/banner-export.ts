@@ -0,0 +1,164 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { BannerComposition, ExportOptions } from '@/types/banner-editor';
+import { renderComposition, type CompositionImages } from './composition-renderer';
+import { ensureCompositionFonts } from './font-manager';
+
+export const EXPORT_MIME_TYPES: Record<ExportOptions['format'], string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  webp: 'image/webp',
+};
+
+export const EXPORT_SCALES = [1, 2, 3] as const;
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'png',
+  quality: 0.92,
+  scale: 1,
+};
+
+/**
+ * Render a composition off-screen at the requested scale and encode it.
+ * Waits for the composition's fonts first and fails rather than export with fallback fonts.
+ */
+export async function exportCompositionToBlob(
+  composition: BannerComposition,
+  images: CompositionImages,
+  options: ExportOptions
+): Promise<Blob> {
+  const { canvasSize } = composition;
+  const scale = Math.min(3, Math.max(1, options.scale || 1));
+  const mimeType = EXPORT_MIME_TYPES[options.format];
+  const quality = Math.min(1, Math.max(0, options.quality));
+
+  await ensureCompositionFonts(composition);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(canvasSize.width * scale);
+  canvas.height = Math.round(canvasSize.height * scale);
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not create canvas context for export');
+  }
+
+  ctx.scale(scale, scale);
+  renderComposition(composition, images, ctx);
+
+  console.log('📤 Encoding banner export:', {
+    format: options.format,
+    scale,
+    quality,
+    width: canvas.width,
+    height: canvas.height
+  });
+
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    try {
+      canvas.toBlob((result) => {
+        if (result) {
+          resolve(result);
+        } else {
+          reject(new Error('Failed to encode banner export'));
+        }
+      }, mimeType, options.format === 'png' ? undefined : quality);
+    } catch (error) {
+      // toBlob throws a SecurityError when a cross-origin image tainted the canvas
+      reject(error instanceof Error && error.name === 'SecurityError'
+        ? new Error('Canvas is tainted by a cross-origin image and cannot be exported')
+        : error);
+    }
+  });
+
+  // Browsers silently fall back to PNG for formats they can't encode
+  if (blob.type !== mimeType) {
+    throw new Error(`This browser cannot encode ${options.format.toUpperCase()} images`);
+  }
+
+  return blob;
+}
+
+/**
+ * Build a file name for an exported banner
+ */
+export function getExportFileName(bannerId: string, options: ExportOptions): string {
+  return `banner-export-${bannerId}-${Date.now()}@${options.scale}x.${options.format}`;
+}
+
+/**
+ * Upload a flattened export to the banners bucket and point the banner's image_url at it.
+ * Legacy banners keep their background only in image_url; it is copied to background_image_url
+ * first, so the editor doesn't draw the exported text twice when the banner is edited again.
+ */
+export async function uploadBannerExport(
+  bannerId: string,
+  blob: Blob,
+  options: ExportOptions
+): Promise<string> {
+  const fileName = getExportFileName(bannerId, options);
+
+  console.log('📤 Uploading banner export:', { bannerId, fileName, size: blob.size });
+
+  const { data, error } = await supabase.storage
+    .from('banners')
+    .upload(fileName, blob, {
+      contentType: blob.type,
+      upsert: true
+    });
+
+  if (error) {
+    console.error('❌ Error uploading banner export:', error);
+    throw new Error(`Failed to upload banner export: ${error.message}`);
+  }
+
+  const { data: publicUrlData } = supabase.storage
+    .from('banners')
+    .getPublicUrl(data.path);
+
+  const { data: current, error: fetchError } = await supabase
+    .from('banners')
+    .select('image_url, background_image_url')
+    .eq('id', bannerId)
+    .single();
+
+  if (fetchError) {
+    console.error('❌ Error loading banner before export:', fetchError);
+    throw new Error(`Failed to update banner image: ${fetchError.message}`);
+  }
+
+  const { error: updateError } = await supabase
+    .from('banners')
+    .update({
+      image_url: publicUrlData.publicUrl,
+      background_image_url: current.background_image_url || current.image_url || null
+    })
+    .eq('id', bannerId);
+
+  if (updateError) {
+    console.error('❌ Error updating banner image_url:', updateError);
+    throw new Error(`Failed to update banner image: ${updateError.message}`);
+  }
+
+  console.log('✅ Banner export published:', publicUrlData.publicUrl);
+
+  // Let history and home views refresh their thumbnails
+  window.dispatchEvent(new CustomEvent('bannerSaved', {
+    detail: { bannerId }
+  }));
+
+  return publicUrlData.publicUrl;
+}
+
+/**
+ * Trigger a browser download for an exported blob
+ */
+export function downloadExportBlob(blob: Blob, fileName: string): void {
+  const blobUrl = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = blobUrl;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(blobUrl);
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import type { BannerAsset, BannerComposition } from '@/types/banner-editor';
+import { BANNER_FORMATS, getBackgroundCoverage, getLayoutRoles, layoutAsset, relayoutComposition } from './banner-formats';
+
+const asset = (id: string, overrides: Partial<BannerAsset>): BannerAsset => ({
+  id,
+  type: 'text',
+  position: { x: 0, y: 0 },
+  size: { width: 400, height: 50 },
+  rotation: 0,
+  ...overrides,
+});
+
+const placement = ({ position, size }: BannerAsset) => ({ ...position, ...size });
+
+describe('layoutAsset', () => {
+  it('places left/top slots at their offsets from the canvas edges', () => {
+    const title = layoutAsset(asset('title', { role: 'mainText', textAlign: 'center' }), BANNER_FORMATS.desktop);
+
+    expect(placement(title)).toEqual({ x: 300, y: 90, width: 400, height: 50 });
+    expect(title.textAlign).toBe('left');
+  });
+
+  it('measures right and bottom offsets from the far edges', () => {
+    const cta = layoutAsset(asset('cta', { type: 'cta', role: 'ctaButton' }), BANNER_FORMATS.square);
+    // Slot of 367.2x64.8 centered horizontally, 4% above the bottom
+    expect(placement(cta)).toEqual({ x: 356, y: 972, width: 367, height: 65 });
+
+    const product = layoutAsset(asset('product', { type: 'product', size: { width: 100, height: 200 } }), BANNER_FORMATS.mobile);
+    // A tall image fills the slot height and keeps to the slot's right edge
+    expect(placement(product)).toEqual({ x: 552, y: 42, width: 168, height: 336 });
+  });
+
+  it('fits images into middle slots keeping their aspect ratio', () => {
+    const logo = layoutAsset(asset('logo', { type: 'logo', size: { width: 200, height: 50 } }), BANNER_FORMATS.email);
+
+    expect(placement(logo)).toEqual({ x: 450, y: 85, width: 120, height: 30 });
+  });
+
+  it('scales text with its slot, runs included, within limits', () => {
+    const title = asset('title', { role: 'mainText', fontSize: 40, runs: [{ text: 'Hasta ' }, { text: '30%', fontSize: 60 }] });
+
+    const square = layoutAsset(title, BANNER_FORMATS.square);
+    expect(square).toMatchObject({ fontSize: 69, textAlign: 'center' });
+    expect(square.runs?.[1].fontSize).toBe(104);
+
+    // Never below half the original size, however small the slot
+    expect(layoutAsset({ ...title, size: { width: 1000, height: 100 } }, BANNER_FORMATS.email).fontSize).toBe(20);
+  });
+});
+
+describe('relayoutComposition', () => {
+  const composition: BannerComposition = {
+    id: 'composition',
+    bannerId: 'banner',
+    backgroundImageUrl: '',
+    canvasSize: { width: 1440, height: 352 },
+    zoom: 1,
+    lastModified: new Date(0),
+    assets: [
+      // A composition from before roles: the first text is the title
+      asset('text_1', { text: 'Hasta 30% OFF', fontSize: 40 }),
+      asset('description_1', { text: 'En toda la tienda', fontSize: 30, position: { x: 300, y: 140 } }),
+      asset('text_2', { text: '¡Solo hoy!', fontSize: 40, position: { x: 1000, y: 280 }, size: { width: 200, height: 40 } }),
+    ],
+  };
+
+  it('gives extra role-less text its own place instead of the title slot', () => {
+    expect(Object.fromEntries(getLayoutRoles(composition.assets))).toEqual({
+      text_1: 'mainText',
+      description_1: 'descriptionText',
+      text_2: null,
+    });
+
+    const [title, , extra] = relayoutComposition(composition, 'square').assets;
+    expect(placement(title)).toEqual(placement(layoutAsset(composition.assets[0], BANNER_FORMATS.square)));
+    // Same relative center (1100/1440, 300/352), scaled by min(1080/1440, 1080/352) = 0.75
+    expect(placement(extra)).toEqual({ x: 750, y: 905, width: 150, height: 30 });
+    expect(extra.fontSize).toBe(30);
+  });
+
+  it('keeps explicit roles, even on text listed after role-less copy', () => {
+    const roles = getLayoutRoles([asset('text_1', {}), asset('headline', { role: 'mainText' })]);
+
+    expect(roles.get('text_1')).toBeNull();
+    expect(roles.get('headline')).toBe('mainText');
+  });
+});
+
+describe('getBackgroundCoverage', () => {
+  it('measures how much of the background survives the cover crop', () => {
+    const desktop = { width: 1440, height: 352 };
+
+    expect(getBackgroundCoverage(desktop, BANNER_FORMATS.desktop)).toBe(1);
+    expect(getBackgroundCoverage(desktop, BANNER_FORMATS.email)).toBeCloseTo(0.733, 3);
+    expect(getBackgroundCoverage(desktop, BANNER_FORMATS.story)).toBeCloseTo(0.1375, 4);
+  });
+});
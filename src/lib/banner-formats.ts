@@ -0,0 +1,265 @@
+import type { AssetRole, BannerAsset, BannerComposition } from '@/types/banner-editor';
+import { resizeGroup } from './asset-arrangement';
+import { scaleRunFontSizes } from './text-runs';
+
+export type BannerFormatId = 'desktop' | 'mobile' | 'square' | 'story' | 'email';
+
+/**
+ * Where an asset sits inside a format, expressed as fractions of the canvas
+ * so the same rule works for any size. Offsets are measured from the anchored edge
+ * (or from the centered position for 'center' / 'middle').
+ */
+export interface AnchorRule {
+  x: 'left' | 'center' | 'right';
+  y: 'top' | 'middle' | 'bottom';
+  offsetX: number;
+  offsetY: number;
+  width: number;
+  height: number;
+  textAlign?: 'left' | 'center' | 'right';
+}
+
+export interface BannerFormat {
+  id: BannerFormatId;
+  label: string;
+  width: number;
+  height: number;
+  layout: Record<AssetRole, AnchorRule>;
+}
+
+export const BANNER_FORMATS: Record<BannerFormatId, BannerFormat> = {
+  desktop: {
+    id: 'desktop',
+    label: 'Desktop',
+    width: 1440,
+    height: 352,
+    // Mirrors the editor's default (non-mirrored) layout
+    layout: {
+      logo: { x: 'left', y: 'top', offsetX: 0.729, offsetY: 0.256, width: 0.1, height: 0.213 },
+      product: { x: 'center', y: 'middle', offsetX: 0, offsetY: 0, width: 0.174, height: 0.71 },
+      mainText: { x: 'left', y: 'top', offsetX: 0.208, offsetY: 0.256, width: 0.278, height: 0.142, textAlign: 'left' },
+      descriptionText: { x: 'left', y: 'top', offsetX: 0.208, offsetY: 0.398, width: 0.333, height: 0.114, textAlign: 'left' },
+      ctaButton: { x: 'left', y: 'top', offsetX: 0.208, offsetY: 0.653, width: 0.111, height: 0.128 },
+    },
+  },
+  mobile: {
+    id: 'mobile',
+    label: 'Carrusel móvil',
+    width: 750,
+    height: 420,
+    layout: {
+      logo: { x: 'left', y: 'top', offsetX: 0.05, offsetY: 0.07, width: 0.2, height: 0.14 },
+      product: { x: 'right', y: 'middle', offsetX: 0.04, offsetY: 0, width: 0.42, height: 0.8 },
+      mainText: { x: 'left', y: 'top', offsetX: 0.05, offsetY: 0.27, width: 0.5, height: 0.17, textAlign: 'left' },
+      descriptionText: { x: 'left', y: 'top', offsetX: 0.05, offsetY: 0.46, width: 0.5, height: 0.14, textAlign: 'left' },
+      ctaButton: { x: 'left', y: 'bottom', offsetX: 0.05, offsetY: 0.09, width: 0.3, height: 0.13 },
+    },
+  },
+  square: {
+    id: 'square',
+    label: 'Social 1:1',
+    width: 1080,
+    height: 1080,
+    layout: {
+      logo: { x: 'center', y: 'top', offsetX: 0, offsetY: 0.06, width: 0.3, height: 0.08 },
+      product: { x: 'center', y: 'middle', offsetX: 0, offsetY: -0.05, width: 0.6, height: 0.42 },
+      mainText: { x: 'center', y: 'bottom', offsetX: 0, offsetY: 0.2, width: 0.86, height: 0.08, textAlign: 'center' },
+      descriptionText: { x: 'center', y: 'bottom', offsetX: 0, offsetY: 0.12, width: 0.86, height: 0.07, textAlign: 'center' },
+      ctaButton: { x: 'center', y: 'bottom', offsetX: 0, offsetY: 0.04, width: 0.34, height: 0.06 },
+    },
+  },
+  story: {
+    id: 'story',
+    label: 'Story 9:16',
+    width: 1080,
+    height: 1920,
+    layout: {
+      logo: { x: 'center', y: 'top', offsetX: 0, offsetY: 0.06, width: 0.32, height: 0.06 },
+      mainText: { x: 'center', y: 'top', offsetX: 0, offsetY: 0.16, width: 0.86, height: 0.07, textAlign: 'center' },
+      descriptionText: { x: 'center', y: 'top', offsetX: 0, offsetY: 0.24, width: 0.86, height: 0.06, textAlign: 'center' },
+      product: { x: 'center', y: 'middle', offsetX: 0, offsetY: 0.05, width: 0.8, height: 0.38 },
+      ctaButton: { x: 'center', y: 'bottom', offsetX: 0, offsetY: 0.1, width: 0.5, height: 0.045 },
+    },
+  },
+  email: {
+    id: 'email',
+    label: 'Cabecera de email',
+    width: 600,
+    height: 200,
+    layout: {
+      logo: { x: 'right', y: 'middle', offsetX: 0.05, offsetY: 0, width: 0.2, height: 0.3 },
+      product: { x: 'center', y: 'middle', offsetX: 0.04, offsetY: 0, width: 0.3, height: 0.85 },
+      mainText: { x: 'left', y: 'top', offsetX: 0.05, offsetY: 0.18, width: 0.36, height: 0.2, textAlign: 'left' },
+      descriptionText: { x: 'left', y: 'top', offsetX: 0.05, offsetY: 0.42, width: 0.36, height: 0.16, textAlign: 'left' },
+      ctaButton: { x: 'left', y: 'bottom', offsetX: 0.05, offsetY: 0.12, width: 0.22, height: 0.17 },
+    },
+  },
+};
+
+export const BANNER_FORMAT_IDS = Object.keys(BANNER_FORMATS) as BannerFormatId[];
+
+// Below this share of the background left visible by the cover crop, a format needs its own background
+export const MIN_BACKGROUND_COVERAGE = 0.5;
+
+/**
+ * Find the registered format matching a canvas size (desktop if none match)
+ */
+export function getFormatForSize(size: { width: number; height: number }): BannerFormat {
+  return Object.values(BANNER_FORMATS).find(format =>
+    format.width === size.width && format.height === size.height
+  ) ?? BANNER_FORMATS.desktop;
+}
+
+/**
+ * Look up a format by the banners.image_type value (legacy rows fall back to desktop)
+ */
+export function getFormatById(id: string | null | undefined): BannerFormat {
+  return BANNER_FORMATS[id as BannerFormatId] ?? BANNER_FORMATS.desktop;
+}
+
+/**
+ * Resolve the layout slot an asset fills.
+ * Older compositions have no explicit role, so fall back to the asset type and id prefix.
+ */
+export function getAssetRole(asset: BannerAsset): AssetRole {
+  if (asset.role) return asset.role;
+
+  switch (asset.type) {
+    case 'logo': return 'logo';
+    case 'product': return 'product';
+    case 'cta': return 'ctaButton';
+    default: return asset.id.startsWith('description_') ? 'descriptionText' : 'mainText';
+  }
+}
+
+/**
+ * Layout slot of each top-level asset of a composition, by id; null for assets without one.
+ * Role-less text fills the title or description slot only when no other asset holds it,
+ * so extra copy keeps its own place instead of landing on top of the title.
+ */
+export function getLayoutRoles(assets: BannerAsset[]): Map<string, AssetRole | null> {
+  const taken = new Set(assets.filter(asset => asset.type !== 'group').map(asset => asset.role).filter(Boolean));
+  const roles = new Map<string, AssetRole | null>();
+
+  assets.forEach(asset => {
+    if (asset.type === 'group') {
+      roles.set(asset.id, null);
+    } else if (asset.role || asset.type !== 'text') {
+      roles.set(asset.id, getAssetRole(asset));
+    } else {
+      const role = getAssetRole(asset);
+      roles.set(asset.id, taken.has(role) ? null : role);
+      taken.add(role);
+    }
+  });
+
+  return roles;
+}
+
+/**
+ * Share of a background (0-1) that stays visible when it is cover-cropped from one canvas to a format
+ */
+export function getBackgroundCoverage(canvasSize: { width: number; height: number }, format: BannerFormat): number {
+  const sourceRatio = canvasSize.width / canvasSize.height;
+  const formatRatio = format.width / format.height;
+  return Math.min(sourceRatio, formatRatio) / Math.max(sourceRatio, formatRatio);
+}
+
+function anchorOffset(anchor: 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom', canvas: number, box: number, offset: number): number {
+  switch (anchor) {
+    case 'center':
+    case 'middle':
+      return (canvas - box) / 2 + offset * canvas;
+    case 'right':
+    case 'bottom':
+      return canvas - box - offset * canvas;
+    default:
+      return offset * canvas;
+  }
+}
+
+/**
+ * Place a single asset into a format according to its anchor rule.
+ * Images keep their aspect ratio inside the slot; text scales its font with the slot.
+ */
+export function layoutAsset(asset: BannerAsset, format: BannerFormat, role: AssetRole = getAssetRole(asset)): BannerAsset {
+  const rule = format.layout[role];
+  const slotWidth = rule.width * format.width;
+  const slotHeight = rule.height * format.height;
+
+  let width = slotWidth;
+  let height = slotHeight;
+
+  if (asset.type === 'logo' || asset.type === 'product') {
+    const aspectRatio = asset.size.width / asset.size.height;
+    width = Math.min(slotWidth, slotHeight * aspectRatio);
+    height = width / aspectRatio;
+  }
+
+  const slotX = anchorOffset(rule.x, format.width, slotWidth, rule.offsetX);
+  const slotY = anchorOffset(rule.y, format.height, slotHeight, rule.offsetY);
+
+  // Align the fitted box inside its slot the same way the slot is anchored to the canvas
+  const x = slotX + (rule.x === 'center' ? (slotWidth - width) / 2 : rule.x === 'right' ? slotWidth - width : 0);
+  const y = slotY + (rule.y === 'middle' ? (slotHeight - height) / 2 : rule.y === 'bottom' ? slotHeight - height : 0);
+
+  const laidOut: BannerAsset = {
+    ...asset,
+    position: { x: Math.round(x), y: Math.round(y) },
+    size: { width: Math.round(width), height: Math.round(height) },
+  };
+
+  if ((asset.type === 'text' || asset.type === 'cta') && asset.fontSize) {
+    const fontScale = Math.min(3, Math.max(0.5, Math.min(slotWidth / asset.size.width, slotHeight / asset.size.height)));
+    laidOut.fontSize = Math.round(asset.fontSize * fontScale);
+    laidOut.runs = scaleRunFontSizes(asset.runs, fontScale);
+  }
+
+  if (asset.type === 'text' && rule.textAlign) {
+    laidOut.textAlign = rule.textAlign;
+  }
+
+  return laidOut;
+}
+
+/**
+ * Assets without a layout slot (groups, extra text): keep their relative position and scale them uniformly
+ */
+function scaleAssetToFormat(asset: BannerAsset, canvasSize: { width: number; height: number }, format: BannerFormat): BannerAsset {
+  const scale = Math.min(format.width / canvasSize.width, format.height / canvasSize.height);
+  const width = Math.round(asset.size.width * scale);
+  const height = Math.round(asset.size.height * scale);
+  const resized = asset.type === 'group'
+    ? resizeGroup(asset, width, height)
+    : {
+        ...asset,
+        size: { width, height },
+        fontSize: asset.fontSize ? Math.max(8, Math.round(asset.fontSize * scale)) : asset.fontSize,
+        runs: scaleRunFontSizes(asset.runs, scale),
+      };
+  const centerX = (asset.position.x + asset.size.width / 2) / canvasSize.width * format.width;
+  const centerY = (asset.position.y + asset.size.height / 2) / canvasSize.height * format.height;
+
+  return {
+    ...resized,
+    position: { x: Math.round(centerX - resized.size.width / 2), y: Math.round(centerY - resized.size.height / 2) },
+  };
+}
+
+/**
+ * Re-lay out a composition for another format, keeping content and styles
+ */
+export function relayoutComposition(composition: BannerComposition, formatId: BannerFormatId): BannerComposition {
+  const format = BANNER_FORMATS[formatId];
+  const roles = getLayoutRoles(composition.assets);
+
+  return {
+    ...composition,
+    canvasSize: { width: format.width, height: format.height },
+    assets: composition.assets.map(asset => {
+      const role = roles.get(asset.id);
+      return role ? layoutAsset(asset, format, role) : scaleAssetToFormat(asset, composition.canvasSize, format);
+    }),
+    lastModified: new Date(),
+  };
+}
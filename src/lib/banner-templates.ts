@@ -0,0 +1,284 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json } from '@/integrations/supabase/types';
+import type { AssetRole, BannerAsset, BannerComposition } from '@/types/banner-editor';
+import { getAssetRole } from './banner-formats';
+import { getLayerOrder } from './asset-layers';
+import { renderComposition, type CompositionImages } from './composition-renderer';
+import { ensureCompositionFonts } from './font-manager';
+import { scaleRunFontSizes } from './text-runs';
+
+/**
+ * Banner templates: named layouts saved from a composition.
+ * A template keeps one slot per role (logo, product, main text, description, CTA) with its
+ * geometry and text/CTA styles; applying it moves a banner's assets into the matching slots.
+ */
+
+type TemplateRow = Database['public']['Tables']['banner_templates']['Row'];
+type TemplateInsert = Database['public']['Tables']['banner_templates']['Insert'];
+
+// Styles a slot carries over; content (text, runs, images) always stays with the banner
+const SLOT_STYLE_KEYS = [
+  'fontSize', 'fontFamily', 'color', 'fontWeight', 'textAlign', 'lineHeight', 'letterSpacing',
+  'autoFit', 'minFontSize', 'maxFontSize',
+  'backgroundColor', 'borderRadius', 'borderColor', 'borderWidth',
+] as const;
+
+export type TemplateSlotStyle = Pick<BannerAsset, typeof SLOT_STYLE_KEYS[number]>;
+
+export interface TemplateSlot {
+  role: AssetRole;
+  type: BannerAsset['type'];
+  position: { x: number; y: number };
+  size: { width: number; height: number };
+  rotation: number;
+  style: TemplateSlotStyle;
+}
+
+export interface BannerTemplate {
+  id: string;
+  name: string;
+  // null for templates shared by every partner
+  partnerId: string | null;
+  canvasSize: { width: number; height: number };
+  slots: TemplateSlot[];
+  thumbnailUrl: string | null;
+  createdAt: string;
+}
+
+const THUMBNAIL_WIDTH = 360;
+
+function isTemplateSlot(value: unknown): value is TemplateSlot {
+  const slot = value as TemplateSlot;
+  return !!slot && typeof slot === 'object' && typeof slot.role === 'string' && !!slot.position && !!slot.size;
+}
+
+function rowToTemplate(row: TemplateRow): BannerTemplate {
+  return {
+    id: row.id,
+    name: row.name,
+    partnerId: row.partner_id,
+    canvasSize: { width: row.canvas_width, height: row.canvas_height },
+    slots: Array.isArray(row.slots) ? (row.slots as unknown[]).filter(isTemplateSlot) : [],
+    thumbnailUrl: row.thumbnail_url,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * One slot per role from the composition's visible top-level assets (groups have no role).
+ * When several assets share a role, the top-most layer wins.
+ */
+export function createTemplateSlots(composition: BannerComposition): TemplateSlot[] {
+  const slots = new Map<AssetRole, TemplateSlot>();
+
+  getLayerOrder(composition.assets ?? [])
+    .reverse()
+    .filter(asset => asset.type !== 'group' && !asset.hidden)
+    .forEach(asset => {
+      const role = getAssetRole(asset);
+      if (slots.has(role)) return;
+
+      const style = Object.fromEntries(
+        SLOT_STYLE_KEYS.filter(key => asset[key] !== undefined).map(key => [key, asset[key]])
+      ) as TemplateSlotStyle;
+
+      slots.set(role, {
+        role,
+        type: asset.type,
+        position: { ...asset.position },
+        size: { ...asset.size },
+        rotation: asset.rotation,
+        style,
+      });
+    });
+
+  return Array.from(slots.values());
+}
+
+/**
+ * Move an asset into a slot scaled to the banner's canvas.
+ * Images keep their aspect ratio centered in the slot; text takes the slot's styles.
+ */
+function applySlot(asset: BannerAsset, slot: TemplateSlot, scaleX: number, scaleY: number): BannerAsset {
+  const slotX = slot.position.x * scaleX;
+  const slotY = slot.position.y * scaleY;
+  const slotWidth = slot.size.width * scaleX;
+  const slotHeight = slot.size.height * scaleY;
+
+  let width = slotWidth;
+  let height = slotHeight;
+  if (asset.type === 'logo' || asset.type === 'product') {
+    const aspectRatio = asset.size.width / asset.size.height;
+    width = Math.min(slotWidth, slotHeight * aspectRatio);
+    height = width / aspectRatio;
+  }
+
+  const placed: BannerAsset = {
+    ...asset,
+    position: { x: Math.round(slotX + (slotWidth - width) / 2), y: Math.round(slotY + (slotHeight - height) / 2) },
+    size: { width: Math.round(width), height: Math.round(height) },
+    rotation: slot.rotation,
+  };
+
+  if (asset.type !== 'text' && asset.type !== 'cta') return placed;
+
+  const fontScale = Math.min(scaleX, scaleY);
+  const scaleFont = (size?: number) => size === undefined ? undefined : Math.max(8, Math.round(size * fontScale));
+  Object.assign(placed, slot.style, {
+    fontSize: scaleFont(slot.style.fontSize) ?? asset.fontSize,
+    minFontSize: scaleFont(slot.style.minFontSize),
+    maxFontSize: scaleFont(slot.style.maxFontSize),
+  });
+
+  // Keep emphasis in styled runs, resized in proportion to the new base size
+  if (asset.fontSize && placed.fontSize) {
+    placed.runs = scaleRunFontSizes(asset.runs, placed.fontSize / asset.fontSize);
+  }
+
+  return placed;
+}
+
+/**
+ * Lay a composition's assets out with a template, scaling the template to the banner's canvas.
+ * Assets whose role has no slot (and groups) are left where they are.
+ */
+export function applyTemplate(composition: BannerComposition, template: BannerTemplate): BannerComposition {
+  const scaleX = composition.canvasSize.width / template.canvasSize.width;
+  const scaleY = composition.canvasSize.height / template.canvasSize.height;
+  const usedRoles = new Set<AssetRole>();
+
+  const assets = composition.assets.map(asset => {
+    if (asset.type === 'group') return asset;
+
+    const role = getAssetRole(asset);
+    const slot = template.slots.find(entry => entry.role === role);
+    if (!slot || usedRoles.has(role)) return asset;
+
+    usedRoles.add(role);
+    return applySlot({ ...asset, role }, slot, scaleX, scaleY);
+  });
+
+  return { ...composition, assets, lastModified: new Date() };
+}
+
+/**
+ * Small PNG of the composition for the template picker.
+ * Resolves with null when the canvas can't be encoded (cross-origin images).
+ */
+export async function renderTemplateThumbnail(composition: BannerComposition, images: CompositionImages): Promise<Blob | null> {
+  const scale = THUMBNAIL_WIDTH / composition.canvasSize.width;
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_WIDTH;
+  canvas.height = Math.round(composition.canvasSize.height * scale);
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  try {
+    await ensureCompositionFonts(composition);
+  } catch (error) {
+    console.warn('⚠️ Rendering template thumbnail with fallback fonts:', error);
+  }
+
+  ctx.scale(scale, scale);
+  renderComposition(composition, images, ctx);
+
+  return new Promise(resolve => {
+    try {
+      canvas.toBlob(blob => resolve(blob), 'image/png');
+    } catch (error) {
+      console.warn('⚠️ Template thumbnail could not be encoded:', error);
+      resolve(null);
+    }
+  });
+}
+
+/**
+ * Templates available to a partner: its own plus the shared ones, newest first
+ */
+export async function listBannerTemplates(partnerId?: string | null): Promise<BannerTemplate[]> {
+  let query = supabase
+    .from('banner_templates')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  query = partnerId
+    ? query.or(`partner_id.is.null,partner_id.eq.${partnerId}`)
+    : query.is('partner_id', null);
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching banner templates:', error);
+    throw new Error(`Failed to load templates: ${error.message}`);
+  }
+
+  return (data ?? []).map(rowToTemplate);
+}
+
+async function uploadTemplateThumbnail(templateId: string, blob: Blob): Promise<string | null> {
+  const { data, error } = await supabase.storage
+    .from('banners')
+    .upload(`templates/${templateId}.png`, blob, { contentType: 'image/png', upsert: true });
+
+  if (error) {
+    // The template still works; the picker draws its slots instead
+    console.warn('⚠️ Template thumbnail upload failed:', error);
+    return null;
+  }
+
+  return supabase.storage.from('banners').getPublicUrl(data.path).data.publicUrl;
+}
+
+/**
+ * Save the composition's layout as a named template, optionally only for one partner
+ */
+export async function saveBannerTemplate(
+  name: string,
+  composition: BannerComposition,
+  options: { partnerId?: string | null; thumbnail?: Blob | null } = {}
+): Promise<BannerTemplate> {
+  const slots = createTemplateSlots(composition);
+  if (slots.length === 0) {
+    throw new Error('The composition has no visible assets to save as a template');
+  }
+
+  const id = crypto.randomUUID();
+  const thumbnailUrl = options.thumbnail ? await uploadTemplateThumbnail(id, options.thumbnail) : null;
+
+  const insert: TemplateInsert = {
+    id,
+    name: name.trim(),
+    partner_id: options.partnerId ?? null,
+    canvas_width: composition.canvasSize.width,
+    canvas_height: composition.canvasSize.height,
+    slots: JSON.parse(JSON.stringify(slots)) as Json,
+    thumbnail_url: thumbnailUrl,
+  };
+
+  const { data, error } = await supabase
+    .from('banner_templates')
+    .insert(insert)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving banner template:', error);
+    throw new Error(`Failed to save template: ${error.message}`);
+  }
+
+  console.log('✅ Banner template saved:', data.id);
+  return rowToTemplate(data);
+}
+
+export async function deleteBannerTemplate(templateId: string): Promise<void> {
+  const { error } = await supabase
+    .from('banner_templates')
+    .delete()
+    .eq('id', templateId);
+
+  if (error) {
+    console.error('Error deleting banner template:', error);
+    throw new Error(`Failed to delete template: ${error.message}`);
+  }
+}
@@ -0,0 +1,142 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database, Json } from '@/integrations/supabase/types';
+import type { BannerComposition } from '@/types/banner-editor';
+import { BANNER_FORMATS, getBackgroundCoverage, relayoutComposition, type BannerFormatId } from './banner-formats';
+import { exportCompositionToBlob, uploadBannerExport } from './banner-export';
+import type { CompositionImages } from './composition-renderer';
+
+type BannerRow = Database['public']['Tables']['banners']['Row'];
+type BannerInsert = Database['public']['Tables']['banners']['Insert'];
+
+export interface BannerVariantResult {
+  format: BannerFormatId;
+  banner: BannerRow;
+  // Share of the source background still visible after the cover crop (see MIN_BACKGROUND_COVERAGE)
+  backgroundCoverage: number;
+}
+
+function toCompositionJson(composition: BannerComposition): Json {
+  return JSON.parse(JSON.stringify({
+    ...composition,
+    lastModified: composition.lastModified.toISOString()
+  }));
+}
+
+/**
+ * Create linked format variants of a banner from its current composition.
+ * Each variant is its own banners row sharing the source's variant_group_id;
+ * when images are provided the flattened variant is rendered and published as its image_url.
+ * Variants reuse the source background cover-cropped to their format; the result reports how
+ * much of it is left so callers can suggest regenerating it in the variant's editor.
+ */
+export async function createBannerVariants(
+  sourceBannerId: string,
+  composition: BannerComposition,
+  formats: BannerFormatId[],
+  images?: CompositionImages
+): Promise<BannerVariantResult[]> {
+  console.log('🧩 Creating banner variants:', { sourceBannerId, formats });
+
+  const { data: source, error: sourceError } = await supabase
+    .from('banners')
+    .select('*')
+    .eq('id', sourceBannerId)
+    .single();
+
+  if (sourceError || !source) {
+    throw new Error(`Failed to load source banner: ${sourceError?.message ?? 'not found'}`);
+  }
+
+  // The first variant turns the source banner into the head of a group
+  const groupId = source.variant_group_id ?? source.id;
+  if (!source.variant_group_id) {
+    const { error: groupError } = await supabase
+      .from('banners')
+      .update({ variant_group_id: groupId })
+      .eq('id', source.id);
+
+    if (groupError) {
+      throw new Error(`Failed to start variant group: ${groupError.message}`);
+    }
+  }
+
+  const results: BannerVariantResult[] = [];
+
+  for (const formatId of formats) {
+    const format = BANNER_FORMATS[formatId];
+    const variantId = crypto.randomUUID();
+    const variantComposition: BannerComposition = {
+      ...relayoutComposition(composition, formatId),
+      id: `composition_${variantId}`,
+      bannerId: variantId
+    };
+
+    const variantInsert: BannerInsert = {
+      id: variantId,
+      partner_id: source.partner_id,
+      image_type: formatId,
+      image_url: source.background_image_url || source.image_url,
+      background_image_url: source.background_image_url,
+      product_image_url: source.product_image_url,
+      prompt_used: source.prompt_used,
+      background_prompt: source.background_prompt,
+      product_prompt: source.product_prompt,
+      banner_title: `${source.banner_title || 'Banner'} (${format.label})`,
+      product_description: source.product_description,
+      main_text: source.main_text,
+      description_text: source.description_text,
+      cta_text: source.cta_text,
+      discount_percentage: source.discount_percentage,
+      composition_data: toCompositionJson(variantComposition),
+      variant_group_id: groupId
+    };
+
+    const { data: variant, error: insertError } = await supabase
+      .from('banners')
+      .insert(variantInsert)
+      .select()
+      .single();
+
+    if (insertError) {
+      console.error(`Error saving ${formatId} variant:`, insertError);
+      throw new Error(`Failed to save ${format.label} variant: ${insertError.message}`);
+    }
+
+    if (images) {
+      try {
+        const blob = await exportCompositionToBlob(variantComposition, images, { format: 'png', quality: 1, scale: 1 });
+        variant.image_url = await uploadBannerExport(variantId, blob, { format: 'png', quality: 1, scale: 1 });
+      } catch (exportError) {
+        // The variant is still editable; it just shows its background until exported from the editor
+        console.warn(`⚠️ Could not render ${formatId} variant image:`, exportError);
+      }
+    }
+
+    console.log(`✅ ${format.label} variant created:`, variant.id);
+    results.push({ format: formatId, banner: variant, backgroundCoverage: getBackgroundCoverage(composition.canvasSize, format) });
+  }
+
+  window.dispatchEvent(new CustomEvent('bannerSaved', {
+    detail: { bannerId: sourceBannerId, partnerId: source.partner_id }
+  }));
+
+  return results;
+}
+
+/**
+ * Get every banner in a variant group, oldest first
+ */
+export async function getBannerVariants(groupId: string): Promise<BannerRow[]> {
+  const { data, error } = await supabase
+    .from('banners')
+    .select('*')
+    .eq('variant_group_id', groupId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching banner variants:', error);
+    throw error;
+  }
+
+  return data || [];
+}
@@ -1,4 +1,5 @@
 import { supabase } from '@/integrations/supabase/client';
+import { getImageProxyUrl } from './cors-helper';
 
 /**
  * Simplified image upload that handles external URLs with better error handling
@@ -24,7 +25,7 @@ export async function uploadImageToStorageSimple(
       
       // Use the Vite dev server proxy to fetch the image
       try {
-        const proxyUrl = `/api/image-proxy?url=${encodeURIComponent(imageUrl)}`;
+        const proxyUrl = getImageProxyUrl(imageUrl);
         console.log('🔗 [SIMPLE] Using proxy URL:', proxyUrl);
         
         const response = await fetch(proxyUrl, {
@@ -78,7 +79,7 @@ export async function uploadImageToStorageSimple(
         
         // Try the Vite dev server proxy first, then fallback to external proxies
         const corsProxies = [
-          `/api/image-proxy?url=${encodeURIComponent(imageUrl)}`, // Our Vite proxy
+          getImageProxyUrl(imageUrl), // Our image proxy
           `https://api.allorigins.win/raw?url=${encodeURIComponent(imageUrl)}`,
           `https://corsproxy.io/?${encodeURIComponent(imageUrl)}`,
           `https://proxy.cors.sh/${imageUrl}`
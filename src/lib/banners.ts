@@ -391,6 +391,10 @@ export async function getBanners(partnerId?: string): Promise<any[]> {
         mobile_url: banner.image_url, // Same image for both
         image_url: banner.image_url,  // Keep original field too
         image_type: banner.image_type,
+        // 3-layer sources and saved editor composition for previews
+        background_image_url: banner.background_image_url,
+        product_image_url: banner.product_image_url,
+        composition_data: banner.composition_data,
         // Enhanced banner metadata
         isEnhanced: true
       });
@@ -0,0 +1,231 @@
+import type { Partner } from '@/hooks/usePartners';
+import { loadPartnerBrandKit } from './brand-kit';
+import { createEnhancedBanner, resumeEnhancedBanner, type BannerCreationResult } from './enhanced-banner-service';
+import { fetchProductImageFile } from './product-photos-service';
+import type { GenerationEventHandler } from './generation-progress';
+import type { ImageProviderId } from './image-generation';
+import type { SpreadsheetRow } from './spreadsheet';
+
+/**
+ * Batch banner generation from a spreadsheet of campaigns.
+ * Each row becomes a job (partner, product photo, copy, discount) that runs the same
+ * enhanced workflow as the single-banner form, a few at a time so Flux isn't flooded.
+ */
+
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+
+export type BatchJobStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface BatchRow {
+  // 1-based data row (the header is row 0)
+  rowNumber: number;
+  partnerId: string;
+  partnerName: string;
+  productImageUrl: string;
+  mainText: string;
+  descriptionText: string;
+  ctaText: string;
+  discountPercentage?: number;
+}
+
+export interface BatchJob {
+  id: string;
+  row: BatchRow | null;
+  // Raw values, shown for rows that couldn't be parsed
+  source: SpreadsheetRow;
+  rowNumber: number;
+  status: BatchJobStatus;
+  progress: number;
+  statusText: string;
+  error?: string;
+  bannerId?: string;
+  // Generation job of the last run, resumed on retry instead of starting over
+  generationJobId?: string;
+}
+
+type BatchColumn = 'partner' | 'productPhoto' | 'mainText' | 'descriptionText' | 'ctaText' | 'discountPercentage';
+
+// Accepted header names (compared lowercase, without accents, spaces or underscores).
+// Rows have no product name, so a "producto" column is always read as the product photo.
+const COLUMN_ALIASES: Record<BatchColumn, string[]> = {
+  partner: ['partner', 'socio', 'partnername', 'partnerid'],
+  productPhoto: ['productphoto', 'productphotourl', 'productimage', 'fotoproducto', 'foto', 'producto'],
+  mainText: ['maintext', 'titulo', 'title', 'textoprincipal'],
+  descriptionText: ['description', 'descriptiontext', 'descripcion'],
+  ctaText: ['cta', 'ctatext', 'boton'],
+  discountPercentage: ['discount', 'discountpercentage', 'descuento'],
+};
+
+export const BATCH_TEMPLATE_HEADERS = ['partner', 'product_photo', 'main_text', 'description', 'cta', 'discount'];
+
+function normalizeHeader(header: string): string {
+  return header.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[\s_-]+/g, '');
+}
+
+function getCell(source: SpreadsheetRow, column: BatchColumn): string {
+  const key = Object.keys(source).find(header => COLUMN_ALIASES[column].includes(normalizeHeader(header)));
+  return key ? source[key].trim() : '';
+}
+
+/**
+ * Resolve the product photo column: a URL, the 1-based number of one of the partner's
+ * existing product photos, or the file name of one of them
+ */
+function resolveProductPhoto(value: string, partner: Partner): string | null {
+  if (/^https?:\/\//i.test(value)) return value;
+
+  const photos = partner.product_photos_urls ?? [];
+  if (!value) return photos.length === 1 ? photos[0] : null;
+
+  const index = Number(value);
+  if (Number.isInteger(index) && index >= 1 && index <= photos.length) return photos[index - 1];
+
+  const fileName = value.toLowerCase();
+  return photos.find(url => decodeURIComponent(url.split('/').pop()?.split('?')[0] ?? '').toLowerCase() === fileName) ?? null;
+}
+
+function parseBatchRow(source: SpreadsheetRow, rowNumber: number, partners: Partner[]): BatchRow {
+  const partnerValue = getCell(source, 'partner');
+  const partner = partners.find(entry =>
+    entry.id === partnerValue || entry.name.trim().toLowerCase() === partnerValue.toLowerCase()
+  );
+  if (!partnerValue) throw new Error('Missing partner');
+  if (!partner) throw new Error(`Unknown partner "${partnerValue}"`);
+
+  const productPhoto = getCell(source, 'productPhoto');
+  const productImageUrl = resolveProductPhoto(productPhoto, partner);
+  if (!productImageUrl) {
+    throw new Error(`Product photo${productPhoto ? ` "${productPhoto}"` : ''} must be a URL or one of the partner's photos (number or file name)`);
+  }
+
+  const mainText = getCell(source, 'mainText');
+  const descriptionText = getCell(source, 'descriptionText');
+  const ctaText = getCell(source, 'ctaText');
+  if (!mainText) throw new Error('Missing main text');
+  if (!descriptionText) throw new Error('Missing description');
+  if (!ctaText) throw new Error('Missing CTA');
+
+  const discountCell = getCell(source, 'discountPercentage');
+  const discountValue = discountCell.replace('%', '').replace(',', '.');
+  const discountPercentage = discountValue ? Number(discountValue) : undefined;
+  if (discountPercentage !== undefined && (!Number.isFinite(discountPercentage) || discountPercentage < 0 || discountPercentage > 100)) {
+    throw new Error(`Invalid discount "${discountValue}"`);
+  }
+  // 0.3 is what a 30% cell holds once its format is lost (CSV exports, pasted values)
+  if (discountPercentage !== undefined && discountPercentage > 0 && discountPercentage < 1 && !discountCell.includes('%')) {
+    throw new Error(`Discount "${discountCell}" looks like a fraction; write the percentage (e.g. 30 for 30%)`);
+  }
+
+  return {
+    rowNumber,
+    partnerId: partner.id,
+    partnerName: partner.name,
+    productImageUrl,
+    mainText,
+    descriptionText,
+    ctaText,
+    discountPercentage,
+  };
+}
+
+/**
+ * One job per spreadsheet row; rows that can't be used start as failed with the reason
+ */
+export function createBatchJobs(rows: SpreadsheetRow[], partners: Partner[]): BatchJob[] {
+  return rows.map((source, index) => {
+    const rowNumber = index + 1;
+    const base = { id: `batch_${Date.now()}_${rowNumber}`, source, rowNumber, progress: 0, statusText: '' };
+
+    try {
+      return { ...base, row: parseBatchRow(source, rowNumber, partners), status: 'pending' as const };
+    } catch (error) {
+      return { ...base, row: null, status: 'failed' as const, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+}
+
+/**
+ * Download a row's product photo. The browser can only read photos from hosts that allow it (CORS),
+ * like the app's own storage, and the image proxy only serves the AI providers' hosts; other hosts
+ * fail with the reason instead of a bare network error.
+ */
+async function fetchRowProductImage(url: string): Promise<File> {
+  try {
+    return await fetchProductImageFile(url);
+  } catch (error) {
+    // fetch rejects with a TypeError on network and CORS failures
+    if (error instanceof TypeError) {
+      throw new Error(`Could not download the product photo from ${new URL(url).hostname}; the site doesn't allow it. Add the photo to the partner and use its number or file name instead`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Generate the banner for one row, or resume its generation job when retrying (on the engine it started with).
+ * Runs quietly: the batch reports its rows itself instead of one toast per banner.
+ */
+export async function runBatchRow(
+  row: BatchRow,
+  partner: Partner,
+  options: {
+    generationJobId?: string;
+    onJobCreated?: (jobId: string) => void;
+    onEvent?: GenerationEventHandler;
+    imageProvider?: ImageProviderId;
+  } = {}
+): Promise<BannerCreationResult> {
+  const { generationJobId, onJobCreated, onEvent, imageProvider } = options;
+  if (generationJobId) {
+    return resumeEnhancedBanner(generationJobId, onEvent, { quiet: true });
+  }
+
+  onEvent?.({ type: 'preparing', task: 'photo' });
+  const productImageFile = await fetchRowProductImage(row.productImageUrl);
+
+  const brandKit = await loadPartnerBrandKit(partner).catch(error => {
+    console.warn('⚠️ Generating without brand kit:', error);
+    return null;
+  });
+
+  return createEnhancedBanner({
+    partnerId: partner.id,
+    partnerName: partner.name,
+    productImageFile,
+    mainText: row.mainText,
+    descriptionText: row.descriptionText,
+    ctaText: row.ctaText,
+    discountPercentage: row.discountPercentage,
+    styleAnalysis: partner.reference_style_analysis,
+    brandKit,
+    imageProvider,
+  }, onEvent, { onJobCreated, quiet: true });
+}
+
+/**
+ * Run tasks with at most `concurrency` in flight; each task handles its own errors
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  task: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const workers = Array.from({ length: Math.min(concurrency, items.length) }, async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      await task(item);
+    }
+  });
+  await Promise.all(workers);
+}
+
+/**
+ * CSV with the expected headers and one example row
+ */
+export function getBatchTemplateCsv(): string {
+  return [
+    BATCH_TEMPLATE_HEADERS.join(','),
+    'Mi Partner,https://example.com/producto.jpg,Hasta 30% OFF,En toda la tienda online,Comprar ahora,30',
+  ].join('\n');
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import type { BannerAsset, BannerComposition } from '@/types/banner-editor';
+import { checkBrandCompliance, type ComplianceViolation } from './brand-compliance';
+import { validateBrandKit } from './brand-kit';
+
+const kit = validateBrandKit({
+  palette: [{ role: 'primary', hex: '#8A47F5' }, { role: 'cta', hex: '#00AA55' }],
+  clearSpace: { logoRatio: 0.5, safeMargin: 24, minLogoHeight: 40 },
+  forbiddenColors: ['#FF0000', '#000000'],
+});
+
+const asset = (id: string, overrides: Partial<BannerAsset>): BannerAsset => ({
+  id,
+  type: 'text',
+  position: { x: 100, y: 100 },
+  size: { width: 300, height: 60 },
+  rotation: 0,
+  text: 'Hasta 30% OFF',
+  fontSize: 16,
+  color: '#8A47F5',
+  ...overrides,
+});
+
+const composition = (assets: BannerAsset[]): BannerComposition => ({
+  id: 'composition',
+  bannerId: 'banner',
+  backgroundImageUrl: '',
+  assets,
+  canvasSize: { width: 1440, height: 352 },
+  zoom: 1,
+  lastModified: new Date(0),
+});
+
+const summarize = (violations: ComplianceViolation[]) =>
+  violations.map(({ rule, severity, assetId, color }) => [rule, severity, assetId, color].filter(Boolean).join(' '));
+
+describe('checkBrandCompliance', () => {
+  it('flags forbidden and off-palette colors, per run, but lets neutrals through', () => {
+    const report = checkBrandCompliance(composition([
+      asset('forbidden', { runs: [{ text: 'Hasta ' }, { text: '30%', color: '#f00' }] }),
+      asset('off-palette', { color: '#123456', position: { x: 500, y: 100 } }),
+      asset('neutral', { color: '#FAFAFA', position: { x: 900, y: 100 } }),
+    ]), kit);
+
+    expect(summarize(report.violations)).toEqual(['forbidden-color error forbidden #FF0000', 'off-palette-color warning off-palette #123456']);
+    expect(report).toMatchObject({ errorCount: 1, warningCount: 1 });
+  });
+
+  it('checks CTA copy against its button with the large text threshold', () => {
+    const button = { type: 'cta' as const, backgroundColor: '#FFFFFF', text: 'Comprar' };
+    const report = checkBrandCompliance(composition([
+      asset('normal-grey', { ...button, color: '#777777' }),
+      asset('large-grey', { ...button, color: '#777777', fontSize: 24, position: { x: 500, y: 100 } }),
+      asset('pale', { ...button, color: '#CCCCCC', position: { x: 900, y: 100 } }),
+    ]), null);
+
+    expect(report.violations).toEqual([
+      expect.objectContaining({ rule: 'low-contrast', severity: 'warning', assetId: 'normal-grey', contrast: 4.48, requiredContrast: 4.5 }),
+      expect.objectContaining({ rule: 'low-contrast', severity: 'error', assetId: 'pale', contrast: 1.61, requiredContrast: 4.5 }),
+    ]);
+  });
+
+  it('samples the background beneath plain text, and skips contrast without a sampler', () => {
+    const text = asset('title', { color: '#8A47F5' });
+
+    const onPurple = checkBrandCompliance(composition([text]), kit, { sampleBackground: () => ({ r: 120, g: 60, b: 230 }) });
+    expect(summarize(onPurple.violations)).toEqual(['low-contrast error title #8A47F5']);
+
+    expect(checkBrandCompliance(composition([text]), kit).violations).toEqual([]);
+  });
+
+  it('checks logo size and clear space against grouped assets in canvas coordinates', () => {
+    const logo = asset('logo', { type: 'logo', text: undefined, position: { x: 100, y: 100 }, size: { width: 90, height: 30 } });
+    const group = asset('copy-group', {
+      type: 'group',
+      text: undefined,
+      position: { x: 200, y: 100 },
+      size: { width: 400, height: 100 },
+      children: [asset('near-logo', { position: { x: 0, y: 0 } }), asset('far-away', { position: { x: 300, y: 0 } })],
+    });
+
+    const report = checkBrandCompliance(composition([logo, group]), kit);
+
+    expect(report.violations).toEqual([
+      expect.objectContaining({ rule: 'logo-too-small', assetId: 'logo', minLogoHeight: 40 }),
+      expect.objectContaining({ rule: 'logo-clear-space', assetId: 'logo', otherLayerId: 'copy-group', id: 'logo-clear-space:logo:near-logo' }),
+    ]);
+  });
+
+  it('warns about visible assets inside the safe margin only', () => {
+    const report = checkBrandCompliance(composition([
+      asset('edge', { position: { x: 10, y: 100 } }),
+      asset('hidden-edge', { position: { x: 10, y: 200 }, hidden: true }),
+      asset('inside', { position: { x: 24, y: 268 } }),
+    ]), kit);
+
+    expect(summarize(report.violations)).toEqual(['outside-safe-area warning edge']);
+  });
+});
@@ -0,0 +1,229 @@
+import type { BannerAsset, BannerComposition } from '@/types/banner-editor';
+import type { Bounds } from './asset-arrangement';
+import type { BrandKit } from './brand-kit';
+import { getAssetRuns } from './text-runs';
+import {
+  WCAG_AA_LARGE_TEXT, WCAG_AA_NORMAL_TEXT, contrastRatio, isLargeText, parseHexColor, rgbToHex,
+  type BackgroundSampler, type RGB
+} from './color-contrast';
+
+/**
+ * Brand compliance rules for compositions.
+ * Each rule inspects the visible assets (group children in canvas coordinates) against the
+ * partner's brand kit and reports violations; the editor lists them and can block export on errors.
+ */
+
+export type ComplianceRule =
+  | 'forbidden-color'
+  | 'off-palette-color'
+  | 'low-contrast'
+  | 'logo-too-small'
+  | 'logo-clear-space'
+  | 'outside-safe-area';
+
+export type ComplianceSeverity = 'error' | 'warning';
+
+export interface ComplianceViolation {
+  // Stable key for lists: rule, asset and (when relevant) the color or other asset involved
+  id: string;
+  rule: ComplianceRule;
+  severity: ComplianceSeverity;
+  assetId: string;
+  // Top-level layer holding the asset (its group when nested), the one the editor can select
+  layerId: string;
+  color?: string;
+  contrast?: number;
+  requiredContrast?: number;
+  otherLayerId?: string;
+  minLogoHeight?: number;
+}
+
+export interface ComplianceReport {
+  violations: ComplianceViolation[];
+  errorCount: number;
+  warningCount: number;
+}
+
+interface ComplianceOptions {
+  // Average background color beneath a region; contrast of plain text is skipped without it
+  sampleBackground?: BackgroundSampler | null;
+}
+
+// Near-black and near-white text is always allowed, even when the palette doesn't list it
+const NEUTRAL_TOLERANCE = 32;
+
+function isNeutralColor(color: RGB): boolean {
+  const channels = [color.r, color.g, color.b];
+  const spread = Math.max(...channels) - Math.min(...channels);
+  return spread <= NEUTRAL_TOLERANCE && (Math.max(...channels) <= NEUTRAL_TOLERANCE || Math.min(...channels) >= 255 - NEUTRAL_TOLERANCE);
+}
+
+interface CheckedAsset {
+  asset: BannerAsset;
+  layerId: string;
+}
+
+/**
+ * Visible assets with group children moved into canvas coordinates
+ */
+function flattenVisibleAssets(assets: BannerAsset[], layerId?: string, offsetX: number = 0, offsetY: number = 0): CheckedAsset[] {
+  return assets.flatMap(asset => {
+    if (asset.hidden) return [];
+
+    const position = { x: asset.position.x + offsetX, y: asset.position.y + offsetY };
+    if (asset.type === 'group') {
+      return flattenVisibleAssets(asset.children ?? [], layerId ?? asset.id, position.x, position.y);
+    }
+    return [{ asset: { ...asset, position }, layerId: layerId ?? asset.id }];
+  });
+}
+
+function getBounds(asset: BannerAsset): Bounds {
+  return { x: asset.position.x, y: asset.position.y, width: asset.size.width, height: asset.size.height };
+}
+
+function intersects(a: Bounds, b: Bounds): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+/**
+ * Text and CTA colors (per run) with the font size and weight they're drawn at
+ */
+function getTextColorUses(asset: BannerAsset): { color: string; fontSize: number; bold: boolean }[] {
+  return getAssetRuns(asset).map(run => ({
+    color: (run.color ?? asset.color ?? '#000000').toUpperCase(),
+    fontSize: run.fontSize ?? asset.fontSize ?? 16,
+    bold: run.bold ?? asset.fontWeight === 'bold',
+  }));
+}
+
+function checkColors({ asset, layerId }: CheckedAsset, kit: BrandKit): ComplianceViolation[] {
+  const palette = kit.palette.map(color => color.hex);
+  const colors = new Set(getTextColorUses(asset).map(use => use.color));
+  if (asset.type === 'cta' && asset.backgroundColor) {
+    colors.add(asset.backgroundColor.toUpperCase());
+  }
+
+  return Array.from(colors).flatMap((color): ComplianceViolation[] => {
+    const rgb = parseHexColor(color);
+    if (!rgb) return [];
+    const hex = rgbToHex(rgb);
+
+    if (kit.forbiddenColors.includes(hex)) {
+      return [{ id: `forbidden-color:${asset.id}:${hex}`, rule: 'forbidden-color', severity: 'error', assetId: asset.id, layerId, color: hex }];
+    }
+    if (!palette.includes(hex) && !isNeutralColor(rgb)) {
+      return [{ id: `off-palette-color:${asset.id}:${hex}`, rule: 'off-palette-color', severity: 'warning', assetId: asset.id, layerId, color: hex }];
+    }
+    return [];
+  });
+}
+
+function checkContrast({ asset, layerId }: CheckedAsset, sampleBackground?: BackgroundSampler | null): ComplianceViolation[] {
+  // CTA copy sits on the button; plain text sits on the banner background
+  const backdrop = asset.type === 'cta' && asset.backgroundColor
+    ? parseHexColor(asset.backgroundColor)
+    : sampleBackground?.(getBounds(asset)) ?? null;
+  if (!backdrop) return [];
+
+  const worst = getTextColorUses(asset)
+    .map(use => {
+      const rgb = parseHexColor(use.color);
+      const required = isLargeText(use.fontSize, use.bold) ? WCAG_AA_LARGE_TEXT : WCAG_AA_NORMAL_TEXT;
+      return rgb ? { color: use.color, contrast: contrastRatio(rgb, backdrop), required } : null;
+    })
+    .filter((use): use is { color: string; contrast: number; required: number } => use !== null && use.contrast < use.required)
+    .sort((a, b) => a.contrast / a.required - b.contrast / b.required)[0];
+
+  if (!worst) return [];
+
+  return [{
+    id: `low-contrast:${asset.id}`,
+    rule: 'low-contrast',
+    // Below the large-text minimum is unreadable for anyone; between the two is a warning
+    severity: worst.contrast < WCAG_AA_LARGE_TEXT ? 'error' : 'warning',
+    assetId: asset.id,
+    layerId,
+    color: worst.color,
+    contrast: Math.round(worst.contrast * 100) / 100,
+    requiredContrast: worst.required,
+  }];
+}
+
+function checkLogo({ asset: logo, layerId }: CheckedAsset, assets: CheckedAsset[], kit: BrandKit | null): ComplianceViolation[] {
+  const violations: ComplianceViolation[] = [];
+  const minLogoHeight = kit?.clearSpace.minLogoHeight ?? 0;
+
+  if (logo.size.height < minLogoHeight) {
+    violations.push({ id: `logo-too-small:${logo.id}`, rule: 'logo-too-small', severity: 'error', assetId: logo.id, layerId, minLogoHeight });
+  }
+
+  const clearance = logo.size.height * (kit?.clearSpace.logoRatio ?? 0);
+  const clearZone = {
+    x: logo.position.x - clearance,
+    y: logo.position.y - clearance,
+    width: logo.size.width + clearance * 2,
+    height: logo.size.height + clearance * 2,
+  };
+
+  assets
+    .filter(({ asset: other }) => other.id !== logo.id && intersects(clearZone, getBounds(other)))
+    .forEach(other => {
+      violations.push({
+        id: `logo-clear-space:${logo.id}:${other.asset.id}`,
+        rule: 'logo-clear-space',
+        severity: 'warning',
+        assetId: logo.id,
+        layerId,
+        otherLayerId: other.layerId,
+      });
+    });
+
+  return violations;
+}
+
+function checkSafeArea({ asset, layerId }: CheckedAsset, canvasSize: BannerComposition['canvasSize'], margin: number): ComplianceViolation[] {
+  const { x, y, width, height } = getBounds(asset);
+  const isInside =
+    x >= margin &&
+    y >= margin &&
+    x + width <= canvasSize.width - margin &&
+    y + height <= canvasSize.height - margin;
+
+  return isInside ? [] : [{ id: `outside-safe-area:${asset.id}`, rule: 'outside-safe-area', severity: 'warning', assetId: asset.id, layerId }];
+}
+
+/**
+ * Check a composition against the partner's brand kit. Without a kit only contrast,
+ * logo overlap and canvas bounds are checked.
+ */
+export function checkBrandCompliance(
+  composition: BannerComposition,
+  kit: BrandKit | null,
+  options: ComplianceOptions = {}
+): ComplianceReport {
+  const assets = flattenVisibleAssets(composition.assets ?? []);
+  const safeMargin = kit?.clearSpace.safeMargin ?? 0;
+
+  const violations = assets.flatMap(checked => {
+    const { asset } = checked;
+    const results: ComplianceViolation[] = [];
+
+    if ((asset.type === 'text' || asset.type === 'cta') && asset.text) {
+      if (kit) results.push(...checkColors(checked, kit));
+      results.push(...checkContrast(checked, options.sampleBackground));
+    }
+    if (asset.type === 'logo') {
+      results.push(...checkLogo(checked, assets, kit));
+    }
+    results.push(...checkSafeArea(checked, composition.canvasSize, safeMargin));
+
+    return results;
+  });
+
+  return {
+    violations,
+    errorCount: violations.filter(violation => violation.severity === 'error').length,
+    warningCount: violations.filter(violation => violation.severity === 'warning').length,
+  };
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { brandKitToCsv, parseBrandKitCsv, validateBrandKit } from './brand-kit';
+
+const kit = validateBrandKit({
+  palette: [
+    { role: 'primary', hex: '#8A47F5' },
+    { role: 'secondary', hex: '#F5A623' },
+    { role: 'cta', hex: '#00AA55' },
+  ],
+  fonts: [{ role: 'primary', family: 'Montserrat, "Helvetica Neue"', weights: [400, 700] }],
+  logos: [{ variant: 'light', url: 'https://example.com/logo-light.png' }],
+  clearSpace: { logoRatio: 0.5, safeMargin: 24, minLogoHeight: 40 },
+  forbiddenColors: ['#FF0000', '#000000'],
+  toneOfVoice: 'Cercano y directo.\nTuteamos al cliente, sin "jerga" técnica,\ny con frases cortas.',
+});
+
+describe('brand kit CSV', () => {
+  it('round-trips an exported manual, multi-line tone of voice included', () => {
+    const { kit: imported, warnings } = parseBrandKitCsv(brandKitToCsv(kit));
+
+    expect(warnings).toEqual([]);
+    expect(imported).toEqual(kit);
+  });
+
+  it('reads quoted cells spanning lines in hand-written manuals', () => {
+    const csv = [
+      'Field,Value,Instructions',
+      'Main Color,#8a47f5,',
+      'Tone Of Voice,"Line one,',
+      'line two",Copywriting notes',
+      'Forbidden Colors,#f00;#000,',
+    ].join('\r\n');
+
+    const { kit: imported, warnings } = parseBrandKitCsv(csv);
+
+    expect(warnings).toEqual([]);
+    expect(imported.toneOfVoice).toBe('Line one,\r\nline two');
+    expect(imported.forbiddenColors).toEqual(['#FF0000', '#000000']);
+  });
+});
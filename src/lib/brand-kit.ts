@@ -0,0 +1,432 @@
+import { z } from 'zod';
+import { parseCsv } from './spreadsheet';
+import { readZipEntries } from './zip-reader';
+
+/**
+ * Partner brand kit: palette with named roles, fonts with weights, logo variants,
+ * clear-space rules, forbidden colors and tone-of-voice notes.
+ * Imported from JSON, the "Field,Value" CSV brand manual or a ZIP bundling either one with
+ * logo and font files; validated with zod and stored on the partner as `brand_kit`.
+ */
+
+export const BRAND_COLOR_ROLES = ['primary', 'secondary', 'accent', 'background', 'text', 'cta'] as const;
+export const BRAND_FONT_ROLES = ['primary', 'secondary'] as const;
+export const LOGO_VARIANTS = ['light', 'dark', 'mono'] as const;
+
+export type BrandColorRole = typeof BRAND_COLOR_ROLES[number];
+export type BrandFontRole = typeof BRAND_FONT_ROLES[number];
+export type LogoVariant = typeof LOGO_VARIANTS[number];
+
+/**
+ * Uppercase 6-digit hex with a leading #, e.g. "8a4" → "#88AA44"
+ */
+export function normalizeHexColor(value: string): string {
+  const hex = value.trim().replace(/^#/, '');
+  const full = hex.length === 3 ? hex.split('').map(char => char + char).join('') : hex;
+  return `#${full.toUpperCase()}`;
+}
+
+const hexColorSchema = z.string()
+  .trim()
+  .regex(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i, 'Expected a hex color like #8A47F5')
+  .transform(normalizeHexColor);
+
+const paletteColorSchema = z.object({
+  role: z.enum(BRAND_COLOR_ROLES),
+  hex: hexColorSchema,
+  name: z.string().trim().min(1).optional(),
+});
+
+const brandKitFontSchema = z.object({
+  role: z.enum(BRAND_FONT_ROLES),
+  family: z.string().trim().min(1, 'Font family is required'),
+  weights: z.array(z.coerce.number().int().min(100).max(900)).min(1).default([400, 700]),
+});
+
+// `light` is the light-colored logo (for dark backgrounds), `dark` the one for light backgrounds,
+// `mono` a single-color version used when neither contrasts well enough.
+// `url` may point at a file inside an imported ZIP until the partner is saved.
+const logoVariantSchema = z.object({
+  variant: z.enum(LOGO_VARIANTS),
+  url: z.string().trim().min(1, 'Logo URL or file path is required'),
+});
+
+const clearSpaceSchema = z.object({
+  // Free space required around the logo, as a fraction of the logo height
+  logoRatio: z.coerce.number().min(0).max(2).default(0),
+  // Minimum distance in px between any element and the banner edge
+  safeMargin: z.coerce.number().min(0).max(500).default(0),
+  // Smallest logo height in px allowed on a banner
+  minLogoHeight: z.coerce.number().min(0).max(1000).default(32),
+});
+
+function findDuplicates(values: string[]): string[] {
+  return values.filter((value, index) => values.indexOf(value) !== index);
+}
+
+export const brandKitSchema = z.object({
+  version: z.literal(1).default(1),
+  palette: z.array(paletteColorSchema).min(1, 'The palette needs at least one color'),
+  fonts: z.array(brandKitFontSchema).default([]),
+  logos: z.array(logoVariantSchema).default([]),
+  clearSpace: clearSpaceSchema.default({}),
+  forbiddenColors: z.array(hexColorSchema).default([]),
+  toneOfVoice: z.string().trim().default(''),
+}).superRefine((kit, ctx) => {
+  if (!kit.palette.some(color => color.role === 'primary')) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['palette'], message: 'The palette needs a primary color' });
+  }
+
+  findDuplicates(kit.palette.map(color => color.role)).forEach(role => {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['palette'], message: `Color role "${role}" is defined more than once` });
+  });
+  findDuplicates(kit.fonts.map(font => font.role)).forEach(role => {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['fonts'], message: `Font role "${role}" is defined more than once` });
+  });
+  findDuplicates(kit.logos.map(logo => logo.variant)).forEach(variant => {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['logos'], message: `Logo variant "${variant}" is defined more than once` });
+  });
+
+  kit.palette
+    .filter(color => kit.forbiddenColors.includes(color.hex))
+    .forEach(color => {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['forbiddenColors'],
+        message: `${color.hex} is both a ${color.role} palette color and forbidden`,
+      });
+    });
+});
+
+export type BrandKit = z.infer<typeof brandKitSchema>;
+export type BrandKitColor = BrandKit['palette'][number];
+export type BrandKitFont = BrandKit['fonts'][number];
+export type BrandKitLogo = BrandKit['logos'][number];
+
+export interface BrandKitImport {
+  kit: BrandKit;
+  // Files bundled in a ZIP (logos, fonts), keyed by their path in the archive
+  files: Record<string, File>;
+  // Fields that were recognised but ignored, or unknown CSV rows
+  warnings: string[];
+}
+
+// Flat view of the kit used by the editor toolbars and the partner form inputs
+export interface BrandGuidelines {
+  mainColor: string;
+  secondaryColor: string;
+  fontPrimary: string;
+  fontSecondary: string;
+}
+
+export const DEFAULT_BRAND_GUIDELINES: BrandGuidelines = {
+  mainColor: '#8A47F5',
+  secondaryColor: '#E9DEFF',
+  fontPrimary: 'DM Sans',
+  fontSecondary: 'Arial',
+};
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ');
+}
+
+/**
+ * Validate raw data against the brand kit schema, throwing a readable error
+ */
+export function validateBrandKit(data: unknown): BrandKit {
+  const result = brandKitSchema.safeParse(data);
+  if (!result.success) {
+    throw new Error(`Invalid brand kit: ${formatIssues(result.error)}`);
+  }
+  return result.data;
+}
+
+/**
+ * Brand kit stored on a partner row, or undefined when missing or no longer valid
+ */
+export function parseStoredBrandKit(value: unknown): BrandKit | undefined {
+  if (!value) return undefined;
+  const result = brandKitSchema.safeParse(value);
+  if (!result.success) {
+    console.warn('⚠️ Ignoring invalid stored brand kit:', formatIssues(result.error));
+    return undefined;
+  }
+  return result.data;
+}
+
+export function parseBrandKitJson(text: string): BrandKit {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Brand kit JSON could not be parsed: ${error instanceof Error ? error.message : error}`);
+  }
+  return validateBrandKit(data);
+}
+
+function escapeCsvCell(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function splitList(value: string): string[] {
+  return value.split(/[;|]/).map(item => item.trim()).filter(Boolean);
+}
+
+interface BrandKitDraft {
+  palette: { role: string; hex: string }[];
+  fonts: { role: string; family?: string; weights?: string[] }[];
+  logos: { variant: string; url: string }[];
+  clearSpace: { logoRatio?: string; safeMargin?: string; minLogoHeight?: string };
+  forbiddenColors: string[];
+  toneOfVoice?: string;
+}
+
+// Field names from the original four-key manual, kept so existing partners still import
+const LEGACY_CSV_FIELDS: Record<string, string> = {
+  'main color': 'color primary',
+  'secondary color': 'color secondary',
+};
+
+function getDraftFont(draft: BrandKitDraft, role: string) {
+  let font = draft.fonts.find(entry => entry.role === role);
+  if (!font) {
+    font = { role };
+    draft.fonts.push(font);
+  }
+  return font;
+}
+
+/**
+ * Parse a "Field,Value[,Instructions]" brand manual. Recognised fields:
+ * Color <role>, Font <role>, Font <role> Weights, Logo Light/Dark/Mono, Logo Clear Space,
+ * Safe Margin, Min Logo Height, Forbidden Colors (separated by ;) and Tone Of Voice.
+ */
+export function parseBrandKitCsv(text: string): { kit: BrandKit; warnings: string[] } {
+  const draft: BrandKitDraft = { palette: [], fonts: [], logos: [], clearSpace: {}, forbiddenColors: [] };
+  const warnings: string[] = [];
+
+  // Always comma-separated: values such as forbidden colors are lists separated by ;
+  parseCsv(text, ',').forEach((cells, index) => {
+    const [rawField = '', value = ''] = cells.map(cell => cell.trim());
+    const normalized = rawField.toLowerCase().replace(/\s+/g, ' ').trim();
+    const field = LEGACY_CSV_FIELDS[normalized] ?? normalized;
+    if (index === 0 && field === 'field') return;
+    if (!value) return;
+
+    const colorMatch = field.match(/^colou?r (\w+)$/);
+    const fontMatch = field.match(/^font (\w+)( weights)?$/);
+    const logoMatch = field.match(/^logo (light|dark|mono)$/);
+
+    if (colorMatch) {
+      draft.palette.push({ role: colorMatch[1], hex: value });
+    } else if (fontMatch) {
+      const font = getDraftFont(draft, fontMatch[1]);
+      if (fontMatch[2]) {
+        font.weights = splitList(value);
+      } else {
+        font.family = value;
+      }
+    } else if (logoMatch) {
+      draft.logos.push({ variant: logoMatch[1], url: value });
+    } else if (field === 'logo clear space') {
+      draft.clearSpace.logoRatio = value;
+    } else if (field === 'safe margin') {
+      draft.clearSpace.safeMargin = value;
+    } else if (field === 'min logo height') {
+      draft.clearSpace.minLogoHeight = value;
+    } else if (field === 'forbidden colors' || field === 'forbidden colours') {
+      draft.forbiddenColors.push(...splitList(value));
+    } else if (field === 'tone of voice') {
+      draft.toneOfVoice = value;
+    } else {
+      warnings.push(`Unknown field "${rawField}" on row ${index + 1}`);
+    }
+  });
+
+  return { kit: validateBrandKit(draft), warnings };
+}
+
+const LOGO_VARIANT_CSV_NOTES: Record<LogoVariant, string> = {
+  light: 'Logo for dark backgrounds',
+  dark: 'Logo for light backgrounds',
+  mono: 'Single-color logo',
+};
+
+/**
+ * Serialize a kit as the CSV brand manual (primary/secondary keep their legacy field names)
+ */
+export function brandKitToCsv(kit: BrandKit): string {
+  const rows: [string, string, string][] = [['Field', 'Value', 'Instructions']];
+
+  kit.palette.forEach(color => {
+    const field = color.role === 'primary' ? 'Main Color'
+      : color.role === 'secondary' ? 'Secondary Color'
+      : `Color ${color.role.charAt(0).toUpperCase()}${color.role.slice(1)}`;
+    rows.push([field, color.hex, `${color.name ?? color.role} brand color (hex format)`]);
+  });
+  kit.fonts.forEach(font => {
+    const role = `${font.role.charAt(0).toUpperCase()}${font.role.slice(1)}`;
+    rows.push([`Font ${role}`, font.family, `${role} font family`]);
+    rows.push([`Font ${role} Weights`, font.weights.join(';'), 'Allowed weights separated by ;']);
+  });
+  kit.logos.forEach(logo => {
+    rows.push([`Logo ${logo.variant.charAt(0).toUpperCase()}${logo.variant.slice(1)}`, logo.url, LOGO_VARIANT_CSV_NOTES[logo.variant]]);
+  });
+  rows.push(['Logo Clear Space', String(kit.clearSpace.logoRatio), 'Free space around the logo as a fraction of its height']);
+  rows.push(['Safe Margin', String(kit.clearSpace.safeMargin), 'Minimum distance from the banner edge in px']);
+  rows.push(['Min Logo Height', String(kit.clearSpace.minLogoHeight), 'Smallest logo height in px']);
+  if (kit.forbiddenColors.length > 0) {
+    rows.push(['Forbidden Colors', kit.forbiddenColors.join(';'), 'Colors that must never be used']);
+  }
+  if (kit.toneOfVoice) {
+    rows.push(['Tone Of Voice', kit.toneOfVoice, 'Copywriting notes']);
+  }
+
+  return rows.map(row => row.map(escapeCsvCell).join(',')).join('\n');
+}
+
+const ZIP_FILE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  svg: 'image/svg+xml',
+  webp: 'image/webp',
+  woff2: 'font/woff2',
+  ttf: 'font/ttf',
+};
+
+function getExtension(path: string): string {
+  return path.split('.').pop()?.toLowerCase() ?? '';
+}
+
+function getBaseName(path: string): string {
+  return path.split('/').pop() ?? path;
+}
+
+/**
+ * A ZIP holds a brand-kit.json (or any .json / .csv manifest) next to logo and font files
+ */
+async function importBrandKitZip(file: File): Promise<BrandKitImport> {
+  const entries = await readZipEntries(file);
+  const manifest =
+    entries.find(entry => /^brand[-_]?kit\.(json|csv)$/i.test(getBaseName(entry.path))) ??
+    entries.find(entry => getExtension(entry.path) === 'json') ??
+    entries.find(entry => getExtension(entry.path) === 'csv');
+
+  if (!manifest) {
+    throw new Error('The ZIP has no brand kit JSON or CSV file');
+  }
+
+  const text = await manifest.data.text();
+  const parsed = getExtension(manifest.path) === 'json'
+    ? { kit: parseBrandKitJson(text), warnings: [] }
+    : parseBrandKitCsv(text);
+
+  const files: Record<string, File> = {};
+  entries
+    .filter(entry => entry !== manifest)
+    .forEach(entry => {
+      files[entry.path] = new File([entry.data], getBaseName(entry.path), {
+        type: ZIP_FILE_TYPES[getExtension(entry.path)] ?? '',
+      });
+    });
+
+  const warnings = [...parsed.warnings];
+  parsed.kit.logos
+    .filter(logo => !/^https?:\/\//.test(logo.url) && !findBrandKitFile(files, logo.url))
+    .forEach(logo => warnings.push(`Logo file "${logo.url}" was not found in the ZIP`));
+
+  return { kit: parsed.kit, files, warnings };
+}
+
+/**
+ * Find a bundled file by its path in the archive or just its file name
+ */
+export function findBrandKitFile(files: Record<string, File>, reference: string): File | undefined {
+  const path = reference.replace(/^\.?\//, '');
+  return files[path] ?? Object.entries(files).find(([filePath]) => getBaseName(filePath) === getBaseName(path))?.[1];
+}
+
+/**
+ * Import a brand kit from a .json, .csv or .zip file
+ */
+export async function importBrandKitFile(file: File): Promise<BrandKitImport> {
+  const extension = getExtension(file.name);
+
+  if (extension === 'json') {
+    return { kit: parseBrandKitJson(await file.text()), files: {}, warnings: [] };
+  }
+  if (extension === 'csv') {
+    const { kit, warnings } = parseBrandKitCsv(await file.text());
+    return { kit, files: {}, warnings };
+  }
+  if (extension === 'zip') {
+    return importBrandKitZip(file);
+  }
+
+  throw new Error(`Unsupported brand kit file type: .${extension}`);
+}
+
+export function getPaletteColor(kit: BrandKit | null | undefined, role: BrandColorRole): string | undefined {
+  return kit?.palette.find(color => color.role === role)?.hex;
+}
+
+export function getKitFont(kit: BrandKit | null | undefined, role: BrandFontRole): BrandKitFont | undefined {
+  return kit?.fonts.find(font => font.role === role);
+}
+
+export function getBrandGuidelines(kit: BrandKit | null | undefined): BrandGuidelines {
+  return {
+    mainColor: getPaletteColor(kit, 'primary') ?? DEFAULT_BRAND_GUIDELINES.mainColor,
+    secondaryColor: getPaletteColor(kit, 'secondary') ?? DEFAULT_BRAND_GUIDELINES.secondaryColor,
+    fontPrimary: getKitFont(kit, 'primary')?.family ?? DEFAULT_BRAND_GUIDELINES.fontPrimary,
+    fontSecondary: getKitFont(kit, 'secondary')?.family ?? DEFAULT_BRAND_GUIDELINES.fontSecondary,
+  };
+}
+
+/**
+ * Write the form's primary/secondary colors and fonts back into a kit, keeping everything else
+ */
+export function applyBrandGuidelines(kit: BrandKit | null | undefined, guidelines: BrandGuidelines): BrandKit {
+  const palette = (kit?.palette ?? []).filter(color => color.role !== 'primary' && color.role !== 'secondary');
+  const fonts = (kit?.fonts ?? []).filter(font => font.role !== 'primary' && font.role !== 'secondary');
+
+  return validateBrandKit({
+    ...kit,
+    palette: [
+      { ...kit?.palette.find(color => color.role === 'primary'), role: 'primary', hex: guidelines.mainColor },
+      { ...kit?.palette.find(color => color.role === 'secondary'), role: 'secondary', hex: guidelines.secondaryColor },
+      ...palette,
+    ],
+    fonts: [
+      { ...getKitFont(kit, 'primary'), role: 'primary', family: guidelines.fontPrimary },
+      { ...getKitFont(kit, 'secondary'), role: 'secondary', family: guidelines.fontSecondary },
+      ...fonts,
+    ],
+  });
+}
+
+/**
+ * A partner's brand kit, falling back to parsing its legacy CSV brand manual
+ */
+export async function loadPartnerBrandKit(partner: {
+  brand_kit?: BrandKit | null;
+  brand_manual_url?: string | null;
+}): Promise<BrandKit | null> {
+  if (partner.brand_kit) return partner.brand_kit;
+  if (!partner.brand_manual_url) return null;
+
+  console.log('Loading brand manual from:', partner.brand_manual_url);
+  const response = await fetch(partner.brand_manual_url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch brand manual: ${response.status} ${response.statusText}`);
+  }
+
+  const { kit, warnings } = parseBrandKitCsv(await response.text());
+  if (warnings.length > 0) {
+    console.warn('⚠️ Brand manual warnings:', warnings);
+  }
+  return kit;
+}
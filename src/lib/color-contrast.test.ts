@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { contrastRatio, isLargeText, parseHexColor, relativeLuminance, rgbToHex } from './color-contrast';
+
+const ratio = (foreground: string, background: string) => contrastRatio(parseHexColor(foreground)!, parseHexColor(background)!);
+
+describe('color contrast', () => {
+  it('matches known WCAG contrast ratios', () => {
+    expect(ratio('#000', '#fff')).toBeCloseTo(21, 5);
+    expect(ratio('#777', '#fff')).toBeCloseTo(4.48, 2);
+    expect(ratio('#767676', '#ffffff')).toBeCloseTo(4.54, 2);
+    expect(ratio('#0000FF', '#FFFFFF')).toBeCloseTo(8.59, 2);
+    expect(ratio('#8A47F5', '#8a47f5')).toBe(1);
+  });
+
+  it('does not depend on the order of the colors', () => {
+    expect(ratio('#fff', '#777')).toBe(ratio('#777', '#fff'));
+  });
+
+  it('computes relative luminance on the sRGB curve', () => {
+    expect(relativeLuminance({ r: 0, g: 0, b: 0 })).toBe(0);
+    expect(relativeLuminance({ r: 255, g: 255, b: 255 })).toBeCloseTo(1, 10);
+    expect(relativeLuminance({ r: 128, g: 128, b: 128 })).toBeCloseTo(0.2159, 4);
+  });
+
+  it('parses short and long hex colors and rejects anything else', () => {
+    expect(parseHexColor('#f0a')).toEqual({ r: 255, g: 0, b: 170 });
+    expect(parseHexColor(' 8A47F5 ')).toEqual({ r: 138, g: 71, b: 245 });
+    expect(parseHexColor('#12345')).toBeNull();
+    expect(parseHexColor('rgb(0, 0, 0)')).toBeNull();
+    expect(rgbToHex({ r: 138.4, g: 71, b: 245 })).toBe('#8A47F5');
+  });
+
+  it('treats 24px, or 18.66px bold, as large text', () => {
+    expect(isLargeText(24, false)).toBe(true);
+    expect(isLargeText(23, false)).toBe(false);
+    expect(isLargeText(18.66, true)).toBe(true);
+    expect(isLargeText(18, true)).toBe(false);
+  });
+});
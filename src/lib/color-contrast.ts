@@ -0,0 +1,123 @@
+import type { BannerComposition } from '@/types/banner-editor';
+import type { Bounds } from './asset-arrangement';
+import { renderComposition, type CompositionImages } from './composition-renderer';
+
+/**
+ * WCAG color math and background sampling.
+ * The sampler renders only the composition background offscreen, so checks see the
+ * pixels that end up beneath an asset rather than the raw (cover-cropped) image.
+ */
+
+export interface RGB {
+  r: number;
+  g: number;
+  b: number;
+}
+
+// WCAG 2.1 AA minimum contrast for normal and large text
+export const WCAG_AA_NORMAL_TEXT = 4.5;
+export const WCAG_AA_LARGE_TEXT = 3;
+
+export type BackgroundSampler = (bounds: Bounds) => RGB | null;
+
+export function parseHexColor(hex: string): RGB | null {
+  const match = hex.trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!match) return null;
+
+  const value = match[1].length === 3
+    ? match[1].split('').map(char => char + char).join('')
+    : match[1];
+
+  return {
+    r: parseInt(value.slice(0, 2), 16),
+    g: parseInt(value.slice(2, 4), 16),
+    b: parseInt(value.slice(4, 6), 16),
+  };
+}
+
+export function rgbToHex({ r, g, b }: RGB): string {
+  return `#${[r, g, b].map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('').toUpperCase()}`;
+}
+
+/**
+ * WCAG relative luminance (0 for black, 1 for white)
+ */
+export function relativeLuminance({ r, g, b }: RGB): number {
+  const [red, green, blue] = [r, g, b].map(channel => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * red + 0.7152 * green + 0.0722 * blue;
+}
+
+/**
+ * WCAG contrast ratio between two colors, from 1 (same) to 21 (black on white)
+ */
+export function contrastRatio(a: RGB, b: RGB): number {
+  const lighter = Math.max(relativeLuminance(a), relativeLuminance(b));
+  const darker = Math.min(relativeLuminance(a), relativeLuminance(b));
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+/**
+ * WCAG "large text": at least 24px, or 18.66px when bold
+ */
+export function isLargeText(fontSize: number, bold: boolean): boolean {
+  return fontSize >= 24 || (bold && fontSize >= 18.66);
+}
+
+/**
+ * Build a sampler that averages the rendered background beneath a region.
+ * Returns null when there's no background or the canvas can't be read (cross-origin image).
+ */
+export function createBackgroundSampler(
+  composition: BannerComposition,
+  images: Pick<CompositionImages, 'background'>
+): BackgroundSampler | null {
+  if (!images.background) return null;
+
+  const { width, height } = composition.canvasSize;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+
+  renderComposition({ ...composition, assets: [] }, { background: images.background }, ctx);
+
+  let pixels: Uint8ClampedArray;
+  try {
+    pixels = ctx.getImageData(0, 0, width, height).data;
+  } catch (error) {
+    console.warn('⚠️ Background pixels are not readable (tainted canvas):', error);
+    return null;
+  }
+
+  return (bounds: Bounds) => {
+    const left = Math.max(0, Math.floor(bounds.x));
+    const top = Math.max(0, Math.floor(bounds.y));
+    const right = Math.min(width, Math.ceil(bounds.x + bounds.width));
+    const bottom = Math.min(height, Math.ceil(bounds.y + bounds.height));
+    if (right <= left || bottom <= top) return null;
+
+    // Every other pixel is plenty for an average
+    const step = 2;
+    let r = 0;
+    let g = 0;
+    let b = 0;
+    let count = 0;
+
+    for (let y = top; y < bottom; y += step) {
+      for (let x = left; x < right; x += step) {
+        const index = (y * width + x) * 4;
+        r += pixels[index];
+        g += pixels[index + 1];
+        b += pixels[index + 2];
+        count++;
+      }
+    }
+
+    return count > 0 ? { r: r / count, g: g / count, b: b / count } : null;
+  };
+}
@@ -0,0 +1,77 @@
+import type { Json } from '@/integrations/supabase/types';
+import type { BannerAsset, BannerComposition } from '@/types/banner-editor';
+import type { CompositionImages } from './composition-renderer';
+import { getProxyImageUrl } from './cors-helper';
+
+/**
+ * Turn a stored composition_data value back into a BannerComposition
+ * Returns null for empty or malformed data
+ */
+export function parseCompositionData(data: Json | null | undefined): BannerComposition | null {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return null;
+  }
+
+  const raw = data as unknown as BannerComposition;
+  if (!Array.isArray(raw.assets) || !raw.canvasSize) {
+    return null;
+  }
+
+  return {
+    ...raw,
+    lastModified: raw.lastModified ? new Date(raw.lastModified) : new Date()
+  };
+}
+
+/**
+ * Load an image for canvas drawing.
+ * Tries CORS first so the canvas stays exportable, then falls back to a display-only load.
+ */
+export function loadCanvasImage(url: string): Promise<HTMLImageElement> {
+  const src = getProxyImageUrl(url);
+
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => {
+      const displayImg = new Image();
+      displayImg.onload = () => resolve(displayImg);
+      displayImg.onerror = () => reject(new Error(`Failed to load image: ${url}`));
+      displayImg.src = src;
+    };
+    img.src = src;
+  });
+}
+
+function collectLogoUrls(assets: BannerAsset[]): string[] {
+  return assets.flatMap(asset => {
+    if (asset.type === 'group') return collectLogoUrls(asset.children ?? []);
+    return asset.type === 'logo' && asset.imageUrl ? [asset.imageUrl] : [];
+  });
+}
+
+/**
+ * Load every image a composition references (background, product and logo assets)
+ * Missing or failing images are left out so the renderer draws placeholders instead
+ */
+export async function loadCompositionImages(composition: BannerComposition): Promise<CompositionImages> {
+  const productUrl = composition.assets.find(asset => asset.type === 'product')?.imageUrl;
+  const logoUrl = composition.assets.find(asset => asset.type === 'logo')?.imageUrl;
+  // Every logo asset may show a different brand kit variant
+  const logoUrls = Array.from(new Set(collectLogoUrls(composition.assets)));
+
+  const load = (url?: string) => url ? loadCanvasImage(url).catch(error => {
+    console.warn('⚠️ Composition image failed to load:', error);
+    return null;
+  }) : Promise.resolve(null);
+
+  const [background, product, ...logoImages] = await Promise.all([
+    load(composition.backgroundImageUrl),
+    load(productUrl),
+    ...logoUrls.map(url => load(url))
+  ]);
+
+  const logos = Object.fromEntries(logoUrls.map((url, index) => [url, logoImages[index]]));
+  return { background, product, logo: logoUrl ? logos[logoUrl] : null, logos };
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import type { BannerAsset, BannerComposition } from '@/types/banner-editor';
+import { createFakeImage, createRecordingContext } from '@/test/canvas-shim';
+import { renderComposition } from './composition-renderer';
+
+function asset(overrides: Partial<BannerAsset> & Pick<BannerAsset, 'id' | 'type'>): BannerAsset {
+  return { position: { x: 0, y: 0 }, size: { width: 100, height: 50 }, rotation: 0, ...overrides };
+}
+
+const composition: BannerComposition = {
+  id: 'composition_test',
+  bannerId: 'test',
+  backgroundImageUrl: 'background.png',
+  canvasSize: { width: 1440, height: 352 },
+  zoom: 1,
+  lastModified: new Date(0),
+  assets: [
+    asset({ id: 'product', type: 'product', position: { x: 900, y: 30 }, size: { width: 300, height: 300 }, zIndex: 0 }),
+    asset({
+      id: 'title', type: 'text', position: { x: 80, y: 60 }, size: { width: 520, height: 120 }, rotation: -4, zIndex: 2,
+      text: 'Hasta 30% OFF en toda la tienda',
+      runs: [{ text: 'Hasta ' }, { text: '30% OFF', bold: true, color: '#FF5500' }, { text: ' en toda la tienda', underline: true }],
+      fontSize: 48, fontFamily: 'Montserrat', color: '#0C0908', autoFit: true, minFontSize: 24,
+    }),
+    asset({
+      id: 'cta', type: 'cta', position: { x: 80, y: 240 }, size: { width: 220, height: 56 }, zIndex: 3,
+      text: 'Comprar ahora', fontSize: 20, fontFamily: 'Inter', fontWeight: 'bold', color: '#FFFFFF',
+      backgroundColor: '#8A47F5', borderColor: '#FFFFFF', borderWidth: 2, borderRadius: 28, letterSpacing: 1,
+    }),
+    asset({
+      id: 'logos', type: 'group', position: { x: 1250, y: 20 }, size: { width: 170, height: 140 }, zIndex: 4,
+      children: [
+        asset({ id: 'logo-card', type: 'logo', imageUrl: 'logo.png' }),
+        asset({ id: 'logo-variant', type: 'logo', position: { x: 0, y: 70 }, imageUrl: 'logo-light.png', logoVariant: 'light' }),
+      ],
+    }),
+    asset({ id: 'hidden', type: 'text', text: 'No se dibuja', hidden: true, zIndex: 1 }),
+  ],
+};
+
+const images = {
+  background: createFakeImage('background.png', 1920, 1080),
+  product: createFakeImage('product.png', 512, 512),
+  logo: createFakeImage('logo.png', 200, 100),
+  logos: { 'logo-light.png': createFakeImage('logo-light.png', 400, 100) },
+};
+
+describe('renderComposition', () => {
+  it('draws every asset in layer order', () => {
+    const ctx = createRecordingContext();
+
+    renderComposition(composition, images, ctx);
+
+    expect(ctx.calls).toMatchSnapshot();
+  });
+
+  it('draws placeholders for missing images and leaves out hidden assets', () => {
+    const ctx = createRecordingContext();
+
+    renderComposition(composition, {}, ctx, { hiddenAssetIds: ['title', 'cta'] });
+
+    expect(ctx.calls.filter(call => call.startsWith('fillText'))).toEqual([
+      'fillText(PRODUCTO, 150, 150)',
+      'fillText(LOGO, 50, 25)',
+      'fillText(LOGO, 50, 25)',
+    ]);
+    expect(ctx.calls.some(call => call.startsWith('drawImage'))).toBe(false);
+  });
+});
@@ -0,0 +1,389 @@
+import type { BannerComposition, BannerAsset } from '@/types/banner-editor';
+import { getLayerOrder } from './asset-layers';
+import { fitText } from './text-layout';
+
+/**
+ * Headless renderer for banner compositions.
+ * Draws onto any 2D context (on-screen canvas, OffscreenCanvas or a Node canvas shim)
+ * without touching the DOM, so the editor, history thumbnails and exports share one code path.
+ */
+
+export type Composition2DContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export interface CompositionImages {
+  background?: CanvasImageSource | null;
+  product?: CanvasImageSource | null;
+  logo?: CanvasImageSource | null;
+  // Logo images by URL (brand kit variants); logo assets fall back to `logo`
+  logos?: Record<string, CanvasImageSource | null>;
+}
+
+export interface RenderCompositionOptions {
+  // Assets to leave out (e.g. the text asset currently being edited inline)
+  hiddenAssetIds?: string[];
+}
+
+const LOGO_BORDER_RADIUS = 12;
+const DEFAULT_CTA_BORDER_RADIUS = 12;
+// Distance from the em-box middle to the alphabetic baseline, as a fraction of font size
+const BASELINE_OFFSET_RATIO = 0.35;
+
+/**
+ * Draw a composition in canvas coordinates (canvasSize) onto the given context.
+ * Callers scale the context beforehand to render at other resolutions.
+ */
+export function renderComposition(
+  composition: BannerComposition,
+  images: CompositionImages,
+  ctx: Composition2DContext,
+  options: RenderCompositionOptions = {}
+): void {
+  const { width, height } = composition.canvasSize;
+  const hiddenAssetIds = options.hiddenAssetIds ?? [];
+
+  // Clear and fill with white background first
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+
+  // Draw background image (layer 1)
+  if (images.background) {
+    try {
+      drawImageCover(ctx, images.background, width, height);
+    } catch (error) {
+      console.error('Error drawing background image:', error);
+      // Fallback: draw gray background
+      ctx.fillStyle = '#f5f5f5';
+      ctx.fillRect(0, 0, width, height);
+    }
+  }
+
+  getLayerOrder(composition.assets ?? []).forEach(asset => drawAsset(ctx, asset, images, hiddenAssetIds));
+}
+
+function drawAsset(ctx: Composition2DContext, asset: BannerAsset, images: CompositionImages, hiddenAssetIds: string[]): void {
+  if (asset.hidden || hiddenAssetIds.includes(asset.id)) return;
+
+  ctx.save();
+  ctx.translate(asset.position.x + asset.size.width / 2, asset.position.y + asset.size.height / 2);
+  ctx.rotate((asset.rotation * Math.PI) / 180);
+  ctx.translate(-asset.size.width / 2, -asset.size.height / 2);
+
+  switch (asset.type) {
+    case 'text':
+      drawTextAsset(ctx, asset);
+      break;
+    case 'cta':
+      drawCtaAsset(ctx, asset);
+      break;
+    case 'logo':
+      drawLogoAsset(ctx, asset, (asset.imageUrl && images.logos?.[asset.imageUrl]) || images.logo);
+      break;
+    case 'product':
+      drawProductAsset(ctx, asset, images.product);
+      break;
+    case 'group':
+      // Children are positioned relative to the group's top-left corner
+      getLayerOrder(asset.children ?? []).forEach(child => drawAsset(ctx, child, images, hiddenAssetIds));
+      break;
+  }
+
+  ctx.restore();
+}
+
+/**
+ * Trace a rounded rectangle path
+ */
+export function roundedRectPath(
+  ctx: Composition2DContext,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  radius: number
+): void {
+  ctx.beginPath();
+  ctx.moveTo(x + radius, y);
+  ctx.lineTo(x + width - radius, y);
+  ctx.quadraticCurveTo(x + width, y, x + width, y + radius);
+  ctx.lineTo(x + width, y + height - radius);
+  ctx.quadraticCurveTo(x + width, y + height, x + width - radius, y + height);
+  ctx.lineTo(x + radius, y + height);
+  ctx.quadraticCurveTo(x, y + height, x, y + height - radius);
+  ctx.lineTo(x, y + radius);
+  ctx.quadraticCurveTo(x, y, x + radius, y);
+  ctx.closePath();
+}
+
+function getImageSize(image: CanvasImageSource): { width: number; height: number } | null {
+  if ('naturalWidth' in image && image.naturalWidth > 0) {
+    return { width: image.naturalWidth, height: image.naturalHeight };
+  }
+  if ('width' in image && typeof image.width === 'number' && typeof image.height === 'number' && image.width > 0) {
+    return { width: image.width, height: image.height };
+  }
+  return null;
+}
+
+// Scale the image to cover the canvas, cropping the overflow, so format variants
+// with a different aspect ratio reuse the background without distortion
+function drawImageCover(ctx: Composition2DContext, image: CanvasImageSource, width: number, height: number): void {
+  const size = getImageSize(image);
+  if (!size) {
+    ctx.drawImage(image, 0, 0, width, height);
+    return;
+  }
+
+  const scale = Math.max(width / size.width, height / size.height);
+  const cropWidth = width / scale;
+  const cropHeight = height / scale;
+  const cropX = (size.width - cropWidth) / 2;
+  const cropY = (size.height - cropHeight) / 2;
+
+  ctx.drawImage(image, cropX, cropY, cropWidth, cropHeight, 0, 0, width, height);
+}
+
+// Scale the image to fit inside the box, centered, keeping its aspect ratio
+function drawImageContain(ctx: Composition2DContext, image: CanvasImageSource, width: number, height: number): void {
+  const size = getImageSize(image);
+  if (!size) {
+    ctx.drawImage(image, 0, 0, width, height);
+    return;
+  }
+
+  const scale = Math.min(width / size.width, height / size.height);
+  const drawWidth = size.width * scale;
+  const drawHeight = size.height * scale;
+  ctx.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+}
+
+function resetShadow(ctx: Composition2DContext): void {
+  ctx.shadowColor = 'transparent';
+  ctx.shadowOffsetX = 0;
+  ctx.shadowOffsetY = 0;
+  ctx.shadowBlur = 0;
+}
+
+// Lines are wrapped to the asset box and vertically centered in it.
+// Styled runs on a line share a baseline; underlines are drawn per run.
+function drawTextLines(ctx: Composition2DContext, asset: BannerAsset, defaultAlign: CanvasTextAlign): void {
+  const align = asset.textAlign || defaultAlign;
+  const { layout } = fitText(ctx, asset);
+
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+
+  let lineTop = (asset.size.height - layout.height) / 2;
+
+  layout.lines.forEach(line => {
+    const centerY = lineTop + line.height / 2;
+    let x = 0;
+
+    switch (align) {
+      case 'center': x = (asset.size.width - line.width) / 2; break;
+      case 'right': x = asset.size.width - line.width; break;
+      default: x = 0;
+    }
+
+    line.segments.forEach(segment => {
+      // Shift smaller runs down so every run sits on the line's baseline
+      const y = centerY + BASELINE_OFFSET_RATIO * (line.fontSize - segment.fontSize);
+
+      ctx.font = segment.font;
+      ctx.fillStyle = segment.color;
+      if (segment.letterSpacing) {
+        drawSpacedText(ctx, segment.text, x, y, segment.letterSpacing);
+      } else {
+        ctx.fillText(segment.text, x, y);
+      }
+
+      if (segment.underline) {
+        ctx.fillRect(x, y + segment.fontSize * 0.45, segment.width, Math.max(1, segment.fontSize / 16));
+      }
+
+      x += segment.width;
+    });
+
+    lineTop += line.height;
+  });
+}
+
+// Letter spacing drawn character by character (ctx.letterSpacing isn't available everywhere)
+function drawSpacedText(ctx: Composition2DContext, text: string, x: number, y: number, letterSpacing: number): void {
+  let cursor = x;
+  Array.from(text).forEach(char => {
+    ctx.fillText(char, cursor, y);
+    cursor += ctx.measureText(char).width + letterSpacing;
+  });
+}
+
+function drawTextAsset(ctx: Composition2DContext, asset: BannerAsset): void {
+  if (!asset.text) return;
+  drawTextLines(ctx, asset, 'left');
+}
+
+function drawCtaAsset(ctx: Composition2DContext, asset: BannerAsset): void {
+  if (!asset.text) return;
+
+  const borderRadius = asset.borderRadius || DEFAULT_CTA_BORDER_RADIUS;
+
+  ctx.save();
+
+  // Subtle drop shadow behind the button
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.1)';
+  ctx.shadowOffsetX = 2;
+  ctx.shadowOffsetY = 3;
+  ctx.shadowBlur = 8;
+
+  if (asset.backgroundColor) {
+    ctx.fillStyle = asset.backgroundColor;
+    roundedRectPath(ctx, 0, 0, asset.size.width, asset.size.height, borderRadius);
+    ctx.fill();
+  }
+
+  resetShadow(ctx);
+
+  if (asset.borderColor) {
+    ctx.strokeStyle = asset.borderColor;
+    ctx.lineWidth = asset.borderWidth || 2;
+    roundedRectPath(ctx, 0, 0, asset.size.width, asset.size.height, borderRadius);
+    ctx.stroke();
+  }
+
+  drawTextLines(ctx, asset, 'center');
+
+  ctx.restore();
+}
+
+function drawPlaceholder(
+  ctx: Composition2DContext,
+  asset: BannerAsset,
+  label: string,
+  colors: { fill: string; stroke: string; text: string },
+  radius: number
+): void {
+  roundedRectPath(ctx, 0, 0, asset.size.width, asset.size.height, radius);
+  ctx.fillStyle = colors.fill;
+  ctx.fill();
+  ctx.strokeStyle = colors.stroke;
+  ctx.stroke();
+
+  ctx.fillStyle = colors.text;
+  ctx.font = '14px Inter';
+  ctx.textAlign = 'center';
+  ctx.fillText(label, asset.size.width / 2, asset.size.height / 2);
+}
+
+function drawLogoPlaceholder(ctx: Composition2DContext, asset: BannerAsset): void {
+  drawPlaceholder(ctx, asset, 'LOGO', { fill: 'rgba(0,0,0,0.1)', stroke: '#ccc', text: '#666' }, LOGO_BORDER_RADIUS);
+}
+
+function drawProductPlaceholder(ctx: Composition2DContext, asset: BannerAsset): void {
+  drawPlaceholder(ctx, asset, 'PRODUCTO', { fill: 'rgba(0,150,0,0.1)', stroke: '#4CAF50', text: '#2E7D2E' }, 0);
+}
+
+function drawLogoAsset(ctx: Composition2DContext, asset: BannerAsset, logoImage?: CanvasImageSource | null): void {
+  if (!logoImage) {
+    drawLogoPlaceholder(ctx, asset);
+    return;
+  }
+
+  const { width, height } = asset.size;
+
+  // Brand kit variants are picked to contrast with the background, so they're drawn without the card
+  if (asset.logoVariant) {
+    try {
+      drawImageContain(ctx, logoImage, width, height);
+    } catch (error) {
+      console.error('Error drawing logo image:', error);
+      drawLogoPlaceholder(ctx, asset);
+    }
+    return;
+  }
+
+  try {
+    ctx.save();
+
+    // Drop shadow for better visibility
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.18)';
+    ctx.shadowOffsetX = 4;
+    ctx.shadowOffsetY = 4;
+    ctx.shadowBlur = 12;
+
+    // Light card behind the logo with a slight gradient
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, 'rgba(255, 255, 255, 0.95)');
+    gradient.addColorStop(1, 'rgba(248, 250, 252, 0.92)');
+    ctx.fillStyle = gradient;
+    roundedRectPath(ctx, 0, 0, width, height, LOGO_BORDER_RADIUS);
+    ctx.fill();
+
+    resetShadow(ctx);
+
+    // Clip the logo to the rounded card
+    roundedRectPath(ctx, 0, 0, width, height, LOGO_BORDER_RADIUS);
+    ctx.clip();
+    ctx.drawImage(logoImage, 0, 0, width, height);
+
+    ctx.restore();
+  } catch (error) {
+    console.error('Error drawing logo image:', error);
+    ctx.restore();
+    drawLogoPlaceholder(ctx, asset);
+  }
+}
+
+// Soft radial glow behind product cutouts so they sit naturally on the background
+function drawProductBackdrop(ctx: Composition2DContext, width: number, height: number): void {
+  const centerX = width / 2;
+  const centerY = height / 2;
+  const maxRadius = Math.max(width, height) * 1.2;
+
+  ctx.save();
+
+  const gradientBackdrop = ctx.createRadialGradient(centerX, centerY, 0, centerX, centerY, maxRadius);
+  gradientBackdrop.addColorStop(0, 'rgba(255, 255, 255, 0.25)');
+  gradientBackdrop.addColorStop(0.08, 'rgba(255, 255, 255, 0.22)');
+  gradientBackdrop.addColorStop(0.18, 'rgba(255, 255, 255, 0.16)');
+  gradientBackdrop.addColorStop(0.32, 'rgba(255, 255, 255, 0.11)');
+  gradientBackdrop.addColorStop(0.48, 'rgba(255, 255, 255, 0.07)');
+  gradientBackdrop.addColorStop(0.65, 'rgba(255, 255, 255, 0.04)');
+  gradientBackdrop.addColorStop(0.78, 'rgba(255, 255, 255, 0.02)');
+  gradientBackdrop.addColorStop(0.88, 'rgba(255, 255, 255, 0.01)');
+  gradientBackdrop.addColorStop(0.95, 'rgba(255, 255, 255, 0.005)');
+  gradientBackdrop.addColorStop(1, 'rgba(255, 255, 255, 0)');
+
+  ctx.fillStyle = gradientBackdrop;
+  ctx.beginPath();
+  ctx.arc(centerX, centerY, maxRadius, 0, 2 * Math.PI);
+  ctx.fill();
+
+  // Very subtle depth shadow
+  const depthShadow = ctx.createRadialGradient(centerX, centerY + 8, 0, centerX, centerY + 8, maxRadius * 0.4);
+  depthShadow.addColorStop(0, 'rgba(0, 0, 0, 0)');
+  depthShadow.addColorStop(0.4, 'rgba(0, 0, 0, 0.03)');
+  depthShadow.addColorStop(0.7, 'rgba(0, 0, 0, 0.02)');
+  depthShadow.addColorStop(1, 'rgba(0, 0, 0, 0)');
+
+  ctx.fillStyle = depthShadow;
+  ctx.beginPath();
+  ctx.ellipse(centerX, centerY + 8, width * 0.4, height * 0.25, 0, 0, 2 * Math.PI);
+  ctx.fill();
+
+  ctx.restore();
+}
+
+function drawProductAsset(ctx: Composition2DContext, asset: BannerAsset, productImage?: CanvasImageSource | null): void {
+  if (!productImage) {
+    drawProductPlaceholder(ctx, asset);
+    return;
+  }
+
+  drawProductBackdrop(ctx, asset.size.width, asset.size.height);
+
+  try {
+    ctx.drawImage(productImage, 0, 0, asset.size.width, asset.size.height);
+  } catch (error) {
+    console.error('❌ Error drawing product image asset:', error);
+    drawProductPlaceholder(ctx, asset);
+  }
+}
@@ -0,0 +1,87 @@
+import { callAIGateway, isAIServiceConfigured } from './ai-gateway';
+
+// Character limits of the banner form fields
+export const COPY_LIMITS = {
+  mainText: 28,
+  descriptionText: 28,
+  ctaText: 14,
+} as const;
+
+export const COPY_LANGUAGES = ['es', 'pt'] as const;
+export type CopyLanguage = typeof COPY_LANGUAGES[number];
+
+export const COPY_TONES = ['cercano', 'urgente', 'premium', 'divertido', 'informativo'] as const;
+export type CopyTone = typeof COPY_TONES[number];
+
+export interface CopyOption {
+  mainText: string;
+  descriptionText: string;
+  ctaText: string;
+}
+
+export interface CopyGenerationRequest {
+  // Partner the call is billed to in the usage ledger
+  partnerId?: string;
+  partnerName: string;
+  benefitsDescription?: string;
+  description?: string;
+  discountPercentage?: number;
+  // Partner regions (e.g. argentina-uruguay, latam) to pick the local variant of the language
+  regions?: string[];
+  language: CopyLanguage;
+  tone: CopyTone;
+  count?: number;
+}
+
+const DEFAULT_OPTION_COUNT = 5;
+// Extra options asked for, since the ones over the limits are dropped
+const OVERSHOOT_OPTIONS = 3;
+
+export function isCopywritingAvailable(): boolean {
+  return isAIServiceConfigured('openai');
+}
+
+export function fitsCopyLimits(option: CopyOption): boolean {
+  return option.mainText.length <= COPY_LIMITS.mainText &&
+    option.descriptionText.length <= COPY_LIMITS.descriptionText &&
+    option.ctaText.length <= COPY_LIMITS.ctaText;
+}
+
+async function requestCopyOptions({ partnerId, ...request }: CopyGenerationRequest, count: number): Promise<CopyOption[]> {
+  // Prompt, tone and language variants live in the generate-copy route
+  const { options } = await callAIGateway<{ options: CopyOption[] }>('generate-copy', {
+    ...request,
+    count,
+    limits: COPY_LIMITS,
+  }, { partnerId });
+  return options;
+}
+
+/**
+ * Generate headline, description and CTA options within the form's character limits.
+ * Options over a limit are dropped; a second request is made if none fits.
+ */
+export async function generateCopyOptions(request: CopyGenerationRequest): Promise<CopyOption[]> {
+  if (!isCopywritingAvailable()) {
+    throw new Error('OpenAI API key is not configured for copywriting');
+  }
+
+  const count = request.count ?? DEFAULT_OPTION_COUNT;
+  let options: CopyOption[] = [];
+
+  for (let attempt = 0; attempt < 2 && options.length === 0; attempt++) {
+    const generated = await requestCopyOptions(request, count + OVERSHOOT_OPTIONS);
+    options = generated.filter(fitsCopyLimits);
+    console.log(`Copy options: ${options.length}/${generated.length} within limits (attempt ${attempt + 1})`);
+  }
+
+  if (options.length === 0) {
+    throw new Error('No copy option fit the character limits');
+  }
+
+  // Drop repeats the model sometimes produces
+  const unique = options.filter((option, index) => (
+    options.findIndex(other => other.mainText === option.mainText && other.descriptionText === option.descriptionText) === index
+  ));
+  return unique.slice(0, count);
+}
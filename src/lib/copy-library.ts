@@ -0,0 +1,119 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type { CopyLanguage, CopyOption, CopyTone } from './copy-generation';
+
+/**
+ * Copy library: main text, description and CTA combinations a partner's banners used,
+ * with how many times each one was picked
+ */
+
+type CopyRow = Database['public']['Tables']['copy_library']['Row'];
+
+export interface SavedCopy extends CopyOption {
+  id: string;
+  partnerId: string;
+  language: CopyLanguage;
+  tone: CopyTone | null;
+  usageCount: number;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+function rowToSavedCopy(row: CopyRow): SavedCopy {
+  return {
+    id: row.id,
+    partnerId: row.partner_id,
+    language: row.language as CopyLanguage,
+    tone: row.tone as CopyTone | null,
+    mainText: row.main_text,
+    descriptionText: row.description_text,
+    ctaText: row.cta_text,
+    usageCount: row.usage_count,
+    lastUsedAt: row.last_used_at,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * A partner's saved copies, most used first
+ */
+export async function listCopyLibrary(partnerId: string): Promise<SavedCopy[]> {
+  const { data, error } = await supabase
+    .from('copy_library')
+    .select('*')
+    .eq('partner_id', partnerId)
+    .order('usage_count', { ascending: false })
+    .order('last_used_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching copy library:', error);
+    throw new Error(`Failed to load copy library: ${error.message}`);
+  }
+
+  return (data ?? []).map(rowToSavedCopy);
+}
+
+/**
+ * Count a use of a copy, saving it to the partner's library the first time
+ */
+export async function recordCopyUsage(
+  partnerId: string,
+  copy: CopyOption,
+  meta: { language: CopyLanguage; tone?: CopyTone | null }
+): Promise<SavedCopy> {
+  const { data: existing, error: findError } = await supabase
+    .from('copy_library')
+    .select('*')
+    .eq('partner_id', partnerId)
+    .eq('main_text', copy.mainText)
+    .eq('description_text', copy.descriptionText)
+    .eq('cta_text', copy.ctaText)
+    .maybeSingle();
+
+  if (findError) {
+    console.error('Error looking up saved copy:', findError);
+    throw new Error(`Failed to save copy: ${findError.message}`);
+  }
+
+  const now = new Date().toISOString();
+  const { data, error } = existing
+    ? await supabase
+        .from('copy_library')
+        .update({ usage_count: existing.usage_count + 1, last_used_at: now })
+        .eq('id', existing.id)
+        .select()
+        .single()
+    : await supabase
+        .from('copy_library')
+        .insert({
+          partner_id: partnerId,
+          language: meta.language,
+          tone: meta.tone ?? null,
+          main_text: copy.mainText,
+          description_text: copy.descriptionText,
+          cta_text: copy.ctaText,
+          usage_count: 1,
+          last_used_at: now,
+        })
+        .select()
+        .single();
+
+  if (error) {
+    console.error('Error saving copy usage:', error);
+    throw new Error(`Failed to save copy: ${error.message}`);
+  }
+
+  return rowToSavedCopy(data);
+}
+
+export async function deleteSavedCopy(copyId: string): Promise<void> {
+  const { error } = await supabase
+    .from('copy_library')
+    .delete()
+    .eq('id', copyId);
+
+  if (error) {
+    console.error('Error deleting saved copy:', error);
+    throw new Error(`Failed to delete copy: ${error.message}`);
+  }
+}
@@ -76,6 +76,59 @@ For production, you need a proper backend proxy.
  * Provides proxy solutions for CORS-blocked resources
  */
 
+// Signed proxy URLs handed out by the server (e.g. with Flux results), by original URL
+const signedProxyUrls = new Map<string, string>();
+
+/**
+ * Keep the signed proxy URL the server gave for an image; required when the proxy runs in signed mode
+ */
+export function rememberSignedProxyUrl(originalUrl: string, proxyUrl: string): void {
+  signedProxyUrls.set(originalUrl, proxyUrl);
+}
+
+/**
+ * Signed proxy URL the server gave for an image, if any; for callers that persist it
+ */
+export function getSignedProxyUrl(originalUrl: string): string | undefined {
+  return signedProxyUrls.get(originalUrl);
+}
+
+// Signed proxy URLs expiring sooner than this are renewed before use
+const SIGNATURE_RENEWAL_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * Renew a signed proxy URL that expired or is about to (a generation job resumed later), and keep
+ * the new one for getImageProxyUrl. Unsigned and still valid URLs are returned as they are.
+ */
+export async function renewSignedProxyUrl(originalUrl: string, proxyUrl: string): Promise<string> {
+  const params = new URL(proxyUrl, window.location.origin).searchParams;
+  const exp = params.get('exp');
+  const sig = params.get('sig');
+  if (!exp || !sig || Number(exp) * 1000 - Date.now() > SIGNATURE_RENEWAL_MARGIN_MS) {
+    return proxyUrl;
+  }
+
+  const response = await fetch('/api/image-proxy-sign', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ url: params.get('url') ?? originalUrl, exp, sig }),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || typeof data.proxyUrl !== 'string') {
+    throw new Error(`Could not renew the image proxy URL: ${data.error ?? `${response.status} ${response.statusText}`}`);
+  }
+
+  rememberSignedProxyUrl(originalUrl, data.proxyUrl);
+  return data.proxyUrl;
+}
+
+/**
+ * Image proxy URL of an external image, signed when the server handed out a signature for it
+ */
+export function getImageProxyUrl(originalUrl: string): string {
+  return signedProxyUrls.get(originalUrl) ?? `/api/image-proxy?url=${encodeURIComponent(originalUrl)}`;
+}
+
 /**
  * Convert an external image URL to a proxy URL to bypass CORS restrictions
  */
@@ -86,7 +139,7 @@ export function getProxyImageUrl(originalUrl: string): string {
       originalUrl.includes('bfl.ai')) {
     
     // Use our image proxy endpoint for both dev and production
-    return `/api/image-proxy?url=${encodeURIComponent(originalUrl)}`;
+    return getImageProxyUrl(originalUrl);
   }
   
   // For other URLs, return as-is
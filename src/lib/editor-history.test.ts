@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { BannerAsset } from '@/types/banner-editor';
+import {
+  HISTORY_COALESCE_WINDOW_MS,
+  MAX_HISTORY_ENTRIES,
+  createHistory,
+  persistHistory,
+  recordHistory,
+  redoHistory,
+  restoreHistory,
+  undoHistory,
+} from './editor-history';
+
+const textAt = (x: number): BannerAsset[] => [{
+  id: 'main-text',
+  type: 'text',
+  role: 'mainText',
+  position: { x, y: 40 },
+  size: { width: 600, height: 80 },
+  rotation: 0,
+  text: 'Hasta 30% OFF',
+}];
+
+describe('editor history', () => {
+  it('collapses a continuous gesture into one step that restores its first snapshot', () => {
+    let history = createHistory();
+    history = recordHistory(history, { label: 'Mover texto', coalesceKey: 'move:main-text' }, textAt(0), 1000);
+    history = recordHistory(history, { label: 'Mover texto', coalesceKey: 'move:main-text' }, textAt(10), 1500);
+    history = recordHistory(history, { label: 'Mover texto', coalesceKey: 'move:main-text' }, textAt(20), 1500 + HISTORY_COALESCE_WINDOW_MS);
+
+    expect(history.past).toHaveLength(1);
+    expect(undoHistory(history, textAt(30))?.assets).toEqual(textAt(0));
+  });
+
+  it('starts a new step for another key or after the coalescing window', () => {
+    let history = createHistory();
+    history = recordHistory(history, { label: 'Mover texto', coalesceKey: 'move:main-text' }, textAt(0), 1000);
+    history = recordHistory(history, { label: 'Mover logo', coalesceKey: 'move:logo' }, textAt(10), 1100);
+    history = recordHistory(history, { label: 'Mover logo', coalesceKey: 'move:logo' }, textAt(20), 1101 + HISTORY_COALESCE_WINDOW_MS);
+    history = recordHistory(history, { label: 'Borrar' }, textAt(30), 2200);
+    history = recordHistory(history, { label: 'Borrar' }, textAt(40), 2201);
+
+    expect(history.past.map(entry => entry.assets[0].position.x)).toEqual([0, 10, 20, 30, 40]);
+  });
+
+  it('undoes and redoes, and a new command clears the redo stack', () => {
+    let history = recordHistory(createHistory(), { label: 'Mover texto' }, textAt(0), 1000);
+
+    const undone = undoHistory(history, textAt(50));
+    expect(undone).toMatchObject({ assets: textAt(0), label: 'Mover texto' });
+    history = undone!.history;
+
+    const redone = redoHistory(history, textAt(0));
+    expect(redone?.assets).toEqual(textAt(50));
+    expect(redone?.history.past).toHaveLength(1);
+
+    history = recordHistory(history, { label: 'Cambiar color' }, textAt(0), 2000);
+    expect(history.future).toEqual([]);
+    expect(redoHistory(history, textAt(0))).toBeNull();
+  });
+
+  it('keeps only the most recent steps', () => {
+    let history = createHistory();
+    for (let step = 0; step < MAX_HISTORY_ENTRIES + 5; step++) {
+      history = recordHistory(history, { label: `Paso ${step}` }, textAt(step), step * 10);
+    }
+
+    expect(history.past).toHaveLength(MAX_HISTORY_ENTRIES);
+    expect(history.past[0].label).toBe('Paso 5');
+  });
+
+  it('returns null when there is nothing to undo or redo', () => {
+    expect(undoHistory(createHistory(), textAt(0))).toBeNull();
+    expect(redoHistory(createHistory(), textAt(0))).toBeNull();
+  });
+});
+
+describe('persisted editor history', () => {
+  beforeEach(() => {
+    const storage = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('restores the stack only for the assets it was saved with', () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const history = recordHistory(createHistory(), { label: 'Mover texto' }, textAt(0), 1000);
+    persistHistory('banner-1', history, textAt(50));
+
+    expect(restoreHistory('banner-1', textAt(50))).toEqual(history);
+    expect(restoreHistory('banner-1', textAt(60))).toBeNull();
+    expect(restoreHistory('banner-2', textAt(50))).toBeNull();
+  });
+
+  it('starts fresh when the stored stack is unreadable', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    localStorage.setItem('banner_history_banner-1', '{not json');
+
+    expect(restoreHistory('banner-1', textAt(0))).toBeNull();
+  });
+});
@@ -0,0 +1,148 @@
+import type { BannerAsset } from '@/types/banner-editor';
+
+/**
+ * Undo/redo history for the banner editor.
+ * Each command stores the asset list as it was before the change, so undoing swaps
+ * the current assets onto the redo stack and restores the snapshot (and vice versa).
+ */
+
+export interface HistoryEntry {
+  label: string;
+  assets: BannerAsset[];
+  // Consecutive commands with the same key inside the window collapse into one step
+  coalesceKey?: string;
+  timestamp: number;
+}
+
+export interface EditorHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export interface HistoryCommand {
+  label: string;
+  coalesceKey?: string;
+}
+
+export const MAX_HISTORY_ENTRIES = 50;
+export const HISTORY_COALESCE_WINDOW_MS = 1000;
+
+export function createHistory(): EditorHistory {
+  return { past: [], future: [] };
+}
+
+/**
+ * Record a command given the assets before it ran. Clears the redo stack.
+ */
+export function recordHistory(
+  history: EditorHistory,
+  command: HistoryCommand,
+  assetsBefore: BannerAsset[],
+  now: number = Date.now()
+): EditorHistory {
+  const last = history.past[history.past.length - 1];
+
+  // Continuous gestures (drags, color pickers) keep the snapshot from their first event
+  if (
+    last &&
+    command.coalesceKey &&
+    last.coalesceKey === command.coalesceKey &&
+    now - last.timestamp <= HISTORY_COALESCE_WINDOW_MS
+  ) {
+    return {
+      past: [...history.past.slice(0, -1), { ...last, timestamp: now }],
+      future: []
+    };
+  }
+
+  const entry: HistoryEntry = {
+    label: command.label,
+    assets: assetsBefore,
+    coalesceKey: command.coalesceKey,
+    timestamp: now
+  };
+
+  return {
+    past: [...history.past, entry].slice(-MAX_HISTORY_ENTRIES),
+    future: []
+  };
+}
+
+/**
+ * Step back one command. Returns null when there is nothing to undo.
+ */
+export function undoHistory(
+  history: EditorHistory,
+  currentAssets: BannerAsset[]
+): { history: EditorHistory; assets: BannerAsset[]; label: string } | null {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+
+  return {
+    history: {
+      past: history.past.slice(0, -1),
+      future: [...history.future, { label: entry.label, assets: currentAssets, timestamp: Date.now() }]
+    },
+    assets: entry.assets,
+    label: entry.label
+  };
+}
+
+/**
+ * Re-apply the last undone command. Returns null when there is nothing to redo.
+ */
+export function redoHistory(
+  history: EditorHistory,
+  currentAssets: BannerAsset[]
+): { history: EditorHistory; assets: BannerAsset[]; label: string } | null {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+
+  return {
+    history: {
+      past: [...history.past, { label: entry.label, assets: currentAssets, timestamp: Date.now() }],
+      future: history.future.slice(0, -1)
+    },
+    assets: entry.assets,
+    label: entry.label
+  };
+}
+
+const historyStorageKey = (bannerId: string) => `banner_history_${bannerId}`;
+
+/**
+ * Persist the stack next to the saved composition so it survives autosaves and reloads
+ */
+export function persistHistory(bannerId: string, history: EditorHistory, savedAssets: BannerAsset[]): void {
+  try {
+    localStorage.setItem(historyStorageKey(bannerId), JSON.stringify({
+      history,
+      savedAssets: JSON.stringify(savedAssets)
+    }));
+  } catch (error) {
+    // Quota errors shouldn't block saving the composition itself
+    console.warn('⚠️ Could not persist editor history:', error);
+  }
+}
+
+/**
+ * Restore a persisted stack, but only if it was saved for exactly these assets
+ * (a composition saved elsewhere would make the snapshots inconsistent)
+ */
+export function restoreHistory(bannerId: string, loadedAssets: BannerAsset[]): EditorHistory | null {
+  try {
+    const stored = localStorage.getItem(historyStorageKey(bannerId));
+    if (!stored) return null;
+
+    const { history, savedAssets } = JSON.parse(stored) as { history: EditorHistory; savedAssets: string };
+    if (savedAssets !== JSON.stringify(loadedAssets)) {
+      console.log('📜 Stored editor history is out of date, starting fresh');
+      return null;
+    }
+
+    return history;
+  } catch (error) {
+    console.warn('⚠️ Could not restore editor history:', error);
+    return null;
+  }
+}
@@ -1,9 +1,13 @@
 import { supabase } from '@/integrations/supabase/client';
-import { analyzeProductImage } from './product-analysis';
-import { generateBannerBackground } from './flux-background';
-import { generateProductCutout } from './flux-product';
-import { removeProductBackground, validateImageForProcessing, preloadBackgroundRemovalAssets, getPerformanceInfo } from './background-removal';
+import { validateImageForProcessing, getPerformanceInfo } from './background-removal';
+import { createGenerationJob, getGenerationJob, runGenerationJob, type GenerationRunOptions } from './generation-jobs';
+import type { GenerationEventHandler } from './generation-progress';
+import { isAIServiceConfigured } from './ai-gateway';
+import { getImageProvider, type ImageProviderId } from './image-generation';
+import { isUsageQuotaError } from './usage-ledger';
+import { isAbortError } from './abort';
 import { toast } from '@/hooks/use-toast';
+import type { BrandKit } from './brand-kit';
 
 export interface BannerCreationRequest {
   partnerId: string;
@@ -14,6 +18,11 @@ export interface BannerCreationRequest {
   ctaText: string;
   discountPercentage?: number;
   styleAnalysis?: any;
+  brandKit?: BrandKit | null;
+  // Background options generated in parallel to pick from (default 1)
+  backgroundCandidateCount?: number;
+  // Engine for the background and product images (default from VITE_IMAGE_PROVIDER)
+  imageProvider?: ImageProviderId;
 }
 
 export interface BannerCreationResult {
@@ -23,21 +32,28 @@ export interface BannerCreationResult {
   productDescription: string;
 }
 
+export interface BannerFeedbackOptions {
+  // No toasts and no bannerSaved event per banner; for batch runs, which report once at the end
+  quiet?: boolean;
+}
+
 /**
- * Enhanced banner creation workflow (3-layer approach):
+ * Enhanced banner creation workflow (3-layer approach), run as a persistent generation job:
  * 1. Analyze product image with OpenAI
- * 2. Generate banner background only (no product) with Flux
- * 3. Generate enhanced product cutout with Flux using original image as reference
- * 4. Remove background from the enhanced product image 
- * 5. Save both images to storage
+ * 2. Generate banner background candidates only (no product) with the image provider
+ * 3. Generate enhanced product cutout with the image provider using original image as reference
+ * 4. Remove background from the enhanced product image
+ * 5. Pick one of the backgrounds (options.pickBackground)
  * 6. Save banner data to database
- * 7. Return banner info for editor
+ * Each step's images are stored as it finishes, so a failed job can be resumed with resumeEnhancedBanner.
+ * Progress is reported as GenerationEvents; see reduceGenerationProgress.
  */
 export async function createEnhancedBanner(
   request: BannerCreationRequest,
-  onProgress?: (progress: number, status: string) => void
+  onEvent?: GenerationEventHandler,
+  options: GenerationRunOptions & BannerFeedbackOptions & { onJobCreated?: (jobId: string) => void } = {}
 ): Promise<BannerCreationResult> {
-  try {
+  return withCreationFeedback(request.partnerId, options, async () => {
     console.log('🚀 Starting enhanced 3-layer banner creation workflow...');
     
     // Validate image before processing
@@ -49,204 +65,58 @@ export async function createEnhancedBanner(
     // Show warnings if any
     if (validation.warnings && validation.warnings.length > 0) {
       console.warn('⚠️ Image validation warnings:', validation.warnings);
-      validation.warnings.forEach(warning => {
-        toast({
-          title: "Advertencia de imagen",
-          description: warning,
-          variant: "default"
+      if (!options.quiet) {
+        validation.warnings.forEach(warning => {
+          toast({
+            title: "Advertencia de imagen",
+            description: warning,
+            variant: "default"
+          });
         });
-      });
+      }
     }
 
     // Show performance info
     const perfInfo = getPerformanceInfo();
     console.log('⚡ Background removal performance info:', perfInfo);
     
-    onProgress?.(5, 'Iniciando creación de banner en 3 capas...');
-
-    // Step 1: Analyze product image with OpenAI for style extraction
-    console.log('Step 1: Analyzing product image for style information...');
-    onProgress?.(10, 'Analizando estilo del producto con IA...');
-    
-    const productAnalysis = await analyzeProductImage(request.productImageFile);
-    console.log('🎨 Product style analysis completed:', {
-      description: productAnalysis.productDescription,
-      dominantColors: productAnalysis.styleInfo.dominantColors,
-      colorTemperature: productAnalysis.styleInfo.colorTemperature,
-      recommendedBgColors: productAnalysis.styleInfo.backgroundCompatibility.recommendedColors
-    });
-
-    // Step 2: Generate banner background using both brand and product style info
-    console.log('Step 2: Generating banner background with integrated style...');
-    onProgress?.(15, 'Generando fondo optimizado para el producto...');
-
-    const backgroundBanner = await generateBannerBackground(
-      request.partnerName,
-      productAnalysis.productDescription,
-      request.styleAnalysis,
-      productAnalysis.styleInfo,
-      request.mainText,
-      request.ctaText,
-      request.discountPercentage,
-      (fluxProgress, fluxStatus) => {
-        // Map background progress to overall progress (15-35% range)
-        const mappedProgress = 15 + (fluxProgress * 0.2);
-        onProgress?.(mappedProgress, fluxStatus);
-      }
-    );
-
-    console.log('Background generation completed:', backgroundBanner.imageUrl);
-
-    // Step 3: Generate enhanced product cutout with Flux
-    console.log('Step 3: Generating enhanced product image with Flux...');
-    onProgress?.(35, 'Generando producto mejorado con IA...');
-
-    const enhancedProduct = await generateProductCutout(
-      request.productImageFile,
-      productAnalysis.productDescription,
-      (fluxProgress, fluxStatus) => {
-        // Map product generation progress to overall progress (35-60% range)
-        const mappedProgress = 35 + (fluxProgress * 0.25);
-        onProgress?.(mappedProgress, fluxStatus);
-      }
-    );
-
-    console.log('Enhanced product generation completed:', enhancedProduct.imageUrl);
-
-    // Step 4: Convert enhanced product URL to File for background removal
-    console.log('Step 4: Preparing enhanced product for background removal...');
-    onProgress?.(60, 'Preparando producto mejorado...');
-
-    // Use image proxy to fetch the enhanced product image (bypasses CORS)
-    const proxyUrl = `/api/image-proxy?url=${encodeURIComponent(enhancedProduct.imageUrl)}`;
-    console.log('🖼️ Using image proxy to fetch enhanced product:', proxyUrl);
-    
-    const enhancedImageResponse = await fetch(proxyUrl);
-    if (!enhancedImageResponse.ok) {
-      const errorText = await enhancedImageResponse.text().catch(() => 'Unknown error');
-      console.error('Image proxy failed:', {
-        status: enhancedImageResponse.status,
-        statusText: enhancedImageResponse.statusText,
-        error: errorText,
-        originalUrl: enhancedProduct.imageUrl
-      });
-      throw new Error(`Failed to fetch enhanced product image: ${enhancedImageResponse.status} ${enhancedImageResponse.statusText}`);
-    }
-    
-    const enhancedImageBlob = await enhancedImageResponse.blob();
-    const enhancedImageFile = new File([enhancedImageBlob], 'enhanced-product.png', { type: 'image/png' });
-
-    console.log('Enhanced product ready for background removal:', {
-      originalSize: request.productImageFile.size,
-      enhancedSize: enhancedImageFile.size,
-      improvement: enhancedImageFile.size > request.productImageFile.size ? 'Enhanced' : 'Optimized'
-    });
-
-    // Step 5: Remove background from the ENHANCED product image
-    console.log('Step 5: Removing background from enhanced product...');
-    onProgress?.(65, 'Removiendo fondo del producto mejorado...');
-
-    const productCutout = await removeProductBackground(
-      enhancedImageFile, // ✅ Now using enhanced product instead of original
-      (removalProgress, removalStatus) => {
-        // Map removal progress to overall progress (65-85% range)
-        const mappedProgress = 65 + (removalProgress * 0.2);
-        onProgress?.(mappedProgress, removalStatus);
-      }
-    );
-
-    console.log('Background removal completed on enhanced product. Final cutout ready.');
-    console.log('Final product details:', {
-      originalInputSize: request.productImageFile.size,
-      enhancedSize: enhancedImageFile.size,
-      finalCutoutSize: productCutout.processedSize,
-      totalProcessingGain: `${Math.round((1 - productCutout.processedSize / request.productImageFile.size) * 100)}%`
-    });
-
-    // Step 6: Upload both images to Supabase storage
-    console.log('Step 6: Uploading images to Supabase storage...');
-    onProgress?.(85, 'Subiendo imágenes a almacenamiento...');
-
-    // Import the simplified upload function
-    const { uploadImageToStorageSimple } = await import('./banners-simple');
-    
-    const timestamp = Date.now();
-    const backgroundFileName = `background-${request.partnerId}-${timestamp}.png`;
-    const productFileName = `product-enhanced-${request.partnerId}-${timestamp}.png`;
-    
-    // Upload both images in parallel
-    let backgroundStorageUrl: string;
-    let productStorageUrl: string;
-    
-    try {
-      [backgroundStorageUrl, productStorageUrl] = await Promise.all([
-        uploadImageToStorageSimple(backgroundBanner.imageUrl, backgroundFileName, 'banners'),
-        uploadImageToStorageSimple(productCutout.imageUrl, productFileName, 'banners')
-      ]);
-      
-      console.log('Background uploaded to storage:', backgroundStorageUrl);
-      console.log('Product uploaded to storage:', productStorageUrl);
-      
-      // Check if we're using temporary external URLs
-      const usingTempUrls = backgroundStorageUrl.includes('delivery-') || productStorageUrl.includes('delivery-');
-      
-      if (usingTempUrls) {
-        console.warn('⚠️ Using temporary external URLs - these will expire in ~1 hour');
-        console.log('ℹ️ For permanent storage, the CORS proxy needs to be configured properly');
-        
-        // You could add a toast notification here if needed
-        // toast({ title: "⚠️ Temporary Images", description: "Banner created with temporary image URLs that will expire in ~1 hour", variant: "default" });
-      }
-    } catch (storageError) {
-      console.error('Storage upload failed:', storageError);
-      
-      // Provide specific error message if bucket doesn't exist
-      const errorMessage = storageError instanceof Error ? storageError.message : String(storageError);
-      if (errorMessage.includes('bucket') || errorMessage.includes('not found')) {
-        throw new Error('El bucket "banners" no existe en Supabase. Por favor ejecuta el script SQL create_banners_bucket.sql en tu Supabase SQL Editor.');
-      } else {
-        throw new Error(`Error subiendo imágenes a almacenamiento: ${errorMessage}`);
-      }
-    }
+    onEvent?.({ type: 'preparing', task: 'job' });
 
-    // Step 7: Save banner to database with both image URLs
-    console.log('Step 7: Saving banner to database...');
-    onProgress?.(90, 'Guardando banner en base de datos...');
+    const job = await createGenerationJob(request);
+    options.onJobCreated?.(job.id);
 
-    const bannerTitle = `Banner - ${request.partnerName} - ${new Date().toLocaleDateString()}`;
-
-    const { data: bannerData, error: saveError } = await supabase
-      .from('banners')
-      .insert({
-        partner_id: request.partnerId,
-        image_url: backgroundStorageUrl, // Keep for backward compatibility
-        background_image_url: backgroundStorageUrl,
-        product_image_url: productStorageUrl,
-        image_type: 'desktop',
-        prompt_used: backgroundBanner.prompt, // Legacy field
-        background_prompt: backgroundBanner.prompt,
-        product_prompt: 'Automatic background removal applied',
-        banner_title: bannerTitle,
-        product_description: productAnalysis.productDescription,
-        main_text: request.mainText,
-        description_text: request.descriptionText,
-        cta_text: request.ctaText,
-        discount_percentage: request.discountPercentage || null,
-      })
-      .select()
-      .single();
+    return runGenerationJob(job.id, onEvent, options);
+  });
+}
 
-    if (saveError) {
-      console.error('Error saving banner to database:', saveError);
-      throw new Error(`Failed to save banner: ${saveError.message}`);
-    }
+/**
+ * Continue a failed or interrupted generation job from its first unfinished step
+ */
+export async function resumeEnhancedBanner(
+  jobId: string,
+  onEvent?: GenerationEventHandler,
+  options: GenerationRunOptions & BannerFeedbackOptions = {}
+): Promise<BannerCreationResult> {
+  const job = await getGenerationJob(jobId);
+  return withCreationFeedback(job.partnerId, options, () => runGenerationJob(jobId, onEvent, options));
+}
 
-    console.log('Banner saved successfully:', bannerData.id);
-    onProgress?.(100, 'Banner creado exitosamente');
+/**
+ * Success event and toast, or a user friendly error toast, around a generation run.
+ * Quiet runs still get the user friendly error message, without the toasts.
+ */
+async function withCreationFeedback(
+  partnerId: string,
+  { quiet = false }: BannerFeedbackOptions,
+  run: () => Promise<BannerCreationResult>
+): Promise<BannerCreationResult> {
+  try {
+    const result = await run();
+    if (quiet) return result;
 
     // Dispatch custom event for banner save
     window.dispatchEvent(new CustomEvent('bannerSaved', { 
-      detail: { bannerId: bannerData.id, partnerId: request.partnerId }
+      detail: { bannerId: result.bannerId, partnerId }
     }));
 
     toast({
@@ -254,14 +124,17 @@ export async function createEnhancedBanner(
       description: "Tu banner ha sido generado en 3 capas y guardado. Se abrirá el editor para agregar logo y elementos finales.",
     });
 
-    return {
-      bannerId: bannerData.id,
-      backgroundImageUrl: backgroundStorageUrl,
-      productImageUrl: productStorageUrl,
-      productDescription: productAnalysis.productDescription
-    };
+    return result;
 
   } catch (error) {
+    if (isAbortError(error)) {
+      if (!quiet) toast({
+        title: "Generación cancelada",
+        description: "Puedes reanudarla más tarde desde las generaciones pendientes.",
+      });
+      throw error;
+    }
+
     console.error('Error in enhanced banner creation:', error);
     
     // Provide more helpful error messages
@@ -270,7 +143,11 @@ export async function createEnhancedBanner(
     if (error instanceof Error) {
       const errorMessage = error.message.toLowerCase();
       
-      if (errorMessage.includes('openai') || errorMessage.includes('api key')) {
+      if (isUsageQuotaError(error)) {
+        userFriendlyMessage = 'Se alcanzó el límite diario de generaciones con IA. Intenta de nuevo mañana o pide que amplíen la cuota.';
+      } else if (errorMessage.includes('moderated')) {
+        userFriendlyMessage = 'Flux rechazó el contenido por moderación. Ajusta los textos o la foto del producto e intenta de nuevo.';
+      } else if (errorMessage.includes('openai') || errorMessage.includes('api key')) {
         userFriendlyMessage = 'Error de configuración de OpenAI. Verifica tu API key.';
       } else if (errorMessage.includes('flux')) {
         userFriendlyMessage = 'Error en la generación con Flux. Verifica tu API key de Flux.';
@@ -289,11 +166,13 @@ export async function createEnhancedBanner(
       }
     }
     
-    toast({
-      title: "Error en la creación del banner",
-      description: userFriendlyMessage,
-      variant: "destructive",
-    });
+    if (!quiet) {
+      toast({
+        title: "Error en la creación del banner",
+        description: userFriendlyMessage,
+        variant: "destructive",
+      });
+    }
 
     throw new Error(userFriendlyMessage);
   }
@@ -341,26 +220,12 @@ export async function getBannerForEditor(bannerId: string) {
 }
 
 /**
- * Check if enhanced banner creation is available
+ * Check if enhanced banner creation is available with the given image provider;
+ * offline providers need no OpenAI key for the product analysis
  */
-export function isEnhancedBannerCreationAvailable(): boolean {
-  const hasOpenAI = !!import.meta.env.VITE_OPENAI_API_KEY && 
-                   import.meta.env.VITE_OPENAI_API_KEY !== 'your_openai_api_key_here';
-  const hasFlux = !!import.meta.env.VITE_FLUX_API_KEY && 
-                 import.meta.env.VITE_FLUX_API_KEY !== 'your_flux_api_key_here';
-  
-  // Enhanced debugging for production issues
-  if (!hasOpenAI || !hasFlux) {
-    console.warn('Enhanced banner creation not available:', {
-      hasOpenAI,
-      hasFlux,
-      openaiKey: import.meta.env.VITE_OPENAI_API_KEY ? `${import.meta.env.VITE_OPENAI_API_KEY.substring(0, 7)}...` : 'undefined',
-      fluxKey: import.meta.env.VITE_FLUX_API_KEY ? `${import.meta.env.VITE_FLUX_API_KEY.substring(0, 7)}...` : 'undefined',
-      environment: import.meta.env.MODE
-    });
-  }
-  
-  return hasOpenAI && hasFlux;
+export function isEnhancedBannerCreationAvailable(imageProvider?: ImageProviderId): boolean {
+  const provider = getImageProvider(imageProvider);
+  return provider.isConfigured() && (provider.capabilities.offline || isAIServiceConfigured('openai'));
 }
 
 // Re-export background removal utilities for convenience
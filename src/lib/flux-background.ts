@@ -6,150 +6,9 @@
 // Workflow: Step A - Generate clean background based on style analysis
 
 import { GeneratedBanner } from './openai';
-
-/**
- * Ensure dimensions meet Flux API requirements (multiples of 32)
- */
-function validateFluxDimensions(width: number, height: number): { width: number; height: number } {
-  const roundToMultiple32 = (value: number): number => {
-    return Math.round(value / 32) * 32;
-  };
-
-  const validWidth = roundToMultiple32(width);
-  const validHeight = roundToMultiple32(height);
-
-  console.log(`Flux dimension validation: ${width}x${height} → ${validWidth}x${validHeight}`);
-  
-  return { width: validWidth, height: validHeight };
-}
-
-// Flux API client
-class FluxAPIClient {
-  private apiKey: string;
-  private baseUrl: string;
-
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
-    // Always use proxy endpoint for both development and production
-    this.baseUrl = '/api/flux';
-  }
-
-  async createTask(payload: FluxTaskRequest): Promise<FluxTaskResponse> {
-    const response = await fetch(`${this.baseUrl}/flux-pro-1.1`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-key': this.apiKey,
-      },
-      body: JSON.stringify(payload),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(`Flux API error: ${response.status} ${response.statusText} - ${JSON.stringify(errorData)}`);
-    }
-
-    return response.json();
-  }
-
-  async getResult(taskId: string, pollingUrl?: string): Promise<FluxResultResponse> {
-    let url: string;
-    
-    console.log(`🎨 [STEP A] getResult called with taskId: ${taskId}, pollingUrl: ${pollingUrl}`);
-    
-    if (pollingUrl && (pollingUrl.includes('api.bfl.ai/v1') || pollingUrl.includes('api.us1.bfl.ai/v1'))) {
-      // Convert external polling URL to use our proxy
-      url = pollingUrl.replace('https://api.bfl.ai/v1', this.baseUrl).replace('https://api.us1.bfl.ai/v1', this.baseUrl);
-      console.log(`🎨 [STEP A] Using external polling URL converted to proxy: ${url}`);
-    } else {
-      // Fallback: construct get_result URL through proxy
-      url = `${this.baseUrl}/get_result?id=${taskId}`;
-      console.log(`🎨 [STEP A] Using fallback constructed URL: ${url}`);
-    }
-    
-    console.log(`🎨 [STEP A] Final polling URL: ${url}`);
-    
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'x-key': this.apiKey,
-      },
-    });
-
-    if (!response.ok) {
-      console.error(`Get result failed for URL: ${url}`, response.status, response.statusText);
-      throw new Error(`Failed to get result: ${response.status} ${response.statusText}`);
-    }
-
-    return response.json();
-  }
-
-  async pollForResult(taskId: string, pollingUrl?: string, maxAttempts: number = 30, interval: number = 2000): Promise<FluxResultResponse> {
-    for (let attempt = 0; attempt < maxAttempts; attempt++) {
-      try {
-        const result = await this.getResult(taskId, pollingUrl);
-        
-        console.log(`Poll attempt ${attempt + 1}/${maxAttempts}:`, result.status, result.progress);
-        
-        if (result.status === 'Ready') {
-          return result;
-        } else if (result.status === 'Error' || result.status === 'Content Moderated' || result.status === 'Request Moderated') {
-          throw new Error(`Task failed with status: ${result.status}. Details: ${JSON.stringify(result.details)}`);
-        }
-        
-        await new Promise(resolve => setTimeout(resolve, interval));
-      } catch (error) {
-        console.warn(`Poll attempt ${attempt + 1} failed:`, error);
-        if (attempt === maxAttempts - 1) {
-          throw error;
-        }
-        await new Promise(resolve => setTimeout(resolve, interval));
-      }
-    }
-    
-    throw new Error('Timeout: Task did not complete within expected time');
-  }
-}
-
-interface FluxTaskRequest {
-  prompt: string;
-  width: number;
-  height: number;
-  prompt_upsampling?: boolean;
-  seed?: number | null;
-  safety_tolerance?: number;
-  output_format?: 'jpeg' | 'png';
-  image_prompt?: string | null;
-}
-
-interface FluxTaskResponse {
-  id: string;
-  polling_url: string;
-}
-
-interface FluxResultResponse {
-  id: string;
-  status: 'Task not found' | 'Pending' | 'Request Moderated' | 'Content Moderated' | 'Ready' | 'Error';
-  result?: any;
-  progress?: number | null;
-  details?: object | null;
-}
-
-export function isFluxConfigured(): boolean {
-  const apiKey = import.meta.env.VITE_FLUX_API_KEY;
-  const isConfigured = !!apiKey && apiKey !== 'your_flux_api_key_here';
-  
-  if (!isConfigured) {
-    console.warn('Flux API key not configured for background generation:', {
-      keyExists: !!apiKey,
-      isPlaceholder: apiKey === 'your_flux_api_key_here',
-      keyPreview: apiKey ? `${apiKey.substring(0, 7)}...` : 'undefined',
-      env: import.meta.env.MODE
-    });
-  }
-  
-  return isConfigured;
-}
+import { generateImage, getImageProvider, type ImageGenerationEvent, type ImageGenerationOptions } from './image-generation';
+import { isAbortError, throwIfAborted } from './abort';
+import { getPaletteColor, type BrandKit } from './brand-kit';
 
 /**
  * Generate background-only banner prompt (no product image in generation)  
@@ -162,7 +21,8 @@ function generateBackgroundOnlyPrompt(
   productStyleInfo: any,
   mainText: string,
   ctaText: string,
-  discountPercentage?: number
+  discountPercentage?: number,
+  brandKit?: BrandKit | null
 ): string {
   console.log('🎨 [PROMPT] Processing style analysis:', JSON.stringify(styleAnalysis?.reference_style?.color_palette, null, 2));
   console.log('🎨 [PROMPT] Processing product style info:', JSON.stringify(productStyleInfo, null, 2));
@@ -199,6 +59,22 @@ function generateBackgroundOnlyPrompt(
     colorTemp = colorPalette.color_temperature || 'cool and professional';
   }
   
+  // The partner's brand kit palette is authoritative over analysed colors
+  if (brandKit) {
+    const kitPrimary = [getPaletteColor(brandKit, 'primary'), getPaletteColor(brandKit, 'background')].filter(Boolean);
+    const kitAccents = [getPaletteColor(brandKit, 'accent'), getPaletteColor(brandKit, 'cta')].filter(Boolean);
+    const kitSecondary = getPaletteColor(brandKit, 'secondary');
+
+    console.log('🎨 [PROMPT] Using brand kit palette:', brandKit.palette);
+    primaryColors = kitPrimary.join(', ');
+    if (kitAccents.length > 0) accentColors = kitAccents.join(', ');
+    if (kitSecondary) secondaryColors = kitSecondary;
+  }
+  const forbiddenColors = brandKit?.forbiddenColors.length
+    ? `\nBRAND-FORBIDDEN colors, never use: ${brandKit.forbiddenColors.join(', ')}`
+    : '';
+  const brandTone = brandKit?.toneOfVoice ? `\nBrand tone of voice: ${brandKit.toneOfVoice}` : '';
+
   const gradientSophistication = colorPalette.gradient_sophistication || 'smooth professional transitions';
   const colorContrast = colorPalette.color_contrast_strategy || 'high-contrast for impact';
   
@@ -280,7 +156,7 @@ Primary color ${primaryColors} must dominate (70% of design)
 Accent color ${accentColors} for patterns and highlights  
 Detail color ${secondaryColors} for depth elements
 ${colorTemp} color temperature throughout
-FORBIDDEN: blue, teal, turquoise, pink, purple, cyan, magenta (unless specified in palette)
+FORBIDDEN: blue, teal, turquoise, pink, purple, cyan, magenta (unless specified in palette)${forbiddenColors}
 Only use the 3 specified colors above
 </color_palette_rules>
 
@@ -310,7 +186,7 @@ Banner dimensions: 1440x352px
 Center focus area: 400x200px (positioned center)
 Edge fade: 100px transition zone
 ${visualStyleApproach} mood with ${atmosphereStyle} atmosphere
-${backgroundType} base with ${materialFinishStyle}
+${backgroundType} base with ${materialFinishStyle}${brandTone}
 </technical_specifications>
 
 <absolute_restrictions>
@@ -329,99 +205,140 @@ Create a ${primaryColors} background with ${patternDetails} and ${materialFinish
   return prompt;
 }
 
-/**
- * Generate banner background only (without product image) - Step A
- * This creates the foundation layer for text overlay and product placement
- */
-export async function generateBannerBackground(
-  partnerName: string,
-  productDescription: string,
-  styleAnalysis: any,
-  productStyleInfo: any,
-  mainText: string,
-  ctaText: string,
-  discountPercentage?: number,
-  onProgress?: (progress: number, status: string) => void
-): Promise<GeneratedBanner> {
-  try {
-    console.log('🎨 [STEP A] Starting Flux background generation...');
-    console.log('🎨 [STEP A] Style analysis received:', {
-      hasStyleAnalysis: !!styleAnalysis,
-      hasReferenceStyle: !!styleAnalysis?.reference_style,
-      hasColorPalette: !!styleAnalysis?.reference_style?.color_palette,
-      colorPalette: styleAnalysis?.reference_style?.color_palette,
-      partnerName,
-      productDescription: productDescription?.substring(0, 100) + '...'
-    });
-    onProgress?.(10, 'Generando fondo del banner...');
-
-    if (!isFluxConfigured()) {
-      throw new Error('Flux API key is not configured for background generation');
-    }
-
-    // Validate style analysis data
-    if (!styleAnalysis || !styleAnalysis.reference_style) {
-      console.warn('🎨 [STEP A] Missing or incomplete style analysis data, using fallback values');
-    }
+export interface BackgroundCandidate extends GeneratedBanner {
+  // Seed sent to Flux, so the same background can be reproduced from the prompt
+  seed: number;
+}
 
-    // Generate background-only prompt
-    const prompt = generateBackgroundOnlyPrompt(
-      partnerName,
-      productDescription,
-      styleAnalysis,
-      productStyleInfo,
-      mainText,
-      ctaText,
-      discountPercentage
-    );
+export const MAX_BACKGROUND_CANDIDATES = 4;
 
-    console.log('🎨 [STEP A] Generated background prompt (first 200 chars):', prompt.substring(0, 200) + '...');
-    onProgress?.(20, 'Creando fondo optimizado...');
+// Flux accepts any non-negative integer seed; stay within a signed 32-bit range
+const MAX_FLUX_SEED = 2147483647;
 
-    // Set exact banner dimensions (validated for Flux)
-    const targetDimensions = validateFluxDimensions(1440, 352);
-    console.log('🎨 [STEP A] Using banner dimensions:', targetDimensions);
-    
-    const client = new FluxAPIClient(import.meta.env.VITE_FLUX_API_KEY);
-    
-    console.log('🎨 [STEP A] Creating Flux background task...');
-    onProgress?.(30, 'Creando tarea de fondo...');
+/**
+ * Distinct random seeds, none of them in `exclude`
+ */
+export function createBackgroundSeeds(count: number, exclude: number[] = []): number[] {
+  const seeds = new Set<number>();
+  while (seeds.size < count) {
+    const seed = Math.floor(Math.random() * MAX_FLUX_SEED);
+    if (!exclude.includes(seed)) seeds.add(seed);
+  }
+  return Array.from(seeds);
+}
 
-    const taskRequest: FluxTaskRequest = {
-      prompt: prompt,
-      width: targetDimensions.width,
-      height: targetDimensions.height,
-      prompt_upsampling: false,
-      seed: null,
-      safety_tolerance: 5,
-      output_format: 'png',
-      image_prompt: null // No product image for background generation
-    };
+/**
+ * Build the background-only prompt for a banner (shared by every candidate of a generation)
+ */
+export function buildBannerBackgroundPrompt(...args: Parameters<typeof generateBackgroundOnlyPrompt>): string {
+  const [partnerName, productDescription, styleAnalysis] = args;
+  console.log('🎨 [STEP A] Style analysis received:', {
+    hasStyleAnalysis: !!styleAnalysis,
+    hasReferenceStyle: !!styleAnalysis?.reference_style,
+    hasColorPalette: !!styleAnalysis?.reference_style?.color_palette,
+    colorPalette: styleAnalysis?.reference_style?.color_palette,
+    partnerName,
+    productDescription: productDescription?.substring(0, 100) + '...'
+  });
 
-    const task = await client.createTask(taskRequest);
-    console.log('🎨 [STEP A] Flux background task created:', task.id);
-    onProgress?.(40, 'Generando fondo...');
+  // Validate style analysis data
+  if (!styleAnalysis || !styleAnalysis.reference_style) {
+    console.warn('🎨 [STEP A] Missing or incomplete style analysis data, using fallback values');
+  }
 
-    const result = await client.pollForResult(task.id, task.polling_url, 30, 2000);
-    onProgress?.(90, 'Fondo generado...');
+  const prompt = generateBackgroundOnlyPrompt(...args);
 
-    if (result.status !== 'Ready' || !result.result) {
-      throw new Error(`Flux background generation failed: ${result.status}`);
-    }
+  console.log('🎨 [STEP A] Generated background prompt (first 200 chars):', prompt.substring(0, 200) + '...');
+  return prompt;
+}
 
-    const imageUrl = result.result.sample;
-    console.log('🎨 [STEP A] Background generation completed successfully:', imageUrl);
+/**
+ * Generate one background from a prompt with a fixed seed
+ */
+export async function generateBackgroundFromPrompt(
+  prompt: string,
+  seed: number,
+  onEvent?: (event: ImageGenerationEvent) => void,
+  options: ImageGenerationOptions = {}
+): Promise<BackgroundCandidate> {
+  const provider = getImageProvider(options.provider);
+  try {
+    console.log(`🎨 [STEP A] Starting ${provider.label} background generation (seed ${seed})...`);
 
-    onProgress?.(100, 'Fondo completado');
+    // Banner dimensions and engine settings are fixed by the provider
+    const imageUrl = await generateImage(
+      { kind: 'background', prompt, seed, partnerId: options.partnerId },
+      provider.id,
+      { onEvent, signal: options.signal }
+    );
+    console.log('🎨 [STEP A] Background generation completed successfully:', imageUrl.substring(0, 100));
 
     return {
       imageUrl: imageUrl,
       base64Data: '',
-      prompt: prompt
+      prompt: prompt,
+      seed
     };
 
   } catch (error) {
-    console.error('🎨 [STEP A] Error in Flux background generation:', error);
+    if (isAbortError(error)) throw error;
+    console.error(`🎨 [STEP A] Error in ${provider.label} background generation:`, error);
     throw new Error(`Failed to generate background: ${error}`);
   }
 }
+
+/**
+ * Generate one background per seed in parallel, reporting each task's events with its seed.
+ * Candidates that fail are left out; throws only when none of them succeeds.
+ */
+export async function generateBackgroundCandidates(
+  prompt: string,
+  seeds: number[],
+  onEvent?: (seed: number, event: ImageGenerationEvent) => void,
+  options: ImageGenerationOptions = {}
+): Promise<BackgroundCandidate[]> {
+  const results = await Promise.allSettled(
+    seeds.map(seed => generateBackgroundFromPrompt(prompt, seed, event => onEvent?.(seed, event), options))
+  );
+
+  throwIfAborted(options.signal);
+  const candidates = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+  const failures = results.flatMap(result => result.status === 'rejected' ? [result.reason] : []);
+  if (candidates.length === 0) {
+    throw failures[0] instanceof Error ? failures[0] : new Error('Failed to generate background');
+  }
+  if (failures.length > 0) {
+    console.warn(`⚠️ ${failures.length} of ${seeds.length} background candidates failed:`, failures);
+  }
+
+  return candidates;
+}
+
+/**
+ * Generate banner background only (without product image) - Step A
+ * This creates the foundation layer for text overlay and product placement
+ */
+export async function generateBannerBackground(
+  partnerName: string,
+  productDescription: string,
+  styleAnalysis: any,
+  productStyleInfo: any,
+  mainText: string,
+  ctaText: string,
+  discountPercentage?: number,
+  brandKit?: BrandKit | null,
+  onEvent?: (event: ImageGenerationEvent) => void
+): Promise<BackgroundCandidate> {
+  const prompt = buildBannerBackgroundPrompt(
+    partnerName,
+    productDescription,
+    styleAnalysis,
+    productStyleInfo,
+    mainText,
+    ctaText,
+    discountPercentage,
+    brandKit
+  );
+
+  return generateBackgroundFromPrompt(prompt, createBackgroundSeeds(1)[0], onEvent);
+}
@@ -6,22 +6,8 @@
 // Workflow: Step B - Generate product cutout with transparent background
 
 import { GeneratedBanner } from './openai';
-
-/**
- * Ensure dimensions meet Flux API requirements (multiples of 32)
- */
-function validateFluxDimensions(width: number, height: number): { width: number; height: number } {
-  const roundToMultiple32 = (value: number): number => {
-    return Math.round(value / 32) * 32;
-  };
-
-  const validWidth = roundToMultiple32(width);
-  const validHeight = roundToMultiple32(height);
-
-  console.log(`Flux dimension validation: ${width}x${height} → ${validWidth}x${validHeight}`);
-  
-  return { width: validWidth, height: validHeight };
-}
+import { generateImage, getImageProvider, type ImageGenerationEvent, type ImageGenerationOptions } from './image-generation';
+import { isAbortError } from './abort';
 
 /**
  * Helper function to convert File to base64 with validation and resizing
@@ -172,139 +158,11 @@ async function imageToBase64File(file: File): Promise<string> {
   });
 }
 
-// Flux API client
-class FluxAPIClient {
-  private apiKey: string;
-  private baseUrl: string;
-
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
-    // Always use proxy endpoint for both development and production
-    this.baseUrl = '/api/flux';
-  }
-
-  async createTask(payload: FluxTaskRequest): Promise<FluxTaskResponse> {
-    const response = await fetch(`${this.baseUrl}/flux-pro-1.1`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-key': this.apiKey,
-      },
-      body: JSON.stringify(payload),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(`Flux API error: ${response.status} ${response.statusText} - ${JSON.stringify(errorData)}`);
-    }
-
-    return response.json();
-  }
-
-  async getResult(taskId: string, pollingUrl?: string): Promise<FluxResultResponse> {
-    let url: string;
-    
-    console.log(`🔳 [STEP B] getResult called with taskId: ${taskId}, pollingUrl: ${pollingUrl}`);
-    
-    if (pollingUrl && (pollingUrl.includes('api.bfl.ai/v1') || pollingUrl.includes('api.us1.bfl.ai/v1'))) {
-      // Convert external polling URL to use our proxy
-      url = pollingUrl.replace('https://api.bfl.ai/v1', this.baseUrl).replace('https://api.us1.bfl.ai/v1', this.baseUrl);
-      console.log(`🔳 [STEP B] Using external polling URL converted to proxy: ${url}`);
-    } else {
-      // Fallback: construct get_result URL through proxy
-      url = `${this.baseUrl}/get_result?id=${taskId}`;
-      console.log(`🔳 [STEP B] Using fallback constructed URL: ${url}`);
-    }
-    
-    console.log(`🔳 [STEP B] Final polling URL: ${url}`);
-    
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'x-key': this.apiKey,
-      },
-    });
-
-    if (!response.ok) {
-      console.error(`Get result failed for URL: ${url}`, response.status, response.statusText);
-      throw new Error(`Failed to get result: ${response.status} ${response.statusText}`);
-    }
-
-    return response.json();
-  }
-
-  async pollForResult(taskId: string, pollingUrl?: string, maxAttempts: number = 30, interval: number = 2000): Promise<FluxResultResponse> {
-    for (let attempt = 0; attempt < maxAttempts; attempt++) {
-      try {
-        const result = await this.getResult(taskId, pollingUrl);
-        
-        console.log(`Poll attempt ${attempt + 1}/${maxAttempts}:`, result.status, result.progress);
-        
-        if (result.status === 'Ready') {
-          return result;
-        } else if (result.status === 'Error' || result.status === 'Content Moderated' || result.status === 'Request Moderated') {
-          throw new Error(`Task failed with status: ${result.status}. Details: ${JSON.stringify(result.details)}`);
-        }
-        
-        await new Promise(resolve => setTimeout(resolve, interval));
-      } catch (error) {
-        console.warn(`Poll attempt ${attempt + 1} failed:`, error);
-        if (attempt === maxAttempts - 1) {
-          throw error;
-        }
-        await new Promise(resolve => setTimeout(resolve, interval));
-      }
-    }
-    
-    throw new Error('Timeout: Task did not complete within expected time');
-  }
-}
-
-interface FluxTaskRequest {
-  prompt: string;
-  width: number;
-  height: number;
-  prompt_upsampling?: boolean;
-  seed?: number | null;
-  safety_tolerance?: number;
-  output_format?: 'jpeg' | 'png';
-  image_prompt?: string | null;
-}
-
-interface FluxTaskResponse {
-  id: string;
-  polling_url: string;
-}
-
-interface FluxResultResponse {
-  id: string;
-  status: 'Task not found' | 'Pending' | 'Request Moderated' | 'Content Moderated' | 'Ready' | 'Error';
-  result?: any;
-  progress?: number | null;
-  details?: object | null;
-}
-
-export function isFluxConfigured(): boolean {
-  const apiKey = import.meta.env.VITE_FLUX_API_KEY;
-  const isConfigured = !!apiKey && apiKey !== 'your_flux_api_key_here';
-  
-  if (!isConfigured) {
-    console.warn('Flux API key not configured for product generation:', {
-      keyExists: !!apiKey,
-      isPlaceholder: apiKey === 'your_flux_api_key_here',
-      keyPreview: apiKey ? `${apiKey.substring(0, 7)}...` : 'undefined',
-      env: import.meta.env.MODE
-    });
-  }
-  
-  return isConfigured;
-}
-
 /**
  * Generate product cutout prompt (transparent background)
  * Optimized for clean product isolation with 1:1 aspect ratio
  */
-function generateProductCutoutPrompt(productDescription: string): string {
+export function generateProductCutoutPrompt(productDescription: string): string {
   const prompt = `Create a perfect product cutout image with transparent background, suitable for overlay on banner backgrounds.
 
 CRITICAL REQUIREMENTS:
@@ -338,67 +196,35 @@ The result should look like a professionally cut-out product photo that can be s
 }
 
 /**
- * Generate product cutout with transparent background - Step B
- * This creates the product layer for overlay on the background
+ * Generate a product image from a prompt, using the product photo as reference
  */
-export async function generateProductCutout(
+export async function generateProductFromPrompt(
   productImageFile: File,
-  productDescription: string,
-  onProgress?: (progress: number, status: string) => void
+  prompt: string,
+  onEvent?: (event: ImageGenerationEvent) => void,
+  options: ImageGenerationOptions = {}
 ): Promise<GeneratedBanner> {
+  const provider = getImageProvider(options.provider);
   try {
-    console.log('🔳 [STEP B] Starting Flux product cutout generation...');
-    onProgress?.(10, 'Generando recorte del producto...');
-
-    if (!isFluxConfigured()) {
-      throw new Error('Flux API key is not configured for product generation');
-    }
-
-    // Convert product image to base64 for reference
-    const productImageBase64 = await imageToBase64File(productImageFile);
-    console.log('🔳 [STEP B] Product image converted to base64 for cutout reference');
-
-    // Generate product cutout prompt
-    const prompt = generateProductCutoutPrompt(productDescription);
-
-    console.log('🔳 [STEP B] Generated product cutout prompt (first 200 chars):', prompt.substring(0, 200) + '...');
-    onProgress?.(20, 'Creando recorte optimizado...');
-
-    // Use square dimensions for product cutout (1:1 aspect ratio)
-    const targetDimensions = validateFluxDimensions(512, 512);
-    console.log('🔳 [STEP B] Using 1:1 aspect ratio dimensions:', targetDimensions);
-    
-    const client = new FluxAPIClient(import.meta.env.VITE_FLUX_API_KEY);
-    
-    console.log('🔳 [STEP B] Creating Flux product cutout task...');
-    onProgress?.(30, 'Creando tarea de recorte...');
-
-    const taskRequest: FluxTaskRequest = {
-      prompt: prompt,
-      width: targetDimensions.width,
-      height: targetDimensions.height,
-      prompt_upsampling: false,
-      seed: null,
-      safety_tolerance: 1,
-      output_format: 'png',
-      image_prompt: productImageBase64 // Use product image as reference
-    };
-
-    const task = await client.createTask(taskRequest);
-    console.log('🔳 [STEP B] Flux product cutout task created:', task.id);
-    onProgress?.(40, 'Generando recorte...');
-
-    const result = await client.pollForResult(task.id, task.polling_url, 30, 2000);
-    onProgress?.(90, 'Recorte generado...');
-
-    if (result.status !== 'Ready' || !result.result) {
-      throw new Error(`Flux product cutout generation failed: ${result.status}`);
+    console.log(`🔳 [STEP B] Starting ${provider.label} product cutout generation...`);
+
+    // Convert product image to base64 for reference, for engines that take one
+    const referenceImage = provider.capabilities.imagePrompt
+      ? `data:image/png;base64,${await imageToBase64File(productImageFile)}`
+      : undefined;
+    if (referenceImage) {
+      console.log('🔳 [STEP B] Product image converted to base64 for cutout reference');
     }
 
-    const imageUrl = result.result.sample;
-    console.log('🔳 [STEP B] Product cutout generation completed successfully:', imageUrl);
+    console.log('🔳 [STEP B] Product cutout prompt (first 200 chars):', prompt.substring(0, 200) + '...');
 
-    onProgress?.(100, 'Recorte completado');
+    // Square (1:1) dimensions and engine settings are fixed by the provider
+    const imageUrl = await generateImage(
+      { kind: 'product', prompt, referenceImage, partnerId: options.partnerId },
+      provider.id,
+      { onEvent, signal: options.signal }
+    );
+    console.log('🔳 [STEP B] Product cutout generation completed successfully:', imageUrl.substring(0, 100));
 
     return {
       imageUrl: imageUrl,
@@ -407,7 +233,21 @@ export async function generateProductCutout(
     };
 
   } catch (error) {
-    console.error('🔳 [STEP B] Error in Flux product cutout generation:', error);
+    if (isAbortError(error)) throw error;
+    console.error(`🔳 [STEP B] Error in ${provider.label} product cutout generation:`, error);
     throw new Error(`Failed to generate product cutout: ${error}`);
   }
 }
+
+/**
+ * Generate product cutout with transparent background - Step B
+ * This creates the product layer for overlay on the background
+ */
+export async function generateProductCutout(
+  productImageFile: File,
+  productDescription: string,
+  onEvent?: (event: ImageGenerationEvent) => void,
+  options: ImageGenerationOptions = {}
+): Promise<GeneratedBanner> {
+  return generateProductFromPrompt(productImageFile, generateProductCutoutPrompt(productDescription), onEvent, options);
+}
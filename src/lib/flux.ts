@@ -251,144 +251,9 @@ async function createCompositeReferenceImage(
   }
 }
 
-// Flux API client
-class FluxAPIClient {
-  private apiKey: string;
-  private baseUrl: string;
+// Flux API client removed - tasks are created and polled by the providers in image-generation.ts
 
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
-    // Always use proxy endpoint for both development and production
-    this.baseUrl = '/api/flux';
-  }
-
-  async createTask(payload: FluxTaskRequest): Promise<FluxTaskResponse> {
-    const response = await fetch(`${this.baseUrl}/flux-pro-1.1`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-key': this.apiKey,
-      },
-      body: JSON.stringify(payload),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(`Flux API error: ${response.status} ${response.statusText} - ${JSON.stringify(errorData)}`);
-    }
-
-    return response.json();
-  }
-
-  async getResult(taskId: string, pollingUrl?: string): Promise<FluxResultResponse> {
-    let url: string;
-    
-    if (pollingUrl && pollingUrl.includes('api.bfl.ai/v1')) {
-      // Convert external polling URL to use our proxy
-      url = pollingUrl.replace('https://api.bfl.ai/v1', this.baseUrl);
-    } else {
-      // Fallback: construct get_result URL through proxy
-      url = `${this.baseUrl}/get_result?id=${taskId}`;
-    }
-    
-    console.log(`Polling for result at: ${url}`);
-    
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'x-key': this.apiKey,
-      },
-    });
-
-    if (!response.ok) {
-      console.error(`Get result failed for URL: ${url}`, response.status, response.statusText);
-      throw new Error(`Failed to get result: ${response.status} ${response.statusText}`);
-    }
-
-    return response.json();
-  }
-
-  async pollForResult(taskId: string, pollingUrl?: string, maxAttempts: number = 30, interval: number = 2000): Promise<FluxResultResponse> {
-    for (let attempt = 0; attempt < maxAttempts; attempt++) {
-      try {
-        const result = await this.getResult(taskId, pollingUrl);
-        
-        console.log(`Poll attempt ${attempt + 1}/${maxAttempts}:`, result.status, result.progress);
-        
-        if (result.status === 'Ready') {
-          return result;
-        } else if (result.status === 'Error' || result.status === 'Content Moderated' || result.status === 'Request Moderated') {
-          throw new Error(`Task failed with status: ${result.status}. Details: ${JSON.stringify(result.details)}`);
-        }
-        
-        await new Promise(resolve => setTimeout(resolve, interval));
-      } catch (error) {
-        console.warn(`Poll attempt ${attempt + 1} failed:`, error);
-        if (attempt === maxAttempts - 1) {
-          throw error;
-        }
-        await new Promise(resolve => setTimeout(resolve, interval));
-      }
-    }
-    
-    throw new Error('Timeout: Task did not complete within expected time');
-  }
-}
-
-interface FluxTaskRequest {
-  prompt: string;
-  width: number;
-  height: number;
-  prompt_upsampling?: boolean;
-  seed?: number | null;
-  safety_tolerance?: number;
-  output_format?: 'jpeg' | 'png';
-  image_prompt?: string | null; // Base64 encoded image for Flux Redux
-}
-
-interface FluxTaskResponse {
-  id: string;
-  polling_url: string;
-}
-
-interface FluxResultResponse {
-  id: string;
-  status: 'Task not found' | 'Pending' | 'Request Moderated' | 'Content Moderated' | 'Ready' | 'Error';
-  result?: any;
-  progress?: number | null;
-  details?: object | null;
-}
-
-export function isFluxConfigured(): boolean {
-  const apiKey = import.meta.env.VITE_FLUX_API_KEY;
-  const isConfigured = !!apiKey && apiKey !== 'your_flux_api_key_here';
-  
-  // Enhanced debugging for production
-  if (!isConfigured) {
-    console.warn('Flux API key not configured:', {
-      keyExists: !!apiKey,
-      isPlaceholder: apiKey === 'your_flux_api_key_here',
-      keyPreview: apiKey ? `${apiKey.substring(0, 7)}...` : 'undefined',
-      env: import.meta.env.MODE
-    });
-  }
-  
-  return isConfigured;
-}
-
-export function getFluxAPIKeyStatus(): { configured: boolean; placeholder: boolean; keyPreview?: string } {
-  const apiKey = import.meta.env.VITE_FLUX_API_KEY;
-  const status = {
-    configured: !!apiKey,
-    placeholder: apiKey === 'your_flux_api_key_here',
-    keyPreview: apiKey ? `${apiKey.substring(0, 7)}...` : undefined
-  };
-  
-  // Log status for debugging in production
-  console.log('Flux API key status:', status);
-  
-  return status;
-}
+// Key checks removed - Flux availability now comes from isAIServiceConfigured('flux') in ai-gateway.ts
 
 // Legacy function removed - not used anywhere in the codebase
 
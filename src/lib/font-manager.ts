@@ -0,0 +1,156 @@
+import type { BannerAsset, BannerComposition, BrandFont } from '@/types/banner-editor';
+import { getAssetRuns } from './text-runs';
+import { resolveRunStyle } from './text-layout';
+
+/**
+ * Partner font loading.
+ * Uploaded WOFF2/TTF files are registered with the FontFace API and every font a composition
+ * uses is loaded before it is drawn or exported, so the canvas never falls back silently.
+ */
+
+export const BRAND_FONT_FORMATS: Record<string, BrandFont['format']> = {
+  woff2: 'woff2',
+  ttf: 'truetype',
+};
+
+export const MAX_BRAND_FONT_SIZE = 5 * 1024 * 1024;
+
+const FONT_LOAD_TIMEOUT_MS = 15000;
+// document.fonts.load only needs family, weight and style; the size is arbitrary
+const FONT_PROBE_SIZE = 16;
+
+// One pending load per font file, shared by the editor, previews and exports
+const registeredFonts = new Map<string, Promise<FontFace>>();
+
+export function getBrandFontFormat(fileName: string): BrandFont['format'] | null {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  return BRAND_FONT_FORMATS[extension] ?? null;
+}
+
+/**
+ * Best-effort family name from a file name, e.g. "DMSans-Bold.woff2" → "DMSans"
+ */
+export function getFontFamilyFromFileName(fileName: string): string {
+  const baseName = fileName.replace(/\.[^.]+$/, '');
+  return baseName.split('-')[0].replace(/[_]+/g, ' ').trim() || baseName;
+}
+
+/**
+ * Guess the face from common file naming, e.g. "Brand-BoldItalic.ttf" → 700 italic
+ */
+export function guessFontFace(fileName: string): Pick<BrandFont, 'weight' | 'style'> {
+  const name = fileName.toLowerCase();
+  const weight = name.includes('extrabold') ? '800'
+    : name.includes('semibold') ? '600'
+    : name.includes('bold') ? '700'
+    : name.includes('medium') ? '500'
+    : name.includes('light') ? '300'
+    : '400';
+  return { weight, style: name.includes('italic') ? 'italic' : 'normal' };
+}
+
+function getFontKey(font: BrandFont): string {
+  return `${font.family}|${font.weight}|${font.style}|${font.url}`;
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(message)), ms);
+    promise.then(
+      value => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      error => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Register a partner font with document.fonts; repeated calls share the same load
+ */
+export function registerBrandFont(font: BrandFont): Promise<FontFace> {
+  const key = getFontKey(font);
+  const pending = registeredFonts.get(key);
+  if (pending) return pending;
+
+  const face = new FontFace(font.family, `url(${JSON.stringify(font.url)}) format('${font.format}')`, {
+    weight: font.weight,
+    style: font.style,
+  });
+
+  const load = withTimeout(face.load(), FONT_LOAD_TIMEOUT_MS, `Timed out loading font ${font.family}`)
+    .then(loaded => {
+      document.fonts.add(loaded);
+      console.log('🔤 Brand font registered:', font.family, font.weight, font.style);
+      return loaded;
+    });
+
+  registeredFonts.set(key, load);
+  // Forget failed loads so the next render can retry
+  load.catch(error => {
+    console.error(`❌ Failed to load brand font ${font.family}:`, error);
+    registeredFonts.delete(key);
+  });
+
+  return load;
+}
+
+/**
+ * Register several fonts, resolving with the ones that failed to load
+ */
+export async function registerBrandFonts(fonts: BrandFont[]): Promise<BrandFont[]> {
+  const results = await Promise.allSettled(fonts.map(registerBrandFont));
+  return fonts.filter((_, index) => results[index].status === 'rejected');
+}
+
+function collectTextAssets(assets: BannerAsset[]): BannerAsset[] {
+  return assets.flatMap(asset => {
+    if (asset.type === 'group') return collectTextAssets(asset.children ?? []);
+    return (asset.type === 'text' || asset.type === 'cta') && asset.fontFamily ? [asset] : [];
+  });
+}
+
+/**
+ * CSS font shorthands (family, weight and style) used by the composition's text, deduplicated
+ */
+export function getCompositionFontDeclarations(assets: BannerAsset[]): string[] {
+  const declarations = collectTextAssets(assets).flatMap(asset => {
+    const runs = getAssetRuns(asset);
+    return (runs.length > 0 ? runs : [{ text: '' }]).map(run => {
+      const style = resolveRunStyle({ ...asset, fontSize: FONT_PROBE_SIZE }, { ...run, fontSize: undefined });
+      return style.font;
+    });
+  });
+  return Array.from(new Set(declarations));
+}
+
+/**
+ * Wait until every font the composition draws with is available.
+ * Throws when one of the composition's brand fonts can't be loaded, so exports never
+ * fall back to a system font.
+ */
+export async function ensureCompositionFonts(composition: BannerComposition): Promise<void> {
+  if (typeof document === 'undefined' || !document.fonts) return;
+
+  const assets = composition.assets ?? [];
+  const usedFamilies = new Set(collectTextAssets(assets).map(asset => asset.fontFamily));
+  const failed = await registerBrandFonts(composition.fonts ?? []);
+  const missing = failed.filter(font => usedFamilies.has(font.family));
+
+  if (missing.length > 0) {
+    const families = Array.from(new Set(missing.map(font => font.family))).join(', ');
+    throw new Error(`Brand fonts could not be loaded: ${families}`);
+  }
+
+  // Also pulls in web fonts declared by stylesheets (e.g. Google Fonts) that nothing has used yet
+  await withTimeout(
+    Promise.all(getCompositionFontDeclarations(assets).map(font => document.fonts.load(font))),
+    FONT_LOAD_TIMEOUT_MS,
+    'Timed out waiting for fonts'
+  );
+  await document.fonts.ready;
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it, vi } from 'vitest';
+import { supabase } from '@/integrations/supabase/client';
+import { FAKE_STORAGE_URL, type FakeSupabase } from '@/test/supabase-fake';
+import { GENERATION_STEPS, createGenerationJob, getGenerationJob, runGenerationJob, type BackgroundPicker } from './generation-jobs';
+import type { GenerationEvent } from './generation-progress';
+import { createAbortError } from './abort';
+
+vi.mock('@/integrations/supabase/client', async () => {
+  const { createFakeSupabase } = await import('@/test/supabase-fake');
+  return { supabase: createFakeSupabase() };
+});
+
+const fake = supabase as unknown as FakeSupabase;
+
+const request = {
+  partnerId: 'partner-1',
+  partnerName: 'Tienda',
+  mainText: 'Hasta 30% OFF',
+  descriptionText: 'En toda la tienda',
+  ctaText: 'Comprar',
+  backgroundCandidateCount: 2,
+  imageProvider: 'mock' as const,
+};
+
+const createPhoto = () => new File([new Uint8Array(2048)], 'bottle.png', { type: 'image/png' });
+
+describe('banner generation jobs on the mock provider', () => {
+  it('runs every step offline and saves the banner with the picked background', async () => {
+    const events: GenerationEvent[] = [];
+    const { id: jobId } = await createGenerationJob({ ...request, productImageFile: createPhoto() });
+    const pickBackground: BackgroundPicker = async session => {
+      expect(session.candidates).toHaveLength(2);
+      expect(session.productImageUrl.startsWith(FAKE_STORAGE_URL)).toBe(true);
+      return 1;
+    };
+
+    const result = await runGenerationJob(jobId, event => events.push(event), { pickBackground });
+
+    const job = await getGenerationJob(jobId);
+    expect(job.status).toBe('completed');
+    expect(job.progress).toBe(100);
+    expect(GENERATION_STEPS.map(step => job.steps[step]?.status)).toEqual(GENERATION_STEPS.map(() => 'done'));
+    expect(job.artifacts.productDescription).toBe('Producto de prueba (bottle.png)');
+
+    const banner = fake.tables.banners.find(row => row.id === result.bannerId);
+    expect(banner).toMatchObject({
+      partner_id: 'partner-1',
+      main_text: 'Hasta 30% OFF',
+      background_image_url: job.artifacts.backgroundCandidates?.[1].imageUrl,
+      background_seed: job.artifacts.backgroundCandidates?.[1].seed,
+      product_image_url: result.productImageUrl,
+    });
+
+    // Only the files the banner points at are kept
+    const kept = Array.from(fake.files.keys()).filter(key => key.includes(`generation-jobs/${jobId}/`));
+    expect(kept.map(key => `${FAKE_STORAGE_URL}/${key}`).sort()).toEqual([banner?.background_image_url, banner?.product_image_url].sort());
+
+    expect(events.filter(event => event.type === 'step').map(event => event.type === 'step' && event.step)).toEqual([...GENERATION_STEPS]);
+    expect(events.at(-1)).toEqual({ type: 'completed', bannerId: result.bannerId });
+  });
+
+  it('resumes a cancelled job from the step it stopped at', async () => {
+    const { id: jobId } = await createGenerationJob({ ...request, productImageFile: createPhoto() });
+    const cancelPick: BackgroundPicker = async () => {
+      throw createAbortError();
+    };
+
+    await expect(runGenerationJob(jobId, undefined, { pickBackground: cancelPick })).rejects.toMatchObject({ name: 'AbortError' });
+
+    const failed = await getGenerationJob(jobId);
+    expect(failed.status).toBe('failed');
+    expect(failed.currentStep).toBe('pick');
+    expect(failed.steps.cutout?.status).toBe('done');
+    expect(failed.steps.pick?.status).toBe('failed');
+
+    const steps: string[] = [];
+    const result = await runGenerationJob(jobId, event => {
+      if (event.type === 'step') steps.push(event.step);
+    }, { pickBackground: async () => 0 });
+
+    expect(steps).toEqual(['pick', 'save']);
+    expect(result.backgroundImageUrl).toBe(failed.artifacts.backgroundCandidates?.[0].imageUrl);
+    expect((await getGenerationJob(jobId)).status).toBe('completed');
+  });
+});
@@ -0,0 +1,706 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json } from '@/integrations/supabase/types';
+import { analyzeProductImage } from './product-analysis';
+import {
+  MAX_BACKGROUND_CANDIDATES, buildBannerBackgroundPrompt, createBackgroundSeeds, generateBackgroundCandidates,
+  type BackgroundCandidate
+} from './flux-background';
+import { generateProductCutout } from './flux-product';
+import { removeProductBackground } from './background-removal';
+import { getImageProvider } from './image-generation';
+import { createMockProductAnalysis } from './image-provider-mock';
+import { uploadImageToStorageSimple } from './banners-simple';
+import { getImageProxyUrl, getSignedProxyUrl, rememberSignedProxyUrl, renewSignedProxyUrl } from './cors-helper';
+import { fetchProductImageFile } from './product-photos-service';
+import type { BannerCreationRequest, BannerCreationResult } from './enhanced-banner-service';
+import { isAbortError, throwIfAborted } from './abort';
+import {
+  GENERATION_STEP_PROGRESS, INITIAL_GENERATION_PROGRESS, reduceGenerationProgress,
+  type GenerationEvent, type GenerationEventHandler
+} from './generation-progress';
+
+/**
+ * Persistent generation jobs for the enhanced banner workflow.
+ * Every step stores its state and artifacts (uploaded to `banners/generation-jobs/{id}/`) in
+ * the `generation_jobs` row as soon as it finishes, so a failed or interrupted run resumes
+ * from the first step that isn't done instead of starting over.
+ */
+
+type JobRow = Database['public']['Tables']['generation_jobs']['Row'];
+type JobUpdate = Database['public']['Tables']['generation_jobs']['Update'];
+
+export const GENERATION_STEPS = ['analyze', 'background', 'product', 'cutout', 'pick', 'save'] as const;
+
+export type GenerationStep = typeof GENERATION_STEPS[number];
+export type GenerationJobStatus = 'pending' | 'running' | 'failed' | 'completed';
+
+export interface GenerationStepState {
+  status: 'running' | 'done' | 'failed';
+  startedAt?: string;
+  completedAt?: string;
+  error?: string;
+}
+
+// Everything the steps need besides the product photo, snapshotted when the job starts
+export type GenerationJobRequest = Omit<BannerCreationRequest, 'partnerId' | 'productImageFile'>;
+
+type ProductAnalysis = Awaited<ReturnType<typeof analyzeProductImage>>;
+
+export interface StoredBackgroundCandidate {
+  imageUrl: string;
+  seed: number;
+}
+
+export interface GenerationArtifacts {
+  productDescription?: string;
+  productStyleInfo?: ProductAnalysis['styleInfo'];
+  // Every background generated for the prompt; the chosen one is copied to backgroundImageUrl/backgroundSeed
+  backgroundCandidates?: StoredBackgroundCandidate[];
+  backgroundImageUrl?: string;
+  backgroundPrompt?: string;
+  backgroundSeed?: number;
+  // Flux product before background removal
+  enhancedProductUrl?: string;
+  productPrompt?: string;
+  // Final transparent product cutout
+  productImageUrl?: string;
+  // Id the save step inserts the banner with, stored before the insert so a retry finds the row instead of adding another
+  pendingBannerId?: string;
+  // Signed image proxy URLs of artifacts kept as Flux URLs (storage unavailable), by URL. They expire after an
+  // hour; a resumed job has the server renew them (see renewArtifactProxyUrls), the old signature proving origin.
+  proxyUrls?: Record<string, string>;
+}
+
+export interface GenerationJob {
+  id: string;
+  partnerId: string;
+  status: GenerationJobStatus;
+  currentStep: GenerationStep;
+  steps: Partial<Record<GenerationStep, GenerationStepState>>;
+  request: GenerationJobRequest;
+  sourceImageUrl: string | null;
+  artifacts: GenerationArtifacts;
+  progress: number;
+  statusText: string | null;
+  error: string | null;
+  bannerId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BackgroundPickSession {
+  candidates: StoredBackgroundCandidate[];
+  productImageUrl: string;
+  request: GenerationJobRequest;
+  // Replace the candidates at these indexes with new seeds (reported as pick step events); resolves with the updated list
+  regenerate: (indexes: number[], onEvent?: GenerationEventHandler) => Promise<StoredBackgroundCandidate[]>;
+}
+
+// Resolves with the index of the chosen candidate; rejecting fails the job at the pick step.
+// Must reject with an AbortError (and close its dialog) when the signal is aborted.
+export type BackgroundPicker = (session: BackgroundPickSession, options?: { signal?: AbortSignal }) => Promise<number>;
+
+export interface GenerationRunOptions {
+  // Without a picker (or with a single candidate) the first background is used
+  pickBackground?: BackgroundPicker;
+  // Aborting stops the run with an AbortError; the job is left failed at its current step, ready to resume
+  signal?: AbortSignal;
+}
+
+type StepRunner = (
+  job: GenerationJob,
+  onEvent: GenerationEventHandler,
+  options: GenerationRunOptions
+) => Promise<Pick<Partial<GenerationJob>, 'artifacts' | 'bannerId'>>;
+
+// Running jobs write their progress at most this often; one that stops updating was interrupted
+const HEARTBEAT_INTERVAL_MS = 20 * 1000;
+export const GENERATION_JOB_STALE_MS = 2 * 60 * 1000;
+
+const STORAGE_BUCKET = 'banners';
+
+// Jobs running in this tab, and the product photos they were started with
+const activeJobIds = new Set<string>();
+const sourceFiles = new Map<string, File>();
+
+function jobFilePath(jobId: string, name: string): string {
+  return `generation-jobs/${jobId}/${name}`;
+}
+
+/**
+ * Add the signed proxy URLs of the artifacts still pointing at Flux, so they survive a reload
+ */
+function withArtifactProxyUrls(artifacts: GenerationArtifacts): GenerationArtifacts {
+  const urls = [
+    artifacts.backgroundImageUrl,
+    artifacts.enhancedProductUrl,
+    artifacts.productImageUrl,
+    ...(artifacts.backgroundCandidates ?? []).map(candidate => candidate.imageUrl),
+  ];
+  const proxyUrls = { ...artifacts.proxyUrls };
+  for (const url of urls) {
+    const proxyUrl = url && getSignedProxyUrl(url);
+    if (proxyUrl) proxyUrls[url] = proxyUrl;
+  }
+  return Object.keys(proxyUrls).length > 0 ? { ...artifacts, proxyUrls } : artifacts;
+}
+
+/**
+ * Make the stored signed proxy URLs of a loaded job known to getImageProxyUrl again
+ */
+function rememberArtifactProxyUrls(artifacts: GenerationArtifacts): void {
+  for (const [url, proxyUrl] of Object.entries(artifacts.proxyUrls ?? {})) {
+    rememberSignedProxyUrl(url, proxyUrl);
+  }
+}
+
+/**
+ * Renew the stored proxy URLs that expired since the job last ran; the new ones are stored with the next step.
+ * A URL that can't be renewed is left alone: the artifact fetch then fails with its own error.
+ */
+async function renewArtifactProxyUrls(artifacts: GenerationArtifacts): Promise<void> {
+  await Promise.all(Object.entries(artifacts.proxyUrls ?? {}).map(([url, proxyUrl]) =>
+    renewSignedProxyUrl(url, proxyUrl).catch(error => console.warn('⚠️ Could not renew image proxy URL:', error))
+  ));
+}
+
+function rowToJob(row: JobRow): GenerationJob {
+  const artifacts = (row.artifacts ?? {}) as GenerationArtifacts;
+  rememberArtifactProxyUrls(artifacts);
+  return {
+    id: row.id,
+    partnerId: row.partner_id,
+    status: row.status as GenerationJobStatus,
+    currentStep: row.current_step as GenerationStep,
+    steps: (row.steps ?? {}) as GenerationJob['steps'],
+    request: row.request as unknown as GenerationJobRequest,
+    sourceImageUrl: row.source_image_url,
+    artifacts,
+    progress: row.progress,
+    statusText: row.status_text,
+    error: row.error,
+    bannerId: row.banner_id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+const toJson = (value: unknown) => JSON.parse(JSON.stringify(value ?? null)) as Json;
+
+async function updateJob(job: GenerationJob, patch: Partial<GenerationJob>): Promise<GenerationJob> {
+  const updatedAt = new Date().toISOString();
+  const update: JobUpdate = { updated_at: updatedAt };
+  if (patch.status !== undefined) update.status = patch.status;
+  if (patch.currentStep !== undefined) update.current_step = patch.currentStep;
+  if (patch.steps !== undefined) update.steps = toJson(patch.steps);
+  if (patch.artifacts !== undefined) {
+    patch = { ...patch, artifacts: withArtifactProxyUrls(patch.artifacts) };
+    update.artifacts = toJson(patch.artifacts);
+  }
+  if (patch.progress !== undefined) update.progress = Math.round(patch.progress);
+  if (patch.statusText !== undefined) update.status_text = patch.statusText;
+  if (patch.error !== undefined) update.error = patch.error;
+  if (patch.bannerId !== undefined) update.banner_id = patch.bannerId;
+
+  const { error } = await supabase
+    .from('generation_jobs')
+    .update(update)
+    .eq('id', job.id);
+
+  if (error) {
+    console.error('Error updating generation job:', error);
+    throw new Error(`Failed to update generation job: ${error.message}`);
+  }
+
+  return { ...job, ...patch, updatedAt };
+}
+
+/**
+ * Store an artifact under the job's folder, with the same bucket guidance as the original workflow
+ */
+async function uploadArtifact(jobId: string, imageUrl: string, name: string): Promise<string> {
+  try {
+    return await uploadImageToStorageSimple(imageUrl, jobFilePath(jobId, name), STORAGE_BUCKET);
+  } catch (storageError) {
+    console.error('Storage upload failed:', storageError);
+    const errorMessage = storageError instanceof Error ? storageError.message : String(storageError);
+    if (errorMessage.includes('bucket') || errorMessage.includes('not found')) {
+      throw new Error('El bucket "banners" no existe en Supabase. Por favor ejecuta el script SQL create_banners_bucket.sql en tu Supabase SQL Editor.');
+    }
+    throw new Error(`Error subiendo imágenes a almacenamiento: ${errorMessage}`);
+  }
+}
+
+/**
+ * Keep a copy of the product photo so the job can resume from another session.
+ * Resolves with null when storage is unavailable; the job then only resumes in this tab.
+ */
+async function uploadSourceImage(jobId: string, file: File): Promise<string | null> {
+  const extension = file.type.split('/')[1] || 'png';
+  const { data, error } = await supabase.storage
+    .from(STORAGE_BUCKET)
+    .upload(jobFilePath(jobId, `source.${extension}`), file, { contentType: file.type, upsert: true });
+
+  if (error) {
+    console.warn('⚠️ Product photo not stored, the job can only resume in this tab:', error);
+    return null;
+  }
+
+  return supabase.storage.from(STORAGE_BUCKET).getPublicUrl(data.path).data.publicUrl;
+}
+
+/**
+ * Remove the job's stored files, except the ones a banner still points to
+ */
+async function removeJobFiles(jobId: string, keep: string[] = []): Promise<void> {
+  const folder = `generation-jobs/${jobId}`;
+  const { data, error } = await supabase.storage.from(STORAGE_BUCKET).list(folder);
+  if (error) {
+    console.warn('⚠️ Could not list generation job files:', error);
+    return;
+  }
+
+  const paths = (data ?? []).filter(file => !keep.includes(file.name)).map(file => `${folder}/${file.name}`);
+  if (paths.length === 0) return;
+
+  const { error: removeError } = await supabase.storage.from(STORAGE_BUCKET).remove(paths);
+  if (removeError) {
+    console.warn('⚠️ Could not remove generation job files:', removeError);
+  }
+}
+
+async function storeBackgroundCandidate(jobId: string, candidate: BackgroundCandidate): Promise<StoredBackgroundCandidate> {
+  const imageUrl = await uploadArtifact(jobId, candidate.imageUrl, `background-${candidate.seed}.png`);
+  return { imageUrl, seed: candidate.seed };
+}
+
+const getFileName = (url?: string) => url?.split('/').pop()?.split('?')[0] ?? '';
+
+async function getSourceFile(job: GenerationJob): Promise<File> {
+  const cached = sourceFiles.get(job.id);
+  if (cached) return cached;
+
+  if (!job.sourceImageUrl) {
+    throw new Error('The original product photo was not stored; start a new banner');
+  }
+
+  const file = await fetchProductImageFile(job.sourceImageUrl);
+  sourceFiles.set(job.id, file);
+  return file;
+}
+
+/**
+ * Jobs on an engine that needs no network (the mock) also skip the OpenAI analysis and background removal
+ */
+function isOfflineJob(job: GenerationJob): boolean {
+  return getImageProvider(job.request.imageProvider).capabilities.offline;
+}
+
+/**
+ * Download a stored artifact; Flux delivery URLs (kept when storage is unavailable) go through the proxy
+ */
+async function fetchArtifactFile(url: string, fileName: string): Promise<File> {
+  const fetchUrl = url.includes('bfl.ai') ? getImageProxyUrl(url) : url;
+  const response = await fetch(fetchUrl);
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => 'Unknown error');
+    console.error('Artifact fetch failed:', { status: response.status, error: errorText, originalUrl: url });
+    throw new Error(`Failed to fetch enhanced product image: ${response.status} ${response.statusText}`);
+  }
+
+  const blob = await response.blob();
+  return new File([blob], fileName, { type: blob.type || 'image/png' });
+}
+
+const STEP_RUNNERS: Record<GenerationStep, StepRunner> = {
+  // Step 1: analyze the product photo with OpenAI for style extraction
+  analyze: async (job, onEvent, { signal }) => {
+    const sourceFile = await getSourceFile(job);
+    const productAnalysis = isOfflineJob(job)
+      ? createMockProductAnalysis(sourceFile)
+      : await analyzeProductImage(sourceFile, { partnerId: job.partnerId, signal });
+    console.log('🎨 Product style analysis completed:', {
+      description: productAnalysis.productDescription,
+      dominantColors: productAnalysis.styleInfo.dominantColors,
+      colorTemperature: productAnalysis.styleInfo.colorTemperature,
+    });
+
+    return {
+      artifacts: {
+        ...job.artifacts,
+        productDescription: productAnalysis.productDescription,
+        productStyleInfo: productAnalysis.styleInfo,
+      }
+    };
+  },
+
+  // Step 2: background candidates (no product) with Flux, stored right away since Flux URLs expire
+  background: async (job, onEvent, { signal }) => {
+    const { request, artifacts } = job;
+    const count = Math.min(MAX_BACKGROUND_CANDIDATES, Math.max(1, request.backgroundCandidateCount ?? 1));
+
+    const prompt = buildBannerBackgroundPrompt(
+      request.partnerName,
+      artifacts.productDescription ?? '',
+      request.styleAnalysis,
+      artifacts.productStyleInfo,
+      request.mainText,
+      request.ctaText,
+      request.discountPercentage,
+      request.brandKit
+    );
+
+    const generated = await generateBackgroundCandidates(
+      prompt,
+      createBackgroundSeeds(count),
+      (seed, event) => onEvent({ type: 'image', step: 'background', seed, taskCount: count, event }),
+      { provider: request.imageProvider, partnerId: job.partnerId, signal }
+    );
+
+    onEvent({ type: 'storing', step: 'background' });
+    const backgroundCandidates = await Promise.all(generated.map(candidate => storeBackgroundCandidate(job.id, candidate)));
+    return { artifacts: { ...artifacts, backgroundPrompt: prompt, backgroundCandidates } };
+  },
+
+  // Step 3: enhanced product with Flux, using the original photo as reference
+  product: async (job, onEvent, { signal }) => {
+    const enhancedProduct = await generateProductCutout(
+      await getSourceFile(job),
+      job.artifacts.productDescription ?? '',
+      event => onEvent({ type: 'image', step: 'product', taskCount: 1, event }),
+      { provider: job.request.imageProvider, partnerId: job.partnerId, signal }
+    );
+
+    onEvent({ type: 'storing', step: 'product' });
+    const enhancedProductUrl = await uploadArtifact(job.id, enhancedProduct.imageUrl, 'product-enhanced.png');
+    return { artifacts: { ...job.artifacts, enhancedProductUrl, productPrompt: enhancedProduct.prompt } };
+  },
+
+  // Step 4: remove the background from the enhanced product
+  cutout: async (job, onEvent) => {
+    // Offline engines draw the product on a transparent background already
+    if (isOfflineJob(job)) {
+      return { artifacts: { ...job.artifacts, productImageUrl: job.artifacts.enhancedProductUrl } };
+    }
+
+    const enhancedImageFile = await fetchArtifactFile(job.artifacts.enhancedProductUrl ?? '', 'enhanced-product.png');
+
+    onEvent({ type: 'background-removal', progress: 0 });
+    const productCutout = await removeProductBackground(
+      enhancedImageFile,
+      removalProgress => onEvent({ type: 'background-removal', progress: removalProgress })
+    );
+
+    onEvent({ type: 'storing', step: 'cutout' });
+    const productImageUrl = await uploadArtifact(job.id, productCutout.imageUrl, 'product.png');
+    return { artifacts: { ...job.artifacts, productImageUrl } };
+  },
+
+  // Step 5: let the user choose a background over the final product cutout
+  pick: async (job, onEvent, { pickBackground, signal }) => {
+    const { artifacts } = job;
+    let candidates = artifacts.backgroundCandidates ?? [];
+    let current = job;
+    // Jobs started before candidates already have their single background
+    if (candidates.length === 0) return {};
+
+    let chosen = 0;
+    if (pickBackground && candidates.length > 1) {
+      // Regenerations still running when the pick is made or cancelled are cancelled with it
+      const pickController = new AbortController();
+      const abortPick = () => pickController.abort(signal?.reason);
+      signal?.addEventListener('abort', abortPick, { once: true });
+
+      const regenerate = async (indexes: number[], onRegenerateEvent?: GenerationEventHandler) => {
+        const seeds = createBackgroundSeeds(indexes.length, candidates.map(candidate => candidate.seed));
+        const generated = await generateBackgroundCandidates(
+          artifacts.backgroundPrompt ?? '',
+          seeds,
+          (seed, event) => onRegenerateEvent?.({ type: 'image', step: 'pick', seed, taskCount: seeds.length, event }),
+          { provider: job.request.imageProvider, partnerId: job.partnerId, signal: pickController.signal }
+        );
+        onRegenerateEvent?.({ type: 'storing', step: 'pick' });
+        const stored = await Promise.all(generated.map(candidate => storeBackgroundCandidate(job.id, candidate)));
+        throwIfAborted(pickController.signal);
+
+        candidates = candidates.map((candidate, index) => {
+          const seed = seeds[indexes.indexOf(index)];
+          return stored.find(entry => entry.seed === seed) ?? candidate;
+        });
+        current = await updateJob(current, { artifacts: { ...current.artifacts, backgroundCandidates: candidates } });
+        return candidates;
+      };
+
+      // Keep the heartbeat going while the user decides
+      onEvent({ type: 'waiting-for-pick' });
+      const heartbeat = setInterval(() => onEvent({ type: 'waiting-for-pick' }), HEARTBEAT_INTERVAL_MS / 2);
+      try {
+        chosen = await pickBackground({
+          candidates,
+          productImageUrl: artifacts.productImageUrl ?? '',
+          request: job.request,
+          regenerate,
+        }, { signal });
+      } finally {
+        clearInterval(heartbeat);
+        signal?.removeEventListener('abort', abortPick);
+        pickController.abort();
+      }
+    }
+
+    const selected = candidates[chosen] ?? candidates[0];
+    return {
+      artifacts: {
+        ...artifacts,
+        backgroundCandidates: candidates,
+        backgroundImageUrl: selected.imageUrl,
+        backgroundSeed: selected.seed,
+      }
+    };
+  },
+
+  // Step 6: save the banner with both stored layers
+  save: async job => {
+    const { request } = job;
+
+    // generation_jobs.banner_id references the row, so the id is kept in the artifacts until it exists
+    let { artifacts } = job;
+    if (!artifacts.pendingBannerId) {
+      artifacts = { ...artifacts, pendingBannerId: crypto.randomUUID() };
+      await updateJob(job, { artifacts });
+    }
+    const bannerId = artifacts.pendingBannerId!;
+
+    const { data: existingBanner, error: lookupError } = await supabase
+      .from('banners')
+      .select('id')
+      .eq('id', bannerId)
+      .maybeSingle();
+
+    if (lookupError) {
+      console.error('Error checking for a saved banner:', lookupError);
+      throw new Error(`Failed to save banner: ${lookupError.message}`);
+    }
+    if (existingBanner) {
+      console.log('Banner already saved by an earlier attempt:', bannerId);
+      return { artifacts, bannerId };
+    }
+
+    const { data: bannerData, error: saveError } = await supabase
+      .from('banners')
+      .insert({
+        id: bannerId,
+        partner_id: job.partnerId,
+        image_url: artifacts.backgroundImageUrl ?? '', // Keep for backward compatibility
+        background_image_url: artifacts.backgroundImageUrl,
+        product_image_url: artifacts.productImageUrl,
+        image_type: 'desktop',
+        prompt_used: artifacts.backgroundPrompt, // Legacy field
+        background_prompt: artifacts.backgroundPrompt,
+        background_seed: artifacts.backgroundSeed ?? null,
+        product_prompt: artifacts.productPrompt ?? 'Automatic background removal applied',
+        banner_title: `Banner - ${request.partnerName} - ${new Date().toLocaleDateString()}`,
+        product_description: artifacts.productDescription,
+        main_text: request.mainText,
+        description_text: request.descriptionText,
+        cta_text: request.ctaText,
+        discount_percentage: request.discountPercentage || null,
+      })
+      .select()
+      .single();
+
+    if (saveError) {
+      console.error('Error saving banner to database:', saveError);
+      throw new Error(`Failed to save banner: ${saveError.message}`);
+    }
+
+    console.log('Banner saved successfully:', bannerData.id);
+    return { artifacts, bannerId: bannerData.id };
+  },
+};
+
+/**
+ * Persist a new job for a banner request, with a stored copy of its product photo
+ */
+export async function createGenerationJob(request: BannerCreationRequest): Promise<GenerationJob> {
+  const { partnerId, productImageFile, ...jobRequest } = request;
+  const id = crypto.randomUUID();
+  const sourceImageUrl = await uploadSourceImage(id, productImageFile);
+
+  const { data, error } = await supabase
+    .from('generation_jobs')
+    .insert({
+      id,
+      partner_id: partnerId,
+      request: toJson(jobRequest),
+      source_image_url: sourceImageUrl,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating generation job:', error);
+    throw new Error(`Failed to create generation job: ${error.message}`);
+  }
+
+  sourceFiles.set(id, productImageFile);
+  return rowToJob(data);
+}
+
+export async function getGenerationJob(jobId: string): Promise<GenerationJob> {
+  const { data, error } = await supabase
+    .from('generation_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to fetch generation job: ${error.message}`);
+  }
+
+  return rowToJob(data);
+}
+
+/**
+ * Jobs that haven't finished (pending, running or failed), newest first
+ */
+export async function listUnfinishedGenerationJobs(): Promise<GenerationJob[]> {
+  const { data, error } = await supabase
+    .from('generation_jobs')
+    .select('*')
+    .in('status', ['pending', 'running', 'failed'])
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching generation jobs:', error);
+    throw new Error(`Failed to load generation jobs: ${error.message}`);
+  }
+
+  return (data ?? []).map(rowToJob);
+}
+
+export function isGenerationJobActive(jobId: string): boolean {
+  return activeJobIds.has(jobId);
+}
+
+/**
+ * Failed jobs, and pending/running ones nobody has updated for a while (closed tab)
+ */
+export function isGenerationJobResumable(job: GenerationJob, now: number = Date.now()): boolean {
+  if (job.status === 'completed' || activeJobIds.has(job.id)) return false;
+  return job.status === 'failed' || now - new Date(job.updatedAt).getTime() > GENERATION_JOB_STALE_MS;
+}
+
+function toCreationResult(job: GenerationJob): BannerCreationResult {
+  return {
+    bannerId: job.bannerId ?? '',
+    backgroundImageUrl: job.artifacts.backgroundImageUrl ?? '',
+    productImageUrl: job.artifacts.productImageUrl ?? '',
+    productDescription: job.artifacts.productDescription ?? '',
+  };
+}
+
+/**
+ * Run a job from its first unfinished step. Step state and artifacts are saved after each step;
+ * on failure the job is marked failed with the error and can be run again later.
+ */
+export async function runGenerationJob(
+  jobId: string,
+  onEvent?: GenerationEventHandler,
+  options: GenerationRunOptions = {}
+): Promise<BannerCreationResult> {
+  if (activeJobIds.has(jobId)) {
+    throw new Error('This generation job is already running');
+  }
+  activeJobIds.add(jobId);
+
+  try {
+    let job = await getGenerationJob(jobId);
+    if (job.status === 'completed' && job.bannerId) return toCreationResult(job);
+
+    await renewArtifactProxyUrls(job.artifacts);
+    job = await updateJob(job, { status: 'running', error: null });
+    let lastHeartbeat = Date.now();
+    // The job reduces its own events too, for the progress other sessions see
+    let reported = INITIAL_GENERATION_PROGRESS;
+    const report = (event: GenerationEvent) => {
+      reported = reduceGenerationProgress(reported, event, GENERATION_STEP_PROGRESS);
+      onEvent?.(event);
+    };
+
+    for (const step of GENERATION_STEPS) {
+      if (job.steps[step]?.status === 'done') continue;
+
+      report({ type: 'step', step });
+      const startedAt = new Date().toISOString();
+      job = await updateJob(job, {
+        currentStep: step,
+        progress: reported.progress,
+        statusText: reported.status,
+        steps: { ...job.steps, [step]: { status: 'running', startedAt } },
+      });
+
+      const reportStepEvent = (event: GenerationEvent) => {
+        report(event);
+
+        // Heartbeat so other sessions can tell this job is still alive
+        if (Date.now() - lastHeartbeat < HEARTBEAT_INTERVAL_MS) return;
+        lastHeartbeat = Date.now();
+        updateJob(job, { progress: reported.progress, statusText: reported.status }).catch(error => {
+          console.warn('⚠️ Generation job heartbeat failed:', error);
+        });
+      };
+
+      try {
+        throwIfAborted(options.signal);
+        console.log(`Generation job ${job.id}: step ${step}`);
+        const output = await STEP_RUNNERS[step](job, reportStepEvent, options);
+        job = await updateJob(job, {
+          ...output,
+          steps: { ...job.steps, [step]: { status: 'done', startedAt, completedAt: new Date().toISOString() } },
+        });
+      } catch (error) {
+        const message = isAbortError(error) ? 'Generation was cancelled' : error instanceof Error ? error.message : String(error);
+        await updateJob(job, {
+          status: 'failed',
+          error: message,
+          steps: { ...job.steps, [step]: { status: 'failed', startedAt, error: message } },
+        }).catch(updateError => console.error('Error marking generation job as failed:', updateError));
+        throw error;
+      }
+    }
+
+    report({ type: 'completed', bannerId: job.bannerId ?? '' });
+    job = await updateJob(job, { status: 'completed', progress: reported.progress, statusText: reported.status });
+
+    // The banner points at the chosen background and the cutout; the rest were only needed to resume
+    sourceFiles.delete(job.id);
+    await removeJobFiles(job.id, [getFileName(job.artifacts.backgroundImageUrl), getFileName(job.artifacts.productImageUrl)]);
+
+    return toCreationResult(job);
+  } finally {
+    activeJobIds.delete(jobId);
+  }
+}
+
+/**
+ * Delete an unfinished job and the files it uploaded
+ */
+export async function discardGenerationJob(jobId: string): Promise<void> {
+  if (activeJobIds.has(jobId)) {
+    throw new Error('Cannot discard a generation job while it is running');
+  }
+
+  await removeJobFiles(jobId);
+  sourceFiles.delete(jobId);
+
+  const { error } = await supabase
+    .from('generation_jobs')
+    .delete()
+    .eq('id', jobId);
+
+  if (error) {
+    console.error('Error deleting generation job:', error);
+    throw new Error(`Failed to discard generation job: ${error.message}`);
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import {
+  INITIAL_GENERATION_PROGRESS, reduceGenerationProgress,
+  type GenerationEvent, type GenerationStepRanges
+} from './generation-progress';
+
+const reduceAll = (events: GenerationEvent[], ranges?: GenerationStepRanges) =>
+  events.reduce((state, event) => reduceGenerationProgress(state, event, ranges), INITIAL_GENERATION_PROGRESS);
+
+describe('reduceGenerationProgress', () => {
+  it('maps each step onto its share of the pipeline', () => {
+    expect(reduceAll([{ type: 'step', step: 'background' }])).toMatchObject({
+      step: 'background',
+      progress: 15,
+      status: 'Generando fondo optimizado para el producto...',
+    });
+    expect(reduceAll([{ type: 'step', step: 'cutout' }, { type: 'storing', step: 'cutout' }])).toMatchObject({
+      progress: 82.5,
+      status: 'Subiendo imágenes a almacenamiento...',
+    });
+    expect(reduceAll([{ type: 'completed', bannerId: 'banner' }]).progress).toBe(100);
+  });
+
+  it('averages parallel background candidates by seed', () => {
+    const state = reduceAll([
+      { type: 'step', step: 'background' },
+      { type: 'image', step: 'background', seed: 1, taskCount: 2, event: { type: 'completed', imageUrl: 'a.png' } },
+      { type: 'image', step: 'background', seed: 2, taskCount: 2, event: { type: 'created', taskId: 'b' } },
+    ], { background: [0, 100] });
+
+    expect(state.imageTasks).toEqual({ 1: 1, 2: 0 });
+    expect(state.progress).toBe(50);
+    expect(state.status).toBe('Tarea de fondo creada, esperando resultado... (2 opciones)');
+  });
+
+  it('never moves backwards within a step', () => {
+    const ranges: GenerationStepRanges = { product: [0, 100] };
+    const state = reduceAll([
+      { type: 'image', step: 'product', taskCount: 1, event: { type: 'pending', attempt: 3, progress: 0.8 } },
+      { type: 'image', step: 'product', taskCount: 1, event: { type: 'retrying', attempt: 4, delayMs: 2500, reason: 'rate limited' } },
+      { type: 'image', step: 'product', taskCount: 1, event: { type: 'pending', attempt: 5, progress: 0.2 } },
+    ], ranges);
+
+    expect(state.progress).toBeCloseTo(74);
+    expect(state.status).toBe('Generando recorte...');
+  });
+});
@@ -0,0 +1,145 @@
+import type { ImageGenerationEvent } from './image-generation';
+import type { GenerationStep } from './generation-jobs';
+
+/**
+ * Typed progress events of a banner generation run, and the reducer the UI (and the job's own
+ * heartbeat) turns them into a progress bar and status text with.
+ */
+
+export type GenerationEvent =
+  // Work before the job runs: downloading the product photo, creating the job
+  | { type: 'preparing'; task: 'photo' | 'job' }
+  | { type: 'step'; step: GenerationStep }
+  // An image task of a step; parallel background candidates are told apart by seed
+  | { type: 'image'; step: GenerationStep; seed?: number; taskCount: number; event: ImageGenerationEvent }
+  // Background removal of the product, from 0 to 100
+  | { type: 'background-removal'; progress: number }
+  // The step's results are being uploaded or saved
+  | { type: 'storing'; step: GenerationStep }
+  | { type: 'waiting-for-pick' }
+  | { type: 'completed'; bannerId: string };
+
+export type GenerationEventHandler = (event: GenerationEvent) => void;
+
+// Share of the overall progress (0 to 100) covered by each step; steps left out take the whole bar
+export type GenerationStepRanges = Partial<Record<GenerationStep, [number, number]>>;
+
+export const GENERATION_STEP_PROGRESS: GenerationStepRanges = {
+  analyze: [5, 15],
+  background: [15, 35],
+  product: [35, 60],
+  cutout: [60, 85],
+  pick: [85, 90],
+  save: [90, 100],
+};
+
+export interface GenerationProgress {
+  step: GenerationStep | null;
+  progress: number;
+  status: string;
+  // Fraction done (0 to 1) of each image task of the current step, by seed
+  imageTasks: Record<string, number>;
+}
+
+export const INITIAL_GENERATION_PROGRESS: GenerationProgress = { step: null, progress: 0, status: '', imageTasks: {} };
+
+const PREPARING_PROGRESS: Record<Extract<GenerationEvent, { type: 'preparing' }>['task'], [number, string]> = {
+  photo: [1, 'Descargando foto del producto...'],
+  job: [2, 'Iniciando creación de banner en 3 capas...'],
+};
+
+const STEP_STATUS: Record<GenerationStep, string> = {
+  analyze: 'Analizando estilo del producto con IA...',
+  background: 'Generando fondo optimizado para el producto...',
+  product: 'Generando producto mejorado con IA...',
+  cutout: 'Preparando producto mejorado...',
+  pick: 'Preparando la elección del fondo...',
+  save: 'Guardando banner en base de datos...',
+};
+
+const STORING_STATUS: Record<GenerationStep, string> = {
+  analyze: 'Guardando análisis del producto...',
+  background: 'Guardando fondo...',
+  product: 'Guardando producto mejorado...',
+  cutout: 'Subiendo imágenes a almacenamiento...',
+  pick: 'Guardando fondos...',
+  save: 'Guardando banner en base de datos...',
+};
+
+// Where each phase of a step starts, as a fraction of the step
+const IMAGE_PHASE: [number, number] = [0.1, 0.9];
+const REMOVAL_PHASE: [number, number] = [0.2, 0.9];
+const STORING_FRACTION = 0.9;
+
+function getImageStatus(step: GenerationStep, event: ImageGenerationEvent, taskCount: number): string {
+  const subject = step === 'product' ? 'recorte' : 'fondo';
+  const suffix = taskCount > 1 ? ` (${taskCount} opciones)` : '';
+  switch (event.type) {
+    case 'created':
+      return `Tarea de ${subject} creada, esperando resultado...${suffix}`;
+    case 'retrying':
+      return `Generando ${subject}... reintentando en ${Math.ceil(event.delayMs / 1000)} s${suffix}`;
+    default:
+      return `Generando ${subject}...${suffix}`;
+  }
+}
+
+function getImageFraction(previous: number, event: ImageGenerationEvent): number {
+  switch (event.type) {
+    case 'pending':
+      // Without a reported progress, creep towards the end
+      return event.progress ?? Math.max(previous, 1 - 1 / (1 + event.attempt * 0.15));
+    case 'completed':
+      return 1;
+    default:
+      return previous;
+  }
+}
+
+/**
+ * Fold one event into the progress shown for a run. Progress only moves forward within a step.
+ */
+export function reduceGenerationProgress(
+  state: GenerationProgress,
+  event: GenerationEvent,
+  ranges: GenerationStepRanges = GENERATION_STEP_PROGRESS
+): GenerationProgress {
+  const inStep = (step: GenerationStep, fraction: number, status: string, imageTasks = state.imageTasks): GenerationProgress => {
+    const [start, end] = ranges[step] ?? [0, 100];
+    const progress = start + Math.min(1, Math.max(0, fraction)) * (end - start);
+    return {
+      step,
+      progress: step === state.step ? Math.max(state.progress, progress) : progress,
+      status,
+      imageTasks,
+    };
+  };
+
+  switch (event.type) {
+    case 'preparing': {
+      const [progress, status] = PREPARING_PROGRESS[event.task];
+      return { ...INITIAL_GENERATION_PROGRESS, progress, status };
+    }
+    case 'step': {
+      const [start] = ranges[event.step] ?? [0, 100];
+      return { step: event.step, progress: start, status: STEP_STATUS[event.step], imageTasks: {} };
+    }
+    case 'image': {
+      const key = String(event.seed ?? 0);
+      const imageTasks = { ...state.imageTasks, [key]: getImageFraction(state.imageTasks[key] ?? 0, event.event) };
+      const done = Object.values(imageTasks).reduce((sum, fraction) => sum + fraction, 0) / Math.max(1, event.taskCount);
+      const [from, to] = IMAGE_PHASE;
+      return inStep(event.step, from + done * (to - from), getImageStatus(event.step, event.event, event.taskCount), imageTasks);
+    }
+    case 'background-removal': {
+      const [from, to] = REMOVAL_PHASE;
+      return inStep('cutout', from + (event.progress / 100) * (to - from), 'Removiendo fondo del producto mejorado...');
+    }
+    case 'storing':
+      return inStep(event.step, STORING_FRACTION, STORING_STATUS[event.step]);
+    case 'waiting-for-pick':
+      return inStep('pick', 0, 'Esperando la elección del fondo...');
+    case 'completed':
+      return { step: null, progress: 100, status: 'Banner creado exitosamente', imageTasks: {} };
+  }
+}
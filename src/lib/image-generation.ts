@@ -0,0 +1,154 @@
+import { fluxImageProvider } from './image-provider-flux';
+import { openAIImageProvider } from './image-provider-openai';
+import { mockImageProvider } from './image-provider-mock';
+import { throwIfAborted } from './abort';
+
+/**
+ * Image generation engines behind one interface. The banner pipeline asks a provider for
+ * backgrounds and product images; which one is used is chosen per generation job.
+ */
+
+export const IMAGE_PROVIDER_IDS = ['flux', 'openai', 'mock'] as const;
+export type ImageProviderId = typeof IMAGE_PROVIDER_IDS[number];
+
+// Background (Layer A) or product image (Layer B, before background removal)
+export type ImageTaskKind = 'background' | 'product';
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+export interface ImageProviderCapabilities {
+  // Accepts a reference image (the product photo) to generate from
+  imagePrompt: boolean;
+  // Same prompt and seed give the same image
+  seed: boolean;
+  // Needs no network or keys: jobs use a placeholder product analysis and skip background removal
+  offline: boolean;
+  // Output size of each kind of image
+  sizes: Record<ImageTaskKind, ImageSize>;
+}
+
+export interface ImageTaskRequest {
+  kind: ImageTaskKind;
+  prompt: string;
+  seed?: number | null;
+  // Data URL of the reference image, used when the provider supports image prompts
+  referenceImage?: string;
+  // Partner the call is billed to in the usage ledger
+  partnerId?: string | null;
+}
+
+export interface ImageTask {
+  provider: ImageProviderId;
+  id: string;
+  // Where to poll for the result, for providers that work asynchronously
+  pollingUrl?: string;
+  // Set when the provider answered with the image right away
+  imageUrl?: string;
+}
+
+// Engine, usage partner and cancellation of the generation functions in flux-background / flux-product
+export interface ImageGenerationOptions {
+  provider?: ImageProviderId;
+  partnerId?: string | null;
+  signal?: AbortSignal;
+}
+
+/**
+ * What happens to an image task while it is created and polled
+ */
+export type ImageGenerationEvent =
+  | { type: 'created'; taskId: string }
+  // Still being generated; progress is the fraction done (0 to 1) when the provider reports it
+  | { type: 'pending'; attempt: number; progress: number | null }
+  // A poll failed or the task isn't visible yet; the next one is made after delayMs
+  | { type: 'retrying'; attempt: number; delayMs: number; reason: string }
+  | { type: 'completed'; imageUrl: string };
+
+export interface ImageTaskOptions {
+  // Aborting rejects the pending call with an AbortError
+  signal?: AbortSignal;
+}
+
+export interface ImagePollOptions extends ImageTaskOptions {
+  onEvent?: (event: ImageGenerationEvent) => void;
+}
+
+export interface ImageGenerationProvider {
+  id: ImageProviderId;
+  label: string;
+  description: string;
+  capabilities: ImageProviderCapabilities;
+  isConfigured(): boolean;
+  createTask(request: ImageTaskRequest, options?: ImageTaskOptions): Promise<ImageTask>;
+  // Resolves with the URL of the finished image
+  poll(task: ImageTask, options?: ImagePollOptions): Promise<string>;
+  // Stop waiting for a task; a pending poll rejects
+  cancel(task: ImageTask): Promise<void>;
+}
+
+const PROVIDERS: Record<ImageProviderId, ImageGenerationProvider> = {
+  flux: fluxImageProvider,
+  openai: openAIImageProvider,
+  mock: mockImageProvider,
+};
+
+export function isImageProviderId(value: unknown): value is ImageProviderId {
+  return typeof value === 'string' && (IMAGE_PROVIDER_IDS as readonly string[]).includes(value);
+}
+
+/**
+ * Engine used when a job doesn't pick one; VITE_IMAGE_PROVIDER=mock runs the pipeline offline
+ */
+export function getDefaultImageProviderId(): ImageProviderId {
+  const configured = import.meta.env.VITE_IMAGE_PROVIDER;
+  return isImageProviderId(configured) ? configured : 'flux';
+}
+
+export function getImageProvider(id: ImageProviderId = getDefaultImageProviderId()): ImageGenerationProvider {
+  return PROVIDERS[id] ?? PROVIDERS.flux;
+}
+
+/**
+ * Providers offered in the engine selectors; the mock only in development or when it is the default
+ */
+export function listImageProviders(): ImageGenerationProvider[] {
+  const showMock = import.meta.env.DEV || getDefaultImageProviderId() === 'mock';
+  return IMAGE_PROVIDER_IDS.filter(id => id !== 'mock' || showMock).map(id => PROVIDERS[id]);
+}
+
+/**
+ * Create a task and wait for its image. Aborting the signal stops waiting and cancels the task.
+ */
+export async function generateImage(
+  request: ImageTaskRequest,
+  providerId?: ImageProviderId,
+  { onEvent, signal }: ImagePollOptions = {}
+): Promise<string> {
+  const provider = getImageProvider(providerId);
+  if (!provider.isConfigured()) {
+    throw new Error(`${provider.label} API key is not configured for image generation`);
+  }
+  if (request.referenceImage && !provider.capabilities.imagePrompt) {
+    console.warn(`${provider.label} does not take reference images; generating from the prompt only`);
+  }
+
+  throwIfAborted(signal);
+  const task = await provider.createTask(request, { signal });
+  console.log(`🖼️ ${provider.label} ${request.kind} task created:`, task.id);
+  onEvent?.({ type: 'created', taskId: task.id });
+
+  const cancelTask = () => {
+    provider.cancel(task).catch(error => console.warn(`Could not cancel ${provider.label} task ${task.id}:`, error));
+  };
+  signal?.addEventListener('abort', cancelTask, { once: true });
+  try {
+    const imageUrl = await provider.poll(task, { onEvent, signal });
+    onEvent?.({ type: 'completed', imageUrl });
+    return imageUrl;
+  } finally {
+    signal?.removeEventListener('abort', cancelTask);
+  }
+}
@@ -0,0 +1,167 @@
+import { callAIGateway, isAIServiceConfigured } from './ai-gateway';
+import { createAbortError, delay, isAbortError, throwIfAborted } from './abort';
+import { rememberSignedProxyUrl } from './cors-helper';
+import type { ImageGenerationProvider, ImageTask, ImageTaskRequest } from './image-generation';
+
+/**
+ * BFL Flux 1.1 Pro. Tasks are created by the generate-background / generate-product routes
+ * and polled through the /api/flux proxy, which adds the key server-side.
+ */
+
+const FLUX_PROXY_URL = '/api/flux';
+
+// Polls start quick and back off exponentially, with jitter so parallel candidates don't poll in lockstep
+const POLL_INITIAL_DELAY_MS = 1000;
+const POLL_MAX_DELAY_MS = 8000;
+const POLL_BACKOFF_FACTOR = 1.5;
+const POLL_TIMEOUT_MS = 3 * 60 * 1000;
+// Failed polls (network, 5xx, 429) in a row before giving up
+const MAX_POLL_FAILURES = 5;
+// A task can be missing for a moment right after it is created
+const MAX_NOT_FOUND_POLLS = 5;
+
+interface FluxTaskResponse {
+  id: string;
+  polling_url: string;
+}
+
+interface FluxResultResponse {
+  id: string;
+  status: 'Task not found' | 'Pending' | 'Request Moderated' | 'Content Moderated' | 'Ready' | 'Error';
+  // proxy_url is added by the /api/flux proxy: the image proxy URL, signed when the proxy requires it
+  result?: { sample: string; proxy_url?: string } | null;
+  progress?: number | null;
+  details?: object | null;
+}
+
+// Tasks whose polling was cancelled; Flux itself has no cancel endpoint
+const cancelledTasks = new Set<string>();
+
+function getResultUrl(task: ImageTask): string {
+  const { pollingUrl } = task;
+  if (pollingUrl && (pollingUrl.includes('api.bfl.ai/v1') || pollingUrl.includes('api.us1.bfl.ai/v1'))) {
+    // Convert external polling URL to use our proxy
+    return pollingUrl.replace('https://api.bfl.ai/v1', FLUX_PROXY_URL).replace('https://api.us1.bfl.ai/v1', FLUX_PROXY_URL);
+  }
+  return `${FLUX_PROXY_URL}/get_result?id=${task.id}`;
+}
+
+function getBackoffDelay(step: number): number {
+  const delayMs = Math.min(POLL_MAX_DELAY_MS, POLL_INITIAL_DELAY_MS * POLL_BACKOFF_FACTOR ** step);
+  return Math.round(delayMs / 2 + Math.random() * (delayMs / 2));
+}
+
+/**
+ * One poll of a task. Network errors, 5xx and 429 resolve with a failure worth retrying; other errors throw.
+ */
+async function getResult(task: ImageTask, signal?: AbortSignal): Promise<FluxResultResponse | { failure: string }> {
+  const url = getResultUrl(task);
+  let response: Response;
+  try {
+    response = await fetch(url, { method: 'GET', signal });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    return { failure: error instanceof Error ? error.message : String(error) };
+  }
+
+  if (!response.ok) {
+    console.error(`Get result failed for URL: ${url}`, response.status, response.statusText);
+    if (response.status >= 500 || response.status === 429) {
+      return { failure: `${response.status} ${response.statusText}` };
+    }
+    throw new Error(`Failed to get Flux result: ${response.status} ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+export const fluxImageProvider: ImageGenerationProvider = {
+  id: 'flux',
+  label: 'Flux 1.1 Pro',
+  description: 'Última generación',
+  capabilities: {
+    imagePrompt: true,
+    seed: true,
+    offline: false,
+    sizes: {
+      background: { width: 1440, height: 352 },
+      product: { width: 512, height: 512 },
+    },
+  },
+
+  isConfigured: () => isAIServiceConfigured('flux'),
+
+  async createTask(request: ImageTaskRequest, { signal } = {}): Promise<ImageTask> {
+    const task = request.kind === 'background'
+      ? await callAIGateway<FluxTaskResponse>('generate-background', { provider: 'flux', prompt: request.prompt, seed: request.seed ?? null }, { partnerId: request.partnerId, signal })
+      : await callAIGateway<FluxTaskResponse>('generate-product', { provider: 'flux', prompt: request.prompt, image: request.referenceImage }, { partnerId: request.partnerId, signal });
+    return { provider: 'flux', id: task.id, pollingUrl: task.polling_url };
+  },
+
+  async poll(task, { onEvent, signal } = {}) {
+    const deadline = Date.now() + POLL_TIMEOUT_MS;
+    let failures = 0;
+    let notFound = 0;
+
+    try {
+      for (let attempt = 1; ; attempt++) {
+        throwIfAborted(signal);
+        if (cancelledTasks.delete(task.id)) {
+          throw createAbortError();
+        }
+
+        const result = await getResult(task, signal);
+        let delayMs = getBackoffDelay(attempt - 1);
+
+        if ('failure' in result) {
+          if (++failures >= MAX_POLL_FAILURES) {
+            throw new Error(`Flux polling failed ${failures} times in a row: ${result.failure}`);
+          }
+          delayMs = getBackoffDelay(failures);
+          console.warn(`Poll attempt ${attempt} failed, retrying in ${delayMs} ms:`, result.failure);
+          onEvent?.({ type: 'retrying', attempt, delayMs, reason: result.failure });
+        } else {
+          failures = 0;
+          console.log(`Poll attempt ${attempt}:`, result.status, result.progress);
+
+          switch (result.status) {
+            case 'Ready':
+              if (!result.result?.sample) {
+                throw new Error(`Flux task ${task.id} is ready but has no image`);
+              }
+              if (result.result.proxy_url) {
+                rememberSignedProxyUrl(result.result.sample, result.result.proxy_url);
+              }
+              return result.result.sample;
+            case 'Request Moderated':
+              throw new Error(`Flux moderated the request of task ${task.id}; change the prompt or the reference image`);
+            case 'Content Moderated':
+              throw new Error(`Flux moderated the generated image of task ${task.id}; try again or change the prompt`);
+            case 'Error':
+              throw new Error(`Flux task ${task.id} failed. Details: ${JSON.stringify(result.details)}`);
+            case 'Task not found':
+              if (++notFound > MAX_NOT_FOUND_POLLS) {
+                throw new Error(`Flux task ${task.id} was not found`);
+              }
+              onEvent?.({ type: 'retrying', attempt, delayMs, reason: result.status });
+              break;
+            default:
+              onEvent?.({ type: 'pending', attempt, progress: result.progress ?? null });
+          }
+        }
+
+        if (Date.now() + delayMs > deadline) {
+          throw new Error(`Timeout: Flux task ${task.id} did not complete within ${POLL_TIMEOUT_MS / 1000} s`);
+        }
+        await delay(delayMs, signal);
+      }
+    } finally {
+      // A cancel that came in while polling has been handled, or is moot now
+      cancelledTasks.delete(task.id);
+    }
+  },
+
+  async cancel(task) {
+    cancelledTasks.add(task.id);
+  },
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { generateImage } from './image-generation';
+import { createMockProductAnalysis } from './image-provider-mock';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+function decodeDataUrl(dataUrl: string): Uint8Array {
+  expect(dataUrl.startsWith('data:image/png;base64,')).toBe(true);
+  return Uint8Array.from(atob(dataUrl.split(',')[1]), char => char.charCodeAt(0));
+}
+
+function readSize(png: Uint8Array): { width: number; height: number } {
+  const view = new DataView(png.buffer, png.byteOffset);
+  return { width: view.getUint32(16), height: view.getUint32(20) };
+}
+
+describe('mock image provider', () => {
+  it('generates PNG backgrounds and products without a DOM', async () => {
+    const background = decodeDataUrl(await generateImage({ kind: 'background', prompt: 'beach', seed: 7 }, 'mock'));
+    const product = decodeDataUrl(await generateImage({ kind: 'product', prompt: 'bottle' }, 'mock'));
+
+    expect(Array.from(background.subarray(0, 8))).toEqual(PNG_SIGNATURE);
+    expect(readSize(background)).toEqual({ width: 1440, height: 352 });
+    expect(Array.from(product.subarray(0, 8))).toEqual(PNG_SIGNATURE);
+    expect(readSize(product)).toEqual({ width: 512, height: 512 });
+  });
+
+  it('draws the same image for the same prompt and seed only', async () => {
+    const first = await generateImage({ kind: 'background', prompt: 'beach', seed: 7 }, 'mock');
+    const again = await generateImage({ kind: 'background', prompt: 'beach', seed: 7 }, 'mock');
+    const otherSeed = await generateImage({ kind: 'background', prompt: 'beach', seed: 8 }, 'mock');
+
+    expect(again).toBe(first);
+    expect(otherSeed).not.toBe(first);
+  });
+
+  it('rejects with an AbortError when the generation is cancelled', async () => {
+    const controller = new AbortController();
+    const pending = generateImage({ kind: 'product', prompt: 'bottle' }, 'mock', { signal: controller.signal });
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('analyzes a product photo offline, the same way every time', () => {
+    const photo = new File([new Uint8Array(64)], 'bottle.png', { type: 'image/png' });
+
+    const analysis = createMockProductAnalysis(photo);
+
+    expect(createMockProductAnalysis(photo)).toEqual(analysis);
+    expect(analysis.styleInfo.dominantColors.every(color => /^#[0-9A-F]{6}$/.test(color))).toBe(true);
+  });
+});
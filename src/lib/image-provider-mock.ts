@@ -0,0 +1,259 @@
+import { createAbortError, delay } from './abort';
+import type { ImageGenerationProvider, ImageSize, ImageTask, ImageTaskRequest } from './image-generation';
+import type { ProductAnalysis } from './product-analysis';
+
+/**
+ * Offline provider: draws a deterministic placeholder (same request, same PNG) pixel by pixel and
+ * encodes it without a DOM, so the banner pipeline and tests can run without network or API keys.
+ */
+
+const SIZES: Record<ImageTaskRequest['kind'], ImageSize> = {
+  background: { width: 1440, height: 352 },
+  product: { width: 512, height: 512 },
+};
+
+const MOCK_DELAY_MS = 300;
+
+// Requests of the tasks not polled yet
+const pendingTasks = new Map<string, ImageTaskRequest>();
+let taskCount = 0;
+
+type Rgb = [number, number, number];
+
+// FNV-1a, to turn a request into a seed
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index++) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32 pseudo-random generator
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function getRequestKey(request: ImageTaskRequest): string {
+  return `${request.kind}|${request.seed ?? 0}|${request.prompt}`;
+}
+
+// hue in degrees, saturation and lightness from 0 to 1
+function hslToRgb(hue: number, saturation: number, lightness: number): Rgb {
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    return Math.round(255 * (lightness - chroma / 2 * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+  };
+  return [channel(0), channel(8), channel(4)];
+}
+
+function toHex([r, g, b]: Rgb): string {
+  return `#${[r, g, b].map(value => value.toString(16).padStart(2, '0')).join('').toUpperCase()}`;
+}
+
+function mix(from: Rgb, to: Rgb, amount: number): Rgb {
+  return [0, 1, 2].map(index => Math.round(from[index] + (to[index] - from[index]) * amount)) as Rgb;
+}
+
+/**
+ * RGBA pixels of the placeholder: a gradient with translucent circles for backgrounds, a rounded
+ * block on a transparent background for products (so no background removal is needed)
+ */
+function renderMockPixels(request: ImageTaskRequest): Uint8Array {
+  const { width, height } = SIZES[request.kind];
+  const pixels = new Uint8Array(width * height * 4);
+  const random = createRandom(hashString(getRequestKey(request)));
+  const hue = Math.floor(random() * 360);
+
+  if (request.kind === 'background') {
+    const start = hslToRgb(hue, 0.7, 0.55);
+    const end = hslToRgb((hue + 40) % 360, 0.7, 0.3);
+    const circles = Array.from({ length: 6 }, () => ({
+      color: hslToRgb((hue + random() * 60) % 360, 0.8, 0.75),
+      x: random() * width,
+      y: random() * height,
+      radius: height * (0.2 + random() * 0.5),
+    }));
+    const diagonal = width * width + height * height;
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let color = mix(start, end, (x * width + y * height) / diagonal);
+        for (const circle of circles) {
+          if ((x - circle.x) ** 2 + (y - circle.y) ** 2 <= circle.radius ** 2) {
+            color = mix(color, circle.color, 0.25);
+          }
+        }
+        pixels.set([...color, 255], (y * width + x) * 4);
+      }
+    }
+  } else {
+    const light = hslToRgb(hue, 0.65, 0.7);
+    const dark = hslToRgb(hue, 0.65, 0.4);
+    const [left, top, right, bottom] = [width * 0.2, height * 0.15, width * 0.8, height * 0.85];
+    const corner = width * 0.08;
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const dx = x - Math.max(left + corner, Math.min(x, right - corner));
+        const dy = y - Math.max(top + corner, Math.min(y, bottom - corner));
+        if (x < left || x > right || y < top || y > bottom || dx * dx + dy * dy > corner * corner) continue;
+
+        const distance = Math.hypot(x - width * 0.4, y - height * 0.35) / (width * 0.45);
+        pixels.set([...mix(light, dark, Math.min(1, distance)), 255], (y * width + x) * 4);
+      }
+    }
+  }
+
+  return pixels;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let crc = index;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function createChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(data.length + 12);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let index = 0; index < 4; index++) {
+    chunk[4 + index] = type.charCodeAt(index);
+  }
+  chunk.set(data, 8);
+  view.setUint32(data.length + 8, crc32(chunk.subarray(4, data.length + 8)));
+  return chunk;
+}
+
+async function deflate(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Encode RGBA pixels as an 8-bit truecolor PNG with alpha
+ */
+export async function encodePng(pixels: Uint8Array, { width, height }: ImageSize): Promise<Uint8Array> {
+  // Every scanline starts with filter type 0 (none)
+  const scanlines = new Uint8Array(height * (width * 4 + 1));
+  for (let y = 0; y < height; y++) {
+    scanlines.set(pixels.subarray(y * width * 4, (y + 1) * width * 4), y * (width * 4 + 1) + 1);
+  }
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header.set([8, 6, 0, 0, 0], 8);
+
+  const parts = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    createChunk('IHDR', header),
+    createChunk('IDAT', await deflate(scanlines)),
+    createChunk('IEND', new Uint8Array(0)),
+  ];
+  const png = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+  parts.reduce((offset, part) => {
+    png.set(part, offset);
+    return offset + part.length;
+  }, 0);
+  return png;
+}
+
+function toDataUrl(bytes: Uint8Array, mimeType: string): string {
+  let binary = '';
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+}
+
+async function renderMockImage(request: ImageTaskRequest): Promise<string> {
+  const png = await encodePng(renderMockPixels(request), SIZES[request.kind]);
+  return toDataUrl(png, 'image/png');
+}
+
+/**
+ * Placeholder product analysis for jobs on the mock engine, derived from the photo's name and size
+ * so the same photo always gets the same colors
+ */
+export function createMockProductAnalysis(file: File): ProductAnalysis {
+  const random = createRandom(hashString(`${file.name}|${file.size}`));
+  const hue = Math.floor(random() * 360);
+  const color = (offset: number, lightness: number) => toHex(hslToRgb((hue + offset) % 360, 0.65, lightness));
+
+  return {
+    productDescription: `Producto de prueba (${file.name})`,
+    styleInfo: {
+      dominantColors: [color(0, 0.5), color(0, 0.3)],
+      accentColors: [color(180, 0.55)],
+      colorTemperature: hue < 90 || hue >= 300 ? 'warm' : hue < 270 ? 'cool' : 'neutral',
+      materialFinish: 'matte',
+      visualStyle: 'minimal',
+      backgroundCompatibility: {
+        recommendedColors: [color(180, 0.85), color(30, 0.9)],
+        avoidColors: [color(0, 0.5)],
+        patternSuggestions: ['soft gradient'],
+      },
+    },
+  };
+}
+
+export const mockImageProvider: ImageGenerationProvider = {
+  id: 'mock',
+  label: 'Simulado (sin red)',
+  description: 'Imágenes de prueba',
+  capabilities: {
+    imagePrompt: false,
+    seed: true,
+    offline: true,
+    sizes: SIZES,
+  },
+
+  isConfigured: () => true,
+
+  async createTask(request: ImageTaskRequest): Promise<ImageTask> {
+    const id = `mock-${hashString(getRequestKey(request)).toString(16)}-${++taskCount}`;
+    pendingTasks.set(id, request);
+    return { provider: 'mock', id };
+  },
+
+  async poll(task, { onEvent, signal } = {}) {
+    const request = pendingTasks.get(task.id);
+    if (!request) {
+      throw createAbortError();
+    }
+
+    // A short pause so progress and cancellation can be seen, like a real provider
+    onEvent?.({ type: 'pending', attempt: 1, progress: 0.5 });
+    try {
+      await delay(MOCK_DELAY_MS, signal);
+    } finally {
+      pendingTasks.delete(task.id);
+    }
+    return renderMockImage(request);
+  },
+
+  async cancel(task) {
+    pendingTasks.delete(task.id);
+  },
+};
@@ -0,0 +1,49 @@
+import { callAIGateway, isAIServiceConfigured } from './ai-gateway';
+import { throwIfAborted } from './abort';
+import type { ImageGenerationProvider, ImageTask, ImageTaskRequest } from './image-generation';
+
+/**
+ * OpenAI gpt-image-1 through the same generate-background / generate-product routes.
+ * The image comes back with the task, so polling resolves right away.
+ */
+
+interface OpenAIImageResponse {
+  id: string;
+  image_url: string;
+}
+
+export const openAIImageProvider: ImageGenerationProvider = {
+  id: 'openai',
+  label: 'OpenAI GPT Image',
+  description: 'Rápido y confiable',
+  capabilities: {
+    imagePrompt: true,
+    seed: false,
+    offline: false,
+    // No 4:1 output; the 3:2 background is cropped to the banner
+    sizes: {
+      background: { width: 1536, height: 1024 },
+      product: { width: 1024, height: 1024 },
+    },
+  },
+
+  isConfigured: () => isAIServiceConfigured('openai'),
+
+  async createTask(request: ImageTaskRequest, { signal } = {}): Promise<ImageTask> {
+    const response = request.kind === 'background'
+      ? await callAIGateway<OpenAIImageResponse>('generate-background', { provider: 'openai', prompt: request.prompt }, { partnerId: request.partnerId, signal })
+      : await callAIGateway<OpenAIImageResponse>('generate-product', { provider: 'openai', prompt: request.prompt, image: request.referenceImage }, { partnerId: request.partnerId, signal });
+    return { provider: 'openai', id: response.id, imageUrl: response.image_url };
+  },
+
+  async poll(task, { signal } = {}) {
+    throwIfAborted(signal);
+    if (!task.imageUrl) {
+      throw new Error(`OpenAI image task ${task.id} has no image`);
+    }
+    return task.imageUrl;
+  },
+
+  // The image is generated when the task is created; there is nothing left to stop
+  async cancel() {},
+};
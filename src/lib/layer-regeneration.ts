@@ -0,0 +1,145 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { createBackgroundSeeds, generateBackgroundFromPrompt } from './flux-background';
+import { generateProductCutoutPrompt, generateProductFromPrompt } from './flux-product';
+import { removeProductBackground } from './background-removal';
+import { uploadImageToStorageSimple } from './banners-simple';
+import { getProxyImageUrl } from './cors-helper';
+import type { GenerationEventHandler, GenerationStepRanges } from './generation-progress';
+
+export type RegenerableLayer = 'background' | 'product';
+
+export interface RegeneratedLayer {
+  imageUrl: string;
+  prompt: string;
+  seed?: number;
+}
+
+// Progress bar ranges for reduceGenerationProgress: a regeneration reports the pipeline steps it reruns
+export const LAYER_STEP_PROGRESS: Record<RegenerableLayer, GenerationStepRanges> = {
+  background: { background: [0, 100] },
+  product: { product: [0, 50], cutout: [50, 100] },
+};
+
+// Stored as product_prompt by banners generated before the real prompt was kept
+const LEGACY_PRODUCT_PROMPT = 'Automatic background removal applied';
+
+/**
+ * Prompt a layer was generated with, to prefill the regenerate dialog.
+ * Older banners without a product prompt get one rebuilt from their product description.
+ */
+export function getLayerPrompt(layer: RegenerableLayer, banner: Partial<Tables<'banners'>>): string {
+  if (layer === 'background') {
+    return banner.background_prompt || banner.prompt_used || '';
+  }
+
+  if (banner.product_prompt && banner.product_prompt !== LEGACY_PRODUCT_PROMPT) {
+    return banner.product_prompt;
+  }
+  return banner.product_description ? generateProductCutoutPrompt(banner.product_description) : '';
+}
+
+async function fetchImageFile(url: string, fileName: string): Promise<File> {
+  const response = await fetch(getProxyImageUrl(url));
+  if (!response.ok) {
+    throw new Error(`Failed to fetch layer image: ${response.status} ${response.statusText}`);
+  }
+
+  const blob = await response.blob();
+  return new File([blob], fileName, { type: blob.type || 'image/png' });
+}
+
+async function updateBannerLayer(bannerId: string, patch: Partial<Tables<'banners'>>): Promise<void> {
+  const { error } = await supabase
+    .from('banners')
+    .update(patch)
+    .eq('id', bannerId);
+
+  if (error) {
+    console.error('❌ Error updating banner layer:', error);
+    throw new Error(`Failed to update banner layer: ${error.message}`);
+  }
+}
+
+/**
+ * Generate a new background with a fresh seed and upload it, without touching the banner yet
+ */
+export async function generateBackgroundLayer(
+  bannerId: string,
+  prompt: string,
+  onEvent?: GenerationEventHandler
+): Promise<RegeneratedLayer> {
+  if (!prompt.trim()) {
+    throw new Error('A prompt is required to regenerate the background');
+  }
+
+  onEvent?.({ type: 'step', step: 'background' });
+  const [seed] = createBackgroundSeeds(1);
+  const background = await generateBackgroundFromPrompt(
+    prompt,
+    seed,
+    event => onEvent?.({ type: 'image', step: 'background', seed, taskCount: 1, event })
+  );
+
+  onEvent?.({ type: 'storing', step: 'background' });
+  const imageUrl = await uploadImageToStorageSimple(background.imageUrl, `background-${bannerId}-${Date.now()}.png`);
+  return { imageUrl, prompt, seed };
+}
+
+/**
+ * Make a generated background the banner's background layer.
+ * image_url is left alone: it may point at the last flattened export.
+ */
+export async function saveBackgroundLayer(bannerId: string, layer: RegeneratedLayer): Promise<void> {
+  await updateBannerLayer(bannerId, {
+    background_image_url: layer.imageUrl,
+    background_prompt: layer.prompt,
+    background_seed: layer.seed ?? null,
+  });
+}
+
+/**
+ * Generate a new background for a banner and store it as its background layer
+ */
+export async function regenerateBackgroundLayer(
+  bannerId: string,
+  prompt: string,
+  onEvent?: GenerationEventHandler
+): Promise<RegeneratedLayer> {
+  const layer = await generateBackgroundLayer(bannerId, prompt, onEvent);
+  await saveBackgroundLayer(bannerId, layer);
+  return layer;
+}
+
+/**
+ * Generate a new product image from the current one as reference, remove its background
+ * and store the cutout as the banner's product layer
+ */
+export async function regenerateProductLayer(
+  bannerId: string,
+  prompt: string,
+  referenceImageUrl: string,
+  onEvent?: GenerationEventHandler
+): Promise<RegeneratedLayer> {
+  if (!prompt.trim()) {
+    throw new Error('A prompt is required to regenerate the product');
+  }
+
+  onEvent?.({ type: 'step', step: 'product' });
+  const referenceFile = await fetchImageFile(referenceImageUrl, 'product-reference.png');
+
+  const product = await generateProductFromPrompt(
+    referenceFile,
+    prompt,
+    event => onEvent?.({ type: 'image', step: 'product', taskCount: 1, event })
+  );
+
+  onEvent?.({ type: 'step', step: 'cutout' });
+  const generatedFile = await fetchImageFile(product.imageUrl, 'product-generated.png');
+  const cutout = await removeProductBackground(generatedFile, progress => onEvent?.({ type: 'background-removal', progress }));
+
+  onEvent?.({ type: 'storing', step: 'cutout' });
+  const imageUrl = await uploadImageToStorageSimple(cutout.imageUrl, `product-${bannerId}-${Date.now()}.png`);
+  await updateBannerLayer(bannerId, { product_image_url: imageUrl, product_prompt: prompt });
+  return { imageUrl, prompt };
+}
@@ -0,0 +1,127 @@
+import type { BannerAsset } from '@/types/banner-editor';
+import type { BrandKit, LogoVariant } from './brand-kit';
+import { contrastRatio, type BackgroundSampler, type RGB } from './color-contrast';
+
+/**
+ * Automatic logo variant selection.
+ * Partners can store light, dark and monochrome logos in their brand kit; each logo asset
+ * shows the variant that contrasts best with the background pixels beneath it.
+ */
+
+export interface LogoCandidate {
+  variant: LogoVariant;
+  url: string;
+  // Average color of the logo's opaque pixels, when the image could be read
+  inkColor?: RGB | null;
+}
+
+// Assumed ink when the image can't be measured; mono has no reliable guess
+const NOMINAL_INK: Partial<Record<LogoVariant, RGB>> = {
+  light: { r: 255, g: 255, b: 255 },
+  dark: { r: 0, g: 0, b: 0 },
+};
+
+// Logos smaller than this are measured at their own size
+const INK_SAMPLE_SIZE = 64;
+
+/**
+ * Logo variants from the brand kit that have a usable (uploaded) URL
+ */
+export function getLogoCandidates(kit: BrandKit | null): LogoCandidate[] {
+  return (kit?.logos ?? [])
+    .filter(logo => /^(https?:|blob:|data:)/.test(logo.url))
+    .map(logo => ({ variant: logo.variant, url: logo.url }));
+}
+
+/**
+ * Average color of an image's mostly opaque pixels.
+ * Returns null for fully transparent images or when the pixels can't be read (tainted canvas).
+ */
+export function getLogoInkColor(image: HTMLImageElement): RGB | null {
+  const width = Math.min(INK_SAMPLE_SIZE, image.naturalWidth);
+  const height = Math.min(INK_SAMPLE_SIZE, image.naturalHeight);
+  if (width === 0 || height === 0) return null;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+
+  ctx.drawImage(image, 0, 0, width, height);
+
+  let pixels: Uint8ClampedArray;
+  try {
+    pixels = ctx.getImageData(0, 0, width, height).data;
+  } catch (error) {
+    console.warn('⚠️ Logo pixels are not readable (tainted canvas):', error);
+    return null;
+  }
+
+  let r = 0;
+  let g = 0;
+  let b = 0;
+  let count = 0;
+  for (let index = 0; index < pixels.length; index += 4) {
+    if (pixels[index + 3] < 128) continue;
+    r += pixels[index];
+    g += pixels[index + 1];
+    b += pixels[index + 2];
+    count++;
+  }
+
+  return count > 0 ? { r: r / count, g: g / count, b: b / count } : null;
+}
+
+/**
+ * The candidate with the highest contrast against the backdrop.
+ * Candidates whose ink is unknown are only picked when nothing else can be compared.
+ */
+export function pickLogoVariant(candidates: LogoCandidate[], backdrop: RGB): LogoCandidate | null {
+  const scored = candidates
+    .map(candidate => {
+      const ink = candidate.inkColor ?? NOMINAL_INK[candidate.variant];
+      return { candidate, contrast: ink ? contrastRatio(ink, backdrop) : 0 };
+    })
+    .sort((a, b) => b.contrast - a.contrast);
+
+  return scored[0]?.candidate ?? null;
+}
+
+/**
+ * Assets with every automatic logo switched to its best variant for the background beneath it,
+ * or null when nothing changes. Logos whose variant was picked by hand are left alone.
+ */
+export function selectLogoVariants(
+  assets: BannerAsset[],
+  candidates: LogoCandidate[],
+  sampleBackground: BackgroundSampler,
+  offsetX: number = 0,
+  offsetY: number = 0
+): BannerAsset[] | null {
+  if (candidates.length < 2) return null;
+
+  let changed = false;
+  const updated = assets.map(asset => {
+    const x = asset.position.x + offsetX;
+    const y = asset.position.y + offsetY;
+
+    if (asset.type === 'group') {
+      const children = selectLogoVariants(asset.children ?? [], candidates, sampleBackground, x, y);
+      if (!children) return asset;
+      changed = true;
+      return { ...asset, children };
+    }
+
+    if (asset.type !== 'logo' || asset.logoVariantLocked) return asset;
+
+    const backdrop = sampleBackground({ x, y, width: asset.size.width, height: asset.size.height });
+    const best = backdrop ? pickLogoVariant(candidates, backdrop) : null;
+    if (!best || (best.variant === asset.logoVariant && best.url === asset.imageUrl)) return asset;
+
+    changed = true;
+    return { ...asset, imageUrl: best.url, logoVariant: best.variant };
+  });
+
+  return changed ? updated : null;
+}
@@ -8,6 +8,32 @@ export interface ProductPhoto {
   uploadedAt: string;
 }
 
+const MAX_PRODUCT_IMAGE_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Download a product photo as a File for the banner workflow
+ */
+export async function fetchProductImageFile(url: string): Promise<File> {
+  const response = await fetch(url, { method: 'GET', headers: { 'Accept': 'image/*' } });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch image: ${response.status} ${response.statusText}`);
+  }
+
+  const blob = await response.blob();
+  if (!blob.type.startsWith('image/')) {
+    throw new Error(`Invalid image type: ${blob.type}`);
+  }
+  if (blob.size === 0) {
+    throw new Error('Empty image file');
+  }
+  if (blob.size > MAX_PRODUCT_IMAGE_SIZE) {
+    throw new Error('Image file too large (max 10MB)');
+  }
+
+  const fileName = url.split('/').pop()?.split('?')[0] || 'product-photo.jpg';
+  return new File([blob], fileName, { type: blob.type || 'image/jpeg', lastModified: Date.now() });
+}
+
 /**
  * Upload a single product photo to a partner's collection
  */
@@ -0,0 +1,135 @@
+import { describe, expect, it, vi } from 'vitest';
+import { JSDOM } from 'jsdom';
+import type { Partner } from '@/hooks/usePartners';
+import { createZip } from '@/test/zip-builder';
+import { parseCsv, parseXlsx } from './spreadsheet';
+import { createBatchJobs } from './batch-generation';
+
+// XLSX parts are read with the browser's DOMParser
+vi.stubGlobal('DOMParser', new JSDOM().window.DOMParser);
+
+// Batch rows are generated through the Supabase backed services
+vi.mock('@/integrations/supabase/client', async () => {
+  const { createFakeSupabase } = await import('@/test/supabase-fake');
+  return { supabase: createFakeSupabase() };
+});
+
+const NS = 'xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"';
+const RELATIONSHIPS_NS = 'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+
+const worksheet = (rows: string) => `<worksheet ${NS}><sheetData>${rows}</sheetData></worksheet>`;
+
+function createWorkbook(parts: Record<string, string>): Blob {
+  return createZip({
+    'xl/workbook.xml': `<workbook ${NS} ${RELATIONSHIPS_NS}><sheets><sheet name="Banners" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    'xl/_rels/workbook.xml.rels': '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+      + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+      + '</Relationships>',
+    ...parts,
+  });
+}
+
+describe('parseCsv', () => {
+  it('reads quoted cells with delimiters, escaped quotes and line breaks', () => {
+    const csv = 'partner,main_text,cta\r\nTienda,"Hasta 30%, solo hoy","Di ""sí""\nya"\r\n';
+
+    expect(parseCsv(csv)).toEqual([
+      ['partner', 'main_text', 'cta'],
+      ['Tienda', 'Hasta 30%, solo hoy', 'Di "sí"\nya'],
+    ]);
+  });
+
+  it('detects semicolons from Spanish locale exports and skips empty lines', () => {
+    expect(parseCsv('\uFEFFpartner;descuento\n\nTienda;30,5\n;\n')).toEqual([
+      ['partner', 'descuento'],
+      ['Tienda', '30,5'],
+    ]);
+  });
+});
+
+describe('parseXlsx', () => {
+  it('resolves shared strings, inline strings and sparse cells', async () => {
+    const workbook = createWorkbook({
+      'xl/sharedStrings.xml': `<sst ${NS}><si><t>partner</t></si><si><r><t>main</t></r><r><t>_text</t></r></si><si><t>cta</t></si><si><t>Tienda</t></si></sst>`,
+      'xl/worksheets/sheet1.xml': worksheet(
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="s"><v>2</v></c></row>'
+        + '<row r="2"><c r="A2" t="s"><v>3</v></c><c r="C2" t="inlineStr"><is><t>Comprar</t></is></c></row>'
+      ),
+    });
+
+    expect(await parseXlsx(workbook)).toEqual([
+      ['partner', 'main_text', 'cta'],
+      ['Tienda', '', 'Comprar'],
+    ]);
+  });
+
+  it('reads percent formatted numbers as percentages', async () => {
+    const workbook = createWorkbook({
+      'xl/styles.xml': `<styleSheet ${NS}><numFmts count="1"><numFmt numFmtId="164" formatCode="0.0&quot;%&quot;;[Red]0.0%"/></numFmts>`
+        + '<cellXfs count="3"><xf numFmtId="0"/><xf numFmtId="9"/><xf numFmtId="164"/></cellXfs></styleSheet>',
+      'xl/worksheets/sheet1.xml': worksheet(
+        '<row r="1"><c r="A1" t="inlineStr"><is><t>discount</t></is></c></row>'
+        + '<row r="2"><c r="A2" s="1"><v>0.3</v></c><c r="B2" s="2"><v>0.075</v></c><c r="C2"><v>0.3</v></c></row>'
+      ),
+    });
+
+    expect(await parseXlsx(workbook)).toEqual([
+      ['discount'],
+      ['30%', '7.5%', '0.3'],
+    ]);
+  });
+
+  it('reads the first tab even when it is not sheet1.xml', async () => {
+    const workbook = createZip({
+      'xl/workbook.xml': `<workbook ${NS} ${RELATIONSHIPS_NS}><sheets><sheet name="Banners" sheetId="2" r:id="rId7"/><sheet name="Notas" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+      'xl/_rels/workbook.xml.rels': '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + '<Relationship Id="rId1" Target="worksheets/sheet1.xml"/><Relationship Id="rId7" Target="/xl/worksheets/sheet2.xml"/>'
+        + '</Relationships>',
+      'xl/worksheets/sheet1.xml': worksheet('<row r="1"><c r="A1" t="inlineStr"><is><t>notas</t></is></c></row>'),
+      'xl/worksheets/sheet2.xml': worksheet('<row r="1"><c r="A1" t="inlineStr"><is><t>partner</t></is></c></row>'),
+    });
+
+    expect(await parseXlsx(workbook)).toEqual([['partner']]);
+  });
+});
+
+describe('createBatchJobs', () => {
+  const partner = {
+    id: 'partner-1',
+    name: 'Tienda Sol',
+    product_photos_urls: ['https://storage.test/photos/botella.png', 'https://storage.test/photos/lata.png'],
+  } as Partner;
+  const row = { Socio: 'tienda sol', Producto: '2', Título: 'Hasta 30% OFF', Descripción: 'En toda la tienda', Botón: 'Comprar' };
+
+  it('maps header aliases and resolves partners and product photos', () => {
+    const [job] = createBatchJobs([{ ...row, Descuento: '30%' }], [partner]);
+
+    expect(job.status).toBe('pending');
+    expect(job.row).toMatchObject({
+      rowNumber: 1,
+      partnerId: 'partner-1',
+      productImageUrl: 'https://storage.test/photos/lata.png',
+      mainText: 'Hasta 30% OFF',
+      descriptionText: 'En toda la tienda',
+      ctaText: 'Comprar',
+      discountPercentage: 30,
+    });
+  });
+
+  it('fails rows with unknown partners, missing copy or fractional discounts', () => {
+    const jobs = createBatchJobs([
+      { ...row, Socio: 'Otra' },
+      { ...row, Botón: '' },
+      { ...row, Descuento: '0.3' },
+      { ...row, Descuento: '0,5%' },
+    ], [partner]);
+
+    expect(jobs.map(job => job.error)).toEqual([
+      'Unknown partner "Otra"',
+      'Missing CTA',
+      'Discount "0.3" looks like a fraction; write the percentage (e.g. 30 for 30%)',
+      undefined,
+    ]);
+    expect(jobs[3].row?.discountPercentage).toBe(0.5);
+  });
+});
@@ -0,0 +1,216 @@
+import { readZipEntries, type ZipEntry } from './zip-reader';
+
+/**
+ * Read the first sheet of a CSV or XLSX upload as rows of text keyed by header.
+ * XLSX files are ZIPs of XML parts, read with the ZIP reader and DOMParser; only cell values
+ * are kept (shared strings, inline strings and numbers), not formulas or formatting, except
+ * percent formats: a cell shown as 30% is stored as 0.3 and read back as "30%".
+ */
+
+export type SpreadsheetRow = Record<string, string>;
+
+export interface Spreadsheet {
+  headers: string[];
+  rows: SpreadsheetRow[];
+}
+
+const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+// Built-in number formats 0% and 0.00%
+const BUILT_IN_PERCENT_FORMATS = [9, 10];
+
+/**
+ * Parse CSV text into cells. Quoted cells may contain the delimiter, quotes ("") and newlines.
+ * Without a delimiter it is `,` unless the header line has more `;` (Excel in Spanish locales).
+ */
+export function parseCsv(text: string, delimiter?: ',' | ';'): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const headerLine = source.split(/\r?\n/, 1)[0] ?? '';
+  delimiter ??= (headerLine.match(/;/g)?.length ?? 0) > (headerLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(value => value.trim()));
+}
+
+// "B12" → 1 (zero-based column index)
+function getColumnIndex(reference: string): number {
+  const letters = reference.replace(/\d+$/, '').toUpperCase();
+  return Array.from(letters).reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+function parseXml(text: string, path: string): Document {
+  const document = new DOMParser().parseFromString(text, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`Invalid XML in ${path}`);
+  }
+  return document;
+}
+
+function getTextContent(element: Element): string {
+  return Array.from(element.getElementsByTagNameNS(SPREADSHEET_NS, 't')).map(node => node.textContent ?? '').join('');
+}
+
+// A format code shows a percent when it has a % outside quoted text and escapes
+function isPercentFormatCode(formatCode: string): boolean {
+  return formatCode.replace(/"[^"]*"|\\./g, '').includes('%');
+}
+
+/**
+ * Path of the first sheet in tab order: workbook.xml lists the sheets, its relationships
+ * map each one to its part (sheet1.xml is only the first sheet until the tabs are reordered)
+ */
+async function findFirstSheetPath(entries: ZipEntry[]): Promise<string | null> {
+  const workbookEntry = entries.find(entry => entry.path === 'xl/workbook.xml');
+  const relationshipsEntry = entries.find(entry => entry.path === 'xl/_rels/workbook.xml.rels');
+  if (!workbookEntry || !relationshipsEntry) return null;
+
+  const firstSheet = parseXml(await workbookEntry.data.text(), workbookEntry.path).getElementsByTagNameNS(SPREADSHEET_NS, 'sheet')[0];
+  const relationshipId = firstSheet?.getAttributeNS(RELATIONSHIP_NS, 'id');
+  if (!relationshipId) return null;
+
+  const relationship = Array.from(
+    parseXml(await relationshipsEntry.data.text(), relationshipsEntry.path).getElementsByTagNameNS(PACKAGE_RELATIONSHIP_NS, 'Relationship')
+  ).find(element => element.getAttribute('Id') === relationshipId);
+  const target = relationship?.getAttribute('Target');
+  if (!target) return null;
+
+  // Targets are relative to xl/, or absolute within the package
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+/**
+ * Indexes of the cell styles (a cell's `s` attribute) that show numbers as percentages
+ */
+async function readPercentStyles(entries: ZipEntry[]): Promise<Set<number>> {
+  const stylesEntry = entries.find(entry => entry.path === 'xl/styles.xml');
+  if (!stylesEntry) return new Set();
+
+  const styles = parseXml(await stylesEntry.data.text(), stylesEntry.path);
+  const percentFormats = new Set(BUILT_IN_PERCENT_FORMATS);
+  Array.from(styles.getElementsByTagNameNS(SPREADSHEET_NS, 'numFmt')).forEach(format => {
+    if (isPercentFormatCode(format.getAttribute('formatCode') ?? '')) {
+      percentFormats.add(Number(format.getAttribute('numFmtId')));
+    }
+  });
+
+  const cellFormats = styles.getElementsByTagNameNS(SPREADSHEET_NS, 'cellXfs')[0];
+  const percentStyles = new Set<number>();
+  Array.from(cellFormats?.getElementsByTagNameNS(SPREADSHEET_NS, 'xf') ?? []).forEach((format, index) => {
+    if (percentFormats.has(Number(format.getAttribute('numFmtId') ?? 0))) percentStyles.add(index);
+  });
+  return percentStyles;
+}
+
+// 0.3 → "30%", without the float noise of 0.07 * 100
+function formatPercent(value: string): string {
+  const number = Number(value);
+  return Number.isFinite(number) && value.trim() ? `${Number((number * 100).toPrecision(12))}%` : value;
+}
+
+/**
+ * Cells of the first worksheet of an .xlsx workbook
+ */
+export async function parseXlsx(file: Blob): Promise<string[][]> {
+  const entries = await readZipEntries(file);
+  const findEntry = (path: string) => entries.find(entry => entry.path === path);
+
+  const sharedStringsEntry = findEntry('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsEntry
+    ? Array.from(parseXml(await sharedStringsEntry.data.text(), sharedStringsEntry.path).getElementsByTagNameNS(SPREADSHEET_NS, 'si')).map(getTextContent)
+    : [];
+  const percentStyles = await readPercentStyles(entries);
+
+  // Without a readable workbook, fall back to the lowest numbered sheet part
+  const firstSheetPath = await findFirstSheetPath(entries);
+  const sheetEntry = (firstSheetPath && findEntry(firstSheetPath))
+    || entries
+      .filter(entry => /^xl\/worksheets\/[^/]+\.xml$/.test(entry.path))
+      .sort((a, b) => a.path.localeCompare(b.path, undefined, { numeric: true }))[0];
+  if (!sheetEntry) {
+    throw new Error('The workbook has no worksheets');
+  }
+
+  const sheet = parseXml(await sheetEntry.data.text(), sheetEntry.path);
+
+  return Array.from(sheet.getElementsByTagNameNS(SPREADSHEET_NS, 'row'))
+    .map(rowElement => {
+      const cells: string[] = [];
+      Array.from(rowElement.getElementsByTagNameNS(SPREADSHEET_NS, 'c')).forEach((cellElement, position) => {
+        const reference = cellElement.getAttribute('r');
+        const index = reference ? getColumnIndex(reference) : position;
+        const type = cellElement.getAttribute('t');
+        const style = Number(cellElement.getAttribute('s') ?? 0);
+        const value = cellElement.getElementsByTagNameNS(SPREADSHEET_NS, 'v')[0]?.textContent ?? '';
+
+        cells[index] = type === 's' ? sharedStrings[Number(value)] ?? ''
+          : type === 'inlineStr' ? getTextContent(cellElement)
+          : (!type || type === 'n') && percentStyles.has(style) ? formatPercent(value)
+          : value;
+      });
+      return Array.from(cells, value => value ?? '');
+    })
+    .filter(cells => cells.some(value => value.trim()));
+}
+
+/**
+ * Read a .csv or .xlsx file; the first non-empty row is the header
+ */
+export async function readSpreadsheet(file: File): Promise<Spreadsheet> {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+
+  let cells: string[][];
+  if (extension === 'csv') {
+    cells = parseCsv(await file.text());
+  } else if (extension === 'xlsx') {
+    cells = await parseXlsx(file);
+  } else {
+    throw new Error(`Unsupported spreadsheet type ".${extension}" (use .csv or .xlsx)`);
+  }
+
+  const [headerCells = [], ...body] = cells;
+  const headers = headerCells.map(header => header.trim());
+
+  return {
+    headers,
+    rows: body.map(values => Object.fromEntries(headers.map((header, index) => [header, (values[index] ?? '').trim()]))),
+  };
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import type { BannerAsset } from '@/types/banner-editor';
+import { createRecordingContext } from '@/test/canvas-shim';
+import { findOverflowingTextAssets, fitText, layoutText } from './text-layout';
+
+// The shim measures 0.55em per character: 11px at 20px, 22px at 40px
+const textAsset = (overrides: Partial<BannerAsset>): BannerAsset => ({
+  id: 'main-text',
+  type: 'text',
+  position: { x: 0, y: 0 },
+  size: { width: 200, height: 48 },
+  rotation: 0,
+  text: 'Hasta 30% OFF',
+  fontSize: 40,
+  fontFamily: 'Inter',
+  ...overrides,
+});
+
+const lineTexts = (asset: BannerAsset, fontScale?: number) =>
+  layoutText(createRecordingContext(), asset, fontScale).lines.map(line => line.segments.map(segment => segment.text).join(''));
+
+describe('layoutText', () => {
+  it('wraps at spaces and breaks words wider than the box between characters', () => {
+    const asset = textAsset({ text: 'Ya Superdescuentazo', fontSize: 20, size: { width: 110, height: 200 } });
+
+    expect(lineTexts(asset)).toEqual(['Ya', 'Superdescu', 'entazo']);
+  });
+
+  it('keeps manual line breaks and leaves CTA padding out of the box', () => {
+    expect(lineTexts(textAsset({ text: 'Hasta\n30% OFF', fontSize: 20 }))).toEqual(['Hasta', '30% OFF']);
+    expect(lineTexts(textAsset({ type: 'cta', text: 'Comprar ya', fontSize: 20, size: { width: 124, height: 48 } }))).toEqual(['Comprar', 'ya']);
+  });
+});
+
+describe('fitText', () => {
+  it('reports overflow without resizing when autoFit is off', () => {
+    const fit = fitText(createRecordingContext(), textAsset({}));
+
+    expect(fit).toMatchObject({ fontScale: 1, overflows: true });
+    expect(fit.layout.lines).toHaveLength(2);
+  });
+
+  it('shrinks to the largest size that fits the box', () => {
+    const fit = fitText(createRecordingContext(), textAsset({ autoFit: true }));
+
+    // One line of 13 characters fits 200px below 200 / (13 * 22) ≈ 0.699
+    expect(fit.overflows).toBe(false);
+    expect(fit.layout.lines).toHaveLength(1);
+    expect(fit.fontScale).toBeGreaterThan(0.69);
+    expect(fit.fontScale).toBeLessThanOrEqual(200 / 286);
+  });
+
+  it('stops at the minimum size and reports the overflow', () => {
+    const fit = fitText(createRecordingContext(), textAsset({ autoFit: true, minFontSize: 20, text: 'Hasta 30% OFF en toda la tienda', size: { width: 200, height: 30 } }));
+
+    expect(fit).toMatchObject({ fontScale: 0.5, overflows: true });
+    expect(fit.layout.lines.every(line => line.fontSize === 20)).toBe(true);
+  });
+
+  it('grows up to maxFontSize when there is room', () => {
+    const fit = fitText(createRecordingContext(), textAsset({ autoFit: true, maxFontSize: 60, text: 'OFF', size: { width: 200, height: 100 } }));
+
+    expect(fit).toMatchObject({ fontScale: 1.5, overflows: false });
+  });
+});
+
+describe('findOverflowingTextAssets', () => {
+  it('finds overflowing copy inside groups', () => {
+    const group: BannerAsset = {
+      id: 'group',
+      type: 'group',
+      position: { x: 0, y: 0 },
+      size: { width: 400, height: 200 },
+      rotation: 0,
+      children: [textAsset({ id: 'fits', autoFit: true }), textAsset({ id: 'overflows' })],
+    };
+
+    expect(findOverflowingTextAssets(createRecordingContext(), [group])).toEqual(['overflows']);
+  });
+});
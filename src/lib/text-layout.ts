@@ -0,0 +1,227 @@
+import type { BannerAsset, TextRun } from '@/types/banner-editor';
+import { getAssetRuns } from './text-runs';
+
+/**
+ * Measured layout for text and CTA assets.
+ * Runs are wrapped to the asset box with ctx.measureText, each piece measured with its own font,
+ * so alignment and line heights stay correct when sizes and weights are mixed.
+ * Assets with autoFit shrink (between minFontSize and maxFontSize) until the copy fits the box.
+ */
+
+export type TextMeasureContext = Pick<CanvasRenderingContext2D, 'font' | 'measureText'>;
+
+export const LINE_HEIGHT_RATIO = 1.2;
+// Smallest size auto-fit shrinks to when the asset doesn't set minFontSize
+export const MIN_AUTO_FIT_FONT_SIZE = 12;
+// Horizontal room kept between CTA copy and the button edges
+export const CTA_TEXT_PADDING = 12;
+
+const AUTO_FIT_ITERATIONS = 8;
+
+export interface TextSegment {
+  text: string;
+  font: string;
+  color: string;
+  fontSize: number;
+  underline: boolean;
+  letterSpacing: number;
+  width: number;
+}
+
+export interface TextLine {
+  segments: TextSegment[];
+  width: number;
+  // Largest font size on the line, which sets its height
+  fontSize: number;
+  height: number;
+}
+
+export interface TextLayout {
+  lines: TextLine[];
+  height: number;
+}
+
+export interface TextFit {
+  layout: TextLayout;
+  // Applied to every font size in the asset (1 when autoFit is off)
+  fontScale: number;
+  overflows: boolean;
+}
+
+type SegmentStyle = Omit<TextSegment, 'text' | 'width'>;
+
+/**
+ * Resolve a run's style against the asset defaults
+ */
+export function resolveRunStyle(asset: BannerAsset, run: TextRun, fontScale: number = 1): SegmentStyle {
+  const fontSize = (run.fontSize ?? asset.fontSize ?? 16) * fontScale;
+  const weight = run.bold === undefined ? (asset.fontWeight || 'normal') : run.bold ? 'bold' : 'normal';
+  const style = run.italic ? 'italic' : 'normal';
+
+  return {
+    font: `${style} ${weight} ${fontSize}px ${asset.fontFamily}`,
+    color: run.color ?? asset.color ?? '#000000',
+    fontSize,
+    underline: !!run.underline,
+    letterSpacing: (asset.letterSpacing ?? 0) * fontScale
+  };
+}
+
+export function measureSegmentText(ctx: TextMeasureContext, text: string, style: SegmentStyle): number {
+  ctx.font = style.font;
+  return ctx.measureText(text).width + style.letterSpacing * text.length;
+}
+
+function getTextBoxWidth(asset: BannerAsset): number {
+  return Math.max(1, asset.size.width - (asset.type === 'cta' ? CTA_TEXT_PADDING * 2 : 0));
+}
+
+/**
+ * Lay out the asset's runs, wrapping at spaces (or inside words that are wider than the box)
+ */
+export function layoutText(ctx: TextMeasureContext, asset: BannerAsset, fontScale: number = 1): TextLayout {
+  const maxWidth = getTextBoxWidth(asset);
+  const lineHeightRatio = asset.lineHeight ?? LINE_HEIGHT_RATIO;
+  const lines: TextLine[] = [];
+  let current: TextSegment[] = [];
+  let currentWidth = 0;
+  // Whether the current line was started by wrapping (rather than a manual line break)
+  let isWrappedLine = false;
+
+  const append = (text: string, style: SegmentStyle, width: number) => {
+    const previous = current[current.length - 1];
+    if (previous && previous.font === style.font && previous.color === style.color && previous.underline === style.underline) {
+      current[current.length - 1] = { ...previous, text: previous.text + text, width: previous.width + width };
+    } else {
+      current.push({ ...style, text, width });
+    }
+    currentWidth += width;
+  };
+
+  const closeLine = (wrapping: boolean) => {
+    // Trailing spaces don't count towards alignment
+    const last = current[current.length - 1];
+    if (last && /\s$/.test(last.text)) {
+      const trimmed = last.text.replace(/\s+$/, '');
+      const width = measureSegmentText(ctx, trimmed, last);
+      currentWidth -= last.width - width;
+      if (trimmed) {
+        current[current.length - 1] = { ...last, text: trimmed, width };
+      } else {
+        current.pop();
+      }
+    }
+
+    const fontSize = current.length > 0
+      ? Math.max(...current.map(segment => segment.fontSize))
+      : (asset.fontSize ?? 16) * fontScale;
+    lines.push({ segments: current, width: currentWidth, fontSize, height: fontSize * lineHeightRatio });
+    current = [];
+    currentWidth = 0;
+    isWrappedLine = wrapping;
+  };
+
+  const placeWord = (word: string, style: SegmentStyle) => {
+    const width = measureSegmentText(ctx, word, style);
+    if (currentWidth + width <= maxWidth || (current.length === 0 && width <= maxWidth)) {
+      append(word, style, width);
+      return;
+    }
+
+    if (current.length > 0) closeLine(true);
+
+    if (width <= maxWidth) {
+      append(word, style, width);
+      return;
+    }
+
+    // Word wider than the box: break it between characters
+    Array.from(word).forEach(char => {
+      const charWidth = measureSegmentText(ctx, char, style);
+      if (current.length > 0 && currentWidth + charWidth > maxWidth) closeLine(true);
+      append(char, style, charWidth);
+    });
+  };
+
+  getAssetRuns(asset).forEach(run => {
+    const style = resolveRunStyle(asset, run, fontScale);
+    run.text.split('\n').forEach((paragraph, index) => {
+      if (index > 0) closeLine(false);
+
+      paragraph.split(/(\s+)/).forEach(token => {
+        if (!token) return;
+        if (/^\s+$/.test(token)) {
+          // Spaces never start a wrapped line
+          if (current.length === 0 && isWrappedLine) return;
+          append(token, style, measureSegmentText(ctx, token, style));
+          return;
+        }
+        placeWord(token, style);
+      });
+    });
+  });
+  closeLine(false);
+
+  return { lines, height: lines.reduce((sum, line) => sum + line.height, 0) };
+}
+
+function layoutFits(layout: TextLayout, asset: BannerAsset): boolean {
+  const maxWidth = getTextBoxWidth(asset);
+  return layout.height <= asset.size.height + 0.5 && layout.lines.every(line => line.width <= maxWidth + 0.5);
+}
+
+/**
+ * Lay out an asset at the largest font scale that fits its box (when autoFit is on)
+ * and report whether the copy still overflows
+ */
+export function fitText(ctx: TextMeasureContext, asset: BannerAsset): TextFit {
+  const baseSize = asset.fontSize ?? 16;
+
+  if (!asset.autoFit) {
+    const layout = layoutText(ctx, asset);
+    return { layout, fontScale: 1, overflows: !layoutFits(layout, asset) };
+  }
+
+  const minScale = (asset.minFontSize ?? Math.min(baseSize, MIN_AUTO_FIT_FONT_SIZE)) / baseSize;
+  const maxScale = Math.max(minScale, (asset.maxFontSize ?? baseSize) / baseSize);
+
+  const largest = layoutText(ctx, asset, maxScale);
+  if (layoutFits(largest, asset)) {
+    return { layout: largest, fontScale: maxScale, overflows: false };
+  }
+
+  const smallest = layoutText(ctx, asset, minScale);
+  if (!layoutFits(smallest, asset)) {
+    return { layout: smallest, fontScale: minScale, overflows: true };
+  }
+
+  // Binary search for the largest scale that still fits
+  let low = minScale;
+  let high = maxScale;
+  let best = smallest;
+  for (let i = 0; i < AUTO_FIT_ITERATIONS; i++) {
+    const mid = (low + high) / 2;
+    const layout = layoutText(ctx, asset, mid);
+    if (layoutFits(layout, asset)) {
+      low = mid;
+      best = layout;
+    } else {
+      high = mid;
+    }
+  }
+
+  return { layout: best, fontScale: low, overflows: false };
+}
+
+/**
+ * Ids of text and CTA assets (including those inside groups) whose copy doesn't fit their box
+ */
+export function findOverflowingTextAssets(ctx: TextMeasureContext, assets: BannerAsset[]): string[] {
+  return assets.flatMap(asset => {
+    if (asset.type === 'group') return findOverflowingTextAssets(ctx, asset.children ?? []);
+    if ((asset.type === 'text' || asset.type === 'cta') && asset.text && fitText(ctx, asset).overflows) {
+      return [asset.id];
+    }
+    return [];
+  });
+}
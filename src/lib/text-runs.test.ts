@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import type { TextRun } from '@/types/banner-editor';
+import { applyStyleToRange, isRangeStyled, normalizeRuns, scaleRunFontSizes, updateRunsText } from './text-runs';
+
+const runs: TextRun[] = [{ text: 'Hasta ' }, { text: '30%', bold: true, fontSize: 48 }, { text: ' OFF', color: '#ff0000' }];
+
+describe('updateRunsText', () => {
+  it('keeps the run boundaries around an edit inside a run', () => {
+    expect(updateRunsText(runs, 'Hasta 300% OFF')).toEqual([
+      { text: 'Hasta ' },
+      { text: '300%', bold: true, fontSize: 48 },
+      { text: ' OFF', color: '#ff0000' },
+    ]);
+  });
+
+  it('gives inserted text the style of the character before it', () => {
+    expect(updateRunsText(runs, 'Hasta 30%! OFF')).toEqual([
+      { text: 'Hasta ' },
+      { text: '30%!', bold: true, fontSize: 48 },
+      { text: ' OFF', color: '#ff0000' },
+    ]);
+    expect(updateRunsText(runs, 'Hasta 30% OFF ya')[2]).toEqual({ text: ' OFF ya', color: '#ff0000' });
+  });
+
+  it('drops runs whose text was deleted and leaves unchanged text alone', () => {
+    expect(updateRunsText(runs, 'Hasta OFF')).toEqual([{ text: 'Hasta ' }, { text: 'OFF', color: '#ff0000' }]);
+    expect(updateRunsText(runs, 'Hasta 30% OFF')).toBe(runs);
+  });
+});
+
+describe('scaleRunFontSizes', () => {
+  it('scales sized runs without touching their text', () => {
+    const scaled = scaleRunFontSizes(runs, 0.5);
+
+    expect(scaled?.map(run => run.text)).toEqual(runs.map(run => run.text));
+    expect(scaled?.map(run => run.fontSize)).toEqual([undefined, 24, undefined]);
+    expect(scaleRunFontSizes(runs, 0.1)?.[1].fontSize).toBe(8);
+    expect(scaleRunFontSizes(undefined, 2)).toBeUndefined();
+  });
+});
+
+describe('range styling', () => {
+  it('splits runs at the range and merges identical neighbours', () => {
+    const styled = applyStyleToRange(runs, 0, 6, style => ({ ...style, bold: true, fontSize: 48 }));
+
+    expect(styled).toEqual([{ text: 'Hasta 30%', bold: true, fontSize: 48 }, { text: ' OFF', color: '#ff0000' }]);
+    expect(isRangeStyled(styled, 2, 8, style => !!style.bold)).toBe(true);
+    expect(isRangeStyled(styled, 8, 10, style => !!style.bold)).toBe(false);
+  });
+
+  it('normalizes away empty runs', () => {
+    expect(normalizeRuns([{ text: '' }, { text: 'a' }, { text: 'b' }])).toEqual([{ text: 'ab' }]);
+  });
+});
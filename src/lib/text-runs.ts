@@ -0,0 +1,143 @@
+import type { BannerAsset, TextRun } from '@/types/banner-editor';
+
+/**
+ * Helpers for styled runs inside text assets.
+ * `asset.text` always holds the plain concatenation of the runs, so code that only
+ * needs the copy (layer names, database text fields, inline editing) can ignore runs.
+ */
+
+export type TextRunStyle = Omit<TextRun, 'text'>;
+
+const STYLE_KEYS: (keyof TextRunStyle)[] = ['bold', 'italic', 'underline', 'color', 'fontSize'];
+
+function sameStyle(a: TextRunStyle, b: TextRunStyle): boolean {
+  return STYLE_KEYS.every(key => a[key] === b[key]);
+}
+
+function styleOf(run: TextRun): TextRunStyle {
+  const { text, ...style } = run;
+  return style;
+}
+
+/**
+ * Runs for an asset; plain text becomes a single unstyled run
+ */
+export function getAssetRuns(asset: BannerAsset): TextRun[] {
+  if (asset.runs && asset.runs.length > 0) return asset.runs;
+  return asset.text ? [{ text: asset.text }] : [];
+}
+
+export function runsToText(runs: TextRun[]): string {
+  return runs.map(run => run.text).join('');
+}
+
+/**
+ * Drop empty runs and merge neighbours with identical styles
+ */
+export function normalizeRuns(runs: TextRun[]): TextRun[] {
+  return runs.reduce<TextRun[]>((merged, run) => {
+    if (!run.text) return merged;
+
+    const previous = merged[merged.length - 1];
+    if (previous && sameStyle(styleOf(previous), styleOf(run))) {
+      merged[merged.length - 1] = { ...previous, text: previous.text + run.text };
+    } else {
+      merged.push(run);
+    }
+    return merged;
+  }, []);
+}
+
+/**
+ * Split runs so that `start` and `end` fall on run boundaries
+ */
+function splitRunsAt(runs: TextRun[], start: number, end: number): { before: TextRun[]; inside: TextRun[]; after: TextRun[] } {
+  const before: TextRun[] = [];
+  const inside: TextRun[] = [];
+  const after: TextRun[] = [];
+  let offset = 0;
+
+  runs.forEach(run => {
+    const runStart = offset;
+    const runEnd = offset + run.text.length;
+    offset = runEnd;
+
+    const cuts = [runStart, Math.max(runStart, Math.min(runEnd, start)), Math.max(runStart, Math.min(runEnd, end)), runEnd];
+    const pieces = [
+      run.text.slice(cuts[0] - runStart, cuts[1] - runStart),
+      run.text.slice(cuts[1] - runStart, cuts[2] - runStart),
+      run.text.slice(cuts[2] - runStart, cuts[3] - runStart)
+    ];
+
+    if (pieces[0]) before.push({ ...run, text: pieces[0] });
+    if (pieces[1]) inside.push({ ...run, text: pieces[1] });
+    if (pieces[2]) after.push({ ...run, text: pieces[2] });
+  });
+
+  return { before, inside, after };
+}
+
+/**
+ * Restyle the characters in [start, end). The updater receives each affected run's style.
+ */
+export function applyStyleToRange(
+  runs: TextRun[],
+  start: number,
+  end: number,
+  updateStyle: (style: TextRunStyle) => TextRunStyle
+): TextRun[] {
+  const { before, inside, after } = splitRunsAt(runs, start, end);
+  const restyled = inside.map(run => ({ ...updateStyle(styleOf(run)), text: run.text }));
+  return normalizeRuns([...before, ...restyled, ...after]);
+}
+
+/**
+ * Whether every character in [start, end) matches the predicate
+ */
+export function isRangeStyled(
+  runs: TextRun[],
+  start: number,
+  end: number,
+  predicate: (style: TextRunStyle) => boolean
+): boolean {
+  const { inside } = splitRunsAt(runs, start, end);
+  return inside.length > 0 && inside.every(run => predicate(styleOf(run)));
+}
+
+/**
+ * Carry styles over a plain-text edit: unchanged prefix and suffix keep their runs,
+ * and inserted text takes the style of the character before it.
+ */
+export function updateRunsText(runs: TextRun[], newText: string): TextRun[] {
+  const oldText = runsToText(runs);
+  if (oldText === newText) return runs;
+  if (runs.length === 0) return newText ? [{ text: newText }] : [];
+
+  let prefix = 0;
+  while (prefix < oldText.length && prefix < newText.length && oldText[prefix] === newText[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldText.length - prefix &&
+    suffix < newText.length - prefix &&
+    oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const { before } = splitRunsAt(runs, prefix, prefix);
+  const { after } = splitRunsAt(runs, oldText.length - suffix, oldText.length - suffix);
+  const inserted = newText.slice(prefix, newText.length - suffix);
+  const insertStyle = before.length > 0 ? styleOf(before[before.length - 1]) : styleOf(runs[0]);
+
+  return normalizeRuns([...before, { ...insertStyle, text: inserted }, ...after]);
+}
+
+/**
+ * Scale per-run font sizes (used when an asset's font is scaled for another format or group size)
+ */
+export function scaleRunFontSizes(runs: TextRun[] | undefined, scale: number): TextRun[] | undefined {
+  return runs?.map(run => run.fontSize ? { ...run, fontSize: Math.max(8, Math.round(run.fontSize * scale)) } : run);
+}
@@ -0,0 +1,73 @@
+import type { AIService } from './ai-gateway';
+
+/**
+ * Browser side of the usage ledger the AI routes write (api/_lib/usage.ts): the partner
+ * header, this client's daily quotas and the summaries of the dashboard.
+ */
+
+export interface UsageQuota {
+  used: number;
+  // null when the quota is turned off
+  limit: number | null;
+}
+
+export interface UsageQuotaStatus {
+  // false when the server has no Supabase settings: nothing is recorded and quotas are off
+  recorded: boolean;
+  resetsAt: string;
+  quotas: Record<AIService, UsageQuota>;
+}
+
+export interface UsageTotals {
+  calls: number;
+  cost: number;
+}
+
+export interface UsageSummary extends UsageTotals {
+  failedCalls: number;
+  rejectedCalls: number;
+  averageLatencyMs: number | null;
+  byService: Record<AIService, UsageTotals>;
+  // One entry per UTC day of the period, oldest first
+  byDay: (UsageTotals & { date: string })[];
+  // Most expensive partners first; calls without a partner are left out
+  byPartner: (UsageTotals & { partnerId: string })[];
+}
+
+/**
+ * Header the AI routes read to bill a call to a partner. Quotas are counted per client IP by the server.
+ */
+export function getUsageHeaders(partnerId?: string | null): Record<string, string> {
+  return partnerId ? { 'X-Partner-Id': partnerId } : {};
+}
+
+/**
+ * Whether an error (or its message) comes from a daily quota, HTTP 429 of an AI route
+ */
+export function isUsageQuotaError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return /quota|límite diario/i.test(message);
+}
+
+export async function loadUsageQuotas(): Promise<UsageQuotaStatus> {
+  const response = await fetch('/api/ai/usage');
+  if (!response.ok) {
+    throw new Error(`Failed to load usage quotas: ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+}
+
+/**
+ * Calls and estimated cost of the last days (today included), for all users; aggregated by the
+ * server since only its service role can read the ledger
+ */
+export async function loadUsageSummary(days: number = 7): Promise<UsageSummary> {
+  const response = await fetch(`/api/ai/usage-summary?days=${days}`);
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    console.error('Error fetching usage summary:', response.status, data);
+    throw new Error(`Failed to load usage: ${typeof data.error === 'string' ? data.error : response.statusText}`);
+  }
+  const { summary } = await response.json();
+  return summary;
+}
@@ -0,0 +1,89 @@
+/**
+ * Minimal ZIP reader for uploaded brand kits.
+ * Handles stored and deflated entries (what OS "compress" tools produce) using the browser's
+ * DecompressionStream; ZIP64, encrypted and multi-disk archives are rejected.
+ */
+
+export interface ZipEntry {
+  path: string;
+  data: Blob;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+// End record is 22 bytes plus an optional comment of up to 64KB
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+function findEndOfCentralDirectory(view: DataView): number {
+  const lowest = Math.max(0, view.byteLength - MAX_END_RECORD_SEARCH);
+  for (let offset = view.byteLength - 22; offset >= lowest; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new Error('Not a ZIP archive');
+}
+
+async function inflateEntry(compressed: ArrayBuffer, method: number, path: string): Promise<Blob> {
+  if (method === METHOD_STORED) return new Blob([compressed]);
+
+  if (method === METHOD_DEFLATE) {
+    const stream = new Blob([compressed]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Response(stream).blob();
+  }
+
+  throw new Error(`Unsupported compression method ${method} for ${path}`);
+}
+
+/**
+ * Read every file in a ZIP archive (directories and macOS metadata are skipped)
+ */
+export async function readZipEntries(file: Blob): Promise<ZipEntry[]> {
+  const buffer = await file.arrayBuffer();
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+
+  const end = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+
+  if (offset === 0xffffffff || entryCount === 0xffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const path = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/') || path.startsWith('__MACOSX/')) continue;
+    if (flags & 0x1) throw new Error(`Encrypted ZIP entries are not supported (${path})`);
+    if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt ZIP entry ${path}`);
+    }
+
+    const localNameLength = view.getUint16(localOffset + 26, true);
+    const localExtraLength = view.getUint16(localOffset + 28, true);
+    const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+    const compressed = buffer.slice(dataStart, dataStart + compressedSize);
+
+    entries.push({ path, data: await inflateEntry(compressed, method, path) });
+  }
+
+  return entries;
+}
@@ -1,5 +1,9 @@
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
+import { loadAIGatewayStatus } from './lib/ai-gateway'
 import './index.css'
 
+// Know which AI features the server can run before the forms render
+loadAIGatewayStatus();
+
 createRoot(document.getElementById("root")!).render(<App />);
@@ -10,7 +10,9 @@ import PartnerList from '@/components/PartnerList';
 import PartnerCreationForm from '@/components/PartnerCreationForm';
 import BannerHistory from '@/components/BannerHistory';
 import BannerGeneration from '@/components/BannerGeneration';
+import BatchBannerGeneration from '@/components/BatchBannerGeneration';
 import BannerEditor from '@/components/BannerEditor';
+import UsageDashboard from '@/components/UsageDashboard';
 import '@/lib/storage-test'; // Import storage test to run automatically
 
 const Index = () => {
@@ -123,6 +125,9 @@ const Index = () => {
               ))}
             </div>
 
+            {/* AI usage */}
+            <UsageDashboard partners={partners} />
+
             {/* Partners Grid */}
             <Card className="bg-white border border-brand-100 shadow-sm">
               <CardHeader className="flex flex-row items-center justify-between">
@@ -353,6 +358,9 @@ const Index = () => {
       case 'banner-list':
         return <BannerHistory onEditBanner={handleEditBanner} />;
 
+      case 'batch-banners':
+        return <BatchBannerGeneration />;
+
       case 'partner-banners':
         const selectedPartner = partners.find(p => p.id === selectedPartnerId);
         return <BannerHistory partnerId={selectedPartnerId} partnerName={selectedPartner?.name} onCreateBanner={() => handleCreateBannerForPartner(selectedPartnerId)} onEditBanner={handleEditBanner} />;
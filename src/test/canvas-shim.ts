@@ -0,0 +1,79 @@
+/**
+ * Minimal 2D canvas for Node tests: records every drawing call and state change as a line of
+ * text, for snapshots. Text is measured as 0.55em per character, so layouts are deterministic.
+ */
+
+export interface RecordingContext extends CanvasRenderingContext2D {
+  // One entry per call or property set, e.g. "fillRect(0, 0, 10, 10)" or "fillStyle = #fff"
+  readonly calls: string[];
+}
+
+const CHARACTER_WIDTH_EM = 0.55;
+const RECORDED_PROPERTIES = [
+  'fillStyle', 'strokeStyle', 'lineWidth', 'font', 'textAlign', 'textBaseline',
+  'shadowColor', 'shadowOffsetX', 'shadowOffsetY', 'shadowBlur', 'globalAlpha',
+] as const;
+
+function formatValue(value: unknown): string {
+  if (typeof value === 'number') return String(Math.round(value * 100) / 100);
+  if (typeof value === 'string') return value;
+  if (value && typeof value === 'object' && 'label' in value) return String(value.label);
+  return JSON.stringify(value);
+}
+
+function getFontSize(font: string): number {
+  const match = font.match(/(\d+(?:\.\d+)?)px/);
+  return match ? Number(match[1]) : 10;
+}
+
+/**
+ * Stand-in for an image; drawn images show up by their src in the recorded calls
+ */
+export function createFakeImage(src: string, width: number, height: number): CanvasImageSource {
+  return { label: `image(${src})`, naturalWidth: width, naturalHeight: height, width, height } as unknown as CanvasImageSource;
+}
+
+export function createRecordingContext(): RecordingContext {
+  const calls: string[] = [];
+  const state: Record<string, unknown> = { font: '10px sans-serif', fillStyle: '#000000', strokeStyle: '#000000' };
+  let gradientCount = 0;
+
+  const record = (name: string) => (...args: unknown[]) => {
+    calls.push(`${name}(${args.map(formatValue).join(', ')})`);
+  };
+
+  const createGradient = (kind: string) => (...args: unknown[]) => {
+    const label = `${kind}Gradient#${++gradientCount}`;
+    calls.push(`${label} = create${kind[0].toUpperCase()}${kind.slice(1)}Gradient(${args.map(formatValue).join(', ')})`);
+    return {
+      label,
+      addColorStop: (offset: number, color: string) => calls.push(`${label}.addColorStop(${formatValue(offset)}, ${color})`),
+    };
+  };
+
+  const context: Record<string, unknown> = {
+    calls,
+    measureText: (text: string) => ({ width: text.length * getFontSize(String(state.font)) * CHARACTER_WIDTH_EM }),
+    createLinearGradient: createGradient('linear'),
+    createRadialGradient: createGradient('radial'),
+  };
+  [
+    'save', 'restore', 'translate', 'rotate', 'scale', 'fillRect', 'clearRect', 'fillText', 'strokeText',
+    'drawImage', 'beginPath', 'closePath', 'moveTo', 'lineTo', 'quadraticCurveTo', 'arc', 'ellipse', 'rect',
+    'fill', 'stroke', 'clip',
+  ].forEach(name => {
+    context[name] = record(name);
+  });
+
+  RECORDED_PROPERTIES.forEach(property => {
+    Object.defineProperty(context, property, {
+      get: () => state[property],
+      set: (value: unknown) => {
+        state[property] = value;
+        calls.push(`${property} = ${formatValue(value)}`);
+      },
+    });
+  });
+
+  return context as unknown as RecordingContext;
+}
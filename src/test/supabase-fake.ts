@@ -0,0 +1,132 @@
+/**
+ * In-memory stand-in for the Supabase client, covering the table and storage calls the banner
+ * pipeline makes: rows are kept per table and uploads per bucket path, for tests to inspect.
+ */
+
+type Row = Record<string, unknown>;
+type Result<T> = { data: T; error: { message: string } | null };
+
+export interface FakeSupabase {
+  tables: Record<string, Row[]>;
+  // Uploaded files by "bucket/path"
+  files: Map<string, Blob>;
+  from: (table: string) => FakeQuery;
+  storage: { from: (bucket: string) => FakeBucket };
+}
+
+interface FakeQuery extends PromiseLike<Result<Row[] | null>> {
+  select: (columns?: string) => FakeQuery;
+  insert: (row: Row) => FakeQuery;
+  update: (patch: Row) => FakeQuery;
+  delete: () => FakeQuery;
+  eq: (column: string, value: unknown) => FakeQuery;
+  in: (column: string, values: unknown[]) => FakeQuery;
+  order: (column: string, options?: { ascending?: boolean }) => FakeQuery;
+  single: () => Promise<Result<Row | null>>;
+  maybeSingle: () => Promise<Result<Row | null>>;
+}
+
+interface FakeBucket {
+  upload: (path: string, file: Blob, options?: unknown) => Promise<Result<{ path: string } | null>>;
+  getPublicUrl: (path: string) => { data: { publicUrl: string } };
+  list: (folder: string) => Promise<Result<{ name: string }[]>>;
+  remove: (paths: string[]) => Promise<Result<null>>;
+}
+
+export const FAKE_STORAGE_URL = 'https://storage.test';
+
+export function createFakeSupabase(): FakeSupabase {
+  const tables: Record<string, Row[]> = {};
+  const files = new Map<string, Blob>();
+  const getTable = (table: string) => (tables[table] ??= []);
+
+  const from = (table: string): FakeQuery => {
+    const filters: ((row: Row) => boolean)[] = [];
+    let action: { type: 'select' } | { type: 'insert'; row: Row } | { type: 'update'; patch: Row } | { type: 'delete' } = { type: 'select' };
+
+    const run = (): Result<Row[]> => {
+      const rows = getTable(table);
+      if (action.type === 'insert') {
+        const now = new Date().toISOString();
+        const row = { created_at: now, updated_at: now, ...defaultsFor(table), ...action.row };
+        rows.push(row);
+        return { data: [row], error: null };
+      }
+
+      const matches = rows.filter(row => filters.every(filter => filter(row)));
+      if (action.type === 'update') {
+        const { patch } = action;
+        matches.forEach(row => Object.assign(row, patch));
+      } else if (action.type === 'delete') {
+        tables[table] = rows.filter(row => !matches.includes(row));
+      }
+      return { data: matches.map(row => ({ ...row })), error: null };
+    };
+
+    const query: FakeQuery = {
+      // A select after an insert or update returns the written rows, like PostgREST
+      select: () => query,
+      insert: row => {
+        action = { type: 'insert', row };
+        return query;
+      },
+      update: patch => {
+        action = { type: 'update', patch };
+        return query;
+      },
+      delete: () => {
+        action = { type: 'delete' };
+        return query;
+      },
+      eq: (column, value) => {
+        filters.push(row => row[column] === value);
+        return query;
+      },
+      in: (column, values) => {
+        filters.push(row => values.includes(row[column]));
+        return query;
+      },
+      order: () => query,
+      single: async () => {
+        const { data } = run();
+        return data.length === 1 ? { data: data[0], error: null } : { data: null, error: { message: `Expected one ${table} row, found ${data.length}` } };
+      },
+      maybeSingle: async () => ({ data: run().data[0] ?? null, error: null }),
+      then: (onFulfilled, onRejected) => Promise.resolve().then(run).then(onFulfilled, onRejected),
+    };
+    return query;
+  };
+
+  const storage = {
+    from: (bucket: string): FakeBucket => ({
+      upload: async (path, file) => {
+        files.set(`${bucket}/${path}`, file);
+        return { data: { path }, error: null };
+      },
+      getPublicUrl: path => ({ data: { publicUrl: `${FAKE_STORAGE_URL}/${bucket}/${path}` } }),
+      list: async folder => ({
+        data: Array.from(files.keys())
+          .filter(key => key.startsWith(`${bucket}/${folder}/`))
+          .map(key => ({ name: key.slice(bucket.length + folder.length + 2) })),
+        error: null,
+      }),
+      remove: async paths => {
+        paths.forEach(path => files.delete(`${bucket}/${path}`));
+        return { data: null, error: null };
+      },
+    }),
+  };
+
+  return { tables, files, from, storage };
+}
+
+// Column defaults the app relies on when it reads back an inserted row
+function defaultsFor(table: string): Row {
+  if (table === 'generation_jobs') {
+    return {
+      status: 'pending', current_step: 'analyze', steps: {}, artifacts: {}, progress: 0,
+      status_text: null, error: null, banner_id: null,
+    };
+  }
+  return {};
+}
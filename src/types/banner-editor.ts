@@ -6,32 +6,80 @@ export interface BannerComposition {
   canvasSize: { width: number; height: number };
   zoom: number;
   lastModified: Date;
+  // Partner fonts the composition's text may use; registered before drawing or exporting
+  fonts?: BrandFont[];
 }
 
+// A font file a partner uploaded to storage
+export interface BrandFont {
+  family: string;
+  url: string;
+  // CSS font-weight, e.g. '400' or '700'
+  weight: string;
+  style: 'normal' | 'italic';
+  format: 'woff2' | 'truetype';
+}
+
+// Layout slot an asset fills, used to re-lay out compositions across formats
+export type AssetRole = 'logo' | 'product' | 'mainText' | 'descriptionText' | 'ctaButton';
+
 export interface BannerAsset {
   id: string;
-  type: 'logo' | 'text' | 'cta' | 'product';
+  type: 'logo' | 'text' | 'cta' | 'product' | 'group';
+  role?: AssetRole;
   position: { x: number; y: number };
   size: { width: number; height: number };
   rotation: number;
+  // Layer order (higher draws on top); older compositions fall back to array order
+  zIndex?: number;
+  // Hidden layers are not rendered; locked layers can't be picked or moved on the canvas
+  hidden?: boolean;
+  locked?: boolean;
   // For logo and product assets
   imageUrl?: string;
+  // Brand kit logo variant in imageUrl; picked from the background unless chosen by hand
+  logoVariant?: 'light' | 'dark' | 'mono';
+  logoVariantLocked?: boolean;
   // For text assets
   text?: string;
+  // Styled spans of `text` (their concatenation always equals `text`)
+  runs?: TextRun[];
   fontSize?: number;
   fontFamily?: string;
   color?: string;
   fontWeight?: 'normal' | 'bold';
   textAlign?: 'left' | 'center' | 'right';
+  // Line height as a multiple of the font size (default 1.2) and extra spacing between letters in px
+  lineHeight?: number;
+  letterSpacing?: number;
+  // Shrink (or grow up to maxFontSize) so the copy fits the box; fontSize is the reference size
+  autoFit?: boolean;
+  minFontSize?: number;
+  maxFontSize?: number;
   // For CTA button assets
   backgroundColor?: string;
   borderRadius?: number;
   borderColor?: string;
   borderWidth?: number;
+  // For group assets, positioned relative to the group
+  children?: BannerAsset[];
+}
+
+// A span of text with its own style; unset fields inherit from the asset
+export interface TextRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  color?: string;
+  fontSize?: number;
 }
 
 export interface EditorState {
+  // Primary selection, drives the per-type toolbars and resize handles
   selectedAssetId: string | null;
+  // Every selected asset (includes selectedAssetId)
+  selectedAssetIds: string[];
   isDragging: boolean;
   isResizing: boolean;
   dragOffset: { x: number; y: number };
@@ -40,7 +88,9 @@ export interface EditorState {
 }
 
 export interface ExportOptions {
-  format: 'png' | 'jpg';
+  format: 'png' | 'jpg' | 'webp';
+  // 0-1, ignored for PNG
   quality: number;
+  // 1x, 2x or 3x the composition canvas size
   scale: number;
 } 
\ No newline at end of file
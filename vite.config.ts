@@ -1,8 +1,78 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv, type Connect, type Plugin, type ViteDevServer } from "vite";
+import type { ServerResponse } from "http";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import fs from "fs";
 import { componentTagger } from "lovable-tagger";
 
+const SERVER_ENV_KEYS = [
+  'OPENAI_API_KEY', 'FLUX_API_KEY', 'VITE_OPENAI_API_KEY', 'VITE_FLUX_API_KEY',
+  // Usage ledger and quotas
+  'SUPABASE_URL', 'SUPABASE_SERVICE_ROLE_KEY', 'VITE_SUPABASE_URL',
+  'USAGE_DAILY_OPENAI_LIMIT', 'USAGE_DAILY_FLUX_LIMIT',
+];
+
+// Run a Vercel function of api/ in the dev server, with the res.status()/res.json() helpers Vercel adds
+async function runApiRoute(server: ViteDevServer, file: string, req: Connect.IncomingMessage, res: ServerResponse) {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  try {
+    let body = '';
+    for await (const chunk of req) body += chunk;
+
+    const { default: handler } = await server.ssrLoadModule(file);
+    const apiRes = Object.assign(res, {
+      status(code: number) {
+        res.statusCode = code;
+        return apiRes;
+      },
+      json(data: unknown) {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(data));
+      },
+    });
+    await handler(Object.assign(req, { body: body || undefined, query: Object.fromEntries(url.searchParams) }), apiRes);
+  } catch (error) {
+    console.error('API route error:', error);
+    res.statusCode = 500;
+    res.end(JSON.stringify({ error: 'Internal server error' }));
+  }
+}
+
+// Serve the api/ai routes and the image proxy from the dev server, the way Vercel serves them in production
+function aiRoutesDevServer(): Plugin {
+  return {
+    name: 'ai-routes-dev-server',
+    config(_config, { mode }) {
+      // Provider keys and usage settings from .env are read by the routes through process.env, never by the client bundle
+      const env = loadEnv(mode, process.cwd(), '');
+      for (const name of SERVER_ENV_KEYS) {
+        if (env[name] && !process.env[name]) process.env[name] = env[name];
+      }
+    },
+    configureServer(server) {
+      server.middlewares.use('/api/ai', async (req, res) => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        const route = url.pathname.replace(/^\/+/, '');
+        const file = path.resolve(__dirname, 'api/ai', `${route}.ts`);
+
+        if (!/^[a-z-]+$/.test(route) || !fs.existsSync(file)) {
+          res.statusCode = 404;
+          res.end(JSON.stringify({ error: `Unknown AI route: ${route}` }));
+          return;
+        }
+
+        await runApiRoute(server, file, req, res);
+      });
+      server.middlewares.use('/api/image-proxy-sign', (req, res) =>
+        runApiRoute(server, path.resolve(__dirname, 'api/image-proxy-sign.ts'), req, res)
+      );
+      server.middlewares.use('/api/image-proxy', (req, res) =>
+        runApiRoute(server, path.resolve(__dirname, 'api/image-proxy.ts'), req, res)
+      );
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
@@ -25,6 +95,9 @@ export default defineConfig(({ mode }) => ({
           });
           proxy.on('proxyReq', (proxyReq, req, _res) => {
             console.log('Proxying Flux API request:', req.method, req.url);
+            // The browser no longer sends the Flux key; add it here like api/flux does in production
+            const fluxApiKey = process.env.FLUX_API_KEY || process.env.VITE_FLUX_API_KEY;
+            if (fluxApiKey) proxyReq.setHeader('x-key', fluxApiKey);
           });
           proxy.on('proxyRes', (proxyRes, req, _res) => {
             console.log('Flux API response:', proxyRes.statusCode, req.url);
@@ -45,53 +118,11 @@ export default defineConfig(({ mode }) => ({
           });
         },
       },
-      // Universal image proxy - proxy to external image URLs
-      '/api/image-proxy': {
-        target: 'https://delivery-us1.bfl.ai', // Default target, will be overridden
-        changeOrigin: true,
-        configure: (proxy, _options) => {
-          proxy.on('proxyReq', (proxyReq, req, _res) => {
-            // Extract the actual URL from the query parameter
-            try {
-              const url = new URL(req.url!, 'http://localhost:8080');
-              const targetUrl = url.searchParams.get('url');
-              
-              if (targetUrl) {
-                console.log('🖼️ Proxying image request to:', targetUrl);
-                
-                // Parse the target URL to get host and path
-                const target = new URL(targetUrl);
-                
-                // Update the proxy request to go to the actual target
-                proxyReq.host = target.host;
-                proxyReq.path = target.pathname + target.search;
-                proxyReq.setHeader('Host', target.host);
-                proxyReq.setHeader('User-Agent', 'Mozilla/5.0 (compatible; ImageProxy/1.0)');
-                proxyReq.setHeader('Accept', 'image/png,image/jpeg,image/*,*/*');
-                proxyReq.setHeader('Accept-Encoding', 'identity');
-                
-                // Remove the original query params from the proxy request
-                proxyReq.removeHeader('Referer');
-                proxyReq.removeHeader('Origin');
-              }
-            } catch (error) {
-              console.error('🖼️ Proxy configuration error:', error);
-            }
-          });
-          
-          proxy.on('proxyRes', (proxyRes, req, _res) => {
-            console.log('🖼️ Proxy response:', proxyRes.statusCode, proxyRes.headers['content-type']);
-          });
-          
-          proxy.on('error', (err, _req, _res) => {
-            console.error('🖼️ Proxy error:', err);
-          });
-        },
-      },
     },
   },
   plugins: [
     react(),
+    aiRoutesDevServer(),
     mode === 'development' &&
     componentTagger(),
   ].filter(Boolean),